@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
 import { 
   LayoutDashboard, 
@@ -17,10 +17,23 @@ import {
   Moon,
   Truck,
   Contact,
-  UserCircle
+  UserCircle,
+  Undo2,
+  Redo2,
+  Lock,
+  FileCheck
 } from 'lucide-react';
-import { AppData, ViewType, DraftInvoice, LogEntry, Sale, Role, CartItem } from './types';
+import { AppData, ViewType, LogEntry, Sale, Role, CartItem, OverrideApproval } from './types';
 import { storageService } from './services/storage';
+import { backupStorage } from './services/backupStorage';
+import { createEmptyLedger } from './services/migrations';
+import { executeCommand, stampActor, LedgerCommand } from './services/commands';
+import { journal } from './services/journal';
+import { calculateCashBalance } from './services/operations';
+import { activeDrafts } from './services/drafts';
+import { SYSTEM_ADMIN, PERMISSION_LABELS, Operator, operatorFor, hasPermission, deniedMessage, Permission, PermissionDeniedError, recordDenial } from './services/permissions';
+import { isSignInEnabled, autoLockMinutes, MAX_PIN_ATTEMPTS } from './services/staffAuth';
+import { restrictionFor, OverrideRestriction, OVERRIDE_LABELS } from './services/overrides';
 import { translations, Language } from './translations';
 import Dashboard from './components/Dashboard';
 import SalesScreen from './components/SalesScreen';
@@ -36,6 +49,9 @@ import DeliveryScreen from './components/DeliveryScreen';
 import CustomersScreen from './components/CustomersScreen';
 import EmployeesScreen from './components/EmployeesScreen';
 import SaleDetailsModal from './components/SaleDetailsModal';
+import LockScreen from './components/LockScreen';
+import OverrideModal from './components/OverrideModal';
+import EInvoicesScreen from './components/EInvoicesScreen';
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewType>('dashboard');
@@ -46,39 +62,36 @@ const App: React.FC = () => {
     return (localStorage.getItem('twinx_theme') as 'light' | 'dark') || 'dark';
   });
   
-  // Role State (Default to admin for full access)
-  const [userRole, setUserRole] = useState<Role>('admin');
+  // Who is signed in at the till; null while the lock screen is up. Their role and HR
+  // permissions decide what the app lets them do. The last one is remembered for the lock screen.
+  const [sessionId, setSessionId] = useState<string | null>(SYSTEM_ADMIN.id);
+  const [lastOperatorId, setLastOperatorId] = useState<string | null>(() => localStorage.getItem('twinx_operator'));
 
   // TWINX INTEGRITY: Track selected ID instead of object to ensure reactivity
   const [selectedSaleId, setSelectedSaleId] = useState<string | null>(null);
+  const [overridePrompt, setOverridePrompt] = useState<{ restriction: OverrideRestriction; resume: (approval: OverrideApproval) => void } | null>(null);
 
   // Cart Pre-fill State (For Re-Order functionality)
   const [itemsToLoad, setItemsToLoad] = useState<CartItem[]>([]);
   
-  const [data, setData] = useState<AppData>({
-    products: [],
-    sales: [],
-    expenses: [],
-    returns: [],
-    drafts: [],
-    logs: [],
-    partners: [],
-    wholesaleTransactions: [],
-    drivers: [],
-    customers: [],
-    employees: [],
-    attendance: [],
-    salaryTransactions: [],
-    categories: [],
-    stockLogs: [],
-    shifts: [],
-    initialCash: 0,
-    draftExpiryMinutes: 120,
-    currency: 'EGP',
-  });
+  const [data, setData] = useState<AppData>(createEmptyLedger);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const dataRef = useRef(data);
+  dataRef.current = data;
 
   const t = translations[lang];
 
+  // Without an administrator PIN there is no sign-in and everyone works as the administrator.
+  // With one, a deleted or deactivated employee is signed out on the spot.
+  const signInEnabled = isSignInEnabled(data);
+  const signedIn = useMemo(() => sessionId ? operatorFor(data, sessionId) : undefined, [data.employees, sessionId]);
+  const isLocked = isLoaded && signInEnabled && !signedIn;
+  const operator = (signInEnabled ? signedIn : SYSTEM_ADMIN) || SYSTEM_ADMIN;
+  const userRole = operator.role;
+  const operatorRef = useRef(operator);
+  operatorRef.current = operator;
+
   // Derive the active sale from the master ledger (Reactive)
   const selectedSale = useMemo(() => 
     data.sales.find(s => s.id === selectedSaleId) || null, 
@@ -101,47 +114,62 @@ const App: React.FC = () => {
   }, [theme]);
 
   useEffect(() => {
-    const loadedData = storageService.loadData();
-    const now = Date.now();
-    const expiryMs = (loadedData.draftExpiryMinutes || 120) * 60 * 1000;
-    const activeDrafts = (loadedData.drafts || []).filter(
-      (d: DraftInvoice) => now - d.timestamp < expiryMs
-    );
-
-    const cleanedData: AppData = {
-      ...loadedData,
-      returns: loadedData.returns || [],
-      drafts: activeDrafts,
-      logs: loadedData.logs || [],
-      partners: loadedData.partners || [],
-      wholesaleTransactions: loadedData.wholesaleTransactions || [],
-      drivers: loadedData.drivers || [],
-      customers: loadedData.customers || [],
-      employees: loadedData.employees || [],
-      attendance: loadedData.attendance || [],
-      salaryTransactions: loadedData.salaryTransactions || [],
-      categories: loadedData.categories || [],
-      stockLogs: loadedData.stockLogs || [],
-      shifts: loadedData.shifts || [],
-      currency: loadedData.currency || 'EGP'
-    };
+    storageService.loadData().then(loadedData => {
+      const liveDrafts = activeDrafts(loadedData);
+      const cleanedData: AppData = { ...loadedData, drafts: liveDrafts };
 
-    setData(cleanedData);
-    if (activeDrafts.length !== (loadedData.drafts || []).length) {
-      storageService.saveData(cleanedData);
-    }
+      if (isSignInEnabled(cleanedData)) setSessionId(null);
+      setData(cleanedData);
+      setIsLoaded(true);
+      if (liveDrafts.length !== loadedData.drafts.length) {
+        storageService.saveData(cleanedData, loadedData);
+      }
+    }).catch((err: Error) => {
+      console.error("Failed to load ledger", err);
+      setLoadError(err.message);
+    });
   }, []);
 
+  // Other tabs share the same database: adopt their commits, and tell the cashier when a change here lost the race.
+  useEffect(() => {
+    if (!isLoaded) return;
+    return storageService.subscribe((freshData, reason) => {
+      journal.clear();
+      // Commands dispatched before the next render must already build on the fresh copy.
+      dataRef.current = freshData;
+      setData(freshData);
+      if (reason === 'conflict') {
+        alert(lang === 'ar'
+          ? 'تم تعديل البيانات من نافذة أخرى. لم يتم حفظ آخر تغيير هنا، تم تحميل أحدث نسخة.'
+          : 'The ledger was changed in another tab. Your last change here was not saved; the latest data has been loaded.');
+      }
+    });
+  }, [isLoaded, lang]);
+
+  // Rolling OPFS snapshots: checked every minute, written once the configured interval has passed.
+  useEffect(() => {
+    if (!isLoaded || !backupStorage.isSupported()) return;
+    const runSnapshot = () => {
+      backupStorage.runScheduledSnapshot(dataRef.current).catch(err => console.error("Automatic snapshot failed", err));
+    };
+    runSnapshot();
+    const timer = setInterval(runSnapshot, 60 * 1000);
+    return () => clearInterval(timer);
+  }, [isLoaded, data.autoBackupIntervalMinutes, data.autoBackupRetention]);
+
+  // Changes made outside the command path cannot be replayed around, so they end the undo history.
   const updateData = useCallback((newData: Partial<AppData>) => {
+    journal.clear();
     setData(prev => {
       const updated = { ...prev, ...newData };
-      storageService.saveData(updated);
+      storageService.saveData(updated, prev);
       return updated;
     });
   }, []);
 
   const addLog = useCallback((log: Omit<LogEntry, 'id' | 'timestamp'>) => {
     const newLog: LogEntry = {
+      actorId: operatorRef.current.id,
       ...log,
       id: crypto.randomUUID(),
       timestamp: Date.now()
@@ -151,11 +179,121 @@ const App: React.FC = () => {
         ...prev, 
         logs: [newLog, ...(prev.logs || [])].slice(0, 5000)
       };
-      storageService.saveData(updated);
+      storageService.saveData(updated, prev);
       return updated;
     });
   }, []);
 
+  const replaceData = useCallback((newData: AppData) => {
+    journal.clear();
+    setData(newData);
+  }, []);
+
+  const commit = useCallback((updated: AppData, base: AppData) => {
+    dataRef.current = updated;
+    setData(updated);
+    storageService.saveData(updated, base);
+  }, []);
+
+  // Every business action goes through here. Runs against the latest ledger so that
+  // back-to-back commands chain, and throws synchronously when a command is rejected.
+  // Refused commands leave only an audit log entry behind.
+  const dispatch = useCallback((command: LedgerCommand): AppData => {
+    const current = dataRef.current;
+    let updated: AppData;
+    try {
+      updated = executeCommand(current, command, operatorRef.current);
+    } catch (err) {
+      if (err instanceof PermissionDeniedError) commit(recordDenial(current, err), current);
+      throw err;
+    }
+    journal.record(command, current, updated);
+    commit(updated, current);
+    return updated;
+  }, [commit]);
+
+  const handleUndo = useCallback((direction: 'undo' | 'redo') => {
+    try {
+      const current = dataRef.current;
+      const restored = direction === 'undo' ? journal.undo(current, userRole) : journal.redo(current, userRole);
+      commit(stampActor(current, restored, operatorRef.current.id), current);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  }, [commit, userRole]);
+
+  // --- STAFF SESSION ---
+  const signIn = useCallback((signingIn: Operator) => {
+    addLog({ action: 'SIGN_IN', category: 'system', details: `${signingIn.name} (${signingIn.role}) signed in`, actorId: signingIn.id });
+    localStorage.setItem('twinx_operator', signingIn.id);
+    setLastOperatorId(signingIn.id);
+    setSessionId(signingIn.id);
+  }, [addLog]);
+
+  const lockSession = useCallback((reason: 'switch' | 'inactivity') => {
+    const leaving = operatorRef.current;
+    addLog({
+      action: reason === 'switch' ? 'SIGN_OUT' : 'AUTO_LOCK',
+      category: 'system',
+      details: reason === 'switch' ? `${leaving.name} signed out` : `Locked after inactivity; ${leaving.name} signed out`,
+      actorId: leaving.id
+    });
+    setSelectedSaleId(null);
+    setOverridePrompt(null);
+    setSessionId(null);
+  }, [addLog]);
+
+  const handleFailedSignIn = useCallback((target: Operator, attempts: number) => {
+    addLog({
+      action: 'SIGN_IN_FAILED',
+      category: 'system',
+      details: `Wrong PIN for ${target.name} (attempt ${attempts} of ${MAX_PIN_ATTEMPTS})`,
+      actorId: target.id
+    });
+  }, [addLog]);
+
+  const handleFailedOverride = useCallback((restriction: OverrideRestriction, approver: Operator, attempts: number) => {
+    addLog({
+      action: 'OVERRIDE_FAILED',
+      category: 'system',
+      details: `Wrong PIN for ${approver.name} approving ${OVERRIDE_LABELS[restriction.action].en}, asked by ${operatorRef.current.name} (attempt ${attempts} of ${MAX_PIN_ATTEMPTS})`
+    });
+  }, [addLog]);
+
+  // Auto-lock: any input counts as activity; the clock is checked every 15 seconds.
+  useEffect(() => {
+    const minutes = autoLockMinutes(data);
+    if (!signInEnabled || isLocked || minutes <= 0) return;
+    let lastActivity = Date.now();
+    const touch = () => { lastActivity = Date.now(); };
+    const activityEvents = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+    activityEvents.forEach(name => window.addEventListener(name, touch, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity >= minutes * 60 * 1000) lockSession('inactivity');
+    }, 15 * 1000);
+    return () => {
+      activityEvents.forEach(name => window.removeEventListener(name, touch));
+      clearInterval(timer);
+    };
+  }, [signInEnabled, isLocked, data.autoLockMinutes, lockSession]);
+
+  // With staff sign-in on, deleting an invoice needs a manager's approval instead of a confirm
+  const handleDeleteSale = (saleId: string, override?: OverrideApproval) => {
+    const command: LedgerCommand = { type: 'DELETE_SALE', saleId, override };
+    const restriction = !override && restrictionFor(dataRef.current, command, operator);
+    if (restriction) {
+      setOverridePrompt({ restriction, resume: approval => handleDeleteSale(saleId, approval) });
+      return;
+    }
+    if (!override && !confirm(lang === 'ar' ? 'هل أنت متأكد من حذف هذه الفاتورة؟ سيتم إرجاع الأصناف للمخزون وخصمها من حساب العميل.' : 'Delete invoice? Its items go back into stock and come off the customer\'s totals.')) return;
+    try {
+      dispatch(command);
+      setSelectedSaleId(null);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
   // Handle Re-Order from Delivery Screen
   const handleLoadCart = (items: CartItem[]) => {
     setItemsToLoad(items);
@@ -164,45 +302,22 @@ const App: React.FC = () => {
 
   // --- FINANCIAL TRUTH ---
   // Calculates 'Cash in Drawer' by excluding pending/cancelled deliveries and unpaid wholesale
-  const cashBalance = useMemo(() => {
-    // 1. Retail Sales: Only 'completed' or 'delivered' count. 'pending' is money with driver.
-    const realizedRetailSales = data.sales.reduce((acc, sale) => {
-      if (sale.status === 'completed' || sale.status === 'delivered') {
-        return acc + (sale.paidAmount || 0);
-      }
-      return acc;
-    }, 0);
-
-    const totalExpenses = data.expenses.reduce((acc, exp) => acc + exp.amount, 0);
-    const totalRefunds = data.returns?.reduce((acc, ret) => acc + ret.totalRefund, 0) || 0;
-    const totalSalaries = (data.salaryTransactions || []).reduce((acc, sal) => acc + sal.amount, 0);
-    
-    // 2. Wholesale: Cash received (Sales) or Paid out (Purchases)
-    const totalWholesaleReceived = (data.wholesaleTransactions || [])
-      .filter(t => t.type === 'sale')
-      .reduce((acc, t) => acc + t.paidAmount, 0);
-    const totalWholesalePaidOut = (data.wholesaleTransactions || [])
-      .filter(t => t.type === 'purchase')
-      .reduce((acc, t) => acc + t.paidAmount, 0);
-
-    // FIXED: Subtract totalSalaries to reflect actual cash on hand
-    return data.initialCash + realizedRetailSales + totalWholesaleReceived - totalExpenses - totalRefunds - totalWholesalePaidOut - totalSalaries;
-  }, [data]);
+  const cashBalance = useMemo(() => calculateCashBalance(data), [data]);
 
   const renderView = () => {
     const setSaleId = (sale: Sale) => setSelectedSaleId(sale.id);
 
     switch (view) {
       case 'dashboard':
-        return <Dashboard data={data} updateData={updateData} lang={lang} setView={setView} onSelectSale={setSaleId} cashBalance={cashBalance} />;
+        return <Dashboard data={data} dispatch={dispatch} lang={lang} setView={setView} onSelectSale={setSaleId} cashBalance={cashBalance} />;
       case 'sales':
-        return <SalesScreen data={data} updateData={updateData} addLog={addLog} lang={lang} initialCart={itemsToLoad} clearInitialCart={() => setItemsToLoad([])} />;
+        return <SalesScreen data={data} dispatch={dispatch} lang={lang} initialCart={itemsToLoad} clearInitialCart={() => setItemsToLoad([])} operator={operator} />;
       case 'inventory':
-        return <InventoryScreen data={data} updateData={updateData} addLog={addLog} lang={lang} />;
+        return <InventoryScreen data={data} dispatch={dispatch} lang={lang} operator={operator} />;
       case 'expenses':
-        return <ExpensesScreen data={data} updateData={updateData} addLog={addLog} lang={lang} />;
+        return <ExpensesScreen data={data} dispatch={dispatch} lang={lang} />;
       case 'returns':
-        return <ReturnsScreen data={data} updateData={updateData} addLog={addLog} lang={lang} />;
+        return <ReturnsScreen data={data} dispatch={dispatch} lang={lang} />;
       case 'reports':
         return <ReportsScreen data={data} lang={lang} onSelectSale={setSaleId} />;
       case 'intelligence':
@@ -210,17 +325,19 @@ const App: React.FC = () => {
       case 'logs':
         return <AuditLogScreen data={data} lang={lang} />;
       case 'wholesale':
-        return <WholesaleScreen data={data} updateData={updateData} addLog={addLog} lang={lang} />;
+        return <WholesaleScreen data={data} dispatch={dispatch} lang={lang} />;
       case 'delivery':
-        return <DeliveryScreen data={data} updateData={updateData} addLog={addLog} lang={lang} onSelectSale={setSaleId} onReorder={handleLoadCart} />;
+        return <DeliveryScreen data={data} dispatch={dispatch} lang={lang} onSelectSale={setSaleId} onReorder={handleLoadCart} operator={operator} />;
       case 'customers':
-        return <CustomersScreen data={data} updateData={updateData} addLog={addLog} lang={lang} onSelectSale={setSaleId} />;
+        return <CustomersScreen data={data} dispatch={dispatch} lang={lang} onSelectSale={setSaleId} />;
       case 'hr':
-        return <EmployeesScreen data={data} updateData={updateData} addLog={addLog} lang={lang} />;
+        return <EmployeesScreen data={data} dispatch={dispatch} lang={lang} />;
+      case 'einvoices':
+        return <EInvoicesScreen data={data} dispatch={dispatch} lang={lang} onSelectSale={setSaleId} />;
       case 'settings':
-        return <SettingsScreen data={data} updateData={updateData} setData={setData} addLog={addLog} lang={lang} />;
+        return <SettingsScreen data={data} updateData={updateData} setData={replaceData} addLog={addLog} dispatch={dispatch} lang={lang} />;
       default:
-        return <Dashboard data={data} updateData={updateData} lang={lang} setView={setView} onSelectSale={setSaleId} cashBalance={cashBalance} />;
+        return <Dashboard data={data} dispatch={dispatch} lang={lang} setView={setView} onSelectSale={setSaleId} cashBalance={cashBalance} />;
     }
   };
 
@@ -230,19 +347,21 @@ const App: React.FC = () => {
       label: string;
       icon: React.ReactNode;
       roles: Role[];
+      permission?: Permission; // Also needed, on top of the role
     }
     const items: NavItem[] = [
       { id: 'dashboard', label: t.dashboard, icon: <LayoutDashboard size={20} />, roles: ['admin', 'cashier', 'delivery', 'manager'] },
       { id: 'sales', label: t.sales, icon: <ShoppingCart size={20} />, roles: ['admin', 'cashier', 'manager'] },
       { id: 'wholesale', label: t.wholesale, icon: <Users size={20} />, roles: ['admin', 'manager'] },
       { id: 'customers', label: t.customers, icon: <Contact size={20} />, roles: ['admin', 'cashier', 'manager'] },
-      { id: 'hr', label: t.hr, icon: <UserCircle size={20} />, roles: ['admin', 'manager'] },
+      { id: 'hr', label: t.hr, icon: <UserCircle size={20} />, roles: ['admin', 'manager'], permission: 'canManageStaff' },
       { id: 'delivery', label: t.delivery, icon: <Truck size={20} />, roles: ['admin', 'cashier', 'delivery', 'manager'] },
       { id: 'inventory', label: t.inventory, icon: <Package size={20} />, roles: ['admin', 'cashier', 'manager'] },
-      { id: 'reports', label: t.reports, icon: <BarChart3 size={20} />, roles: ['admin', 'manager'] },
+      { id: 'reports', label: t.reports, icon: <BarChart3 size={20} />, roles: ['admin', 'manager'], permission: 'canViewReports' },
       { id: 'returns', label: t.returns, icon: <RotateCcw size={20} />, roles: ['admin', 'cashier', 'manager'] },
       { id: 'expenses', label: t.expenses, icon: <Receipt size={20} />, roles: ['admin', 'manager'] },
-      { id: 'intelligence', label: t.intelligence, icon: <Zap size={20} />, roles: ['admin', 'manager'] },
+      { id: 'intelligence', label: t.intelligence, icon: <Zap size={20} />, roles: ['admin', 'manager'], permission: 'canViewReports' },
+      { id: 'einvoices', label: t.einvoices, icon: <FileCheck size={20} />, roles: ['admin', 'manager'], permission: 'canSubmitEInvoices' },
       { id: 'logs', label: t.logs, icon: <ShieldCheck size={20} />, roles: ['admin', 'manager'] },
       { id: 'settings', label: t.settings, icon: <SettingsIcon size={20} />, roles: ['admin'] },
     ];
@@ -250,6 +369,45 @@ const App: React.FC = () => {
     return items.filter(item => item.roles.includes(userRole));
   }, [t, userRole]);
 
+  // Someone signing in whose role cannot open the current screen starts on the dashboard
+  useEffect(() => {
+    if (!navItems.some(item => item.id === view)) setView('dashboard');
+  }, [navItems]);
+
+  // Screens the role may open but the operator's permissions keep shut
+  const blockedPermission = navItems.find(item => item.id === view)?.permission;
+  const isViewBlocked = !!blockedPermission && !hasPermission(operator, blockedPermission);
+
+  const openView = (item: { id: string; permission?: Permission }) => {
+    if (item.permission && !hasPermission(operator, item.permission)) {
+      addLog({ action: 'PERMISSION_DENIED', category: 'system', details: `${operator.name} (${operator.role}) tried to open ${item.id} without "${PERMISSION_LABELS[item.permission].en}"` });
+    }
+    setView(item.id as ViewType);
+  };
+
+  // Refuse to run on top of a ledger we could not read, so nothing gets overwritten.
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-zinc-950 light:bg-zinc-50 flex items-center justify-center p-8">
+        <div className="max-w-xl w-full bg-zinc-900 light:bg-white border border-red-900/40 rounded-[40px] p-10 space-y-6 text-start">
+          <div className="flex items-center gap-3 text-red-500">
+            <ShieldCheck size={28} />
+            <h2 className="text-xl font-black uppercase tracking-widest">{lang === 'ar' ? 'تعذر تحميل البيانات' : 'Ledger could not be loaded'}</h2>
+          </div>
+          <p className="text-sm text-zinc-400 light:text-zinc-600">{lang === 'ar' ? 'لم يتم تعديل أي بيانات. يرجى استعادة نسخة احتياطية سليمة أو التواصل مع الدعم.' : 'No data was modified. Restore a valid backup or contact support.'}</p>
+          <pre className="text-xs text-orange-500 bg-black/40 light:bg-zinc-100 rounded-2xl p-4 whitespace-pre-wrap font-mono">{loadError}</pre>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLocked) {
+    return <LockScreen data={data} lang={lang} lastOperatorId={lastOperatorId} onSignIn={signIn} onFailedAttempt={handleFailedSignIn} />;
+  }
+
+  const undoEntry = journal.peekUndo();
+  const redoEntry = journal.peekRedo();
+
   return (
     <div className={`flex min-h-screen bg-zinc-950 light:bg-zinc-50 text-zinc-100 light:text-zinc-900 overflow-hidden transition-all duration-500`}>
       <aside className={`fixed top-0 bottom-0 ${lang === 'ar' ? 'right-0' : 'left-0'} w-64 border-zinc-800 light:border-zinc-200 bg-black light:bg-white flex flex-col border-e shrink-0 transition-all duration-500 z-50`}>
@@ -262,13 +420,27 @@ const App: React.FC = () => {
           <div className="mt-2 inline-block px-2 py-0.5 rounded bg-zinc-900 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 text-[8px] font-black text-red-500 uppercase tracking-widest">
             {userRole} Access
           </div>
+          {signInEnabled && (
+            <button
+              onClick={() => lockSession('switch')}
+              title={lang === 'ar' ? 'قفل وتبديل المستخدم' : 'Lock and switch user'}
+              className="mt-3 w-full flex items-center justify-between gap-2 bg-zinc-900 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl px-3 py-2 hover:border-red-500 transition-all group"
+            >
+              <span className="text-[10px] font-black uppercase tracking-widest text-zinc-400 light:text-zinc-600 truncate">
+                {operator.id === SYSTEM_ADMIN.id && lang === 'ar' ? 'المدير العام' : operator.name}
+              </span>
+              <span className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-zinc-500 group-hover:text-red-500">
+                <Lock size={12} /> {lang === 'ar' ? 'تبديل' : 'Switch'}
+              </span>
+            </button>
+          )}
         </div>
 
         <nav className="flex-1 p-4 space-y-1 overflow-y-auto scrollbar-none">
           {navItems.map((item) => (
             <button
               key={item.id}
-              onClick={() => setView(item.id as ViewType)}
+              onClick={() => openView(item)}
               className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-300 ${
                 view === item.id 
                 ? 'bg-red-600 text-white shadow-xl shadow-red-900/20 scale-[1.02]' 
@@ -284,6 +456,22 @@ const App: React.FC = () => {
         </nav>
 
         <div className="p-4 border-t border-zinc-800 light:border-zinc-200 space-y-2">
+          {journal.canUndo(userRole) && (
+            <div className="grid grid-cols-2 gap-2">
+              {([['undo', undoEntry, Undo2, t.undo], ['redo', redoEntry, Redo2, t.redo]] as const).map(([direction, entry, Icon, label]) => (
+                <button
+                  key={direction}
+                  onClick={() => handleUndo(direction)}
+                  disabled={!entry}
+                  title={entry ? `${label}: ${journal.label(entry, lang)} — ${entry.summary}` : label}
+                  className="flex items-center justify-center gap-2 px-3 py-3 rounded-xl bg-zinc-900/50 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 hover:bg-zinc-800 light:hover:bg-zinc-200 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
+                >
+                  <Icon size={16} className="text-zinc-500" />
+                  <span className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600">{label}</span>
+                </button>
+              ))}
+            </div>
+          )}
           <button 
             onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
             className="w-full flex items-center justify-between px-4 py-3 rounded-xl bg-zinc-900/50 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 hover:bg-zinc-800 light:hover:bg-zinc-200 transition-all group overflow-hidden relative"
@@ -324,7 +512,12 @@ const App: React.FC = () => {
         </header>
 
         <div className="flex-1 overflow-auto bg-zinc-950 light:bg-zinc-50 transition-all duration-500 p-6">
-          {renderView()}
+          {isViewBlocked ? (
+            <div className="h-full flex flex-col items-center justify-center text-center gap-4 py-20">
+              <Lock size={48} className="text-red-500" />
+              <p className="font-black uppercase tracking-widest text-sm text-zinc-400 light:text-zinc-600">{deniedMessage(blockedPermission!, lang)}</p>
+            </div>
+          ) : renderView()}
         </div>
       </main>
 
@@ -335,18 +528,32 @@ const App: React.FC = () => {
           lang={lang} 
           currency={data.currency || 'EGP'}
           customers={data.customers}
-          onClose={() => setSelectedSaleId(null)} 
-          onUpdate={(updatedSale) => {
-            const updatedSales = data.sales.map(s => s.id === updatedSale.id ? updatedSale : s);
-            updateData({ sales: updatedSales });
-            addLog({ action: 'SALE_EDITED', category: 'sale', details: `Edited invoice ${updatedSale.id.split('-')[0]}` });
-          }}
-          onDelete={(id) => {
-            if (confirm(lang === 'ar' ? 'هل أنت متأكد من حذف هذه الفاتورة؟ لن يتم استرجاع المخزون تلقائياً.' : 'Delete invoice? Stock will not be automatically restored.')) {
-              updateData({ sales: data.sales.filter(s => s.id !== id) });
-              addLog({ action: 'SALE_DELETED', category: 'sale', details: `Deleted invoice ${id.split('-')[0]}` });
-              setSelectedSaleId(null);
+          canDelete={hasPermission(operator, 'canDeleteInvoice') || signInEnabled}
+          eDocument={data.eDocuments.find(d => d.sourceId === selectedSale.id && d.status !== 'rejected')}
+          onQueueEDocument={data.etaIssuer && hasPermission(operator, 'canSubmitEInvoices') ? () => {
+            try {
+              dispatch({ type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId: selectedSale.id });
+            } catch (err: any) {
+              alert(err.message);
             }
+          } : undefined}
+          onClose={() => setSelectedSaleId(null)} 
+          onDelete={(id) => handleDeleteSale(id)}
+        />
+      )}
+
+      {overridePrompt && (
+        <OverrideModal
+          data={data}
+          lang={lang}
+          operator={operator}
+          restriction={overridePrompt.restriction}
+          onCancel={() => setOverridePrompt(null)}
+          onFailedAttempt={(approver, attempts) => handleFailedOverride(overridePrompt.restriction, approver, attempts)}
+          onApprove={(approval) => {
+            const { resume } = overridePrompt;
+            setOverridePrompt(null);
+            resume(approval);
           }}
         />
       )}
@@ -1,8 +1,9 @@
 
 import React, { useState, useMemo } from 'react';
 import { AppData, LogEntry } from '../types';
-import { ShieldCheck, Search, Clock, Tag, Hash, Info } from 'lucide-react';
+import { ShieldCheck, Search, Clock, Tag, Hash, Info, UserCircle } from 'lucide-react';
 import { translations, Language } from '../translations';
+import { SYSTEM_ADMIN } from '../services/permissions';
 
 interface AuditLogScreenProps {
   data: AppData;
@@ -14,16 +15,24 @@ const AuditLogScreen: React.FC<AuditLogScreenProps> = ({ data, lang }) => {
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
   const t = translations[lang];
 
+  // Entries written before staff sign-in have no actor
+  const actorName = (log: LogEntry) => {
+    if (!log.actorId) return '---';
+    if (log.actorId === SYSTEM_ADMIN.id) return lang === 'ar' ? 'المدير العام' : SYSTEM_ADMIN.name;
+    return data.employees.find(e => e.id === log.actorId)?.name || log.actorId;
+  };
+
   const filteredLogs = useMemo(() => {
     return (data.logs || [])
       .filter(log => {
         const matchesSearch = log.details.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                             log.action.toLowerCase().includes(searchTerm.toLowerCase());
+                             log.action.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                             actorName(log).toLowerCase().includes(searchTerm.toLowerCase());
         const matchesCategory = categoryFilter === 'all' || log.category === categoryFilter;
         return matchesSearch && matchesCategory;
       })
       .sort((a, b) => b.timestamp - a.timestamp);
-  }, [data.logs, searchTerm, categoryFilter]);
+  }, [data.logs, data.employees, searchTerm, categoryFilter, lang]);
 
   const categories = ['all', 'sale', 'inventory', 'expense', 'return', 'system', 'cash'];
 
@@ -88,6 +97,7 @@ const AuditLogScreen: React.FC<AuditLogScreenProps> = ({ data, lang }) => {
                 <th className="px-8 py-5"><div className="flex items-center gap-2"><Clock size={12}/> {t.timestamp}</div></th>
                 <th className="px-8 py-5"><div className="flex items-center gap-2"><Tag size={12}/> {t.category}</div></th>
                 <th className="px-8 py-5"><div className="flex items-center gap-2"><Hash size={12}/> {t.action}</div></th>
+                <th className="px-8 py-5"><div className="flex items-center gap-2"><UserCircle size={12}/> {lang === 'ar' ? 'المستخدم' : 'User'}</div></th>
                 <th className="px-8 py-5"><div className="flex items-center gap-2"><Info size={12}/> {t.details}</div></th>
               </tr>
             </thead>
@@ -103,6 +113,7 @@ const AuditLogScreen: React.FC<AuditLogScreenProps> = ({ data, lang }) => {
                     </span>
                   </td>
                   <td className="px-8 py-4 text-[11px] font-bold text-zinc-300 uppercase">{log.action}</td>
+                  <td className="px-8 py-4 text-[11px] text-zinc-400">{actorName(log)}</td>
                   <td className="px-8 py-4 text-[11px] text-zinc-400 truncate max-w-xs">{log.details}</td>
                 </tr>
               ))}
@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { AppData, Customer, LogEntry, Sale } from '../types';
+import { AppData, Customer, PaymentMethod, Sale } from '../types';
 import { translations, Language } from '../translations';
 import { 
   Contact, 
@@ -22,23 +22,33 @@ import {
   Store,
   DollarSign,
   Hash,
-  Calendar
+  Calendar,
+  Coins,
+  Printer,
+  CreditCard
 } from 'lucide-react';
+import { CommandDispatcher } from '../services/commands';
+import { money } from '../services/money';
+import { PAYMENT_METHODS, PAYMENT_LABELS } from '../services/payments';
+import { availableCredit, collectableInvoices, customerBalance, customerStatement, retailReceivables, StatementEntry } from '../services/credit';
 
 interface CustomersScreenProps {
   data: AppData;
-  updateData: (newData: Partial<AppData>) => void;
-  addLog: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  dispatch: CommandDispatcher;
   lang: Language;
   onSelectSale: (sale: Sale) => void;
 }
 
-const CustomersScreen: React.FC<CustomersScreenProps> = ({ data, updateData, addLog, lang, onSelectSale }) => {
+const CustomersScreen: React.FC<CustomersScreenProps> = ({ data, dispatch, lang, onSelectSale }) => {
   const t = translations[lang];
   const [searchTerm, setSearchTerm] = useState('');
   const [showFormModal, setShowFormModal] = useState(false);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [creditLimitInput, setCreditLimitInput] = useState<string | null>(null); // Being edited when set
+  const [showCollectModal, setShowCollectModal] = useState(false);
+  const [collection, setCollection] = useState<{ method: PaymentMethod; amount: number; reference: string; saleId: string }>({ method: 'cash', amount: 0, reference: '', saleId: '' });
+  const [statementFrom, setStatementFrom] = useState('');
 
   const [formData, setFormData] = useState<Omit<Customer, 'id' | 'totalPurchases' | 'invoiceCount' | 'channelsUsed' | 'totalPoints' | 'lastOrderTimestamp' | 'lastVisit'>>({
     name: '',
@@ -56,12 +66,10 @@ const CustomersScreen: React.FC<CustomersScreenProps> = ({ data, updateData, add
   const handleSave = () => {
     if (!formData.name || !formData.phone) return;
 
-    if (editingCustomer) {
-      const updated = data.customers.map(c => c.id === editingCustomer.id ? { ...c, ...formData } : c);
-      updateData({ customers: updated });
-      addLog({ action: 'CUSTOMER_UPDATED', category: 'system', details: `Updated profile: ${formData.name}` });
-    } else {
-      const newCustomer: Customer = {
+    const current = editingCustomer && data.customers.find(c => c.id === editingCustomer.id);
+    const customer: Customer = current
+      ? { ...current, ...formData }
+      : {
         ...formData,
         id: crypto.randomUUID(),
         totalPurchases: 0,
@@ -71,8 +79,12 @@ const CustomersScreen: React.FC<CustomersScreenProps> = ({ data, updateData, add
         lastOrderTimestamp: undefined,
         lastVisit: undefined
       };
-      updateData({ customers: [...(data.customers || []), newCustomer] });
-      addLog({ action: 'CUSTOMER_ADDED', category: 'system', details: `Registered customer: ${formData.name} (${formData.phone})` });
+
+    try {
+      dispatch({ type: 'SAVE_CUSTOMER', customer });
+    } catch (err: any) {
+      alert(err.message);
+      return;
     }
 
     setShowFormModal(false);
@@ -82,12 +94,143 @@ const CustomersScreen: React.FC<CustomersScreenProps> = ({ data, updateData, add
 
   const deleteCustomer = (id: string) => {
     if (confirm(t.delete_confirm)) {
-      updateData({ customers: data.customers.filter(c => c.id !== id) });
-      addLog({ action: 'CUSTOMER_REMOVED', category: 'system', details: `Deleted profile ${id}` });
+      try {
+        dispatch({ type: 'DELETE_CUSTOMER', customerId: id });
+      } catch (err: any) {
+        alert(err.message);
+        return;
+      }
       if (selectedCustomer?.id === id) setSelectedCustomer(null);
     }
   };
 
+  const balances = useMemo(
+    () => new Map(retailReceivables(data).map(r => [r.customerId, r.balance])),
+    [data.sales, data.customers, data.currency]
+  );
+
+  // The selected profile as it is in the ledger now, credit limit included
+  const account = useMemo(() => {
+    const customer = selectedCustomer && data.customers.find(c => c.id === selectedCustomer.id);
+    if (!customer) return null;
+    const openInvoices = collectableInvoices(data, customer.id);
+    return {
+      customer,
+      balance: customerBalance(data, customer.id),
+      available: availableCredit(data, customer),
+      openInvoices,
+      collectable: money.sum(openInvoices.map(s => s.remainingAmount), data.currency)
+    };
+  }, [data.customers, data.sales, data.currency, selectedCustomer]);
+
+  const saveCreditLimit = () => {
+    if (!account || creditLimitInput === null) return;
+    try {
+      dispatch({ type: 'SET_CREDIT_LIMIT', customerId: account.customer.id, creditLimit: parseFloat(creditLimitInput) || 0 });
+    } catch (err: any) {
+      alert(err.message);
+      return;
+    }
+    setCreditLimitInput(null);
+  };
+
+  const openCollectModal = () => {
+    if (!account) return;
+    setCollection({ method: 'cash', amount: account.collectable, reference: '', saleId: '' });
+    setShowCollectModal(true);
+  };
+
+  const collectPayment = () => {
+    if (!account || collection.amount <= 0) return;
+    try {
+      dispatch({
+        type: 'COLLECT_PAYMENT',
+        customerId: account.customer.id,
+        payment: { method: collection.method, amount: collection.amount, reference: collection.reference },
+        saleId: collection.saleId || undefined
+      });
+    } catch (err: any) {
+      alert(err.message);
+      return;
+    }
+    setShowCollectModal(false);
+  };
+
+  const statementLabel = (entry: StatementEntry) => {
+    const invoice = `#${entry.saleId.split('-')[0].toUpperCase()}`;
+    const method = entry.method ? ` · ${PAYMENT_LABELS[entry.method][lang]}${entry.reference ? ` #${entry.reference}` : ''}` : '';
+    switch (entry.kind) {
+      case 'invoice': return `${lang === 'ar' ? 'فاتورة' : 'Invoice'} ${invoice}`;
+      case 'payment': return `${lang === 'ar' ? 'دفع عند البيع' : 'Paid at sale'} ${invoice}${method}`;
+      case 'collection': return `${lang === 'ar' ? 'تحصيل' : 'Payment received'} ${invoice}${method}`;
+      case 'return': return `${lang === 'ar' ? 'مرتجع' : 'Return credited'} ${invoice}`;
+    }
+  };
+
+  const printStatement = () => {
+    const printArea = document.getElementById('print-area');
+    if (!printArea || !account) return;
+    const { customer } = account;
+    const currency = data.currency;
+    const locale = lang === 'ar' ? 'ar-EG' : 'en-US';
+    const from = statementFrom ? new Date(statementFrom).getTime() : 0;
+    const statement = customerStatement(data, customer.id, from);
+    const end = lang === 'ar' ? 'left' : 'right';
+    const cell = `padding: 1.5mm 2mm; border-bottom: 1px solid #ccc;`;
+
+    printArea.innerHTML = `
+      <div dir="${lang === 'ar' ? 'rtl' : 'ltr'}" style="padding: 10mm; font-family: Arial, sans-serif; color: black; background: white; font-size: 10pt;">
+        <div style="display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 8mm;">
+          <div>
+            <div style="font-weight: bold; font-size: 18pt;">TWINX POS</div>
+            <div style="font-size: 12pt; margin-top: 2mm;">${lang === 'ar' ? 'كشف حساب عميل' : 'CUSTOMER STATEMENT'}</div>
+          </div>
+          <div style="text-align: ${end};">
+            <div style="font-weight: bold;">${customer.name}</div>
+            <div>${customer.phone}</div>
+            ${customer.address ? `<div>${customer.address}</div>` : ''}
+            <div style="margin-top: 2mm;">${from ? new Date(from).toLocaleDateString(locale) : (lang === 'ar' ? 'منذ البداية' : 'From the start')} — ${new Date().toLocaleDateString(locale)}</div>
+          </div>
+        </div>
+        <table style="width: 100%; border-collapse: collapse;">
+          <thead>
+            <tr style="border-bottom: 2px solid black; font-weight: bold;">
+              <td style="${cell}">${lang === 'ar' ? 'التاريخ' : 'Date'}</td>
+              <td style="${cell}">${lang === 'ar' ? 'البيان' : 'Details'}</td>
+              <td style="${cell} text-align: ${end};">${lang === 'ar' ? 'مدين' : 'Charges'}</td>
+              <td style="${cell} text-align: ${end};">${lang === 'ar' ? 'دائن' : 'Payments'}</td>
+              <td style="${cell} text-align: ${end};">${lang === 'ar' ? 'الرصيد' : 'Balance'}</td>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td style="${cell}"></td>
+              <td style="${cell} font-weight: bold;">${lang === 'ar' ? 'رصيد أول المدة' : 'Opening balance'}</td>
+              <td style="${cell}"></td>
+              <td style="${cell}"></td>
+              <td style="${cell} text-align: ${end}; font-weight: bold;">${money.format(statement.opening, currency)}</td>
+            </tr>
+            ${statement.entries.map(entry => `
+            <tr>
+              <td style="${cell}">${new Date(entry.timestamp).toLocaleDateString(locale)}</td>
+              <td style="${cell}">${statementLabel(entry)}</td>
+              <td style="${cell} text-align: ${end};">${entry.debit ? money.format(entry.debit, currency) : ''}</td>
+              <td style="${cell} text-align: ${end};">${entry.credit ? money.format(entry.credit, currency) : ''}</td>
+              <td style="${cell} text-align: ${end};">${money.format(entry.balance, currency)}</td>
+            </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        <div style="display: flex; justify-content: space-between; font-weight: bold; font-size: 13pt; border-top: 2px solid black; margin-top: 4mm; padding-top: 3mm;">
+          <span>${lang === 'ar' ? 'الرصيد المستحق' : 'Balance due'}</span>
+          <span>${currency} ${money.format(statement.closing, currency)}</span>
+        </div>
+        ${customer.creditLimit ? `<div style="margin-top: 2mm; font-size: 9pt;">${lang === 'ar' ? 'حد الائتمان' : 'Credit limit'}: ${currency} ${money.format(customer.creditLimit, currency)}</div>` : ''}
+      </div>
+    `;
+    window.print();
+  };
+
   const customerInvoices = useMemo(() => {
     if (!selectedCustomer) return [];
     return data.sales
@@ -153,6 +296,7 @@ const CustomersScreen: React.FC<CustomersScreenProps> = ({ data, updateData, add
                      </div>
                    </div>
                  </div>
+                 {balances.has(c.id) && <span className="px-2 py-1 bg-orange-600/10 text-orange-500 text-[9px] font-black rounded-lg border border-orange-500/20 font-mono shrink-0">{data.currency} {money.format(balances.get(c.id)!, data.currency)}</span>}
                </button>
              ))}
            </div>
@@ -204,6 +348,39 @@ const CustomersScreen: React.FC<CustomersScreenProps> = ({ data, updateData, add
                   </div>
                </div>
 
+               {account && (
+                 <div className="px-8 py-5 flex flex-wrap items-center gap-6 shrink-0 bg-black/10 light:bg-zinc-100/50 border-b border-zinc-800/50 light:border-zinc-200 text-start">
+                   <div>
+                     <p className="text-[9px] font-black uppercase text-zinc-500 mb-1">{lang === 'ar' ? 'الرصيد المستحق' : 'Balance Due'}</p>
+                     <p className={`text-xl font-black tracking-tighter ${account.balance > 0 ? 'text-orange-500' : 'text-zinc-400'}`}>{data.currency} {money.format(account.balance, data.currency)}</p>
+                   </div>
+                   <div>
+                     <p className="text-[9px] font-black uppercase text-zinc-500 mb-1">{lang === 'ar' ? 'حد الائتمان' : 'Credit Limit'}</p>
+                     {creditLimitInput === null ? (
+                       <button onClick={() => setCreditLimitInput(String(account.customer.creditLimit || ''))} className="flex items-center gap-2 text-xl font-black tracking-tighter text-zinc-100 light:text-zinc-900 hover:text-blue-500 transition-colors">
+                         {account.customer.creditLimit ? `${data.currency} ${money.format(account.customer.creditLimit, data.currency)}` : (lang === 'ar' ? 'بدون آجل' : 'No credit')}
+                         <Edit2 size={12} className="text-zinc-500" />
+                       </button>
+                     ) : (
+                       <div className="flex items-center gap-2">
+                         <input type="number" min="0" autoFocus className="w-28 bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl px-3 py-1.5 focus:outline-none focus:border-blue-500 text-zinc-100 light:text-zinc-900 font-mono font-bold" value={creditLimitInput} onChange={e => setCreditLimitInput(e.target.value)} onKeyDown={e => e.key === 'Enter' && saveCreditLimit()} />
+                         <button onClick={saveCreditLimit} className="px-3 py-1.5 bg-blue-600 text-white text-[10px] font-black uppercase rounded-xl">{lang === 'ar' ? 'حفظ' : 'Save'}</button>
+                         <button onClick={() => setCreditLimitInput(null)} className="p-1.5 text-zinc-500 hover:text-white"><X size={16}/></button>
+                       </div>
+                     )}
+                   </div>
+                   <div>
+                     <p className="text-[9px] font-black uppercase text-zinc-500 mb-1">{lang === 'ar' ? 'الائتمان المتاح' : 'Available Credit'}</p>
+                     <p className="text-xl font-black tracking-tighter text-emerald-500">{data.currency} {money.format(account.available, data.currency)}</p>
+                   </div>
+                   <div className="flex items-center gap-2 ms-auto">
+                     <input type="date" title={lang === 'ar' ? 'كشف منذ' : 'Statement from'} className="bg-black light:bg-white border border-zinc-800 light:border-zinc-200 rounded-xl px-3 py-2 text-xs text-zinc-100 light:text-zinc-900 focus:outline-none focus:border-blue-500" value={statementFrom} onChange={e => setStatementFrom(e.target.value)} />
+                     <button onClick={printStatement} className="px-4 py-2.5 bg-zinc-800 light:bg-zinc-200 text-zinc-300 light:text-zinc-700 rounded-xl flex items-center gap-2 text-[10px] font-black uppercase tracking-widest hover:bg-zinc-700 transition-all"><Printer size={14}/> {lang === 'ar' ? 'كشف حساب' : 'Statement'}</button>
+                     <button onClick={openCollectModal} disabled={account.collectable <= 0} className="px-4 py-2.5 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-30 text-white rounded-xl flex items-center gap-2 text-[10px] font-black uppercase tracking-widest shadow-lg transition-all"><Coins size={14}/> {lang === 'ar' ? 'تحصيل دفعة' : 'Collect Payment'}</button>
+                   </div>
+                 </div>
+               )}
+
                <div className="flex-1 overflow-y-auto p-8 scrollbar-thin">
                  <div className="flex items-center gap-2 mb-4 text-[10px] font-black uppercase tracking-widest text-zinc-500">
                    <History size={14}/> {t.invoice_history}
@@ -222,7 +399,7 @@ const CustomersScreen: React.FC<CustomersScreenProps> = ({ data, updateData, add
                          <div>
                             <p className="font-black text-xl text-red-500 tracking-tighter">{data.currency} {sale.total.toLocaleString()}</p>
                             <div className="flex justify-end gap-2 mt-1">
-                               {sale.remainingAmount > 0 && <span className="px-1.5 py-0.5 bg-orange-600/10 text-orange-500 text-[8px] font-black rounded border border-orange-500/20 uppercase tracking-widest">{lang === 'ar' ? 'آجل' : 'Debt'}</span>}
+                               {sale.remainingAmount > 0 && sale.status !== 'cancelled' && <span className="px-1.5 py-0.5 bg-orange-600/10 text-orange-500 text-[8px] font-black rounded border border-orange-500/20 uppercase tracking-widest">{lang === 'ar' ? 'مستحق' : 'Due'} {money.format(sale.remainingAmount, data.currency)}</span>}
                                <p className="text-[8px] font-black uppercase tracking-widest text-zinc-600">{t[sale.saleChannel]}</p>
                             </div>
                          </div>
@@ -276,6 +453,69 @@ const CustomersScreen: React.FC<CustomersScreenProps> = ({ data, updateData, add
           </div>
         </div>
       )}
+
+      {/* COLLECT PAYMENT MODAL */}
+      {showCollectModal && account && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/95 backdrop-blur-md p-4 animate-in fade-in">
+          <div className="bg-zinc-900 light:bg-white border border-zinc-800 light:border-zinc-200 w-full max-w-md rounded-[40px] overflow-hidden shadow-2xl animate-in zoom-in-95">
+            <div className="p-8 border-b border-zinc-800 light:border-zinc-200 flex justify-between items-center bg-black/20 light:bg-zinc-50">
+              <div className="text-start">
+                <h4 className="text-2xl font-black tracking-tighter uppercase light:text-zinc-900">{lang === 'ar' ? 'تحصيل دفعة' : 'Collect Payment'}</h4>
+                <p className="text-[10px] font-black uppercase tracking-widest text-zinc-500 mt-1">{account.customer.name} · {lang === 'ar' ? 'المستحق' : 'Owed'} {data.currency} {money.format(account.collectable, data.currency)}</p>
+              </div>
+              <button onClick={() => setShowCollectModal(false)} className="p-3 text-zinc-500 hover:text-white transition-colors"><X size={24}/></button>
+            </div>
+            <div className="p-10 space-y-6 text-start">
+              <div>
+                <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 block mb-2">{lang === 'ar' ? 'الفاتورة' : 'Invoice'}</label>
+                <select
+                  className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl px-4 py-4 focus:outline-none focus:border-blue-500 text-zinc-100 light:text-zinc-900 font-bold"
+                  value={collection.saleId}
+                  onChange={e => {
+                    const invoice = account.openInvoices.find(s => s.id === e.target.value);
+                    setCollection({ ...collection, saleId: e.target.value, amount: invoice ? invoice.remainingAmount : account.collectable });
+                  }}
+                >
+                  <option value="">{lang === 'ar' ? 'الأقدم أولاً' : 'Oldest invoices first'}</option>
+                  {account.openInvoices.map(s => (
+                    <option key={s.id} value={s.id}>#{s.id.split('-')[0].toUpperCase()} · {new Date(s.timestamp).toLocaleDateString()} · {data.currency} {money.format(s.remainingAmount, data.currency)}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 block mb-2">{lang === 'ar' ? 'طريقة الدفع' : 'Method'}</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {PAYMENT_METHODS.map(method => (
+                    <button key={method} onClick={() => setCollection({ ...collection, method })} className={`py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-all ${collection.method === method ? 'bg-blue-600 border-blue-600 text-white' : 'bg-black light:bg-zinc-100 border-zinc-800 light:border-zinc-200 text-zinc-500'}`}>
+                      {PAYMENT_LABELS[method][lang]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 block mb-2">{lang === 'ar' ? 'المبلغ' : 'Amount'}</label>
+                <div className="relative">
+                  <Coins className="absolute left-4 top-1/2 -translate-y-1/2 text-zinc-600" size={18}/>
+                  <input type="number" min="0" autoFocus className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl pl-12 pr-4 py-4 focus:outline-none focus:border-blue-500 text-zinc-100 light:text-zinc-900 font-mono font-bold" value={collection.amount || ''} onChange={e => setCollection({ ...collection, amount: parseFloat(e.target.value) || 0 })} />
+                </div>
+              </div>
+              {collection.method !== 'cash' && (
+                <div>
+                  <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 block mb-2">{lang === 'ar' ? 'المرجع' : 'Reference'}</label>
+                  <div className="relative">
+                    <CreditCard className="absolute left-4 top-1/2 -translate-y-1/2 text-zinc-600" size={18}/>
+                    <input type="text" className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl pl-12 pr-4 py-4 focus:outline-none focus:border-blue-500 text-zinc-100 light:text-zinc-900 font-mono" value={collection.reference} onChange={e => setCollection({ ...collection, reference: e.target.value })} />
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="p-8 bg-black/40 light:bg-zinc-50 border-t border-zinc-800 light:border-zinc-200 flex gap-4">
+              <button onClick={() => setShowCollectModal(false)} className="flex-1 py-4 bg-zinc-800 light:bg-zinc-200 text-zinc-400 font-black uppercase text-xs rounded-2xl tracking-widest">{t.discard}</button>
+              <button onClick={collectPayment} disabled={collection.amount <= 0} className="flex-1 py-4 bg-emerald-600 disabled:opacity-30 text-white font-black uppercase text-xs rounded-2xl shadow-xl shadow-emerald-900/30 tracking-widest">{lang === 'ar' ? 'تسجيل الدفعة' : 'Record Payment'}</button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
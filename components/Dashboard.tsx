@@ -26,11 +26,15 @@ import {
   FileText
 } from 'lucide-react';
 import { translations, Language } from '../translations';
-import { TwinXOps } from '../services/operations';
+import { CommandDispatcher } from '../services/commands';
+import { money } from '../services/money';
+import { PAYMENT_METHODS, PAYMENT_LABELS, shiftPaymentTotals } from '../services/payments';
+import { refundNetOfTax } from '../services/tax';
+import { retailReceivables } from '../services/credit';
 
 interface DashboardProps {
   data: AppData;
-  updateData: (newData: Partial<AppData>) => void;
+  dispatch: CommandDispatcher;
   lang: Language;
   setView: (view: ViewType) => void;
   onSelectSale: (sale: Sale) => void;
@@ -39,20 +43,21 @@ interface DashboardProps {
 
 type DrillDownType = 'net_cash' | 'receivables' | 'payables' | 'net_profit' | 'inventory_alerts';
 
-const Dashboard: React.FC<DashboardProps> = ({ data, updateData, lang, setView, onSelectSale, cashBalance }) => {
+const Dashboard: React.FC<DashboardProps> = ({ data, dispatch, lang, setView, onSelectSale, cashBalance }) => {
   const t = translations[lang];
   const [drillDown, setDrillDown] = useState<DrillDownType | null>(null);
   const [showShiftModal, setShowShiftModal] = useState<'open' | 'close' | null>(null);
   const [shiftAmount, setShiftAmount] = useState<number>(0);
 
   const activeShift = useMemo(() => data.shifts.find(s => s.status === 'open'), [data.shifts]);
+  const shiftTakings = useMemo(() => activeShift ? shiftPaymentTotals(data, activeShift.id) : null, [activeShift, data.sales, data.currency]);
 
   const handleShiftAction = () => {
      try {
        if (showShiftModal === 'open') {
-         updateData(TwinXOps.openShift(data, shiftAmount, 'Admin')); 
+         dispatch({ type: 'OPEN_SHIFT', startCash: shiftAmount });
        } else {
-         updateData(TwinXOps.closeShift(data, shiftAmount, 'Shift Closed via Dashboard'));
+         dispatch({ type: 'CLOSE_SHIFT', endCash: shiftAmount, notes: 'Shift Closed via Dashboard' });
        }
        setShowShiftModal(null);
        setShiftAmount(0);
@@ -69,32 +74,36 @@ const Dashboard: React.FC<DashboardProps> = ({ data, updateData, lang, setView,
     const products = data?.products || [];
 
     // 1. Core Financials (Money Section)
-    const totalRetailReceivables = sales.reduce((acc, s) => acc + (s.status !== 'cancelled' ? (s.remainingAmount || 0) : 0), 0);
-    const totalWholesaleReceivables = wholesale
-      .filter(t => t.type === 'sale')
-      .reduce((acc, t) => acc + (t.total - t.paidAmount), 0);
+    const currency = data?.currency;
+    const totalRetailReceivables = money.sum(sales.filter(s => s.status !== 'cancelled').map(s => s.remainingAmount || 0), currency);
+    const totalWholesaleReceivables = money.sum(
+      wholesale.filter(t => t.type === 'sale').map(t => money.subtract(t.total, t.paidAmount, currency)),
+      currency
+    );
     
-    const receivables = totalRetailReceivables + totalWholesaleReceivables;
+    const receivables = money.add(totalRetailReceivables, totalWholesaleReceivables, currency);
 
-    const payables = wholesale
-      .filter(t => t.type === 'purchase')
-      .reduce((acc, t) => acc + (t.total - t.paidAmount), 0);
+    const payables = money.sum(
+      wholesale.filter(t => t.type === 'purchase').map(t => money.subtract(t.total, t.paidAmount, currency)),
+      currency
+    );
 
     // NET PROFIT CALCULATION REFINED
     const activeSales = sales.filter(s => s.status !== 'cancelled');
     
-    const productRevenue = activeSales.reduce((acc, s) => acc + (s.subtotal - s.totalDiscount), 0);
-    const deliveryIncome = activeSales.reduce((acc, s) => acc + (s.deliveryFee || 0), 0);
-    const cogs = activeSales.reduce((acc, s) => acc + (s.totalCost || 0), 0);
+    // Tax inside inclusive prices is collected for the tax authority, not earned
+    const productRevenue = money.sum(activeSales.map(s => money.sum([s.subtotal, -s.totalDiscount, -(s.pricesIncludeTax ? s.taxTotal || 0 : 0)], currency)), currency);
+    const deliveryIncome = money.sum(activeSales.map(s => s.deliveryFee || 0), currency);
+    const cogs = money.sum(activeSales.map(s => s.totalCost || 0), currency);
     
-    const totalExpenses = expenses.reduce((acc, e) => acc + e.amount, 0);
-    const totalSalaries = salaries.reduce((acc, s) => acc + s.amount, 0);
-    const totalReturns = (data.returns || []).reduce((acc, r) => acc + r.totalRefund, 0);
+    const totalExpenses = money.sum(expenses.map(e => e.amount), currency);
+    const totalSalaries = money.sum(salaries.map(s => s.amount), currency);
+    const totalReturns = money.sum((data.returns || []).map(r => refundNetOfTax(r, currency)), currency);
 
     // Net Profit = (Revenue from Goods + Delivery) - Cost of Goods - Operational Expenses - Salaries - Refunds
-    const netProfit = (productRevenue + deliveryIncome) - cogs - totalExpenses - totalSalaries - totalReturns;
+    const netProfit = money.sum([productRevenue, deliveryIncome, -cogs, -totalExpenses, -totalSalaries, -totalReturns], currency);
 
-    const totalOperatingExpenses = totalExpenses + totalSalaries; // Used for Expense Card display
+    const totalOperatingExpenses = money.add(totalExpenses, totalSalaries, currency); // Used for Expense Card display
 
     // 3. 7-Day Trend Logic
     const last7Days = [...Array(7)].map((_, i) => {
@@ -112,7 +121,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, updateData, lang, setView,
       });
       return { 
         label: day.toLocaleDateString(lang, { weekday: 'short' }),
-        total: daySales.reduce((acc, s) => acc + s.total, 0) 
+        total: money.sum(daySales.map(s => s.total), currency) 
       };
     });
 
@@ -123,6 +132,20 @@ const Dashboard: React.FC<DashboardProps> = ({ data, updateData, lang, setView,
     const thirtyDaysLater = new Date();
     thirtyDaysLater.setDate(now.getDate() + 30);
 
+    const retailAccounts = retailReceivables({ sales, customers: data?.customers || [], currency });
+    const wholesaleAccounts = (data?.partners || [])
+      .map(partner => {
+        const invoices = wholesale.filter(t => t.partnerId === partner.id && t.type === 'sale' && t.total > t.paidAmount);
+        return {
+          partner,
+          balance: money.sum(invoices.map(t => money.subtract(t.total, t.paidAmount, currency)), currency),
+          invoiceCount: invoices.length,
+          oldestTimestamp: Math.min(...invoices.map(t => t.timestamp))
+        };
+      })
+      .filter(a => a.balance > 0)
+      .sort((a, b) => b.balance - a.balance);
+
     const lowStockItems = products.filter(p => p.stock <= (p.minStockLevel || p.minStock || 5));
     const expiringSoon = products.filter(p => {
       if (!p.expiryDate) return false;
@@ -132,6 +155,8 @@ const Dashboard: React.FC<DashboardProps> = ({ data, updateData, lang, setView,
 
     return {
       receivables,
+      retailAccounts,
+      wholesaleAccounts,
       payables,
       netProfit,
       productRevenue,
@@ -336,6 +361,17 @@ const Dashboard: React.FC<DashboardProps> = ({ data, updateData, lang, setView,
                     <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 block mb-2">{showShiftModal === 'open' ? (lang === 'ar' ? 'رصيد البداية' : 'Starting Cash') : (lang === 'ar' ? 'رصيد النهاية (الفعلي)' : 'Closing Cash (Actual)')}</label>
                     <input type="number" className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl px-6 py-4 text-3xl font-black text-red-500" autoFocus value={shiftAmount} onChange={e => setShiftAmount(parseFloat(e.target.value) || 0)} />
                  </div>
+                 {showShiftModal === 'close' && shiftTakings && (
+                    <div className="p-6 bg-zinc-950 light:bg-zinc-100 rounded-3xl border border-zinc-800 light:border-zinc-200 space-y-2">
+                       <p className="text-[10px] font-black uppercase tracking-widest text-zinc-500 mb-2">{lang === 'ar' ? 'مبيعات الوردية حسب طريقة الدفع' : 'Shift takings by method'}</p>
+                       {PAYMENT_METHODS.map(m => (
+                          <div key={m} className={`flex justify-between text-xs font-black uppercase ${m === 'cash' ? 'text-green-500' : 'text-zinc-400'}`}>
+                             <span>{PAYMENT_LABELS[m][lang]}{m === 'cash' ? (lang === 'ar' ? ' (في الدرج)' : ' (in drawer)') : ''}</span>
+                             <span>{data.currency} {shiftTakings[m].toLocaleString()}</span>
+                          </div>
+                       ))}
+                    </div>
+                 )}
                  <button onClick={handleShiftAction} className="w-full py-4 bg-red-600 text-white rounded-2xl font-black uppercase tracking-widest shadow-xl">
                    {lang === 'ar' ? 'تأكيد' : 'Confirm'}
                  </button>
@@ -433,7 +469,37 @@ const Dashboard: React.FC<DashboardProps> = ({ data, updateData, lang, setView,
                         <div className="p-4 bg-blue-500/10 border border-blue-500/20 rounded-2xl text-blue-400 text-sm font-bold text-center">
                            Total: {data.currency} {stats.receivables.toLocaleString()}
                         </div>
-                        {data.customers.filter(c => (c.totalPurchases - (c.invoiceCount * 0 /* Need Logic for Paid vs Credit */)) > 0).length === 0 && <p className="text-center text-zinc-500 py-10">No specific credit data tracked yet per customer invoice.</p>}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-12">
+                          <div className="space-y-4">
+                             <h5 className="text-[11px] font-black uppercase tracking-[0.3em] text-orange-500 flex items-center gap-3"><HandCoins size={18}/> {lang === 'ar' ? 'عملاء التجزئة' : 'Retail Customers'}</h5>
+                             {stats.retailAccounts.map(r => (
+                                <div key={r.customerId || 'walk-in'} className="p-4 bg-zinc-950 light:bg-zinc-100 rounded-2xl flex justify-between items-center">
+                                   <div>
+                                      <p className="font-bold text-sm light:text-zinc-900">{r.name || (lang === 'ar' ? 'عميل نقدي' : 'Walk-in')}{r.phone && <span className="ms-2 text-[10px] font-mono text-zinc-500">{r.phone}</span>}</p>
+                                      <p className="text-[10px] font-black uppercase text-zinc-500 mt-1">{r.invoiceCount} {lang === 'ar' ? 'فاتورة' : 'invoices'} · {lang === 'ar' ? 'منذ' : 'since'} {new Date(r.oldestTimestamp).toLocaleDateString()}</p>
+                                   </div>
+                                   <div className="text-end">
+                                      <p className="font-black text-sm text-orange-500">{data.currency} {money.format(r.balance, data.currency)}</p>
+                                      {r.creditLimit && <p className="text-[10px] font-black uppercase text-zinc-500 mt-1">{lang === 'ar' ? 'الحد' : 'Limit'} {money.format(r.creditLimit, data.currency)}</p>}
+                                   </div>
+                                </div>
+                             ))}
+                             {stats.retailAccounts.length === 0 && <p className="text-center text-zinc-500 py-10 text-xs font-bold uppercase">{lang === 'ar' ? 'لا توجد مديونيات' : 'Nothing owed'}</p>}
+                          </div>
+                          <div className="space-y-4">
+                             <h5 className="text-[11px] font-black uppercase tracking-[0.3em] text-blue-500 flex items-center gap-3"><Scale size={18}/> {lang === 'ar' ? 'تجار الجملة' : 'Wholesale Buyers'}</h5>
+                             {stats.wholesaleAccounts.map(a => (
+                                <div key={a.partner.id} className="p-4 bg-zinc-950 light:bg-zinc-100 rounded-2xl flex justify-between items-center">
+                                   <div>
+                                      <p className="font-bold text-sm light:text-zinc-900">{a.partner.name}<span className="ms-2 text-[10px] font-mono text-zinc-500">{a.partner.contact}</span></p>
+                                      <p className="text-[10px] font-black uppercase text-zinc-500 mt-1">{a.invoiceCount} {lang === 'ar' ? 'فاتورة' : 'invoices'} · {lang === 'ar' ? 'منذ' : 'since'} {new Date(a.oldestTimestamp).toLocaleDateString()}</p>
+                                   </div>
+                                   <p className="font-black text-sm text-blue-500">{data.currency} {money.format(a.balance, data.currency)}</p>
+                                </div>
+                             ))}
+                             {stats.wholesaleAccounts.length === 0 && <p className="text-center text-zinc-500 py-10 text-xs font-bold uppercase">{lang === 'ar' ? 'لا توجد مديونيات' : 'Nothing owed'}</p>}
+                          </div>
+                        </div>
                      </div>
                   )}
                </div>
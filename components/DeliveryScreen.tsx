@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo } from 'react';
-import { AppData, Sale, LogEntry, CartItem } from '../types';
+import { AppData, Sale, CartItem, OverrideApproval } from '../types';
 import { translations, Language } from '../translations';
 import { 
   Truck, 
@@ -18,22 +18,27 @@ import {
   RefreshCw, 
   RotateCcw 
 } from 'lucide-react';
-import { TwinXOps } from '../services/operations';
+import { CommandDispatcher, LedgerCommand } from '../services/commands';
+import { money } from '../services/money';
+import { Operator } from '../services/permissions';
+import { restrictionFor, OverrideRestriction } from '../services/overrides';
+import OverrideModal from './OverrideModal';
 
 interface DeliveryScreenProps {
   data: AppData;
-  updateData: (newData: Partial<AppData>) => void;
-  addLog: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  dispatch: CommandDispatcher;
   lang: Language;
   onSelectSale: (sale: Sale) => void;
   onReorder: (items: CartItem[]) => void;
+  operator: Operator;
 }
 
-const DeliveryScreen: React.FC<DeliveryScreenProps> = ({ data, updateData, addLog, lang, onSelectSale, onReorder }) => {
+const DeliveryScreen: React.FC<DeliveryScreenProps> = ({ data, dispatch, lang, onSelectSale, onReorder, operator }) => {
   const t = translations[lang];
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedDriverId, setSelectedDriverId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState<string | null>(null);
+  const [overridePrompt, setOverridePrompt] = useState<{ restriction: OverrideRestriction; resume: (approval: OverrideApproval) => void } | null>(null);
 
   // Unified Driver Source: Filter from HR
   const deliveryStaff = useMemo(() => {
@@ -60,24 +65,34 @@ const DeliveryScreen: React.FC<DeliveryScreenProps> = ({ data, updateData, addLo
       // Only count non-cancelled orders for cash totals
       const isCountable = sale.status !== 'cancelled';
       return {
-        totalCash: acc.totalCash + (isCountable ? sale.total : 0),
-        totalFees: acc.totalFees + (isCountable ? (sale.deliveryFee || 0) : 0),
+        totalCash: money.add(acc.totalCash, isCountable ? sale.total : 0, data.currency),
+        totalFees: money.add(acc.totalFees, isCountable ? (sale.deliveryFee || 0) : 0, data.currency),
         count: acc.count + (isCountable ? 1 : 0)
       };
     }, { totalCash: 0, totalFees: 0, count: 0 });
-  }, [driverOrders]);
+  }, [driverOrders, data.currency]);
 
   /**
    * TWINX COMMAND: Update status with Event Bubbling protection
    */
   const handleUpdateStatus = (e: React.MouseEvent, saleId: string, status: 'delivered' | 'cancelled' | 'pending') => {
     e.stopPropagation(); // CRITICAL: Stop parent card from opening SaleDetailsModal
+    applyStatus(saleId, status);
+  };
+
+  // Cancelling an order needs a manager's approval once staff sign-in is on
+  const applyStatus = (saleId: string, status: 'delivered' | 'cancelled' | 'pending', override?: OverrideApproval) => {
+    const command: LedgerCommand = { type: 'UPDATE_DELIVERY_STATUS', saleId, status, override };
+    const restriction = !override && restrictionFor(data, command, operator);
+    if (restriction) {
+      setOverridePrompt({ restriction, resume: approval => applyStatus(saleId, status, approval) });
+      return;
+    }
     setIsProcessing(saleId);
     
     try {
       // Snapshot -> Mutate -> Commit
-      const updatedData = TwinXOps.updateDeliveryStatus(data, saleId, status);
-      updateData(updatedData);
+      dispatch(command);
       
       // Visual feedback delay
       setTimeout(() => setIsProcessing(null), 150);
@@ -330,6 +345,21 @@ const DeliveryScreen: React.FC<DeliveryScreenProps> = ({ data, updateData, addLo
            )}
         </div>
       </div>
+
+      {overridePrompt && (
+        <OverrideModal
+          data={data}
+          lang={lang}
+          operator={operator}
+          restriction={overridePrompt.restriction}
+          onCancel={() => setOverridePrompt(null)}
+          onApprove={(approval) => {
+            const { resume } = overridePrompt;
+            setOverridePrompt(null);
+            resume(approval);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,297 @@
+
+import React, { useMemo, useState } from 'react';
+import { AppData, EDocument, EDocumentStatus, Sale } from '../types';
+import { FileCheck, PenTool, Send, XCircle, Download, AlertTriangle, Receipt, Users } from 'lucide-react';
+import { Language } from '../translations';
+import { CommandDispatcher } from '../services/commands';
+import { EDOCUMENT_STATUS_LABELS, documentSigner, signEDocument, isStandInSigned, submissionPayload } from '../services/eInvoice';
+
+interface EInvoicesScreenProps {
+  data: AppData;
+  dispatch: CommandDispatcher;
+  lang: Language;
+  onSelectSale: (sale: Sale) => void;
+}
+
+type StatusFilter = 'all' | EDocumentStatus;
+
+const STATUS_COLORS: Record<EDocumentStatus, string> = {
+  pending: 'text-yellow-500 bg-yellow-500/10 border-yellow-500/20',
+  signed: 'text-blue-500 bg-blue-500/10 border-blue-500/20',
+  submitted: 'text-green-500 bg-green-500/10 border-green-500/20',
+  rejected: 'text-red-500 bg-red-500/10 border-red-500/20'
+};
+
+const downloadJson = (content: unknown, filename: string) => {
+  const blob = new Blob([JSON.stringify(content, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const EInvoicesScreen: React.FC<EInvoicesScreenProps> = ({ data, dispatch, lang, onSelectSale }) => {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [submissionId, setSubmissionId] = useState('');
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const signer = documentSigner();
+  const documents = data.eDocuments;
+  const filtered = useMemo(() => documents.filter(d => statusFilter === 'all' || d.status === statusFilter), [documents, statusFilter]);
+  const selected = documents.find(d => d.id === selectedId);
+  const pending = documents.filter(d => d.status === 'pending');
+  const signed = documents.filter(d => d.status === 'signed' && !isStandInSigned(d));
+
+  const countOf = (status: StatusFilter) => status === 'all' ? documents.length : documents.filter(d => d.status === status).length;
+
+  const showError = (message: string) => {
+    setError(message);
+    setTimeout(() => setError(null), 4000);
+  };
+
+  const run = (action: () => void) => {
+    try {
+      action();
+    } catch (err: any) {
+      showError(err.message);
+    }
+  };
+
+  // Documents are signed one after another, so each receipt chains to the one before it
+  const sign = async (records: EDocument[]) => {
+    setIsSigning(true);
+    try {
+      let current = data;
+      for (const record of records) {
+        const document = await signEDocument(current, current.eDocuments.find(d => d.id === record.id)!, signer);
+        current = dispatch({ type: 'SIGN_EDOCUMENT', documentId: record.id, document, signedBy: signer.name });
+      }
+    } catch (err: any) {
+      showError(err.message);
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const markSubmitted = (record: EDocument) => run(() => {
+    dispatch({ type: 'SET_EDOCUMENT_STATUS', documentId: record.id, status: 'submitted', submissionId });
+    setSubmissionId('');
+  });
+
+  const markRejected = (record: EDocument) => run(() => {
+    dispatch({ type: 'SET_EDOCUMENT_STATUS', documentId: record.id, status: 'rejected', reason: rejectionReason });
+    setRejectionReason('');
+  });
+
+  const discard = (record: EDocument) => {
+    if (!confirm(lang === 'ar' ? 'حذف هذا المستند من قائمة الانتظار؟ يمكن إعادة إضافته من الفاتورة.' : 'Discard this document? It can be queued again from its invoice.')) return;
+    run(() => {
+      dispatch({ type: 'DISCARD_EDOCUMENT', documentId: record.id });
+      setSelectedId(null);
+    });
+  };
+
+  const openSource = (record: EDocument) => {
+    const sale = data.sales.find(s => s.id === record.sourceId);
+    if (sale) onSelectSale(sale);
+  };
+
+  const sourceName = (record: EDocument) => {
+    if (record.kind === 'receipt') return record.document.buyer?.name || (lang === 'ar' ? 'عميل نقدي' : 'Walk-in customer');
+    return record.document.receiver?.name || '---';
+  };
+
+  const formatTime = (timestamp?: number) => timestamp ? new Date(timestamp).toLocaleString(lang === 'ar' ? 'ar-EG' : 'en-US') : '---';
+
+  return (
+    <div className="p-8 h-full flex flex-col gap-6 text-start">
+      <header className="flex flex-col xl:flex-row xl:items-center justify-between gap-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-red-600 rounded-lg">
+            <FileCheck size={24} className="text-white" />
+          </div>
+          <div>
+            <h3 className="text-2xl font-bold tracking-tight text-zinc-100 light:text-zinc-900">{lang === 'ar' ? 'الفواتير الإلكترونية' : 'E-Invoices'}</h3>
+            <p className="text-[10px] text-zinc-500 uppercase tracking-widest font-black">{lang === 'ar' ? 'مصلحة الضرائب المصرية' : 'Egyptian Tax Authority Queue'}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex bg-zinc-900 light:bg-zinc-200 border border-zinc-800 light:border-zinc-300 rounded-xl p-1 gap-1">
+            {(['all', 'pending', 'signed', 'submitted', 'rejected'] as const).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${statusFilter === status ? 'bg-red-600 text-white shadow-lg' : 'text-zinc-500 hover:text-zinc-300'}`}
+              >
+                {status === 'all' ? (lang === 'ar' ? 'الكل' : 'All') : EDOCUMENT_STATUS_LABELS[status][lang]} ({countOf(status)})
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => sign(pending)}
+            disabled={pending.length === 0 || isSigning}
+            className="flex items-center gap-2 px-4 py-3 rounded-xl bg-zinc-100 light:bg-zinc-900 text-zinc-950 light:text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            <PenTool size={14} /> {lang === 'ar' ? 'توقيع المعلّق' : 'Sign Pending'}
+          </button>
+          <button
+            onClick={() => downloadJson(submissionPayload(signed), `eta_batch_${new Date().toISOString().slice(0, 10)}.json`)}
+            disabled={signed.length === 0}
+            className="flex items-center gap-2 px-4 py-3 rounded-xl border border-zinc-800 light:border-zinc-300 text-zinc-400 text-[10px] font-black uppercase tracking-widest disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            <Download size={14} /> {lang === 'ar' ? 'تصدير الموقّع' : 'Export Signed'}
+          </button>
+        </div>
+      </header>
+
+      {isStandInSigned({ signedBy: signer.name }) && (
+        <div className="bg-orange-600/10 border border-orange-500/20 p-4 rounded-2xl flex items-center gap-3">
+          <AlertTriangle size={18} className="text-orange-500 shrink-0" />
+          <p className="text-[10px] text-orange-500 font-black uppercase tracking-widest">
+            {lang === 'ar'
+              ? 'لا يوجد توقيع إلكتروني معتمد متصل. المستندات الموقعة بالتوقيع البديل لا يمكن إرسالها للبوابة.'
+              : 'No signing token is connected. Documents signed by the stand-in signer cannot be sent to the portal.'}
+          </p>
+        </div>
+      )}
+      {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+
+      <div className="flex-1 grid grid-cols-1 xl:grid-cols-3 gap-6 overflow-hidden">
+        <div className="xl:col-span-2 bg-zinc-900/50 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[32px] overflow-y-auto">
+          <table className="w-full border-collapse">
+            <thead className="sticky top-0 bg-zinc-950 light:bg-zinc-100">
+              <tr className="text-[10px] uppercase font-black tracking-widest text-zinc-500 border-b border-zinc-800 light:border-zinc-200">
+                <th className="px-6 py-4 text-start">{lang === 'ar' ? 'المستند' : 'Document'}</th>
+                <th className="px-6 py-4 text-start">{lang === 'ar' ? 'المستلم' : 'Receiver'}</th>
+                <th className="px-6 py-4 text-start">{lang === 'ar' ? 'الإجمالي' : 'Total'}</th>
+                <th className="px-6 py-4 text-start">{lang === 'ar' ? 'أضيف في' : 'Queued'}</th>
+                <th className="px-6 py-4 text-end">{lang === 'ar' ? 'الحالة' : 'Status'}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800/50 light:divide-zinc-200">
+              {filtered.map(record => (
+                <tr
+                  key={record.id}
+                  onClick={() => { setSelectedId(record.id); setSubmissionId(''); setRejectionReason(''); }}
+                  className={`cursor-pointer transition-colors ${record.id === selectedId ? 'bg-zinc-800/50 light:bg-zinc-100' : 'hover:bg-zinc-800/30 light:hover:bg-zinc-50'}`}
+                >
+                  <td className="px-6 py-4">
+                    <div className="flex items-center gap-3">
+                      {record.kind === 'receipt' ? <Receipt size={16} className="text-zinc-500" /> : <Users size={16} className="text-zinc-500" />}
+                      <div>
+                        <p className="font-bold font-mono text-zinc-100 light:text-zinc-900">#{record.internalId}</p>
+                        <p className="text-[10px] font-black uppercase text-zinc-600">{record.kind === 'receipt' ? (lang === 'ar' ? 'إيصال' : 'E-Receipt') : (lang === 'ar' ? 'فاتورة' : 'E-Invoice')}</p>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-xs font-bold text-zinc-400">{sourceName(record)}</td>
+                  <td className="px-6 py-4 font-black text-zinc-100 light:text-zinc-900">EGP {Number(record.document.totalAmount || 0).toLocaleString()}</td>
+                  <td className="px-6 py-4 text-[10px] text-zinc-500">{formatTime(record.timestamp)}</td>
+                  <td className="px-6 py-4 text-end">
+                    <span className={`px-2 py-1 rounded border text-[10px] font-black uppercase ${STATUS_COLORS[record.status]}`}>{EDOCUMENT_STATUS_LABELS[record.status][lang]}</span>
+                  </td>
+                </tr>
+              ))}
+              {filtered.length === 0 && (
+                <tr><td colSpan={5} className="py-24 text-center opacity-20 font-black uppercase text-xs tracking-widest">{lang === 'ar' ? 'لا توجد مستندات' : 'No Documents'}</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-zinc-900/50 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[32px] p-6 overflow-y-auto space-y-6">
+          {!selected ? (
+            <p className="py-24 text-center opacity-20 font-black uppercase text-xs tracking-widest">{lang === 'ar' ? 'اختر مستنداً' : 'Select a document'}</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-xl font-black font-mono text-zinc-100 light:text-zinc-900">#{selected.internalId}</p>
+                  {selected.kind === 'receipt' && data.sales.some(s => s.id === selected.sourceId) && (
+                    <button onClick={() => openSource(selected)} className="text-[10px] font-black uppercase tracking-widest text-red-500 hover:underline">{lang === 'ar' ? 'عرض الفاتورة' : 'Open invoice'}</button>
+                  )}
+                </div>
+                <span className={`px-2 py-1 rounded border text-[10px] font-black uppercase ${STATUS_COLORS[selected.status]}`}>{EDOCUMENT_STATUS_LABELS[selected.status][lang]}</span>
+              </div>
+
+              <div className="space-y-2 text-xs">
+                <div className="flex justify-between"><span className="text-zinc-500">{lang === 'ar' ? 'أضيف' : 'Queued'}</span><span className="font-bold">{formatTime(selected.timestamp)}</span></div>
+                <div className="flex justify-between"><span className="text-zinc-500">{lang === 'ar' ? 'وُقّع' : 'Signed'}</span><span className="font-bold">{formatTime(selected.signedAt)}{selected.signedBy ? ` · ${selected.signedBy}` : ''}</span></div>
+                <div className="flex justify-between"><span className="text-zinc-500">{lang === 'ar' ? 'أُرسل' : 'Submitted'}</span><span className="font-bold">{formatTime(selected.submittedAt)}</span></div>
+                {selected.submissionId && (
+                  <div className="flex justify-between"><span className="text-zinc-500">{lang === 'ar' ? 'رقم البوابة' : 'Portal UUID'}</span><span className="font-bold font-mono">{selected.submissionId}</span></div>
+                )}
+                {selected.kind === 'receipt' && selected.document.header?.uuid && (
+                  <div className="flex justify-between gap-4"><span className="text-zinc-500 shrink-0">UUID</span><span className="font-mono text-[10px] break-all text-end">{selected.document.header.uuid}</span></div>
+                )}
+                {selected.rejectionReason && (
+                  <p className="p-3 rounded-xl bg-red-600/10 text-red-500 font-bold">{selected.rejectionReason}</p>
+                )}
+              </div>
+
+              {selected.status === 'pending' && (
+                <div className="space-y-2">
+                  <button onClick={() => sign([selected])} disabled={isSigning} className="w-full flex items-center justify-center gap-2 py-4 bg-red-600 hover:bg-red-700 disabled:opacity-40 text-white font-black uppercase text-xs rounded-2xl">
+                    <PenTool size={16} /> {lang === 'ar' ? 'توقيع' : 'Sign'} ({signer.name})
+                  </button>
+                  <button onClick={() => discard(selected)} disabled={isSigning} className="w-full flex items-center justify-center gap-2 py-3 bg-zinc-800 light:bg-zinc-200 hover:bg-red-950 text-red-500 disabled:opacity-30 font-black uppercase text-xs rounded-2xl">
+                    <XCircle size={16} /> {lang === 'ar' ? 'حذف المستند' : 'Discard'}
+                  </button>
+                </div>
+              )}
+
+              {selected.status === 'signed' && (
+                <div className="space-y-2">
+                  {isStandInSigned(selected) && (
+                    <p className="text-[10px] font-bold text-orange-500">{lang === 'ar' ? 'موقع بالتوقيع البديل؛ للاختبار فقط.' : 'Signed by the stand-in signer; for testing only.'}</p>
+                  )}
+                  <input
+                    type="text"
+                    value={submissionId}
+                    onChange={(e) => setSubmissionId(e.target.value)}
+                    placeholder={lang === 'ar' ? 'رقم المستند في البوابة (اختياري)' : 'Portal document UUID (optional)'}
+                    className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl py-3 px-4 focus:outline-none focus:border-green-500 text-xs font-mono light:text-zinc-900"
+                  />
+                  <button onClick={() => markSubmitted(selected)} disabled={isStandInSigned(selected)} className="w-full flex items-center justify-center gap-2 py-3 bg-green-600 hover:bg-green-700 disabled:opacity-30 disabled:cursor-not-allowed text-white font-black uppercase text-xs rounded-2xl">
+                    <Send size={16} /> {lang === 'ar' ? 'تم الإرسال' : 'Mark Submitted'}
+                  </button>
+                </div>
+              )}
+
+              {(selected.status === 'signed' || selected.status === 'submitted') && (
+                <div className="space-y-2">
+                  <input
+                    type="text"
+                    value={rejectionReason}
+                    onChange={(e) => setRejectionReason(e.target.value)}
+                    placeholder={lang === 'ar' ? 'سبب الرفض من البوابة' : 'Reason given by the portal'}
+                    className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl py-3 px-4 focus:outline-none focus:border-red-500 text-xs light:text-zinc-900"
+                  />
+                  <button onClick={() => markRejected(selected)} disabled={!rejectionReason.trim()} className="w-full flex items-center justify-center gap-2 py-3 bg-zinc-800 light:bg-zinc-200 hover:bg-red-950 text-red-500 disabled:opacity-30 disabled:cursor-not-allowed font-black uppercase text-xs rounded-2xl">
+                    <XCircle size={16} /> {lang === 'ar' ? 'مرفوض' : 'Mark Rejected'}
+                  </button>
+                </div>
+              )}
+
+              <button onClick={() => downloadJson(submissionPayload([selected]), `eta_${selected.kind}_${selected.internalId}.json`)} className="w-full flex items-center justify-center gap-2 py-3 border border-zinc-800 light:border-zinc-200 text-zinc-400 font-black uppercase text-xs rounded-2xl">
+                <Download size={16} /> {lang === 'ar' ? 'تنزيل JSON' : 'Download JSON'}
+              </button>
+
+              <pre className="text-[10px] text-zinc-400 bg-black/40 light:bg-zinc-100 rounded-2xl p-4 whitespace-pre-wrap break-all font-mono max-h-96 overflow-y-auto">
+                {JSON.stringify(selected.document, null, 2)}
+              </pre>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EInvoicesScreen;
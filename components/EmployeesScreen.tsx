@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo } from 'react';
-import { AppData, Employee, Attendance, SalaryTransaction, LogEntry, Sale } from '../types';
+import { AppData, Employee, Attendance, SalaryTransaction, Sale } from '../types';
 import { translations, Language } from '../translations';
 import { 
   Users, 
@@ -24,24 +24,27 @@ import {
   MapPin,
   CreditCard,
   Lock,
-  Truck
+  Truck,
+  KeyRound
 } from 'lucide-react';
-import { TwinXOps } from '../services/operations';
+import { CommandDispatcher } from '../services/commands';
+import { money } from '../services/money';
+import SetPinModal from './SetPinModal';
 
 interface EmployeesScreenProps {
   data: AppData;
-  updateData: (newData: Partial<AppData>) => void;
-  addLog: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  dispatch: CommandDispatcher;
   lang: Language;
 }
 
-const EmployeesScreen: React.FC<EmployeesScreenProps> = ({ data, updateData, addLog, lang }) => {
+const EmployeesScreen: React.FC<EmployeesScreenProps> = ({ data, dispatch, lang }) => {
   const t = translations[lang];
   const [activeTab, setActiveTab] = useState<'staff' | 'attendance' | 'payroll'>('staff');
   const [searchTerm, setSearchTerm] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
   const [selectedStaff, setSelectedStaff] = useState<Employee | null>(null);
   const [showPayrollModal, setShowPayrollModal] = useState(false);
+  const [pinEmployee, setPinEmployee] = useState<Employee | null>(null);
   
   // Filters for Modal
   const [historyMonth, setHistoryMonth] = useState(new Date().getMonth());
@@ -61,7 +64,8 @@ const EmployeesScreen: React.FC<EmployeesScreenProps> = ({ data, updateData, add
       canApplyDiscount: false,
       canViewReports: false,
       canManageStaff: false,
-      canEditInventory: false
+      canEditInventory: false,
+      canSubmitEInvoices: false
     }
   });
 
@@ -83,16 +87,15 @@ const EmployeesScreen: React.FC<EmployeesScreenProps> = ({ data, updateData, add
 
   const handleAttendanceAction = (id: string, action: 'check_in' | 'check_out' | 'break_start' | 'break_end') => {
     try {
-      const updatedData = TwinXOps.recordAttendanceAction(data, id, action);
-      updateData(updatedData);
+      dispatch({ type: 'RECORD_ATTENDANCE', employeeId: id, action });
     } catch (err: any) {
       alert(err.message);
     }
   };
 
   const calculatePerformance = (empId: string) => {
-    const sales = data.sales.filter(s => s.driverId === empId || s.id.includes(empId)); // Simplified attribution
-    const total = sales.reduce((acc, s) => acc + s.total, 0);
+    const sales = data.sales.filter(s => s.employeeId === empId || s.driverId === empId);
+    const total = money.sum(sales.map(s => s.total), data.currency);
     return { count: sales.length, total };
   };
 
@@ -174,6 +177,7 @@ const EmployeesScreen: React.FC<EmployeesScreenProps> = ({ data, updateData, add
                       <div className="flex items-center gap-3">
                         <div className="w-10 h-10 rounded-2xl bg-zinc-800 light:bg-zinc-100 flex items-center justify-center font-black text-xs text-zinc-400">{emp.name.charAt(0)}</div>
                         <span className="font-bold text-zinc-100 light:text-zinc-900">{emp.name}</span>
+                        {emp.pin && <KeyRound size={12} className="text-zinc-500" />}
                       </div>
                     </td>
                     <td className="px-8 py-4">
@@ -182,7 +186,8 @@ const EmployeesScreen: React.FC<EmployeesScreenProps> = ({ data, updateData, add
                     <td className="px-8 py-4 text-xs text-zinc-500 font-mono">{emp.phone}</td>
                     <td className="px-8 py-4 font-black text-red-500">{data.currency} {emp.baseSalary.toLocaleString()}</td>
                     <td className="px-8 py-4 text-end">
-                      <button onClick={(e) => { e.stopPropagation(); updateData({ employees: data.employees.filter(ex => ex.id !== emp.id) }); }} className="p-2 text-zinc-700 hover:text-red-500 transition-colors opacity-0 group-hover:opacity-100"><Trash2 size={16}/></button>
+                      <button onClick={(e) => { e.stopPropagation(); setPinEmployee(emp); }} title={lang === 'ar' ? 'رمز الدخول PIN' : 'Sign-in PIN'} className="p-2 text-zinc-700 hover:text-red-500 transition-colors opacity-0 group-hover:opacity-100"><KeyRound size={16}/></button>
+                      <button onClick={(e) => { e.stopPropagation(); try { dispatch({ type: 'DELETE_EMPLOYEE', employeeId: emp.id }); } catch (err: any) { alert(err.message); } }} className="p-2 text-zinc-700 hover:text-red-500 transition-colors opacity-0 group-hover:opacity-100"><Trash2 size={16}/></button>
                     </td>
                   </tr>
                 ))}
@@ -352,6 +357,19 @@ const EmployeesScreen: React.FC<EmployeesScreenProps> = ({ data, updateData, add
         </div>
       )}
 
+      {pinEmployee && (
+        <SetPinModal
+          name={pinEmployee.name}
+          hasPin={!!pinEmployee.pin}
+          lang={lang}
+          onCancel={() => setPinEmployee(null)}
+          onSave={(pin) => {
+            dispatch({ type: 'SET_PIN', operatorId: pinEmployee.id, pin });
+            setPinEmployee(null);
+          }}
+        />
+      )}
+
       {/* MODAL: ADD EMPLOYEE (CONDITIONAL FIELDS) */}
       {showAddModal && (
         <div className="fixed inset-0 z-[120] flex items-center justify-center bg-black/90 p-4 animate-in fade-in overflow-y-auto">
@@ -425,8 +443,12 @@ const EmployeesScreen: React.FC<EmployeesScreenProps> = ({ data, updateData, add
                 <button onClick={() => setShowAddModal(false)} className="flex-1 py-4 bg-zinc-800 text-zinc-400 font-black uppercase text-xs rounded-2xl">{t.discard}</button>
                 <button onClick={() => { 
                    const newEmp: Employee = { ...employeeForm, id: crypto.randomUUID(), joinDate: new Date().toISOString(), isActive: true };
-                   updateData(TwinXOps.addEmployee(data, newEmp));
-                   setShowAddModal(false);
+                   try {
+                     dispatch({ type: 'ADD_EMPLOYEE', employee: newEmp });
+                     setShowAddModal(false);
+                   } catch (err: any) {
+                     alert(err.message);
+                   }
                 }} className="flex-1 py-4 bg-red-600 text-white font-black uppercase text-xs rounded-2xl shadow-xl">{t.save_ledger}</button>
               </div>
            </div>
@@ -480,8 +502,12 @@ const EmployeesScreen: React.FC<EmployeesScreenProps> = ({ data, updateData, add
                 <button onClick={() => {
                    if(!payrollForm.employeeId) return alert("Select an employee");
                    const tx: SalaryTransaction = { ...payrollForm, id: crypto.randomUUID(), timestamp: Date.now() };
-                   updateData(TwinXOps.processSalaryTransaction(data, tx));
-                   setShowPayrollModal(false);
+                   try {
+                     dispatch({ type: 'SALARY_TRANSACTION', transaction: tx });
+                     setShowPayrollModal(false);
+                   } catch (err: any) {
+                     alert(err.message);
+                   }
                 }} className="flex-1 py-4 bg-green-600 text-white font-black uppercase text-xs rounded-2xl shadow-xl">{t.authorize_payment}</button>
               </div>
            </div>
@@ -1,17 +1,18 @@
 
 import React, { useState } from 'react';
-import { AppData, Expense, LogEntry } from '../types';
+import { AppData, Expense } from '../types';
 import { Plus, Trash2, Receipt, Search, Save, X, DollarSign } from 'lucide-react';
 import { translations, Language } from '../translations';
+import { CommandDispatcher } from '../services/commands';
+import { money } from '../services/money';
 
 interface ExpensesScreenProps {
   data: AppData;
-  updateData: (newData: Partial<AppData>) => void;
-  addLog: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  dispatch: CommandDispatcher;
   lang: Language;
 }
 
-const ExpensesScreen: React.FC<ExpensesScreenProps> = ({ data, updateData, addLog, lang }) => {
+const ExpensesScreen: React.FC<ExpensesScreenProps> = ({ data, dispatch, lang }) => {
   const [isAdding, setIsAdding] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const t = translations[lang];
@@ -25,20 +26,19 @@ const ExpensesScreen: React.FC<ExpensesScreenProps> = ({ data, updateData, addLo
   const handleSave = () => {
     if (!formData.description || formData.amount <= 0) return;
     const newExpense: Expense = { ...formData, id: crypto.randomUUID(), timestamp: Date.now() };
-    updateData({ expenses: [...data.expenses, newExpense] });
-    addLog({ action: 'EXPENSE_LOGGED', category: 'expense', details: `Recorded $${formData.amount}` });
+    dispatch({ type: 'SAVE_EXPENSE', expense: newExpense });
     setIsAdding(false);
     setFormData({ description: '', amount: 0, timestamp: Date.now() });
   };
 
   const handleDelete = (id: string) => {
     if (confirm(t.delete_confirm)) {
-      updateData({ expenses: data.expenses.filter(e => e.id !== id) });
+      dispatch({ type: 'DELETE_EXPENSE', expenseId: id });
     }
   };
 
   const filtered = data.expenses.filter(e => e.description.toLowerCase().includes(searchTerm.toLowerCase())).sort((a, b) => b.timestamp - a.timestamp);
-  const totalExpenses = data.expenses.reduce((acc, e) => acc + e.amount, 0);
+  const totalExpenses = money.sum(data.expenses.map(e => e.amount), data.currency);
 
   return (
     <div className="p-8 h-full flex flex-col gap-6 text-start">
@@ -0,0 +1,192 @@
+
+import React, { useMemo, useState } from 'react';
+import { X, Database, AlertTriangle, AlertCircle, CheckCircle2, GitMerge, RefreshCcw } from 'lucide-react';
+import { AppData } from '../types';
+import { previewImport, validateLedger, CollectionName } from '../services/validation';
+import { mergeLedgers, MergeResult, MergeStrategy } from '../services/merge';
+import { Language } from '../translations';
+
+interface ImportPreviewModalProps {
+  current: AppData;
+  incoming: AppData;
+  fileName: string;
+  lang: Language;
+  onCancel: () => void;
+  onReplace: () => void;
+  onMerge: (result: MergeResult) => void;
+}
+
+const COLLECTION_LABELS: Record<CollectionName, { ar: string; en: string }> = {
+  products: { ar: 'المنتجات', en: 'Products' },
+  sales: { ar: 'فواتير البيع', en: 'Sales' },
+  expenses: { ar: 'المصاريف', en: 'Expenses' },
+  returns: { ar: 'المرتجعات', en: 'Returns' },
+  drafts: { ar: 'المسودات', en: 'Drafts' },
+  logs: { ar: 'سجل العمليات', en: 'Audit Log' },
+  partners: { ar: 'الشركاء', en: 'Partners' },
+  wholesaleTransactions: { ar: 'عمليات الجملة', en: 'Wholesale' },
+  drivers: { ar: 'الطيارون', en: 'Drivers' },
+  customers: { ar: 'العملاء', en: 'Customers' },
+  employees: { ar: 'الموظفين', en: 'Employees' },
+  attendance: { ar: 'الحضور', en: 'Attendance' },
+  salaryTransactions: { ar: 'الرواتب', en: 'Payroll' },
+  stockLogs: { ar: 'حركات المخزون', en: 'Stock Logs' },
+  shifts: { ar: 'الورديات', en: 'Shifts' },
+  eDocuments: { ar: 'الفواتير الإلكترونية', en: 'E-Invoices' },
+};
+
+const MAX_VISIBLE_ISSUES = 50;
+
+const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ current, incoming, fileName, lang, onCancel, onReplace, onMerge }) => {
+  const [mode, setMode] = useState<'replace' | 'merge'>('replace');
+  const [strategy, setStrategy] = useState<MergeStrategy>('keep_current');
+
+  const preview = useMemo(() => previewImport(current, incoming), [current, incoming]);
+  const merge = useMemo(
+    () => mode === 'merge' ? mergeLedgers(current, incoming, strategy, fileName) : null,
+    [mode, current, incoming, strategy, fileName]
+  );
+
+  const issues = useMemo(() => merge ? validateLedger(merge.data) : preview.issues, [merge, preview]);
+  const errors = issues.filter(i => i.severity === 'error');
+  const warnings = issues.filter(i => i.severity === 'warning');
+  const visibleIssues = [...errors, ...warnings].slice(0, MAX_VISIBLE_ISSUES);
+  const totalRemoved = merge ? 0 : preview.collections.reduce((acc, c) => acc + c.removed, 0);
+  const totalChanged = merge ? merge.conflicts.length : preview.collections.reduce((acc, c) => acc + c.changed, 0);
+  const conflictsIn = (collection: CollectionName) => merge ? merge.conflicts.filter(c => c.collection === collection).length : 0;
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/95 backdrop-blur-xl p-4 animate-in fade-in duration-300">
+      <div className="bg-zinc-900 light:bg-white border border-zinc-800 light:border-zinc-200 w-full max-w-4xl rounded-[40px] overflow-hidden shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 flex justify-between items-center bg-black/20 light:bg-zinc-50 shrink-0">
+          <div className="flex items-center gap-3 text-start">
+            <div className="p-2 bg-blue-600 rounded-xl"><Database size={20} className="text-white" /></div>
+            <div>
+              <h4 className="text-xl font-black uppercase tracking-tighter light:text-zinc-900">{lang === 'ar' ? 'معاينة الاستيراد' : 'Import Preview'}</h4>
+              <p className="text-[10px] text-zinc-500 font-mono truncate max-w-md">{fileName}</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-3 hover:bg-zinc-800 light:hover:bg-zinc-100 rounded-full transition-colors text-zinc-500"><X size={24} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 text-start">
+          <div className="flex flex-wrap gap-4 items-center">
+            <div className="flex bg-zinc-950 light:bg-zinc-200 p-1 rounded-xl border border-zinc-800 light:border-zinc-300">
+              <button onClick={() => setMode('replace')} className={`flex items-center gap-2 px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${mode === 'replace' ? 'bg-red-600 text-white shadow-lg' : 'text-zinc-500'}`}>
+                <RefreshCcw size={12} /> {lang === 'ar' ? 'استبدال' : 'Replace'}
+              </button>
+              <button onClick={() => setMode('merge')} className={`flex items-center gap-2 px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${mode === 'merge' ? 'bg-blue-600 text-white shadow-lg' : 'text-zinc-500'}`}>
+                <GitMerge size={12} /> {lang === 'ar' ? 'دمج' : 'Merge'}
+              </button>
+            </div>
+            {mode === 'merge' && (
+              <div className="flex bg-zinc-950 light:bg-zinc-200 p-1 rounded-xl border border-zinc-800 light:border-zinc-300">
+                <button onClick={() => setStrategy('keep_current')} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${strategy === 'keep_current' ? 'bg-zinc-800 light:bg-white text-zinc-100 light:text-zinc-900 shadow-sm' : 'text-zinc-500'}`}>
+                  {lang === 'ar' ? 'عند التعارض: احتفظ بالحالي' : 'On conflict: keep local'}
+                </button>
+                <button onClick={() => setStrategy('prefer_incoming')} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${strategy === 'prefer_incoming' ? 'bg-zinc-800 light:bg-white text-zinc-100 light:text-zinc-900 shadow-sm' : 'text-zinc-500'}`}>
+                  {lang === 'ar' ? 'عند التعارض: خذ النسخة' : 'On conflict: take backup'}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className={`p-4 rounded-2xl border ${errors.length ? 'border-red-600/50 bg-red-600/10 text-red-500' : 'border-green-600/30 bg-green-600/10 text-green-500'}`}>
+              <p className="text-[10px] font-black uppercase tracking-widest">{lang === 'ar' ? 'أخطاء' : 'Errors'}</p>
+              <p className="text-3xl font-black">{errors.length}</p>
+            </div>
+            <div className="p-4 rounded-2xl border border-orange-600/30 bg-orange-600/10 text-orange-500">
+              <p className="text-[10px] font-black uppercase tracking-widest">{lang === 'ar' ? 'تحذيرات' : 'Warnings'}</p>
+              <p className="text-3xl font-black">{warnings.length}</p>
+            </div>
+            <div className="p-4 rounded-2xl border border-zinc-800 light:border-zinc-200 bg-black/20 light:bg-zinc-50 text-zinc-400 light:text-zinc-600">
+              <p className="text-[10px] font-black uppercase tracking-widest">{merge ? (lang === 'ar' ? 'تعارضات' : 'Conflicts') : (lang === 'ar' ? 'سجلات ستحذف / تتغير' : 'Records lost / changed')}</p>
+              <p className="text-3xl font-black">{merge ? totalChanged : `${totalRemoved} / ${totalChanged}`}</p>
+            </div>
+          </div>
+
+          <table className="w-full text-start text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase font-black tracking-widest text-zinc-500 border-b border-zinc-800 light:border-zinc-200">
+                <th className="py-3 text-start">{lang === 'ar' ? 'المجموعة' : 'Collection'}</th>
+                <th className="py-3 text-end">{lang === 'ar' ? 'الحالي' : 'Current'}</th>
+                <th className="py-3 text-end">{lang === 'ar' ? 'في النسخة' : 'In Backup'}</th>
+                <th className="py-3 text-end">{lang === 'ar' ? 'جديد' : 'New'}</th>
+                <th className="py-3 text-end">{lang === 'ar' ? 'متعارض' : 'Conflicting'}</th>
+                <th className="py-3 text-end">{merge ? (lang === 'ar' ? 'بعد الدمج' : 'After Merge') : (lang === 'ar' ? 'سيحذف' : 'Lost')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800/50 light:divide-zinc-200">
+              {preview.collections.map(c => (
+                <tr key={c.collection} className="font-bold text-zinc-300 light:text-zinc-700">
+                  <td className="py-2">{COLLECTION_LABELS[c.collection][lang]}</td>
+                  <td className="py-2 text-end font-mono">{c.current}</td>
+                  <td className="py-2 text-end font-mono">{c.incoming}</td>
+                  <td className="py-2 text-end font-mono text-green-500">{c.added || '-'}</td>
+                  {merge ? (
+                    <>
+                      <td className={`py-2 text-end font-mono ${conflictsIn(c.collection) ? 'text-orange-500' : ''}`}>{conflictsIn(c.collection) || '-'}</td>
+                      <td className="py-2 text-end font-mono">{(merge.data[c.collection] as unknown[]).length}</td>
+                    </>
+                  ) : (
+                    <>
+                      <td className={`py-2 text-end font-mono ${c.changed ? 'text-orange-500' : ''}`}>{c.changed || '-'}</td>
+                      <td className={`py-2 text-end font-mono ${c.removed ? 'text-red-500' : ''}`}>{c.removed || '-'}</td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {merge && merge.conflicts.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-[10px] font-black uppercase tracking-widest text-zinc-500">{lang === 'ar' ? 'سجلات معدلة على الجهازين' : 'Records edited on both devices'}</p>
+              <div className="flex flex-wrap gap-2">
+                {merge.conflicts.slice(0, MAX_VISIBLE_ISSUES).map(c => (
+                  <span key={`${c.collection}-${c.id}`} className="px-2 py-1 rounded-lg bg-orange-600/10 border border-orange-600/30 text-orange-400 text-[10px] font-mono">
+                    {c.collection} {c.id.split('-')[0]}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {visibleIssues.length > 0 ? (
+            <div className="space-y-2">
+              {visibleIssues.map((issue, idx) => (
+                <div key={idx} className={`flex items-start gap-3 p-3 rounded-xl border text-xs ${issue.severity === 'error' ? 'border-red-600/30 bg-red-600/5 text-red-400' : 'border-orange-600/30 bg-orange-600/5 text-orange-400'}`}>
+                  {issue.severity === 'error' ? <AlertCircle size={14} className="shrink-0 mt-0.5" /> : <AlertTriangle size={14} className="shrink-0 mt-0.5" />}
+                  <span className="font-mono">
+                    [{issue.collection}{issue.recordId ? ` ${issue.recordId.split('-')[0]}` : ''}] {issue.message}
+                  </span>
+                </div>
+              ))}
+              {issues.length > MAX_VISIBLE_ISSUES && (
+                <p className="text-[10px] font-black uppercase text-zinc-500">+{issues.length - MAX_VISIBLE_ISSUES} {lang === 'ar' ? 'مشكلة أخرى' : 'more issues'}</p>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center gap-3 p-4 rounded-2xl border border-green-600/30 bg-green-600/5 text-green-500 text-xs font-bold">
+              <CheckCircle2 size={16} /> {lang === 'ar' ? 'النسخة الاحتياطية سليمة' : 'Backup passed all checks'}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 bg-black/40 light:bg-zinc-50 border-t border-zinc-800 light:border-zinc-200 flex gap-4 shrink-0">
+          <button onClick={onCancel} className="flex-1 py-4 bg-zinc-800 light:bg-zinc-200 text-zinc-300 light:text-zinc-700 font-black uppercase text-xs rounded-2xl">{lang === 'ar' ? 'إلغاء' : 'Cancel'}</button>
+          <button
+            onClick={() => merge ? onMerge(merge) : onReplace()}
+            disabled={errors.length > 0}
+            className={`flex-1 py-4 ${merge ? 'bg-blue-600 hover:bg-blue-700' : 'bg-red-600 hover:bg-red-700'} disabled:opacity-40 disabled:cursor-not-allowed text-white font-black uppercase text-xs rounded-2xl shadow-xl`}
+          >
+            {merge ? (lang === 'ar' ? 'دمج البيانات' : 'Merge Data') : (lang === 'ar' ? 'استبدال كل البيانات' : 'Replace All Data')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewModal;
@@ -3,6 +3,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { AppData } from '../types';
 import { GoogleGenAI } from '@google/genai';
 import { Language } from '../translations';
+import { money } from '../services/money';
 import { 
   Zap, 
   AlertTriangle, 
@@ -30,12 +31,13 @@ const IntelligenceScreen: React.FC<IntelligenceScreenProps> = ({ data, lang }) =
     if (data.sales.length < 1 && data.wholesaleTransactions.length < 1) return "INSUFFICIENT_HISTORY";
     if (data.products.length === 0) return "NO_PRODUCTS";
 
-    const totalSales = data.sales.reduce((acc, s) => acc + s.total, 0);
-    const totalWholesale = data.wholesaleTransactions.filter(t => t.type === 'sale').reduce((acc, t) => acc + t.total, 0);
-    const totalExpenses = data.expenses.reduce((acc, e) => acc + e.amount, 0);
-    const totalPurchases = data.wholesaleTransactions.filter(t => t.type === 'purchase').reduce((acc, t) => acc + t.total, 0);
+    const currency = data.currency;
+    const totalSales = money.sum(data.sales.map(s => s.total), currency);
+    const totalWholesale = money.sum(data.wholesaleTransactions.filter(t => t.type === 'sale').map(t => t.total), currency);
+    const totalExpenses = money.sum(data.expenses.map(e => e.amount), currency);
+    const totalPurchases = money.sum(data.wholesaleTransactions.filter(t => t.type === 'purchase').map(t => t.total), currency);
     
-    const liquidity = data.initialCash + totalSales + totalWholesale - totalExpenses - totalPurchases;
+    const liquidity = money.sum([data.initialCash, totalSales, totalWholesale, -totalExpenses, -totalPurchases], currency);
     
     const productStats = data.products.map(p => {
       const retailSold = data.sales.reduce((acc, s) => {
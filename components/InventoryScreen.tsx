@@ -1,5 +1,5 @@
 import React, { useState, useRef, useMemo } from 'react';
-import { AppData, Product, LogEntry } from '../types';
+import { AppData, Product } from '../types';
 import { translations, Language } from '../translations';
 import { 
   Plus, 
@@ -25,17 +25,20 @@ import {
 } from 'lucide-react';
 import { imageStorage } from '../services/imageStorage';
 import LocalImage from './LocalImage';
-import { TwinXOps } from '../services/operations';
+import { CommandDispatcher } from '../services/commands';
+import { Operator, hasPermission, deniedMessage } from '../services/permissions';
+import { isTaxEnabled, taxRateFor, EXEMPT_TAX_ID, EXEMPT_LABEL } from '../services/tax';
 
 interface InventoryScreenProps {
   data: AppData;
-  updateData: (newData: Partial<AppData>) => void;
-  addLog: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  dispatch: CommandDispatcher;
   lang: Language;
+  operator: Operator;
 }
 
-const InventoryScreen: React.FC<InventoryScreenProps> = ({ data, updateData, addLog, lang }) => {
+const InventoryScreen: React.FC<InventoryScreenProps> = ({ data, dispatch, lang, operator }) => {
   const t = translations[lang];
+  const canEdit = hasPermission(operator, 'canEditInventory');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // View States
@@ -104,18 +107,15 @@ const InventoryScreen: React.FC<InventoryScreenProps> = ({ data, updateData, add
       finalImagePath = await imageStorage.saveImage(previewFile);
     }
 
-    if (editingId) {
-      const updated = data.products.map(p => p.id === editingId ? { ...formData, id: editingId, imagePath: finalImagePath } : p);
-      updateData({ products: updated });
-      addLog({ action: 'PRODUCT_UPDATED', category: 'inventory', details: `Updated ${formData.name}.` });
-      setEditingId(null);
-      setShowAddModal(false);
-    } else {
-      const newProduct: Product = { ...formData, id: crypto.randomUUID(), imagePath: finalImagePath };
-      updateData({ products: [...data.products, newProduct] });
-      addLog({ action: 'PRODUCT_ADDED', category: 'inventory', details: `Added ${formData.name}.` });
-      setShowAddModal(false);
+    const product: Product = { ...formData, id: editingId || crypto.randomUUID(), imagePath: finalImagePath };
+    try {
+      dispatch({ type: 'SAVE_PRODUCT', product });
+    } catch (err: any) {
+      alert(err.message);
+      return;
     }
+    setEditingId(null);
+    setShowAddModal(false);
     resetForm();
   };
 
@@ -148,13 +148,29 @@ const InventoryScreen: React.FC<InventoryScreenProps> = ({ data, updateData, add
 
   const handleAddCategory = () => {
     if (!newCategoryName.trim()) return;
-    updateData(TwinXOps.addCategory(data, newCategoryName.trim()));
-    setNewCategoryName('');
+    try {
+      dispatch({ type: 'ADD_CATEGORY', name: newCategoryName.trim() });
+      setNewCategoryName('');
+    } catch (err: any) {
+      alert(err.message);
+    }
   };
 
   const handleDeleteCategory = (cat: string) => {
     if (confirm(lang === 'ar' ? `هل أنت متأكد من حذف تصنيف "${cat}"؟ لن يتم حذف المنتجات المرتبطة به.` : `Delete category "${cat}"? Products won't be deleted.`)) {
-      updateData(TwinXOps.deleteCategory(data, cat));
+      try {
+        dispatch({ type: 'DELETE_CATEGORY', name: cat });
+      } catch (err: any) {
+        alert(err.message);
+      }
+    }
+  };
+
+  const handleDeleteProduct = (productId: string) => {
+    try {
+      dispatch({ type: 'DELETE_PRODUCT', productId });
+    } catch (err: any) {
+      alert(err.message);
     }
   };
 
@@ -163,14 +179,12 @@ const InventoryScreen: React.FC<InventoryScreenProps> = ({ data, updateData, add
     if (!adj) return;
 
     try {
-      const updatedData = TwinXOps.adjustStock(
-        data, 
-        productId, 
-        adj.actual, 
-        adj.reason || 'Manual Adjustment', 
-        'SYSTEM_ADMIN'
-      );
-      updateData(updatedData);
+      dispatch({
+        type: 'ADJUST_STOCK',
+        productId,
+        newQuantity: adj.actual,
+        reason: adj.reason || 'Manual Adjustment'
+      });
       
       const newState = { ...stockAdjustment };
       delete newState[productId];
@@ -232,7 +246,7 @@ const InventoryScreen: React.FC<InventoryScreenProps> = ({ data, updateData, add
             <ChevronDown size={14} className={`absolute ${lang === 'ar' ? 'right-3' : 'left-3'} top-1/2 -translate-y-1/2 text-zinc-600 pointer-events-none`} />
           </div>
 
-          <button onClick={() => setShowCategoryModal(true)} className="p-3 bg-zinc-900 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl text-zinc-400 hover:text-white transition-all shadow-lg" title="Manage Categories">
+          <button onClick={() => setShowCategoryModal(true)} disabled={!canEdit} className="disabled:opacity-30 disabled:cursor-not-allowed p-3 bg-zinc-900 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl text-zinc-400 hover:text-white transition-all shadow-lg" title="Manage Categories">
             <Settings size={18} />
           </button>
 
@@ -240,10 +254,10 @@ const InventoryScreen: React.FC<InventoryScreenProps> = ({ data, updateData, add
 
           <div className="flex bg-zinc-900 light:bg-zinc-200 border border-zinc-800 light:border-zinc-300 rounded-xl p-1">
             <button onClick={() => setIsStocktakingMode(false)} className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${!isStocktakingMode ? 'bg-red-600 text-white shadow-lg' : 'text-zinc-500 hover:text-zinc-300'}`}>{lang === 'ar' ? 'عرض' : 'View'}</button>
-            <button onClick={() => setIsStocktakingMode(true)} className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${isStocktakingMode ? 'bg-orange-600 text-white shadow-lg' : 'text-zinc-500 hover:text-zinc-300'}`}>{lang === 'ar' ? 'جرد' : 'Stocktake'}</button>
+            <button onClick={() => setIsStocktakingMode(true)} disabled={!canEdit} className={`disabled:opacity-30 disabled:cursor-not-allowed px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${isStocktakingMode ? 'bg-orange-600 text-white shadow-lg' : 'text-zinc-500 hover:text-zinc-300'}`}>{lang === 'ar' ? 'جرد' : 'Stocktake'}</button>
           </div>
 
-          {!isStocktakingMode && (
+          {!isStocktakingMode && canEdit && (
             <button onClick={() => { setEditingId(null); resetForm(); setShowAddModal(true); }} className="bg-red-600 hover:bg-red-700 text-white px-5 py-2.5 rounded-xl flex items-center gap-2 font-black transition-all shadow-xl shadow-red-900/20 text-sm uppercase">
               <Plus size={20} /> {t.add_product}
             </button>
@@ -251,6 +265,12 @@ const InventoryScreen: React.FC<InventoryScreenProps> = ({ data, updateData, add
         </div>
       </header>
 
+      {!canEdit && (
+        <div className="px-6 py-3 rounded-2xl bg-orange-600/10 border border-orange-500/20 text-orange-500 text-xs font-black uppercase tracking-widest flex items-center gap-2">
+          <AlertCircle size={16} /> {deniedMessage('canEditInventory', lang)}
+        </div>
+      )}
+
       <div className="flex-1 bg-zinc-900/30 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[32px] overflow-hidden flex flex-col backdrop-blur-sm shadow-xl">
         <div className="overflow-x-auto scrollbar-thin">
           <table className="w-full text-start border-collapse min-w-[1100px]">
@@ -363,9 +383,9 @@ const InventoryScreen: React.FC<InventoryScreenProps> = ({ data, updateData, add
                           <button onClick={() => commitStockAdjustment(product.id)} className="bg-orange-600 text-white p-3 rounded-xl shadow-lg hover:scale-105 transition-all animate-in zoom-in-90"><Save size={18} /></button>
                         )
                       ) : (
-                        <div className="flex gap-2 justify-end opacity-0 group-hover:opacity-100 transition-opacity">
+                        canEdit && <div className="flex gap-2 justify-end opacity-0 group-hover:opacity-100 transition-opacity">
                           <button onClick={() => { setEditingId(product.id); setFormData({...product}); setShowAddModal(true); }} className="p-2.5 hover:bg-zinc-700 light:hover:bg-zinc-100 rounded-xl text-zinc-400 light:text-zinc-500 hover:text-white transition-colors"><Edit2 size={18} /></button>
-                          <button onClick={() => updateData({ products: data.products.filter(p => p.id !== product.id) })} className="p-2.5 hover:bg-red-900/30 light:hover:bg-red-50 rounded-xl text-zinc-400 light:text-zinc-500 hover:text-red-500 transition-colors"><Trash2 size={18} /></button>
+                          <button onClick={() => handleDeleteProduct(product.id)} className="p-2.5 hover:bg-red-900/30 light:hover:bg-red-50 rounded-xl text-zinc-400 light:text-zinc-500 hover:text-red-500 transition-colors"><Trash2 size={18} /></button>
                         </div>
                       )}
                     </td>
@@ -493,6 +513,24 @@ const InventoryScreen: React.FC<InventoryScreenProps> = ({ data, updateData, add
                       </div>
                     </div>
                   </div>
+
+                  {isTaxEnabled(data) && (
+                    <div>
+                      <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 block mb-2">{lang === 'ar' ? 'الضريبة' : 'Tax'}</label>
+                      <select className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl px-6 py-4 focus:outline-none focus:border-red-500 text-zinc-100 light:text-zinc-900 font-bold" value={formData.taxRateId || ''} onChange={e => setFormData({...formData, taxRateId: e.target.value || undefined})}>
+                        <option value="">{lang === 'ar' ? 'حسب التصنيف' : 'Same as category'} ({taxRateFor(data, { category: formData.category })?.name || EXEMPT_LABEL[lang]})</option>
+                        <option value={EXEMPT_TAX_ID}>{EXEMPT_LABEL[lang]}</option>
+                        {(data.taxRates || []).map(r => <option key={r.id} value={r.id}>{r.name} ({r.rate}%)</option>)}
+                      </select>
+                    </div>
+                  )}
+
+                  {data.etaIssuer && (
+                    <div>
+                      <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 block mb-2">{lang === 'ar' ? 'كود الصنف (مصلحة الضرائب)' : 'Tax Authority Item Code'}</label>
+                      <input type="text" placeholder="EG-100200300-1 / GTIN" className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl px-6 py-4 focus:outline-none focus:border-red-500 text-zinc-100 light:text-zinc-900 font-mono" value={formData.itemCode || ''} onChange={e => setFormData({...formData, itemCode: e.target.value || undefined})} />
+                    </div>
+                  )}
                   
                   <div className="grid grid-cols-2 gap-4">
                     <div>
@@ -0,0 +1,141 @@
+
+import React, { useEffect, useState } from 'react';
+import { Lock, Delete, UserCircle } from 'lucide-react';
+import { AppData } from '../types';
+import { Language } from '../translations';
+import { Operator, SYSTEM_ADMIN } from '../services/permissions';
+import { signInOperators, pinFor, verifyPin, pinGuard } from '../services/staffAuth';
+
+interface LockScreenProps {
+  data: AppData;
+  lang: Language;
+  lastOperatorId: string | null;
+  onSignIn: (operator: Operator) => void;
+  onFailedAttempt: (operator: Operator, attempts: number) => void;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ data, lang, lastOperatorId, onSignIn, onFailedAttempt }) => {
+  const operators = signInOperators(data);
+  const [selectedId, setSelectedId] = useState<string>(() =>
+    operators.some(o => o.id === lastOperatorId) ? lastOperatorId! : operators[0]?.id || SYSTEM_ADMIN.id
+  );
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const selected = operators.find(o => o.id === selectedId);
+  const lockedUntil = pinGuard.lockedUntil(selectedId, now);
+  const isCoolingDown = lockedUntil > now;
+
+  useEffect(() => {
+    if (!isCoolingDown) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isCoolingDown]);
+
+  const selectOperator = (id: string) => {
+    setSelectedId(id);
+    setPin('');
+    setError(null);
+  };
+
+  const submit = async (value: string) => {
+    const credential = selected && pinFor(data, selected.id);
+    if (!selected || !credential || isBusy || isCoolingDown) return;
+    setIsBusy(true);
+    try {
+      if (await verifyPin(credential, value)) {
+        pinGuard.reset(selected.id);
+        onSignIn(selected);
+        return;
+      }
+      const failure = pinGuard.recordFailure(selected.id);
+      onFailedAttempt(selected, failure.attempts);
+      setPin('');
+      setNow(Date.now());
+      setError(failure.lockedUntil
+        ? (lang === 'ar' ? 'محاولات كثيرة خاطئة. انتظر قليلاً.' : 'Too many wrong PINs. Please wait.')
+        : (lang === 'ar' ? 'رمز PIN غير صحيح' : 'Wrong PIN'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const press = (key: string) => {
+    if (isCoolingDown) return;
+    setError(null);
+    if (key === 'back') setPin(pin.slice(0, -1));
+    else if (key === 'enter') submit(pin);
+    else if (pin.length < 8) setPin(pin + key);
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (/^\d$/.test(e.key)) press(e.key);
+      else if (e.key === 'Backspace') press('back');
+      else if (e.key === 'Enter') press('enter');
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const nameOf = (operator: Operator) => operator.id === SYSTEM_ADMIN.id && lang === 'ar' ? 'المدير العام' : operator.name;
+
+  return (
+    <div className="min-h-screen bg-zinc-950 light:bg-zinc-50 flex items-center justify-center p-8 text-start">
+      <div className="w-full max-w-4xl grid grid-cols-1 md:grid-cols-2 gap-10">
+        <div className="space-y-6">
+          <h1 className="text-3xl font-bold tracking-tighter flex items-center gap-2">
+            <span className="bg-red-600 text-white px-2 py-0.5 rounded shadow-lg shadow-red-900/20">T</span>
+            <span className="text-zinc-100 light:text-zinc-900 uppercase">TWIN<span className="text-red-600">X</span></span>
+          </h1>
+          <p className="text-[10px] font-black uppercase tracking-widest text-zinc-500">{lang === 'ar' ? 'اختر حسابك وأدخل رمز PIN' : 'Choose your account and enter your PIN'}</p>
+          <div className="grid grid-cols-2 gap-3 max-h-[60vh] overflow-y-auto scrollbar-thin">
+            {operators.map(operator => (
+              <button
+                key={operator.id}
+                onClick={() => selectOperator(operator.id)}
+                className={`flex items-center gap-3 p-4 rounded-2xl border transition-all ${selectedId === operator.id ? 'bg-red-600 border-red-500 text-white shadow-xl shadow-red-900/20' : 'bg-zinc-900 light:bg-white border-zinc-800 light:border-zinc-200 text-zinc-400 light:text-zinc-600 hover:border-zinc-600'}`}
+              >
+                <UserCircle size={24} />
+                <div className="text-start min-w-0">
+                  <p className="font-bold truncate">{nameOf(operator)}</p>
+                  <p className="text-[9px] font-black uppercase tracking-widest opacity-70">{operator.role}</p>
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-zinc-900 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[40px] p-8 space-y-6 shadow-2xl">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-red-600 rounded-xl"><Lock size={20} className="text-white" /></div>
+            <h4 className="text-xl font-black uppercase tracking-tighter text-zinc-100 light:text-zinc-900">{selected ? nameOf(selected) : '---'}</h4>
+          </div>
+          <div className="flex justify-center gap-3 py-4">
+            {Array.from({ length: Math.max(4, pin.length) }).map((_, i) => (
+              <span key={i} className={`w-4 h-4 rounded-full ${i < pin.length ? 'bg-red-500' : 'bg-zinc-800 light:bg-zinc-200'}`} />
+            ))}
+          </div>
+          {error && <p className="text-center text-xs font-black uppercase text-red-500">{error}</p>}
+          {isCoolingDown && <p className="text-center text-[10px] font-black uppercase text-orange-500">{Math.ceil((lockedUntil - now) / 1000)}s</p>}
+          <div className="grid grid-cols-3 gap-3">
+            {['1', '2', '3', '4', '5', '6', '7', '8', '9', 'back', '0', 'enter'].map(key => (
+              <button
+                key={key}
+                onClick={() => press(key)}
+                disabled={isBusy || isCoolingDown || (key === 'enter' && pin.length < 4)}
+                className={`py-5 rounded-2xl font-black text-xl transition-all disabled:opacity-30 disabled:cursor-not-allowed ${key === 'enter' ? 'bg-red-600 hover:bg-red-700 text-white text-xs uppercase tracking-widest' : 'bg-zinc-950 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 text-zinc-100 light:text-zinc-900 hover:border-red-500'}`}
+              >
+                {key === 'back' ? <Delete size={20} className="mx-auto" /> : key === 'enter' ? (lang === 'ar' ? 'دخول' : 'Sign in') : key}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -0,0 +1,131 @@
+
+import React, { useEffect, useState } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import { AppData, OverrideApproval } from '../types';
+import { Language } from '../translations';
+import { Operator, SYSTEM_ADMIN } from '../services/permissions';
+import { pinFor, verifyPin, pinGuard } from '../services/staffAuth';
+import { OverrideRestriction, OVERRIDE_LABELS, approversFor } from '../services/overrides';
+
+interface OverrideModalProps {
+  data: AppData;
+  lang: Language;
+  operator: Operator; // Who is asking
+  restriction: OverrideRestriction;
+  onCancel: () => void;
+  onApprove: (approval: OverrideApproval) => void;
+  onFailedAttempt: (approver: Operator, attempts: number) => void;
+}
+
+const OverrideModal: React.FC<OverrideModalProps> = ({ data, lang, operator, restriction, onCancel, onApprove, onFailedAttempt }) => {
+  const approvers = approversFor(data, restriction.permission);
+  const [approverId, setApproverId] = useState(() =>
+    approvers.some(a => a.id === operator.id) ? operator.id : approvers[0]?.id || ''
+  );
+  const [pin, setPin] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const isCoolingDown = pinGuard.lockedUntil(approverId, now) > now;
+  const canSubmit = !!approverId && pin.length >= 4 && reason.trim().length > 0 && !isBusy && !isCoolingDown;
+
+  useEffect(() => {
+    if (!isCoolingDown) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isCoolingDown]);
+
+  const nameOf = (approver: Operator) => approver.id === SYSTEM_ADMIN.id && lang === 'ar' ? 'المدير العام' : approver.name;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const approver = approvers.find(a => a.id === approverId);
+    const credential = approver && pinFor(data, approver.id);
+    if (!canSubmit || !approver || !credential) return;
+    setIsBusy(true);
+    try {
+      if (await verifyPin(credential, pin)) {
+        pinGuard.reset(approver.id);
+        onApprove({ action: restriction.action, approverId: approver.id, approverName: approver.name, reason: reason.trim(), timestamp: Date.now() });
+        return;
+      }
+      const failure = pinGuard.recordFailure(approver.id);
+      onFailedAttempt(approver, failure.attempts);
+      setPin('');
+      setNow(Date.now());
+      setError(failure.lockedUntil
+        ? (lang === 'ar' ? 'محاولات كثيرة خاطئة. انتظر قليلاً.' : 'Too many wrong PINs. Please wait.')
+        : (lang === 'ar' ? 'رمز PIN غير صحيح' : 'Wrong PIN'));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[170] flex items-center justify-center bg-black/95 backdrop-blur-xl p-4 animate-in fade-in duration-300">
+      <form onSubmit={handleSubmit} className="bg-zinc-900 light:bg-white border border-zinc-800 light:border-zinc-200 w-full max-w-md rounded-[40px] overflow-hidden shadow-2xl">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 flex justify-between items-center bg-black/20 light:bg-zinc-50">
+          <div className="flex items-center gap-3 text-start">
+            <div className="p-2 bg-orange-600 rounded-xl"><ShieldCheck size={20} className="text-white" /></div>
+            <div>
+              <h4 className="text-xl font-black uppercase tracking-tighter light:text-zinc-900">{lang === 'ar' ? 'موافقة المدير' : 'Manager Override'}</h4>
+              <p className="text-[10px] text-orange-500 font-black uppercase tracking-widest">{OVERRIDE_LABELS[restriction.action][lang]}</p>
+            </div>
+          </div>
+          <button type="button" onClick={onCancel} className="p-3 hover:bg-zinc-800 light:hover:bg-zinc-100 rounded-full transition-colors text-zinc-500"><X size={24} /></button>
+        </div>
+
+        <div className="p-8 space-y-4 text-start">
+          {approvers.length === 0 ? (
+            <p className="text-xs font-bold text-red-500">
+              {lang === 'ar' ? 'لا يوجد مدير لديه الصلاحية ورمز PIN للموافقة على هذا الإجراء.' : 'No manager with this permission and a PIN can approve this action.'}
+            </p>
+          ) : (
+            <>
+              <select
+                value={approverId}
+                onChange={(e) => { setApproverId(e.target.value); setPin(''); setError(null); }}
+                className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-orange-500 font-bold light:text-zinc-900"
+              >
+                {approvers.map(a => <option key={a.id} value={a.id}>{nameOf(a)} ({a.role})</option>)}
+              </select>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoFocus
+                value={pin}
+                disabled={isCoolingDown}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                placeholder={lang === 'ar' ? 'رمز PIN للمدير' : "Manager's PIN"}
+                className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-orange-500 font-bold tracking-[0.5em] light:text-zinc-900 disabled:opacity-40"
+              />
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                placeholder={lang === 'ar' ? 'السبب' : 'Reason'}
+                className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-orange-500 text-sm light:text-zinc-900 resize-none"
+              />
+            </>
+          )}
+          {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+        </div>
+
+        <div className="p-8 pt-0 flex gap-4">
+          <button type="button" onClick={onCancel} className="flex-1 py-4 bg-zinc-800 light:bg-zinc-200 text-zinc-300 light:text-zinc-700 font-black uppercase text-xs rounded-2xl">
+            {lang === 'ar' ? 'إلغاء' : 'Cancel'}
+          </button>
+          <button type="submit" disabled={!canSubmit} className="flex-1 py-4 bg-orange-600 hover:bg-orange-700 disabled:opacity-40 disabled:cursor-not-allowed text-white font-black uppercase text-xs rounded-2xl shadow-xl">
+            {lang === 'ar' ? 'موافقة' : 'Approve'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default OverrideModal;
@@ -0,0 +1,100 @@
+
+import React, { useState } from 'react';
+import { X, Lock } from 'lucide-react';
+import { Language } from '../translations';
+
+interface PassphraseModalProps {
+  mode: 'export' | 'import';
+  fileName?: string;
+  error?: string | null;
+  lang: Language;
+  onCancel: () => void;
+  onSubmit: (passphrase: string) => void | Promise<void>;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const PassphraseModal: React.FC<PassphraseModalProps> = ({ mode, fileName, error, lang, onCancel, onSubmit }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const tooShort = mode === 'export' && passphrase.length < MIN_PASSPHRASE_LENGTH;
+  const mismatch = mode === 'export' && passphrase !== confirmation;
+  const canSubmit = passphrase.length > 0 && !tooShort && !mismatch && !isBusy;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setIsBusy(true);
+    try {
+      await onSubmit(passphrase);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[160] flex items-center justify-center bg-black/95 backdrop-blur-xl p-4 animate-in fade-in duration-300">
+      <form onSubmit={handleSubmit} className="bg-zinc-900 light:bg-white border border-zinc-800 light:border-zinc-200 w-full max-w-md rounded-[40px] overflow-hidden shadow-2xl">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 flex justify-between items-center bg-black/20 light:bg-zinc-50">
+          <div className="flex items-center gap-3 text-start">
+            <div className="p-2 bg-blue-600 rounded-xl"><Lock size={20} className="text-white" /></div>
+            <div>
+              <h4 className="text-xl font-black uppercase tracking-tighter light:text-zinc-900">
+                {mode === 'export'
+                  ? (lang === 'ar' ? 'نسخة احتياطية مشفرة' : 'Encrypted Backup')
+                  : (lang === 'ar' ? 'فتح النسخة الاحتياطية' : 'Unlock Backup')}
+              </h4>
+              {fileName && <p className="text-[10px] text-zinc-500 font-mono truncate max-w-xs">{fileName}</p>}
+            </div>
+          </div>
+          <button type="button" onClick={onCancel} className="p-3 hover:bg-zinc-800 light:hover:bg-zinc-100 rounded-full transition-colors text-zinc-500"><X size={24} /></button>
+        </div>
+
+        <div className="p-8 space-y-4 text-start">
+          <p className="text-xs text-zinc-500">
+            {mode === 'export'
+              ? (lang === 'ar' ? 'لا يمكن استرجاع النسخة بدون كلمة المرور. احفظها في مكان آمن.' : 'The backup cannot be restored without this passphrase. Keep it somewhere safe.')
+              : (lang === 'ar' ? 'أدخل كلمة المرور المستخدمة عند إنشاء النسخة.' : 'Enter the passphrase used when the backup was created.')}
+          </p>
+          <input
+            type="password"
+            autoFocus
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={lang === 'ar' ? 'كلمة المرور' : 'Passphrase'}
+            className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-blue-500 font-bold light:text-zinc-900"
+          />
+          {mode === 'export' && (
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder={lang === 'ar' ? 'تأكيد كلمة المرور' : 'Confirm passphrase'}
+              className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-blue-500 font-bold light:text-zinc-900"
+            />
+          )}
+          {mode === 'export' && passphrase.length > 0 && tooShort && (
+            <p className="text-[10px] font-black uppercase text-orange-500">{lang === 'ar' ? `${MIN_PASSPHRASE_LENGTH} أحرف على الأقل` : `At least ${MIN_PASSPHRASE_LENGTH} characters`}</p>
+          )}
+          {mode === 'export' && confirmation.length > 0 && mismatch && (
+            <p className="text-[10px] font-black uppercase text-orange-500">{lang === 'ar' ? 'كلمتا المرور غير متطابقتين' : 'Passphrases do not match'}</p>
+          )}
+          {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+        </div>
+
+        <div className="p-8 pt-0 flex gap-4">
+          <button type="button" onClick={onCancel} className="flex-1 py-4 bg-zinc-800 light:bg-zinc-200 text-zinc-300 light:text-zinc-700 font-black uppercase text-xs rounded-2xl">
+            {lang === 'ar' ? 'إلغاء' : 'Cancel'}
+          </button>
+          <button type="submit" disabled={!canSubmit} className="flex-1 py-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed text-white font-black uppercase text-xs rounded-2xl shadow-xl">
+            {mode === 'export' ? (lang === 'ar' ? 'تشفير وتنزيل' : 'Encrypt & Download') : (lang === 'ar' ? 'فتح' : 'Unlock')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PassphraseModal;
@@ -1,5 +1,5 @@
 
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { AppData, Sale, Product, Employee, SalaryTransaction } from '../types';
 import { 
   BarChart3, 
@@ -20,9 +20,14 @@ import {
   ShieldAlert,
   Percent,
   Truck,
-  Briefcase
+  Briefcase,
+  Archive
 } from 'lucide-react';
 import { translations, Language } from '../translations';
+import { archiveService, ArchivedRecords } from '../services/archive';
+import { money } from '../services/money';
+import { lineDiscountOf, lineTotalOf } from '../services/operations';
+import { isTaxEnabled, saleNetOfTax, refundNetOfTax, vatSummary } from '../services/tax';
 
 interface ReportsScreenProps {
   data: AppData;
@@ -30,54 +35,74 @@ interface ReportsScreenProps {
   onSelectSale: (sale: Sale) => void;
 }
 
-type TabType = 'summary' | 'ledger' | 'products' | 'employees';
+type TabType = 'summary' | 'ledger' | 'products' | 'employees' | 'vat';
 type DateRange = 'today' | 'week' | 'month' | 'all';
 
 const ReportsScreen: React.FC<ReportsScreenProps> = ({ data, lang, onSelectSale }) => {
   const t = translations[lang];
   const [activeTab, setActiveTab] = useState<TabType>('summary');
   const [dateRange, setDateRange] = useState<DateRange>('today');
+  const [includeArchive, setIncludeArchive] = useState(false);
+  const [archived, setArchived] = useState<Pick<ArchivedRecords, 'sales' | 'returns' | 'expenses' | 'salaryTransactions'> | null>(null);
+
+  // Closed periods live in a separate database and are only read when asked for.
+  useEffect(() => {
+    if (!includeArchive || archived) return;
+    archiveService.loadRecords(['sales', 'returns', 'expenses', 'salaryTransactions'])
+      .then(setArchived)
+      .catch(err => console.error("Failed to load archive", err));
+  }, [includeArchive, archived]);
+
+  const source = useMemo((): AppData => {
+    if (!includeArchive || !archived) return data;
+    return {
+      ...data,
+      sales: [...data.sales, ...archived.sales],
+      returns: [...data.returns, ...archived.returns],
+      expenses: [...data.expenses, ...archived.expenses],
+      salaryTransactions: [...data.salaryTransactions, ...archived.salaryTransactions]
+    };
+  }, [data, includeArchive, archived]);
 
   // --- FILTERED DATA SET ---
-  const filteredSales = useMemo(() => {
+  const rangeStart = useMemo(() => {
     const now = new Date();
-    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
-    const startOfWeek = now.getTime() - (7 * 24 * 60 * 60 * 1000);
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
-
-    return data.sales.filter(s => {
-      if (dateRange === 'today') return s.timestamp >= startOfToday;
-      if (dateRange === 'week') return s.timestamp >= startOfWeek;
-      if (dateRange === 'month') return s.timestamp >= startOfMonth;
-      return true;
-    });
-  }, [data.sales, dateRange]);
+    if (dateRange === 'today') return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    if (dateRange === 'week') return now.getTime() - (7 * 24 * 60 * 60 * 1000);
+    if (dateRange === 'month') return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+    return 0;
+  }, [dateRange]);
+
+  const filteredSales = useMemo(() => source.sales.filter(s => s.timestamp >= rangeStart), [source.sales, rangeStart]);
 
   // --- AGGREGATED STATS ---
   const stats = useMemo(() => {
     const sales = filteredSales;
-    const expenses = data.expenses || [];
-    const salaries = data.salaryTransactions || [];
-    const returns = data.returns || [];
+    const expenses = source.expenses || [];
+    const salaries = source.salaryTransactions || [];
+    const returns = source.returns || [];
 
     // Revenue only counts non-cancelled
     const validSales = sales.filter(s => s.status !== 'cancelled');
 
-    const revenue = validSales.reduce((acc, s) => acc + s.total, 0);
-    const cost = validSales.reduce((acc, s) => acc + (s.totalCost || 0), 0);
-    const deliveryIncome = validSales.reduce((acc, s) => acc + (s.deliveryFee || 0), 0);
-    const totalDiscounts = validSales.reduce((acc, s) => acc + s.totalDiscount, 0);
+    const currency = source.currency;
+    // Tax collected is owed to the tax authority, so revenue and refunds are counted without it
+    const revenue = money.sum(validSales.map(s => saleNetOfTax(s, currency)), currency);
+    const cost = money.sum(validSales.map(s => s.totalCost || 0), currency);
+    const deliveryIncome = money.sum(validSales.map(s => s.deliveryFee || 0), currency);
+    // Invoice discounts plus the discounts given on individual lines
+    const totalDiscounts = money.sum(validSales.flatMap(s => [s.totalDiscount, ...s.items.map(i => lineDiscountOf(i, currency))]), currency);
     
     // Operating Expenses
-    const opsExpenses = expenses.reduce((acc, e) => acc + e.amount, 0);
-    const salaryCosts = salaries.reduce((acc, s) => acc + s.amount, 0);
-    const refundOutflow = returns.reduce((acc, r) => acc + r.totalRefund, 0);
+    const opsExpenses = money.sum(expenses.map(e => e.amount), currency);
+    const salaryCosts = money.sum(salaries.map(s => s.amount), currency);
+    const refundOutflow = money.sum(returns.map(r => refundNetOfTax(r, currency)), currency);
 
     // FIXED LOGIC: Revenue (already includes delivery fee in 'total' usually, but depending on calculation above)
     // In operations.ts: total = productRevenue + deliveryIncome. So 'revenue' variable here includes delivery.
     // Net Profit = Revenue - COGS - Expenses - Salaries - Refunds
     
-    const netProfit = (revenue - cost) - opsExpenses - salaryCosts - refundOutflow;
+    const netProfit = money.sum([revenue, -cost, -opsExpenses, -salaryCosts, -refundOutflow], currency);
 
     // Daily trend (Profit)
     const last7Days = [...Array(7)].map((_, i) => {
@@ -88,42 +113,43 @@ const ReportsScreen: React.FC<ReportsScreenProps> = ({ data, lang, onSelectSale
     }).reverse();
 
     const dailyProfitTrend = last7Days.map(day => {
-      const daySales = data.sales.filter(s => {
+      const daySales = source.sales.filter(s => {
         const sDate = new Date(s.timestamp);
         sDate.setHours(0,0,0,0);
         return sDate.getTime() === day.getTime() && s.status !== 'cancelled';
       });
-      const dayRev = daySales.reduce((acc, s) => acc + s.total, 0);
-      const dayCost = daySales.reduce((acc, s) => acc + (s.totalCost || 0), 0);
+      const dayRev = money.sum(daySales.map(s => saleNetOfTax(s, currency)), currency);
+      const dayCost = money.sum(daySales.map(s => s.totalCost || 0), currency);
       return { 
         label: day.toLocaleDateString(lang, { weekday: 'short' }),
-        profit: dayRev - dayCost
+        profit: money.subtract(dayRev, dayCost, currency)
       };
     });
 
     return { revenue, cost, deliveryIncome, totalDiscounts, opsExpenses, salaryCosts, netProfit, dailyProfitTrend };
-  }, [filteredSales, data, lang]);
+  }, [filteredSales, source, lang]);
 
   // --- PRODUCT PERFORMANCE LOGIC ---
   const productPerformance = useMemo(() => {
     const perf: Record<string, { name: string; category: string; qty: number; cost: number; revenue: number; profit: number }> = {};
+    const currency = data.currency;
     
     filteredSales.filter(s => s.status !== 'cancelled').forEach(s => {
       s.items.forEach(item => {
         if (!perf[item.id]) {
           perf[item.id] = { name: item.name, category: item.category, qty: 0, cost: 0, revenue: 0, profit: 0 };
         }
-        const itemCost = (item.costPrice || 0) * item.quantity;
-        const itemRev = item.price * item.quantity;
+        const itemCost = money.multiply(item.costPrice || 0, item.quantity, currency);
+        const itemRev = lineTotalOf(item, currency); // Net of the line's own discount
         perf[item.id].qty += item.quantity;
-        perf[item.id].cost += itemCost;
-        perf[item.id].revenue += itemRev;
-        perf[item.id].profit += (itemRev - itemCost);
+        perf[item.id].cost = money.add(perf[item.id].cost, itemCost, currency);
+        perf[item.id].revenue = money.add(perf[item.id].revenue, itemRev, currency);
+        perf[item.id].profit = money.add(perf[item.id].profit, money.subtract(itemRev, itemCost, currency), currency);
       });
     });
 
     return Object.values(perf).sort((a, b) => b.profit - a.profit);
-  }, [filteredSales]);
+  }, [filteredSales, data.currency]);
 
   // --- EMPLOYEE AUDIT LOGIC ---
   const employeeAudit = useMemo(() => {
@@ -144,12 +170,31 @@ const ReportsScreen: React.FC<ReportsScreenProps> = ({ data, lang, onSelectSale
         };
       }
       audit[staffId].salesCount++;
-      audit[staffId].revenue += s.total;
-      audit[staffId].discounts += s.totalDiscount;
+      audit[staffId].revenue = money.add(audit[staffId].revenue, s.total, data.currency);
+      audit[staffId].discounts = money.sum([audit[staffId].discounts, s.totalDiscount, ...s.items.map(i => lineDiscountOf(i, data.currency))], data.currency);
     });
 
     return Object.values(audit).sort((a, b) => b.revenue - a.revenue);
-  }, [filteredSales, data.employees, lang]);
+  }, [filteredSales, data.employees, data.currency, lang]);
+
+  // --- VAT RETURN ---
+  const vat = useMemo(() => {
+    const summary = vatSummary(source, rangeStart, Infinity);
+    // One row per calendar month that saw taxed sales or returns
+    const monthStarts = new Set<number>();
+    [...source.sales.filter(s => s.taxLines), ...source.returns.filter(r => r.taxLines)]
+      .filter(r => r.timestamp >= rangeStart)
+      .forEach(r => {
+        const d = new Date(r.timestamp);
+        monthStarts.add(new Date(d.getFullYear(), d.getMonth(), 1).getTime());
+      });
+    const months = [...monthStarts].sort((a, b) => b - a).map(start => {
+      const d = new Date(start);
+      const end = new Date(d.getFullYear(), d.getMonth() + 1, 1).getTime();
+      return { start, ...vatSummary(source, Math.max(start, rangeStart), end) };
+    });
+    return { summary, months };
+  }, [source, rangeStart]);
 
   // --- CSV EXPORT HELPERS ---
   const downloadCSV = (rows: string[][], filename: string) => {
@@ -222,6 +267,15 @@ const ReportsScreen: React.FC<ReportsScreenProps> = ({ data, lang, onSelectSale
             ))}
           </div>
 
+          {data.archivedThrough && (
+            <button
+              onClick={() => setIncludeArchive(!includeArchive)}
+              className={`flex items-center gap-2 px-4 py-3 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${includeArchive ? 'bg-orange-600 border-orange-500 text-white' : 'bg-zinc-900 light:bg-zinc-200 border-zinc-800 light:border-zinc-300 text-zinc-500 hover:text-zinc-300'}`}
+            >
+              <Archive size={14} /> {lang === 'ar' ? 'تضمين الأرشيف' : 'Include Archive'}
+            </button>
+          )}
+
           <div className="h-8 w-[1px] bg-zinc-800 mx-2 hidden xl:block"></div>
 
           {/* Main Tab Switcher */}
@@ -230,6 +284,9 @@ const ReportsScreen: React.FC<ReportsScreenProps> = ({ data, lang, onSelectSale
             <button onClick={() => setActiveTab('ledger')} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === 'ledger' ? 'bg-red-600 text-white shadow-lg' : 'text-zinc-500 hover:text-zinc-300'}`}>{lang === 'ar' ? 'الدفتر' : 'Ledger'}</button>
             <button onClick={() => setActiveTab('products')} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === 'products' ? 'bg-red-600 text-white shadow-lg' : 'text-zinc-500 hover:text-zinc-300'}`}>{lang === 'ar' ? 'المنتجات' : 'Products'}</button>
             <button onClick={() => setActiveTab('employees')} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === 'employees' ? 'bg-red-600 text-white shadow-lg' : 'text-zinc-500 hover:text-zinc-300'}`}>{lang === 'ar' ? 'الموظفين' : 'Employees'}</button>
+            {isTaxEnabled(data) && (
+              <button onClick={() => setActiveTab('vat')} className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === 'vat' ? 'bg-red-600 text-white shadow-lg' : 'text-zinc-500 hover:text-zinc-300'}`}>{lang === 'ar' ? 'الضريبة' : 'VAT'}</button>
+            )}
           </div>
         </div>
       </header>
@@ -423,6 +480,69 @@ const ReportsScreen: React.FC<ReportsScreenProps> = ({ data, lang, onSelectSale
              </div>
           </div>
         )}
+
+        {activeTab === 'vat' && (
+          <div className="space-y-10 animate-in fade-in">
+             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <StatCard label={lang === 'ar' ? 'ضريبة المبيعات' : 'Output VAT'} value={vat.summary.outputTax} subValue={lang === 'ar' ? 'محصلة على المبيعات' : 'Charged on sales'} icon={Percent} colorClass="text-blue-500 bg-blue-500" />
+                <StatCard label={lang === 'ar' ? 'ضريبة المرتجعات' : 'Returned VAT'} value={vat.summary.returnedTax} subValue={lang === 'ar' ? 'مردودة مع المرتجعات' : 'Given back on returns'} icon={ArrowDownLeft} colorClass="text-orange-500 bg-orange-500" />
+                <StatCard label={lang === 'ar' ? 'صافي الضريبة المستحقة' : 'Net VAT Due'} value={vat.summary.netTax} subValue={lang === 'ar' ? 'للفترة المحددة' : 'For the selected period'} icon={Receipt} colorClass="text-red-500 bg-red-500" />
+             </div>
+
+             <div className="bg-zinc-900/50 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[32px] overflow-hidden shadow-xl">
+                <table className="w-full border-collapse">
+                   <thead>
+                      <tr className="bg-zinc-950 light:bg-zinc-100 text-[10px] uppercase font-black tracking-widest text-zinc-500 border-b border-zinc-800 light:border-zinc-200">
+                         <th className="px-8 py-5 text-start">{lang === 'ar' ? 'الشريحة' : 'Rate'}</th>
+                         <th className="px-8 py-5 text-start">{lang === 'ar' ? 'الخاضع للضريبة' : 'Net Taxable'}</th>
+                         <th className="px-8 py-5 text-start">{lang === 'ar' ? 'ضريبة المبيعات' : 'Output VAT'}</th>
+                         <th className="px-8 py-5 text-start">{lang === 'ar' ? 'ضريبة المرتجعات' : 'Returned VAT'}</th>
+                         <th className="px-8 py-5 text-end">{lang === 'ar' ? 'الصافي' : 'Net VAT'}</th>
+                      </tr>
+                   </thead>
+                   <tbody className="divide-y divide-zinc-800/50 light:divide-zinc-200">
+                      {vat.summary.net.map(line => (
+                        <tr key={line.rateId} className="hover:bg-zinc-800/30 light:hover:bg-zinc-50 transition-colors">
+                           <td className="px-8 py-4 font-bold text-zinc-100 light:text-zinc-900">{line.name} <span className="text-[10px] text-zinc-500">{line.rate}%</span></td>
+                           <td className="px-8 py-4 text-xs font-bold text-zinc-400">{data.currency} {line.taxable.toLocaleString()}</td>
+                           <td className="px-8 py-4 text-xs font-bold text-zinc-400">{data.currency} {(vat.summary.sales.find(l => l.rateId === line.rateId)?.tax || 0).toLocaleString()}</td>
+                           <td className="px-8 py-4 text-xs font-bold text-orange-500">{data.currency} {(vat.summary.returns.find(l => l.rateId === line.rateId)?.tax || 0).toLocaleString()}</td>
+                           <td className="px-8 py-4 text-end font-black text-zinc-100 light:text-zinc-900">{data.currency} {line.tax.toLocaleString()}</td>
+                        </tr>
+                      ))}
+                      {vat.summary.net.length === 0 && (
+                        <tr><td colSpan={5} className="py-24 text-center opacity-20 font-black uppercase text-xs tracking-widest">{lang === 'ar' ? 'لا توجد مبيعات خاضعة للضريبة' : 'No Taxed Sales In This Period'}</td></tr>
+                      )}
+                   </tbody>
+                </table>
+             </div>
+
+             {vat.months.length > 0 && (
+               <div className="bg-zinc-900/50 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[32px] overflow-hidden shadow-xl">
+                  <table className="w-full border-collapse">
+                     <thead>
+                        <tr className="bg-zinc-950 light:bg-zinc-100 text-[10px] uppercase font-black tracking-widest text-zinc-500 border-b border-zinc-800 light:border-zinc-200">
+                           <th className="px-8 py-5 text-start">{lang === 'ar' ? 'الشهر' : 'Month'}</th>
+                           <th className="px-8 py-5 text-start">{lang === 'ar' ? 'ضريبة المبيعات' : 'Output VAT'}</th>
+                           <th className="px-8 py-5 text-start">{lang === 'ar' ? 'ضريبة المرتجعات' : 'Returned VAT'}</th>
+                           <th className="px-8 py-5 text-end">{lang === 'ar' ? 'الصافي' : 'Net VAT'}</th>
+                        </tr>
+                     </thead>
+                     <tbody className="divide-y divide-zinc-800/50 light:divide-zinc-200">
+                        {vat.months.map(month => (
+                          <tr key={month.start} className="hover:bg-zinc-800/30 light:hover:bg-zinc-50 transition-colors">
+                             <td className="px-8 py-4 font-bold text-zinc-100 light:text-zinc-900">{new Date(month.start).toLocaleDateString(lang, { month: 'long', year: 'numeric' })}</td>
+                             <td className="px-8 py-4 text-xs font-bold text-zinc-400">{data.currency} {month.outputTax.toLocaleString()}</td>
+                             <td className="px-8 py-4 text-xs font-bold text-orange-500">{data.currency} {month.returnedTax.toLocaleString()}</td>
+                             <td className="px-8 py-4 text-end font-black text-zinc-100 light:text-zinc-900">{data.currency} {month.netTax.toLocaleString()}</td>
+                          </tr>
+                        ))}
+                     </tbody>
+                  </table>
+               </div>
+             )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,17 +1,18 @@
 import React, { useState, useMemo } from 'react';
-import { AppData, Sale, LogEntry, WholesaleTransaction, SaleReturn, ReturnItem } from '../types';
+import { AppData, Sale, WholesaleTransaction, SaleReturn, ReturnItem } from '../types';
 import { Language, translations } from '../translations';
 import { RotateCcw, Search, CheckCircle2, AlertTriangle, ArrowLeft, Package, Minus, Plus, History, Receipt, User, Info } from 'lucide-react';
-import { TwinXOps } from '../services/operations';
+import { CommandDispatcher } from '../services/commands';
+import { money } from '../services/money';
+import { calculateRefund } from '../services/operations';
 
 interface ReturnsScreenProps {
   data: AppData;
-  updateData: (newData: Partial<AppData>) => void;
-  addLog: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  dispatch: CommandDispatcher;
   lang: Language;
 }
 
-const ReturnsScreen: React.FC<ReturnsScreenProps> = ({ data, updateData, addLog, lang }) => {
+const ReturnsScreen: React.FC<ReturnsScreenProps> = ({ data, dispatch, lang }) => {
   const t = translations[lang];
   const [activeTab, setActiveTab] = useState<'process' | 'history'>('process');
   const [searchTerm, setSearchTerm] = useState('');
@@ -42,6 +43,19 @@ const ReturnsScreen: React.FC<ReturnsScreenProps> = ({ data, updateData, addLog,
     );
   }, [data.sales, data.wholesaleTransactions, data.partners, searchTerm]);
 
+  // Retail refunds use the same discount split as processReturn; wholesale refunds are at the unit price.
+  const estimatedRefund = useMemo(() => {
+    if (!selectedEntry) return 0;
+    const requested = (Object.entries(returnQuantities) as [string, number][])
+      .filter(([, quantity]) => quantity > 0)
+      .map(([productId, quantity]) => ({ productId, quantity }));
+    if (selectedEntry.type === 'retail') return calculateRefund(selectedEntry.original, requested, data.currency);
+    return money.sum(requested.map(r => {
+      const item = selectedEntry.original.items.find((i: any) => i.productId === r.productId);
+      return money.multiply(item?.unitPrice || 0, r.quantity, data.currency);
+    }), data.currency);
+  }, [selectedEntry, returnQuantities, data.currency]);
+
   const handleSelect = (entry: any) => {
     setSelectedEntry(entry);
     const initialQuants: Record<string, number> = {};
@@ -70,7 +84,7 @@ const ReturnsScreen: React.FC<ReturnsScreenProps> = ({ data, updateData, addLog,
           returnItems.push({ 
             productId, 
             quantity: qty, 
-            refundAmount: price * qty // TwinXOps will refine this with the Golden Ratio
+            refundAmount: money.multiply(price, qty, data.currency) // TwinXOps will refine this with the Golden Ratio
           });
         }
       }
@@ -94,38 +108,17 @@ const ReturnsScreen: React.FC<ReturnsScreenProps> = ({ data, updateData, addLog,
           customerName: selectedEntry.original.deliveryDetails?.customerName || (lang === 'ar' ? 'عميل كاش' : 'Cash Customer')
         };
 
-        const updatedState = TwinXOps.processReturn(data, returnRecord);
-        updateData(updatedState);
+        dispatch({ type: 'PROCESS_RETURN', returnRecord });
       } else {
-        // Wholesale returns logic (Simple restock and record for now as per TwinX Alpha)
-        const updatedProducts = data.products.map(p => {
-          const returned = returnItems.find(ri => ri.productId === p.id);
-          if (returned) {
-            const isOutward = selectedEntry.original.type === 'sale';
-            return { ...p, stock: isOutward ? p.stock + returned.quantity : p.stock - returned.quantity };
-          }
-          return p;
-        });
-
-        const newReturnRecord: SaleReturn = {
+        const returnRecord: SaleReturn = {
           id: crypto.randomUUID(),
           saleId: selectedEntry.id,
           timestamp: Date.now(),
           items: returnItems,
-          totalRefund: returnItems.reduce((acc, i) => acc + i.refundAmount, 0),
-          customerName: data.partners.find(p => p.id === selectedEntry.original.partnerId)?.name
+          totalRefund: 0 // Calculated by Ops
         };
 
-        updateData({
-          products: updatedProducts,
-          returns: [newReturnRecord, ...(data.returns || [])]
-        });
-        
-        addLog({
-          action: 'WHOLESALE_RETURN',
-          category: 'wholesale',
-          details: `Processed wholesale return for ${newReturnRecord.customerName}`
-        });
+        dispatch({ type: 'WHOLESALE_RETURN', returnRecord });
       }
 
       setTimeout(() => {
@@ -268,11 +261,7 @@ const ReturnsScreen: React.FC<ReturnsScreenProps> = ({ data, updateData, addLog,
                   <div className="p-6 bg-black/20 light:bg-zinc-50 rounded-3xl border border-zinc-800 light:border-zinc-200">
                     <p className="text-[10px] text-zinc-500 uppercase font-black mb-1">المبلغ المرتجع التقديري</p>
                     <p className="text-4xl font-black text-orange-500 tracking-tighter">
-                      {/* Cast Object.entries to number types for arithmetic operation to fix line 272 error */}
-                      {data.currency} {(Object.entries(returnQuantities) as [string, number][]).reduce((acc, [id, q]) => {
-                        const item = selectedEntry.original.items.find((i: any) => (selectedEntry.type === 'retail' ? i.id : i.productId) === id);
-                        return acc + ((selectedEntry.type === 'retail' ? item?.price : item?.unitPrice) || 0) * q;
-                      }, 0).toLocaleString()}
+                      {data.currency} {estimatedRefund.toLocaleString()}
                     </p>
                     <p className="text-[9px] text-zinc-500 mt-2 flex items-center gap-1.5"><Info size={10}/> {lang === 'ar' ? 'سيتم تطبيق الخصم النسبي تلقائياً' : 'Proportional discount applied automatically'}</p>
                   </div>
@@ -1,26 +1,40 @@
 
-import React, { useState } from 'react';
-import { Sale, CartItem, Customer } from '../types';
+import React from 'react';
+import { Sale, CartItem, Customer, EDocument } from '../types';
 import { translations, Language } from '../translations';
-import { X, Printer, Trash2, Save, ShoppingBag, Clock, User, Phone, MapPin, Truck, Layout, Hash, DollarSign, AlertCircle } from 'lucide-react';
+import { X, Printer, Trash2, ShoppingBag, Clock, User, Phone, MapPin, Truck, Layout, Hash, DollarSign, AlertCircle, ShieldCheck, FileCheck } from 'lucide-react';
 import JsBarcode from 'jsbarcode';
+import { money } from '../services/money';
+import { lineDiscountOf, lineTotalOf } from '../services/operations';
+import { deniedMessage } from '../services/permissions';
+import { OVERRIDE_LABELS } from '../services/overrides';
+import { PAYMENT_LABELS, paymentsOf, changeOf } from '../services/payments';
+import { EXEMPT_TAX_ID, EXEMPT_LABEL } from '../services/tax';
+import { EDOCUMENT_STATUS_LABELS } from '../services/eInvoice';
 
 interface SaleDetailsModalProps {
   sale: Sale;
   lang: Language;
   currency: string;
   customers?: Customer[]; // Optional prop to lookup customer stats
+  canDelete?: boolean;
+  eDocument?: EDocument; // The sale's e-receipt, unless the portal rejected it
+  onQueueEDocument?: () => void; // Present once e-invoicing is set up and the operator may use it
   onClose: () => void;
-  onUpdate: (updatedSale: Sale) => void;
   onDelete: (id: string) => void;
 }
 
 // Added currency prop to match App.tsx usage and support multi-currency display
-const SaleDetailsModal: React.FC<SaleDetailsModalProps> = ({ sale, lang, currency, customers = [], onClose, onUpdate, onDelete }) => {
+const SaleDetailsModal: React.FC<SaleDetailsModalProps> = ({ sale, lang, currency, customers = [], canDelete = true, eDocument, onQueueEDocument, onClose, onDelete }) => {
   const t = translations[lang];
-  const [editedSale, setEditedSale] = useState<Sale>({ ...sale });
 
-  const linkedCustomer = customers.find(c => c.id === editedSale.customerId);
+  const linkedCustomer = customers.find(c => c.id === sale.customerId);
+  const payments = paymentsOf(sale);
+  const change = changeOf(sale, currency);
+  const collections = sale.collections || [];
+  const taxLines = (sale.taxLines || []).filter(l => l.rateId !== EXEMPT_TAX_ID);
+  const taxLabel = (name: string, rate: number) => `${lang === 'ar' ? 'ضريبة' : 'VAT'} ${name} ${rate}%${sale.pricesIncludeTax ? (lang === 'ar' ? ' (شاملة)' : ' (incl.)') : ''}`;
+  const exemptTotal = (sale.taxLines || []).filter(l => l.rateId === EXEMPT_TAX_ID).reduce((acc, l) => money.add(acc, l.taxable, currency), 0);
 
   const getStatusText = (status?: string) => {
     switch(status) {
@@ -44,7 +58,7 @@ const SaleDetailsModal: React.FC<SaleDetailsModalProps> = ({ sale, lang, currenc
     const printArea = document.getElementById('print-area');
     if (!printArea) return;
 
-    const date = new Date(editedSale.timestamp);
+    const date = new Date(sale.timestamp);
     const dateStr = date.toLocaleDateString(lang === 'ar' ? 'ar-EG' : 'en-US');
     const timeStr = date.toLocaleTimeString(lang === 'ar' ? 'ar-EG' : 'en-US');
 
@@ -52,35 +66,72 @@ const SaleDetailsModal: React.FC<SaleDetailsModalProps> = ({ sale, lang, currenc
       <div dir="${lang === 'ar' ? 'rtl' : 'ltr'}" style="width: 58mm; padding: 2mm; font-family: 'Courier New', Courier, monospace; color: black; background: white; font-size: 9pt;">
         <div style="text-align: center; font-weight: bold; font-size: 14pt; margin-bottom: 2mm;">TWINX POS</div>
         <div style="text-align: center; font-size: 8pt; margin-bottom: 4mm;">${lang === 'ar' ? 'نظام مبيعات محلي' : 'OFFLINE RETAIL SYSTEM'}</div>
-        ${editedSale.status === 'cancelled' ? `<div style="text-align: center; font-weight: bold; font-size: 12pt; border: 2px solid black; margin-bottom: 2mm;">CANCELLED / ملغاة</div>` : ''}
+        ${sale.status === 'cancelled' ? `<div style="text-align: center; font-weight: bold; font-size: 12pt; border: 2px solid black; margin-bottom: 2mm;">CANCELLED / ملغاة</div>` : ''}
         <div style="border-top: 1px dashed black; padding-top: 2mm; margin-bottom: 2mm;">
-          <div>${lang === 'ar' ? 'رقم الفاتورة' : 'INV'}: ${editedSale.id.split('-')[0].toUpperCase()}</div>
+          <div>${lang === 'ar' ? 'رقم الفاتورة' : 'INV'}: ${sale.id.split('-')[0].toUpperCase()}</div>
           <div>${lang === 'ar' ? 'التاريخ' : 'DATE'}: ${dateStr}</div>
           <div>${lang === 'ar' ? 'الوقت' : 'TIME'}: ${timeStr}</div>
-          <div>${lang === 'ar' ? 'القناة' : 'CHANNEL'}: ${t[editedSale.saleChannel as keyof typeof t].toUpperCase()}</div>
+          <div>${lang === 'ar' ? 'القناة' : 'CHANNEL'}: ${t[sale.saleChannel as keyof typeof t].toUpperCase()}</div>
         </div>
-        ${editedSale.isDelivery ? `
+        ${sale.isDelivery ? `
         <div style="border-top: 1px dashed black; padding: 2mm 0; margin-bottom: 2mm; font-size: 8pt;">
-          <div>${lang === 'ar' ? 'العميل' : 'TO'}: ${editedSale.deliveryDetails?.customerName.toUpperCase()}</div>
+          <div>${lang === 'ar' ? 'العميل' : 'TO'}: ${sale.deliveryDetails?.customerName.toUpperCase()}</div>
         </div>
         ` : ''}
         <div style="border-top: 1px dashed black; padding: 2mm 0; margin-bottom: 2mm;">
           <table style="width: 100%; font-size: 8pt;">
-            ${editedSale.items.map(item => `
+            ${sale.items.map(item => `
                 <tr><td colspan="2" style="font-weight: bold;">${item.name.toUpperCase()}</td></tr>
                 <tr style="text-align: ${lang === 'ar' ? 'right' : 'left'};">
-                  <td>${item.quantity} x ${currency} ${item.price.toFixed(2)}</td>
-                  <td style="text-align: ${lang === 'ar' ? 'left' : 'right'}; font-weight: bold;">${currency} ${(item.price * item.quantity).toFixed(2)}</td>
+                  <td>${item.quantity} x ${currency} ${money.format(item.price, currency)}</td>
+                  <td style="text-align: ${lang === 'ar' ? 'left' : 'right'}; font-weight: bold;">${currency} ${money.format(money.multiply(item.price, item.quantity, currency), currency)}</td>
                 </tr>
+                ${lineDiscountOf(item, currency) > 0 ? `
+                <tr>
+                  <td>${lang === 'ar' ? 'خصم' : 'DISC'}${item.discountType === 'fixed' ? '' : ` ${item.discount}%`}</td>
+                  <td style="text-align: ${lang === 'ar' ? 'left' : 'right'};">-${currency} ${money.format(lineDiscountOf(item, currency), currency)}</td>
+                </tr>
+                ` : ''}
             `).join('')}
           </table>
         </div>
+        ${sale.totalDiscount > 0 ? `
+        <div style="border-top: 1px dashed black; padding: 2mm 0; font-size: 8pt;">
+          <div style="display: flex; justify-content: space-between;"><span>${t.subtotal}:</span><span>${currency} ${money.format(sale.subtotal, currency)}</span></div>
+          <div style="display: flex; justify-content: space-between;"><span>${t.total_discount}:</span><span>-${currency} ${money.format(sale.totalDiscount, currency)}</span></div>
+        </div>
+        ` : ''}
+        ${sale.taxLines ? `
+        <div style="border-top: 1px dashed black; padding: 2mm 0; font-size: 8pt;">
+          ${taxLines.map(l => `
+          <div style="display: flex; justify-content: space-between;"><span>${taxLabel(l.name, l.rate)}:</span><span>${currency} ${money.format(l.tax, currency)}</span></div>
+          <div style="display: flex; justify-content: space-between; font-size: 7pt;"><span>${lang === 'ar' ? 'الخاضع للضريبة' : 'Taxable'}:</span><span>${currency} ${money.format(l.taxable, currency)}</span></div>
+          `).join('')}
+          ${exemptTotal > 0 ? `<div style="display: flex; justify-content: space-between;"><span>${EXEMPT_LABEL[lang]}:</span><span>${currency} ${money.format(exemptTotal, currency)}</span></div>` : ''}
+        </div>
+        ` : ''}
         <div style="border-top: 1px dashed black; padding-top: 2mm;">
           <div style="display: flex; justify-content: space-between; font-weight: bold; font-size: 12pt;">
             <span>${t.total}:</span>
-            <span>${currency} ${editedSale.total.toFixed(2)}</span>
+            <span>${currency} ${money.format(sale.total, currency)}</span>
           </div>
         </div>
+        ${payments.length > 0 ? `
+        <div style="border-top: 1px dashed black; padding-top: 2mm; margin-top: 2mm; font-size: 8pt;">
+          ${payments.map(p => `
+          <div style="display: flex; justify-content: space-between;"><span>${PAYMENT_LABELS[p.method][lang].toUpperCase()}${p.reference ? ` #${p.reference}` : ''}:</span><span>${currency} ${money.format(p.tendered ?? p.amount, currency)}</span></div>
+          `).join('')}
+          ${change > 0 ? `<div style="display: flex; justify-content: space-between; font-weight: bold;"><span>${lang === 'ar' ? 'الباقي' : 'CHANGE'}:</span><span>${currency} ${money.format(change, currency)}</span></div>` : ''}
+        </div>
+        ` : ''}
+        ${collections.length > 0 || sale.remainingAmount > 0 ? `
+        <div style="border-top: 1px dashed black; padding-top: 2mm; margin-top: 2mm; font-size: 8pt;">
+          ${collections.map(c => `
+          <div style="display: flex; justify-content: space-between;"><span>${new Date(c.timestamp).toLocaleDateString(lang === 'ar' ? 'ar-EG' : 'en-US')} ${PAYMENT_LABELS[c.method][lang].toUpperCase()}:</span><span>${currency} ${money.format(c.amount, currency)}</span></div>
+          `).join('')}
+          ${sale.remainingAmount > 0 ? `<div style="display: flex; justify-content: space-between; font-weight: bold;"><span>${lang === 'ar' ? 'المتبقي' : 'DUE'}:</span><span>${currency} ${money.format(sale.remainingAmount, currency)}</span></div>` : ''}
+        </div>
+        ` : ''}
       </div>
     `;
     window.print();
@@ -91,7 +142,7 @@ const SaleDetailsModal: React.FC<SaleDetailsModalProps> = ({ sale, lang, currenc
       <div className="bg-zinc-900 border border-zinc-800 w-full max-w-4xl rounded-[40px] overflow-hidden shadow-2xl flex flex-col max-h-[90vh] relative">
         
         {/* WATERMARK FOR CANCELLED */}
-        {editedSale.status === 'cancelled' && (
+        {sale.status === 'cancelled' && (
            <div className="absolute inset-0 z-50 pointer-events-none flex items-center justify-center opacity-30 rotate-[-15deg]">
               <h1 className="text-[150px] font-black text-red-500 border-8 border-red-500 px-10 rounded-[40px]">CANCELLED</h1>
            </div>
@@ -100,7 +151,7 @@ const SaleDetailsModal: React.FC<SaleDetailsModalProps> = ({ sale, lang, currenc
         <div className="p-8 border-b border-zinc-800 flex justify-between items-center bg-black/20 shrink-0">
           <div className="text-start">
             <h4 className="text-2xl font-black tracking-tighter uppercase">{t.view_invoice}</h4>
-            <p className="text-[10px] text-zinc-500 font-black uppercase tracking-[0.3em]">ID: {editedSale.id.toUpperCase()}</p>
+            <p className="text-[10px] text-zinc-500 font-black uppercase tracking-[0.3em]">ID: {sale.id.toUpperCase()}</p>
           </div>
           <div className="flex items-center gap-4">
             <button onClick={printInvoice} className="p-3 bg-zinc-800 hover:bg-zinc-700 rounded-full text-zinc-100 transition-all"><Printer size={20}/></button>
@@ -115,16 +166,21 @@ const SaleDetailsModal: React.FC<SaleDetailsModalProps> = ({ sale, lang, currenc
                 <ShoppingBag size={18} /> {lang === 'ar' ? 'قائمة المشتريات' : 'Item List'}
               </div>
               <div className="space-y-3">
-                {editedSale.items.map((item, idx) => (
+                {sale.items.map((item, idx) => (
                   <div key={idx} className="flex justify-between items-center bg-zinc-950 p-4 rounded-2xl border border-zinc-800">
                     <div>
                       <p className="font-bold text-zinc-100">{item.name}</p>
                       <p className="text-xs text-zinc-500">{currency} {item.price} × {item.quantity}</p>
+                      {lineDiscountOf(item, currency) > 0 && (
+                        <p className="text-[10px] font-black text-orange-500 uppercase mt-1">
+                          {lang === 'ar' ? 'خصم الصنف' : 'Item discount'}: -{currency} {lineDiscountOf(item, currency).toLocaleString()}{item.discountType === 'fixed' ? '' : ` (${item.discount}%)`}
+                        </p>
+                      )}
                       {item.returnedQuantity && item.returnedQuantity > 0 ? (
                         <p className="text-[10px] font-black text-orange-500 uppercase mt-1">Returned: {item.returnedQuantity}</p>
                       ) : null}
                     </div>
-                    <p className="font-black text-red-500">{currency} {(item.price * item.quantity).toLocaleString()}</p>
+                    <p className="font-black text-red-500">{currency} {lineTotalOf(item, currency).toLocaleString()}</p>
                   </div>
                 ))}
               </div>
@@ -133,22 +189,60 @@ const SaleDetailsModal: React.FC<SaleDetailsModalProps> = ({ sale, lang, currenc
             <section className="bg-zinc-950 p-6 rounded-[32px] border border-zinc-800 space-y-4">
               <div className="flex justify-between text-xs font-black uppercase tracking-widest text-zinc-500">
                 <span>{t.subtotal}</span>
-                <span>{currency} {editedSale.subtotal.toLocaleString()}</span>
+                <span>{currency} {sale.subtotal.toLocaleString()}</span>
               </div>
               <div className="flex justify-between text-xs font-black uppercase tracking-widest text-orange-500">
                 <span>{t.total_discount}</span>
-                <span>-{currency} {editedSale.totalDiscount.toLocaleString()}</span>
+                <span>-{currency} {sale.totalDiscount.toLocaleString()}</span>
               </div>
-              {editedSale.isDelivery && (
+              {taxLines.map(l => (
+                <div key={l.rateId} className="flex justify-between text-xs font-black uppercase tracking-widest text-zinc-500">
+                  <span>{taxLabel(l.name, l.rate)}</span>
+                  <span>{sale.pricesIncludeTax ? '' : '+'}{currency} {l.tax.toLocaleString()}</span>
+                </div>
+              ))}
+              {sale.isDelivery && (
                 <div className="flex justify-between text-xs font-black uppercase tracking-widest text-zinc-500">
                   <span>{t.delivery_fee}</span>
-                  <span>{currency} {(editedSale.deliveryFee || 0).toLocaleString()}</span>
+                  <span>{currency} {(sale.deliveryFee || 0).toLocaleString()}</span>
                 </div>
               )}
               <div className="pt-4 border-t border-zinc-800 flex justify-between items-end">
                 <span className="text-xs font-black uppercase tracking-widest text-zinc-400">{t.total}</span>
-                <span className="text-4xl font-black text-zinc-100">{currency} {editedSale.total.toLocaleString()}</span>
+                <span className="text-4xl font-black text-zinc-100">{currency} {sale.total.toLocaleString()}</span>
               </div>
+              {payments.length > 0 && (
+                <div className="pt-4 border-t border-zinc-800 space-y-2">
+                  {payments.map((p, idx) => (
+                    <div key={idx} className="flex justify-between text-xs font-black uppercase tracking-widest text-zinc-500">
+                      <span>{PAYMENT_LABELS[p.method][lang]}{p.reference ? <span className="font-mono normal-case text-zinc-600"> #{p.reference}</span> : null}</span>
+                      <span>{currency} {p.amount.toLocaleString()}</span>
+                    </div>
+                  ))}
+                  {change > 0 && (
+                    <div className="flex justify-between text-xs font-black uppercase tracking-widest text-green-500">
+                      <span>{lang === 'ar' ? 'الباقي للعميل' : 'Change'}</span>
+                      <span>{currency} {change.toLocaleString()}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+              {(collections.length > 0 || sale.remainingAmount > 0) && (
+                <div className="pt-4 border-t border-zinc-800 space-y-2">
+                  {collections.map((c, idx) => (
+                    <div key={idx} className="flex justify-between text-xs font-black uppercase tracking-widest text-blue-400">
+                      <span>{new Date(c.timestamp).toLocaleDateString(lang === 'ar' ? 'ar-EG' : 'en-US')} · {PAYMENT_LABELS[c.method][lang]}{c.reference ? <span className="font-mono normal-case text-zinc-600"> #{c.reference}</span> : null}</span>
+                      <span>{currency} {c.amount.toLocaleString()}</span>
+                    </div>
+                  ))}
+                  {sale.remainingAmount > 0 && (
+                    <div className="flex justify-between text-xs font-black uppercase tracking-widest text-orange-500">
+                      <span>{lang === 'ar' ? 'المتبقي على الحساب' : 'Due on account'}</span>
+                      <span>{currency} {sale.remainingAmount.toLocaleString()}</span>
+                    </div>
+                  )}
+                </div>
+              )}
             </section>
           </div>
 
@@ -160,22 +254,60 @@ const SaleDetailsModal: React.FC<SaleDetailsModalProps> = ({ sale, lang, currenc
               <div className="grid gap-3">
                  <div className="flex items-center justify-between p-4 bg-zinc-800/30 rounded-2xl border border-zinc-800">
                    <span className="text-xs text-zinc-500">{t.time}</span>
-                   <span className="text-xs font-bold">{new Date(editedSale.timestamp).toLocaleString(lang === 'ar' ? 'ar-EG' : 'en-US')}</span>
+                   <span className="text-xs font-bold">{new Date(sale.timestamp).toLocaleString(lang === 'ar' ? 'ar-EG' : 'en-US')}</span>
                  </div>
                  <div className="flex items-center justify-between p-4 bg-zinc-800/30 rounded-2xl border border-zinc-800">
                    <span className="text-xs text-zinc-500">{t.sale_channel}</span>
-                   <span className="text-xs font-bold uppercase text-red-500">{t[editedSale.saleChannel as keyof typeof t]}</span>
+                   <span className="text-xs font-bold uppercase text-red-500">{t[sale.saleChannel as keyof typeof t]}</span>
                  </div>
                  <div className="flex items-center justify-between p-4 bg-zinc-800/30 rounded-2xl border border-zinc-800">
                    <span className="text-xs text-zinc-500">{lang === 'ar' ? 'حالة التوصيل' : 'Delivery Status'}</span>
-                   <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase ${getStatusColor(editedSale.status)}`}>
-                     {getStatusText(editedSale.status)}
+                   <span className={`px-2 py-0.5 rounded text-[10px] font-black uppercase ${getStatusColor(sale.status)}`}>
+                     {getStatusText(sale.status)}
                    </span>
                  </div>
               </div>
             </section>
 
-            {(editedSale.customerId || editedSale.isDelivery) && (
+            {sale.overrides && sale.overrides.length > 0 && (
+              <section className="space-y-4">
+                <div className="flex items-center gap-3 text-orange-500 font-black uppercase tracking-widest text-xs">
+                  <ShieldCheck size={18} /> {lang === 'ar' ? 'موافقات المدير' : 'Manager Overrides'}
+                </div>
+                <div className="grid gap-3">
+                  {sale.overrides.map((approval, idx) => (
+                    <div key={idx} className="p-4 bg-zinc-800/30 rounded-2xl border border-zinc-800 space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-black uppercase text-orange-500">{OVERRIDE_LABELS[approval.action][lang]}</span>
+                        <span className="text-[10px] text-zinc-500">{new Date(approval.timestamp).toLocaleString(lang === 'ar' ? 'ar-EG' : 'en-US')}</span>
+                      </div>
+                      <p className="text-xs font-bold text-zinc-100">{approval.approverName}</p>
+                      <p className="text-xs text-zinc-400">{approval.reason}</p>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {(eDocument || (onQueueEDocument && sale.status !== 'cancelled')) && (
+              <section className="space-y-4">
+                <div className="flex items-center gap-3 text-green-500 font-black uppercase tracking-widest text-xs">
+                  <FileCheck size={18} /> {lang === 'ar' ? 'الإيصال الإلكتروني' : 'E-Receipt'}
+                </div>
+                {eDocument ? (
+                  <div className="flex items-center justify-between p-4 bg-zinc-800/30 rounded-2xl border border-zinc-800">
+                    <span className="text-xs text-zinc-500">{new Date(eDocument.timestamp).toLocaleString(lang === 'ar' ? 'ar-EG' : 'en-US')}</span>
+                    <span className="text-[10px] font-black uppercase text-green-500">{EDOCUMENT_STATUS_LABELS[eDocument.status][lang]}</span>
+                  </div>
+                ) : (
+                  <button onClick={onQueueEDocument} className="w-full py-4 bg-zinc-800/50 hover:bg-green-950 text-green-500 font-black uppercase tracking-widest text-xs rounded-2xl transition-all">
+                    {lang === 'ar' ? 'إضافة إلى قائمة الفواتير الإلكترونية' : 'Queue E-Receipt'}
+                  </button>
+                )}
+              </section>
+            )}
+
+            {(sale.customerId || sale.isDelivery) && (
               <section className="space-y-4 animate-in fade-in duration-500">
                 <div className="flex items-center gap-3 text-blue-500 font-black uppercase tracking-widest text-xs">
                   <User size={18} /> {t.customer_details}
@@ -183,16 +315,16 @@ const SaleDetailsModal: React.FC<SaleDetailsModalProps> = ({ sale, lang, currenc
                 <div className="bg-zinc-800/20 p-6 rounded-[32px] border border-zinc-800 space-y-4">
                   <div className="flex items-center gap-4">
                     <User size={16} className="text-zinc-600" />
-                    <span className="text-sm font-bold text-zinc-100">{linkedCustomer?.name || editedSale.deliveryDetails?.customerName}</span>
+                    <span className="text-sm font-bold text-zinc-100">{linkedCustomer?.name || sale.deliveryDetails?.customerName}</span>
                   </div>
                   <div className="flex items-center gap-4">
                     <Phone size={16} className="text-zinc-600" />
-                    <span className="text-sm font-bold text-zinc-400 font-mono">{linkedCustomer?.phone || editedSale.deliveryDetails?.customerPhone}</span>
+                    <span className="text-sm font-bold text-zinc-400 font-mono">{linkedCustomer?.phone || sale.deliveryDetails?.customerPhone}</span>
                   </div>
-                  { (linkedCustomer?.address || editedSale.deliveryDetails?.deliveryAddress) && (
+                  { (linkedCustomer?.address || sale.deliveryDetails?.deliveryAddress) && (
                     <div className="flex items-start gap-4">
                       <MapPin size={16} className="text-zinc-600 mt-1" />
-                      <span className="text-sm font-bold text-zinc-400">{linkedCustomer?.address || editedSale.deliveryDetails?.deliveryAddress}</span>
+                      <span className="text-sm font-bold text-zinc-400">{linkedCustomer?.address || sale.deliveryDetails?.deliveryAddress}</span>
                     </div>
                   )}
                   
@@ -215,11 +347,7 @@ const SaleDetailsModal: React.FC<SaleDetailsModalProps> = ({ sale, lang, currenc
         </div>
 
         <div className="p-8 bg-black/40 border-t border-zinc-800 flex gap-4 shrink-0">
-          <button onClick={() => onDelete(editedSale.id)} className="flex items-center justify-center gap-2 px-8 py-4 bg-zinc-800/50 hover:bg-red-950 text-red-500 font-black uppercase tracking-widest text-xs rounded-2xl transition-all"><Trash2 size={18} /> {lang === 'ar' ? 'حذف' : 'Delete'}</button>
-          <div className="flex-1"></div>
-          {editedSale.status !== 'cancelled' && (
-             <button onClick={() => onUpdate(editedSale)} className="flex items-center justify-center gap-2 px-12 py-4 bg-zinc-100 hover:bg-white text-black font-black uppercase tracking-widest text-xs rounded-2xl shadow-xl transition-all"><Save size={18} /> {lang === 'ar' ? 'حفظ التعديلات' : 'Save Changes'}</button>
-          )}
+          <button onClick={() => onDelete(sale.id)} disabled={!canDelete} title={canDelete ? undefined : deniedMessage('canDeleteInvoice', lang)} className="disabled:opacity-30 disabled:cursor-not-allowed flex items-center justify-center gap-2 px-8 py-4 bg-zinc-800/50 hover:bg-red-950 text-red-500 font-black uppercase tracking-widest text-xs rounded-2xl transition-all"><Trash2 size={18} /> {lang === 'ar' ? 'حذف' : 'Delete'}</button>
         </div>
       </div>
     </div>
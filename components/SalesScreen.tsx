@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { AppData, Product, Sale, CartItem, LogEntry, Customer, SaleChannel, WholesalePartner, WholesaleTransaction, Employee } from '../types';
+import { AppData, Product, Sale, CartItem, Customer, WholesalePartner, WholesaleTransaction, Employee, DraftInvoice, OverrideApproval, SalePayment } from '../types';
 import { translations, Language } from '../translations';
 import { 
   Search, 
@@ -28,65 +28,126 @@ import {
   UserCircle,
   Contact,
   Tag,
-  Percent
+  Percent,
+  PauseCircle,
+  FileClock,
+  Trash2,
+  PlayCircle
 } from 'lucide-react';
 import LocalImage from './LocalImage';
-import { TwinXOps } from '../services/operations';
+import OverrideModal from './OverrideModal';
+import TenderModal from './TenderModal';
+import { CommandDispatcher, LedgerCommand } from '../services/commands';
+import { money } from '../services/money';
+import { lineDiscountOf, lineTotalOf, quoteSaleTax } from '../services/operations';
+import { activeDrafts, reservedStock, draftExpiresAt } from '../services/drafts';
+import { cartSessions, CartSession, MAX_CART_SESSIONS } from '../services/cartSessions';
+import { Operator, hasPermission, deniedMessage } from '../services/permissions';
+import { isSignInEnabled } from '../services/staffAuth';
+import { restrictionFor, OverrideRestriction } from '../services/overrides';
+import { PAYMENT_LABELS, changeOf } from '../services/payments';
+import { availableCredit } from '../services/credit';
 
 interface SalesScreenProps {
   data: AppData;
-  updateData: (newData: Partial<AppData>) => void;
-  addLog: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  dispatch: CommandDispatcher;
   lang: Language;
   initialCart?: CartItem[];
   clearInitialCart?: () => void;
+  operator: Operator;
 }
 
-const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lang, initialCart, clearInitialCart }) => {
+const SalesScreen: React.FC<SalesScreenProps> = ({ data, dispatch, lang, initialCart, clearInitialCart, operator }) => {
   const t = translations[lang];
+  // Without the permission, a discount can still go through on a manager's approval
+  const canDiscount = hasPermission(operator, 'canApplyDiscount') || isSignInEnabled(data);
+  const [overridePrompt, setOverridePrompt] = useState<{ restriction: OverrideRestriction; resume: (approval: OverrideApproval) => void } | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [cart, setCart] = useState<CartItem[]>([]);
-  const [discountType, setDiscountType] = useState<'percentage' | 'fixed'>('percentage');
-  const [discountValue, setDiscountValue] = useState(0);
-  const [isDelivery, setIsDelivery] = useState(false);
-  const [deliveryFee, setDeliveryFee] = useState(0);
-  const [selectedDriverId, setSelectedDriverId] = useState<string>('');
-  const [saleChannel, setSaleChannel] = useState<SaleChannel>('store');
+  // Open carts, one per tab. The fields below read and write whichever tab is active.
+  const [sessionState, setSessionState] = useState(cartSessions.load);
+  const { sessions, activeId } = sessionState;
+  const session = sessions.find(s => s.id === activeId) || sessions[0];
+
+  useEffect(() => {
+    cartSessions.save(sessions, activeId);
+  }, [sessions, activeId]);
+
+  const sessionSetter = <K extends keyof CartSession>(key: K) =>
+    (value: CartSession[K] | ((prev: CartSession[K]) => CartSession[K])) => {
+      setSessionState(prev => ({
+        ...prev,
+        sessions: prev.sessions.map(s => s.id !== prev.activeId ? s : {
+          ...s,
+          [key]: typeof value === 'function' ? (value as (prev: CartSession[K]) => CartSession[K])(s[key]) : value
+        })
+      }));
+    };
+
+  const { cart, discountType, discountValue, isDelivery, deliveryFee, selectedDriverId, saleChannel, posMode } = session;
+  const setCart = sessionSetter('cart');
+  const setDiscountType = sessionSetter('discountType');
+  const setDiscountValue = sessionSetter('discountValue');
+  const setIsDelivery = sessionSetter('isDelivery');
+  const setDeliveryFee = sessionSetter('deliveryFee');
+  const setSelectedDriverId = sessionSetter('selectedDriverId');
+  const setSaleChannel = sessionSetter('saleChannel');
   
   // POS Mode: Retail or Wholesale
-  const [posMode, setPosMode] = useState<'retail' | 'wholesale'>('retail');
+  const setPosMode = sessionSetter('posMode');
   
   // Wholesale specific states
-  const [wholesaleType, setWholesaleType] = useState<'sale' | 'purchase'>('sale');
-  const [paidAmount, setPaidAmount] = useState<number>(0);
-  const [isTraderLocked, setIsTraderLocked] = useState(false);
-  const [traderDetails, setTraderDetails] = useState({
-    name: '',
-    contact: ''
-  });
+  const { wholesaleType, paidAmount, isTraderLocked, traderDetails } = session;
+  const setWholesaleType = sessionSetter('wholesaleType');
+  const setPaidAmount = sessionSetter('paidAmount');
+  const setIsTraderLocked = sessionSetter('isTraderLocked');
+  const setTraderDetails = sessionSetter('traderDetails');
 
   // Customer management states (Retail)
-  const [customerDetails, setCustomerDetails] = useState({
-    name: '',
-    phone: '',
-    address: ''
-  });
-  const [isCustomerLocked, setIsCustomerLocked] = useState(false);
+  const { customerDetails, isCustomerLocked } = session;
+  const setCustomerDetails = sessionSetter('customerDetails');
+  const setIsCustomerLocked = sessionSetter('isCustomerLocked');
+  // An existing customer can take what the bill leaves unpaid on account, up to their credit limit
+  const accountCustomer = customerDetails.phone ? data.customers.find(c => c.phone === customerDetails.phone && (c.creditLimit || 0) > 0) : undefined;
   
   // Lookup states
-  const [lookupSearch, setLookupSearch] = useState('');
+  const { lookupSearch } = session;
+  const setLookupSearch = sessionSetter('lookupSearch');
   const [showLookupDropdown, setShowLookupDropdown] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  const [successSale, setSuccessSale] = useState<{id: string, type: 'retail' | 'wholesale' } | null>(null);
+  // Parked invoices: the draft the cart was resumed from is replaced when re-parked and consumed at checkout
+  const { activeDraftId, reserveOnPark } = session;
+  const setActiveDraftId = sessionSetter('activeDraftId');
+  const setReserveOnPark = sessionSetter('reserveOnPark');
+  const [showDrafts, setShowDrafts] = useState(false);
+
+  const [showTender, setShowTender] = useState(false);
+  const [successSale, setSuccessSale] = useState<{id: string, type: 'retail' | 'wholesale', payments?: SalePayment[] } | null>(null);
   const [stockError, setStockError] = useState<string | null>(null);
 
   const activeShift = useMemo(() => data.shifts.find(s => s.status === 'open'), [data.shifts]);
 
-  // Load Initial Cart (Re-Order)
+  const liveDrafts = useMemo(() => activeDrafts(data), [data.drafts, data.draftExpiryMinutes]);
+
+  // What this cart may take: the shelf less what other parked invoices hold
+  const reserved = useMemo(() => reservedStock(data, activeDraftId || undefined), [data.drafts, data.draftExpiryMinutes, activeDraftId]);
+  const stockFor = (productId: string) => {
+    const product = data.products.find(p => p.id === productId);
+    return product ? Math.max(0, product.stock - (reserved[productId] || 0)) : 0;
+  };
+
+  // Load Initial Cart (Re-Order) into its own tab unless the current one is still empty
   useEffect(() => {
     if (initialCart && initialCart.length > 0) {
-      setCart(initialCart);
+      if (session.cart.length === 0) {
+        setCart(initialCart);
+      } else if (sessions.length < MAX_CART_SESSIONS) {
+        const reorder = { ...cartSessions.create(), cart: initialCart };
+        setSessionState(prev => ({ sessions: [...prev.sessions, reorder], activeId: reorder.id }));
+      } else {
+        setStockError(lang === 'ar' ? `الحد الأقصى ${MAX_CART_SESSIONS} سلات مفتوحة` : `At most ${MAX_CART_SESSIONS} carts can be open`);
+        setTimeout(() => setStockError(null), 3000);
+      }
       if (clearInitialCart) clearInitialCart();
     }
   }, [initialCart, clearInitialCart]);
@@ -114,25 +175,38 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
 
   // Sync paidAmount with total when cart changes
   const subtotal = useMemo(() => {
-    return cart.reduce((acc, item) => acc + (item.price * item.quantity), 0);
-  }, [cart]);
+    // Line discounts are a retail feature; wholesale lines are priced directly
+    return money.sum(cart.map(item => posMode === 'retail' ? lineTotalOf(item, data.currency) : money.multiply(item.price, item.quantity, data.currency)), data.currency);
+  }, [cart, posMode, data.currency]);
 
   const calculatedDiscountAmount = useMemo(() => {
     if (discountType === 'percentage') {
-      return (subtotal * discountValue) / 100;
+      return money.multiply(subtotal, discountValue / 100, data.currency);
     }
-    return discountValue;
-  }, [subtotal, discountValue, discountType]);
+    return money.round(discountValue, data.currency);
+  }, [subtotal, discountValue, discountType, data.currency]);
+
+  // Retail lines are taxed as the ledger will tax them; exclusive tax is added to the bill
+  const taxQuote = useMemo(() => {
+    return posMode === 'retail' && cart.length > 0 ? quoteSaleTax(data, cart, calculatedDiscountAmount) : undefined;
+  }, [posMode, cart, calculatedDiscountAmount, data.products, data.taxRates, data.defaultTaxRateId, data.categoryTaxRates, data.pricesIncludeTax, data.currency]);
 
   const total = useMemo(() => {
-    return Math.max(0, subtotal - calculatedDiscountAmount + (isDelivery ? deliveryFee : 0));
-  }, [subtotal, calculatedDiscountAmount, isDelivery, deliveryFee]);
+    const goods = money.add(money.subtract(subtotal, calculatedDiscountAmount, data.currency), taxQuote?.addedTax || 0, data.currency);
+    return Math.max(0, money.add(goods, isDelivery ? deliveryFee : 0, data.currency));
+  }, [subtotal, calculatedDiscountAmount, taxQuote, isDelivery, deliveryFee, data.currency]);
 
+  // Switching tabs changes the total too, but must not overwrite the paid amount that tab kept
+  const pricedSessionRef = useRef(session.id);
   useEffect(() => {
+    if (pricedSessionRef.current !== session.id) {
+      pricedSessionRef.current = session.id;
+      return;
+    }
     if (posMode === 'wholesale') {
       setPaidAmount(total);
     }
-  }, [total, posMode]);
+  }, [total, posMode, session.id]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -159,7 +233,7 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
       const currentQtyInCart = existing ? existing.quantity : 0;
       
       const isSelling = posMode === 'retail' || (posMode === 'wholesale' && wholesaleType === 'sale');
-      if (isSelling && currentQtyInCart + 1 > product.stock) {
+      if (isSelling && currentQtyInCart + 1 > stockFor(product.id)) {
         setStockError(t.insufficient_stock);
         setTimeout(() => setStockError(null), 3000);
         return prev;
@@ -184,7 +258,7 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
       if (item.id === id) {
         const newQty = Math.max(1, item.quantity + delta);
         const isSelling = posMode === 'retail' || (posMode === 'wholesale' && wholesaleType === 'sale');
-        if (isSelling && newQty > product.stock) {
+        if (isSelling && newQty > stockFor(product.id)) {
           setStockError(t.insufficient_stock);
           setTimeout(() => setStockError(null), 3000);
           return item;
@@ -201,6 +275,13 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
     ));
   };
 
+  const updateLineDiscount = (id: string, discount: number, discountType: 'percentage' | 'fixed') => {
+    const value = Math.max(0, discountType === 'percentage' ? Math.min(discount, 100) : discount);
+    setCart(prev => prev.map(item =>
+      item.id === id ? { ...item, discount: value, discountType } : item
+    ));
+  };
+
   const setManualQuantity = (id: string, value: string) => {
     const product = data.products.find(p => p.id === id);
     if (!product) return;
@@ -209,10 +290,10 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
     let newQty = Math.max(0, val);
     
     const isSelling = posMode === 'retail' || (posMode === 'wholesale' && wholesaleType === 'sale');
-    if (isSelling && newQty > product.stock) {
+    if (isSelling && newQty > stockFor(product.id)) {
       setStockError(t.insufficient_stock);
       setTimeout(() => setStockError(null), 3000);
-      newQty = product.stock;
+      newQty = stockFor(product.id);
     }
 
     if (newQty === 0) {
@@ -262,13 +343,13 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
     if (cart.length === 0) return;
     
     if (posMode === 'retail') {
-      handleRetailCheckout();
+      setShowTender(true);
     } else {
       handleWholesaleCheckout();
     }
   };
 
-  const handleRetailCheckout = () => {
+  const handleRetailCheckout = (payments: SalePayment[], override?: OverrideApproval) => {
     if (!activeShift) {
         setStockError(lang === 'ar' ? 'يجب فتح وردية أولاً من لوحة التحكم' : 'Shift is closed. Open shift on Dashboard.');
         setTimeout(() => setStockError(null), 3000);
@@ -283,13 +364,14 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
 
     try {
       let linkedCustomerId: string | undefined = undefined;
+      let newCustomer: Customer | undefined = undefined;
       const existingCustomer = data.customers.find(c => c.phone === customerDetails.phone);
       
       if (existingCustomer) {
         linkedCustomerId = existingCustomer.id;
       } else if (customerDetails.phone) {
         linkedCustomerId = crypto.randomUUID();
-        const newCustomer: Customer = {
+        newCustomer = {
           id: linkedCustomerId,
           name: customerDetails.name || (lang === 'ar' ? 'عميل جديد' : 'New Customer'),
           phone: customerDetails.phone,
@@ -299,7 +381,6 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
           channelsUsed: [saleChannel],
           totalPoints: 0
         };
-        data.customers.push(newCustomer);
       }
 
       const saleData: Partial<Sale> = {
@@ -317,15 +398,20 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
           deliveryAddress: customerDetails.address
         } : undefined,
         driverId: isDelivery ? selectedDriverId : undefined,
-        paidAmount: total, // Retail is usually full paid
+        payments,
         timestamp: Date.now()
       };
 
-      // TWINX INTEGRITY: Use Central Operations for Atomic commit
-      const newState = TwinXOps.processRetailSale(data, saleData);
-      
-      updateData(newState);
-      setSuccessSale({ id: newState.sales[0].id, type: 'retail' });
+      // TWINX INTEGRITY: One command creates the customer (if new) and the sale atomically
+      const command: LedgerCommand = { type: 'RETAIL_SALE', sale: saleData, newCustomer, draftId: activeDraftId || undefined, override };
+      const restriction = !override && restrictionFor(data, command, operator);
+      if (restriction) {
+        setOverridePrompt({ restriction, resume: (approval) => handleRetailCheckout(payments, approval) });
+        return;
+      }
+      const newState = dispatch(command);
+
+      setSuccessSale({ id: newState.sales[0].id, type: 'retail', payments: newState.sales[0].payments });
       resetPOS();
     } catch (err: any) {
       setStockError(err.message);
@@ -333,7 +419,7 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
     }
   };
 
-  const handleWholesaleCheckout = () => {
+  const handleWholesaleCheckout = (override?: OverrideApproval) => {
     if (!traderDetails.name || !traderDetails.contact) {
       setStockError(lang === 'ar' ? 'يرجى إكمال بيانات التاجر (الاسم ورقم التواصل)' : 'Please complete trader details (Name & Contact)');
       setTimeout(() => setStockError(null), 3000);
@@ -342,16 +428,16 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
 
     try {
       let partnerToUse = data.partners.find(p => p.contact === traderDetails.contact || p.name.toLowerCase() === traderDetails.name.toLowerCase());
+      let newPartner: WholesalePartner | undefined = undefined;
 
       if (!partnerToUse) {
-        const newPartner: WholesalePartner = {
+        newPartner = {
           id: crypto.randomUUID(),
           name: traderDetails.name,
           contact: traderDetails.contact,
           type: wholesaleType === 'purchase' ? 'supplier' : 'buyer',
           createdAt: Date.now()
         };
-        data.partners.push(newPartner);
         partnerToUse = newPartner;
       }
 
@@ -368,13 +454,17 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
           quantity: i.quantity,
           unitPrice: i.price
         })),
-        payments: paidAmount > 0 ? [{ amount: paidAmount, timestamp: Date.now(), remainingAfter: total - paidAmount }] : []
+        payments: paidAmount > 0 ? [{ amount: paidAmount, timestamp: Date.now(), remainingAfter: money.subtract(total, paidAmount, data.currency) }] : []
       };
 
       // TWINX INTEGRITY: Use Central Operations
-      const newState = TwinXOps.processWholesaleTransaction(data, newTrans);
-      
-      updateData(newState);
+      const command: LedgerCommand = { type: 'WHOLESALE_TRANSACTION', transaction: newTrans, newPartner, override };
+      const restriction = !override && restrictionFor(data, command, operator);
+      if (restriction) {
+        setOverridePrompt({ restriction, resume: handleWholesaleCheckout });
+        return;
+      }
+      dispatch(command);
       setSuccessSale({ id: newTrans.id, type: 'wholesale' });
       resetPOS();
     } catch (err: any) {
@@ -383,8 +473,122 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
     }
   };
 
+  const handleParkDraft = () => {
+    if (cart.length === 0) return;
+    const hasCustomerDetails = !!(customerDetails.name || customerDetails.phone || customerDetails.address);
+
+    const draft: DraftInvoice = {
+      id: activeDraftId || crypto.randomUUID(),
+      timestamp: Date.now(),
+      items: cart,
+      subtotal,
+      totalDiscount: calculatedDiscountAmount,
+      discountType,
+      discountValue,
+      total,
+      saleChannel,
+      customerId: data.customers.find(c => c.phone === customerDetails.phone)?.id,
+      isDelivery,
+      deliveryFee: isDelivery ? deliveryFee : 0,
+      deliveryDetails: hasCustomerDetails ? {
+        customerName: customerDetails.name,
+        customerPhone: customerDetails.phone,
+        deliveryAddress: customerDetails.address
+      } : undefined,
+      driverId: isDelivery && selectedDriverId ? selectedDriverId : undefined,
+      reserveStock: reserveOnPark
+    };
+
+    try {
+      dispatch({ type: 'SAVE_DRAFT', draft });
+      resetPOS();
+    } catch (err: any) {
+      setStockError(err.message);
+      setTimeout(() => setStockError(null), 3000);
+    }
+  };
+
+  const resumeDraft = (draft: DraftInvoice) => {
+    if (cart.length > 0 && activeDraftId !== draft.id && !confirm(lang === 'ar' ? 'سيتم استبدال السلة الحالية بالمسودة. متابعة؟' : 'The current cart will be replaced by this draft. Continue?')) return;
+
+    resetPOS();
+    setPosMode('retail');
+    setCart(draft.items);
+    setDiscountType(draft.discountType || 'fixed');
+    setDiscountValue(draft.discountValue ?? draft.totalDiscount);
+    setSaleChannel(draft.saleChannel);
+    setIsDelivery(!!draft.isDelivery);
+    setDeliveryFee(draft.deliveryFee || 0);
+    setSelectedDriverId(draft.driverId || '');
+
+    const customer = draft.customerId ? data.customers.find(c => c.id === draft.customerId) : undefined;
+    if (customer) {
+      selectCustomer(customer);
+      if (draft.deliveryDetails?.deliveryAddress) {
+        setCustomerDetails({ name: customer.name, phone: customer.phone, address: draft.deliveryDetails.deliveryAddress });
+      }
+    } else if (draft.deliveryDetails) {
+      setCustomerDetails({
+        name: draft.deliveryDetails.customerName,
+        phone: draft.deliveryDetails.customerPhone,
+        address: draft.deliveryDetails.deliveryAddress
+      });
+    }
+
+    setActiveDraftId(draft.id);
+    setReserveOnPark(!!draft.reserveStock);
+    setShowDrafts(false);
+  };
+
+  const handleDeleteDraft = (draftId: string) => {
+    if (!confirm(lang === 'ar' ? 'حذف هذه المسودة؟' : 'Delete this draft?')) return;
+    try {
+      dispatch({ type: 'DELETE_DRAFT', draftId });
+      if (draftId === activeDraftId) setActiveDraftId(null);
+    } catch (err: any) {
+      setStockError(err.message);
+      setTimeout(() => setStockError(null), 3000);
+    }
+  };
+
+  const addSession = () => {
+    if (sessions.length >= MAX_CART_SESSIONS) {
+      setStockError(lang === 'ar' ? `الحد الأقصى ${MAX_CART_SESSIONS} سلات مفتوحة` : `At most ${MAX_CART_SESSIONS} carts can be open`);
+      setTimeout(() => setStockError(null), 3000);
+      return;
+    }
+    const fresh = cartSessions.create();
+    setSessionState(prev => ({ sessions: [...prev.sessions, fresh], activeId: fresh.id }));
+    setShowLookupDropdown(false);
+  };
+
+  const switchSession = (id: string) => {
+    setSessionState(prev => ({ ...prev, activeId: id }));
+    setShowLookupDropdown(false);
+  };
+
+  const closeSession = (id: string) => {
+    const target = sessions.find(s => s.id === id);
+    if (target && target.cart.length > 0 && !confirm(lang === 'ar' ? 'إغلاق هذه السلة وحذف محتوياتها؟' : 'Close this cart and discard its items?')) return;
+    setSessionState(prev => {
+      const remaining = prev.sessions.filter(s => s.id !== id);
+      if (remaining.length === 0) {
+        const fresh = cartSessions.create();
+        return { sessions: [fresh], activeId: fresh.id };
+      }
+      const index = prev.sessions.findIndex(s => s.id === id);
+      const activeId = prev.activeId === id ? remaining[Math.max(0, index - 1)].id : prev.activeId;
+      return { sessions: remaining, activeId };
+    });
+  };
+
+  const sessionLabel = (s: CartSession, index: number) =>
+    (s.posMode === 'retail' ? s.customerDetails.name : s.traderDetails.name) || `${lang === 'ar' ? 'سلة' : 'Cart'} ${index + 1}`;
+
   const resetPOS = () => {
     setCart([]);
+    setActiveDraftId(null);
+    setReserveOnPark(false);
     setDiscountValue(0);
     setDiscountType('percentage');
     setIsDelivery(false);
@@ -448,7 +652,7 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
                       <p className="font-bold text-xs text-zinc-100 light:text-zinc-900 truncate">{p.name}</p>
                       <div className="flex justify-between items-center mt-1">
                         <p className="font-black text-red-500 text-sm tracking-tighter">{data.currency} {p.price.toLocaleString()}</p>
-                        <p className={`text-[9px] font-black uppercase ${p.stock <= p.minStock ? 'text-orange-500' : 'text-zinc-600'}`}>S: {p.stock}</p>
+                        <p className={`text-[9px] font-black uppercase ${p.stock <= p.minStock ? 'text-orange-500' : 'text-zinc-600'}`}>S: {p.stock}{reserved[p.id] ? ` (-${reserved[p.id]})` : ''}</p>
                       </div>
                     </div>
                   </button>
@@ -460,6 +664,31 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
       </div>
 
       <aside className="w-[400px] border-l border-zinc-800 light:border-zinc-200 bg-black light:bg-white flex flex-col shadow-2xl light:shadow-sm z-20 transition-all duration-500">
+        <div className="px-4 pt-4 flex items-center gap-2 overflow-x-auto scrollbar-thin shrink-0">
+          {sessions.map((s, index) => {
+            const itemCount = s.cart.reduce((acc, i) => acc + i.quantity, 0);
+            return (
+              <div
+                key={s.id}
+                className={`group flex items-center gap-2 pl-3 pr-2 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest whitespace-nowrap transition-all ${s.id === session.id ? 'bg-red-600 border-red-500 text-white shadow-lg' : 'bg-zinc-900 light:bg-zinc-100 border-zinc-800 light:border-zinc-200 text-zinc-500 hover:text-zinc-300'}`}
+              >
+                <button onClick={() => switchSession(s.id)} className="flex items-center gap-2 max-w-[110px]">
+                  <span className="truncate">{sessionLabel(s, index)}</span>
+                  {itemCount > 0 && <span className={`px-1.5 rounded-md text-[9px] ${s.id === session.id ? 'bg-white/20' : 'bg-zinc-800 light:bg-zinc-200'}`}>{itemCount}</span>}
+                </button>
+                <button onClick={() => closeSession(s.id)} className="opacity-60 hover:opacity-100"><X size={12} /></button>
+              </div>
+            );
+          })}
+          <button
+            onClick={addSession}
+            className="shrink-0 w-8 h-8 rounded-xl border border-zinc-800 light:border-zinc-200 bg-zinc-900 light:bg-zinc-100 text-zinc-500 hover:text-red-500 flex items-center justify-center transition-colors"
+            title={lang === 'ar' ? 'سلة جديدة' : 'New cart'}
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+
         <div className="p-4 border-b border-zinc-800 light:border-zinc-200">
           <div className="flex bg-zinc-900 light:bg-zinc-100 p-1 rounded-xl border border-zinc-800 light:border-zinc-200">
             <button 
@@ -482,9 +711,21 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
             <ShoppingCart className="text-red-500" size={20} />
             <h3 className="font-black uppercase tracking-widest text-sm light:text-zinc-900">{t.sales}</h3>
           </div>
-          <button onClick={() => setCart([])} className="text-[10px] font-black uppercase text-zinc-500 hover:text-red-500 transition-colors">{lang === 'ar' ? 'تفريغ' : 'Empty'}</button>
+          <div className="flex items-center gap-4">
+            <button onClick={() => setShowDrafts(true)} className="flex items-center gap-1.5 text-[10px] font-black uppercase text-zinc-500 hover:text-orange-500 transition-colors">
+              <FileClock size={14} /> {t.drafts}
+              {liveDrafts.length > 0 && <span className="px-1.5 py-0.5 rounded-md bg-orange-600 text-white text-[9px]">{liveDrafts.length}</span>}
+            </button>
+            <button onClick={() => setCart([])} className="text-[10px] font-black uppercase text-zinc-500 hover:text-red-500 transition-colors">{lang === 'ar' ? 'تفريغ' : 'Empty'}</button>
+          </div>
         </div>
 
+        {activeDraftId && (
+          <div className="px-6 py-2 bg-orange-600/10 border-b border-orange-500/20 text-[10px] font-black uppercase tracking-widest text-orange-500 flex items-center gap-2">
+            <FileClock size={12} /> {lang === 'ar' ? 'مسودة مستأنفة' : 'Resumed draft'} #{activeDraftId.split('-')[0].toUpperCase()}
+          </div>
+        )}
+
         <div className="flex-1 overflow-y-auto p-6 space-y-4 scrollbar-thin">
           {cart.map(item => (
             <div key={item.id} className="bg-zinc-900/50 light:bg-zinc-50 border border-zinc-800 light:border-zinc-200 p-4 rounded-2xl space-y-3 shadow-inner">
@@ -515,9 +756,38 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
                         />
                      </div>
                    )}
-                   <p className="font-black text-red-500">{data.currency} {(item.price * item.quantity).toLocaleString()}</p>
+                   {lineDiscountOf(item, data.currency) > 0 && (
+                     <p className="text-[10px] font-bold text-zinc-600 line-through">{data.currency} {money.multiply(item.price, item.quantity, data.currency).toLocaleString()}</p>
+                   )}
+                   <p className="font-black text-red-500">{data.currency} {lineTotalOf(item, data.currency).toLocaleString()}</p>
                 </div>
               </div>
+              {posMode === 'retail' && canDiscount && (
+                <div className="flex items-center gap-2">
+                  <label className="text-[9px] font-black uppercase tracking-widest text-zinc-600 shrink-0">{lang === 'ar' ? 'خصم الصنف' : 'Item Discount'}</label>
+                  <div className="flex bg-black/40 light:bg-zinc-200 p-0.5 rounded-lg border border-zinc-800 light:border-zinc-300 shrink-0">
+                    <button
+                      onClick={() => updateLineDiscount(item.id, item.discount || 0, 'percentage')}
+                      className={`px-2 py-1 rounded-md transition-all ${(item.discountType || 'percentage') === 'percentage' ? 'bg-red-600 text-white' : 'text-zinc-500'}`}
+                    >
+                      <Percent size={10} />
+                    </button>
+                    <button
+                      onClick={() => updateLineDiscount(item.id, item.discount || 0, 'fixed')}
+                      className={`px-2 py-1 rounded-md transition-all ${item.discountType === 'fixed' ? 'bg-red-600 text-white' : 'text-zinc-500'}`}
+                    >
+                      <DollarSign size={10} />
+                    </button>
+                  </div>
+                  <input
+                    type="number"
+                    placeholder="0"
+                    value={item.discount || ''}
+                    onChange={(e) => updateLineDiscount(item.id, parseFloat(e.target.value) || 0, item.discountType || 'percentage')}
+                    className="flex-1 min-w-0 bg-black/40 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-lg px-2 py-1 text-[11px] font-black text-red-500 text-end focus:outline-none focus:border-red-500 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                  />
+                </div>
+              )}
             </div>
           ))}
           {cart.length === 0 && (
@@ -534,11 +804,20 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
               <span>{t.subtotal}</span>
               <span>{data.currency} {subtotal.toLocaleString()}</span>
             </div>
+            {taxQuote && taxQuote.taxTotal > 0 && (
+              <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-zinc-500">
+                <span>{lang === 'ar' ? 'ضريبة القيمة المضافة' : 'VAT'}{taxQuote.inclusive ? (lang === 'ar' ? ' (شاملة)' : ' (included)') : ''}</span>
+                <span>{taxQuote.inclusive ? '' : '+'}{data.currency} {taxQuote.taxTotal.toLocaleString()}</span>
+              </div>
+            )}
 
             {/* Discount Logic Integration */}
             <div className="space-y-3">
               <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 block">{t.add_global_discount}</label>
-              <div className="flex gap-2">
+              {!canDiscount && (
+                <p className="text-[10px] font-bold text-orange-500 flex items-center gap-1.5"><Lock size={10} /> {deniedMessage('canApplyDiscount', lang)}</p>
+              )}
+              <div className={`flex gap-2 ${canDiscount ? '' : 'opacity-40 pointer-events-none'}`}>
                 <div className="flex bg-black/40 light:bg-zinc-200 p-1 rounded-xl border border-zinc-800 light:border-zinc-300 w-28">
                   <button 
                     onClick={() => setDiscountType('percentage')}
@@ -700,10 +979,10 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
                           onChange={e => setPaidAmount(parseFloat(e.target.value) || 0)}
                          />
                       </div>
-                      {total - paidAmount > 0 && (
+                      {money.subtract(total, paidAmount, data.currency) > 0 && (
                         <div className="mt-2 text-[10px] font-bold text-orange-500 uppercase flex justify-between">
                            <span>{t.remaining_amount}:</span>
-                           <span>{data.currency} {(total - paidAmount).toLocaleString()}</span>
+                           <span>{data.currency} {money.subtract(total, paidAmount, data.currency).toLocaleString()}</span>
                         </div>
                       )}
                     </div>
@@ -783,6 +1062,25 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
             )}
           </div>
 
+          {posMode === 'retail' && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setReserveOnPark(!reserveOnPark)}
+                className={`flex-1 px-4 py-3 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all flex items-center justify-between ${reserveOnPark ? 'bg-orange-600/10 border-orange-500 text-orange-500' : 'bg-zinc-900 light:bg-white border-zinc-800 light:border-zinc-200 text-zinc-500'}`}
+              >
+                <span>{lang === 'ar' ? 'حجز المخزون' : 'Reserve Stock'}</span>
+                <span>{reserveOnPark ? 'ON' : 'OFF'}</span>
+              </button>
+              <button
+                onClick={handleParkDraft}
+                disabled={cart.length === 0}
+                className="flex-1 px-4 py-3 rounded-xl bg-zinc-800 light:bg-zinc-200 hover:bg-zinc-700 light:hover:bg-zinc-300 disabled:opacity-50 text-zinc-100 light:text-zinc-900 text-[10px] font-black uppercase tracking-widest transition-all flex items-center justify-center gap-2"
+              >
+                <PauseCircle size={14} /> {t.save_draft}
+              </button>
+            </div>
+          )}
+
           <div className="flex justify-between items-end">
             <div className="text-start">
               <p className="text-[10px] font-black uppercase text-zinc-500 tracking-widest">{t.total}</p>
@@ -799,6 +1097,85 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
         </div>
       </aside>
 
+      {showDrafts && (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/90 backdrop-blur-xl animate-in fade-in duration-300">
+          <div className="bg-zinc-900 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[40px] w-full max-w-2xl max-h-[80vh] flex flex-col shadow-2xl animate-in zoom-in-95 duration-300">
+            <div className="p-8 border-b border-zinc-800 light:border-zinc-200 flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <FileClock className="text-orange-500" size={22} />
+                <h3 className="text-xl font-black uppercase tracking-tighter light:text-zinc-900">{t.drafts}</h3>
+              </div>
+              <button onClick={() => setShowDrafts(false)} className="text-zinc-500 hover:text-red-500 transition-colors"><X size={20} /></button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-6 space-y-3 scrollbar-thin">
+              {liveDrafts.map(draft => {
+                const customer = draft.customerId ? data.customers.find(c => c.id === draft.customerId) : undefined;
+                const customerName = customer?.name || draft.deliveryDetails?.customerName || draft.deliveryDetails?.customerPhone || (lang === 'ar' ? 'عميل نقدي' : 'Walk-in');
+                const itemCount = draft.items.reduce((acc, i) => acc + i.quantity, 0);
+                return (
+                  <div key={draft.id} className={`p-4 rounded-2xl border flex items-center justify-between gap-4 ${draft.id === activeDraftId ? 'border-orange-500 bg-orange-600/5' : 'border-zinc-800 light:border-zinc-200 bg-black/40 light:bg-zinc-50'}`}>
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-bold text-sm text-zinc-100 light:text-zinc-900 truncate">{customerName}</p>
+                        {draft.reserveStock && (
+                          <span className="px-2 py-0.5 rounded-md bg-orange-600/10 border border-orange-500/30 text-orange-500 text-[9px] font-black uppercase">{lang === 'ar' ? 'مخزون محجوز' : 'Stock reserved'}</span>
+                        )}
+                        {draft.isDelivery && <Truck size={12} className="text-zinc-500" />}
+                      </div>
+                      <p className="text-[10px] text-zinc-500 font-bold uppercase">
+                        #{draft.id.split('-')[0].toUpperCase()} · {itemCount} {lang === 'ar' ? 'قطعة' : 'items'} · {lang === 'ar' ? 'تنتهي' : 'Expires'} {new Date(draftExpiresAt(draft, data)).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <p className="font-black text-red-500">{data.currency} {draft.total.toLocaleString()}</p>
+                      <button onClick={() => resumeDraft(draft)} className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-red-600 hover:bg-red-700 text-white text-[10px] font-black uppercase tracking-widest transition-all">
+                        <PlayCircle size={14} /> {lang === 'ar' ? 'استئناف' : 'Resume'}
+                      </button>
+                      <button onClick={() => handleDeleteDraft(draft.id)} className="text-zinc-600 hover:text-red-500 transition-colors"><Trash2 size={16} /></button>
+                    </div>
+                  </div>
+                );
+              })}
+              {liveDrafts.length === 0 && (
+                <div className="py-16 text-center opacity-30">
+                  <FileClock size={48} className="mx-auto mb-4 text-zinc-700" />
+                  <p className="font-black uppercase tracking-widest text-xs">{lang === 'ar' ? 'لا توجد مسودات' : 'No parked invoices'}</p>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showTender && (
+        <TenderModal
+          total={total}
+          currency={data.currency}
+          lang={lang}
+          creditAvailable={accountCustomer ? availableCredit(data, accountCustomer) : 0}
+          onCancel={() => setShowTender(false)}
+          onConfirm={(payments) => {
+            setShowTender(false);
+            handleRetailCheckout(payments);
+          }}
+        />
+      )}
+
+      {overridePrompt && (
+        <OverrideModal
+          data={data}
+          lang={lang}
+          operator={operator}
+          restriction={overridePrompt.restriction}
+          onCancel={() => setOverridePrompt(null)}
+          onApprove={(approval) => {
+            const { resume } = overridePrompt;
+            setOverridePrompt(null);
+            resume(approval);
+          }}
+        />
+      )}
+
       {successSale && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/90 backdrop-blur-xl animate-in fade-in duration-300">
            <div className="bg-zinc-900 light:bg-white border border-zinc-800 light:border-zinc-200 p-12 rounded-[40px] text-center space-y-6 shadow-2xl animate-in zoom-in-95 duration-300">
@@ -812,7 +1189,17 @@ const SalesScreen: React.FC<SalesScreenProps> = ({ data, updateData, addLog, lan
                   <div className="px-3 py-1 bg-zinc-800 light:bg-zinc-100 rounded-lg text-[10px] font-black uppercase text-zinc-400">
                     {successSale.type === 'retail' ? t.retail_mode : t.wholesale_mode}
                   </div>
+                  {successSale.payments?.map((p, idx) => (
+                    <div key={idx} className="px-3 py-1 bg-zinc-800 light:bg-zinc-100 rounded-lg text-[10px] font-black uppercase text-zinc-400">
+                      {PAYMENT_LABELS[p.method][lang]}: {data.currency} {p.amount.toLocaleString()}
+                    </div>
+                  ))}
                 </div>
+                {changeOf(successSale, data.currency) > 0 && (
+                  <p className="text-2xl font-black text-green-500 pt-2">
+                    {lang === 'ar' ? 'الباقي للعميل' : 'Change'}: {data.currency} {changeOf(successSale, data.currency).toLocaleString()}
+                  </p>
+                )}
               </div>
               <button onClick={() => setSuccessSale(null)} className="w-full py-4 bg-zinc-800 light:bg-zinc-100 text-zinc-400 light:text-zinc-600 font-black uppercase tracking-widest text-xs rounded-2xl hover:bg-zinc-700 transition-colors">إغلاق</button>
            </div>
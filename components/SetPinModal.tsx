@@ -0,0 +1,98 @@
+
+import React, { useState } from 'react';
+import { X, KeyRound } from 'lucide-react';
+import { PinCredential } from '../types';
+import { Language } from '../translations';
+import { hashPin, isValidPin } from '../services/staffAuth';
+
+interface SetPinModalProps {
+  name: string;
+  hasPin: boolean;
+  lang: Language;
+  onCancel: () => void;
+  onSave: (pin: PinCredential | null) => void; // null removes the PIN; throws to show an error
+}
+
+const SetPinModal: React.FC<SetPinModalProps> = ({ name, hasPin, lang, onCancel, onSave }) => {
+  const [pin, setPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const mismatch = pin !== confirmation;
+  const canSubmit = isValidPin(pin) && !mismatch && !isBusy;
+
+  const save = async (remove: boolean) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      onSave(remove ? null : await hashPin(pin));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) save(false);
+  };
+
+  const digitsOnly = (value: string) => value.replace(/\D/g, '').slice(0, 8);
+
+  return (
+    <div className="fixed inset-0 z-[160] flex items-center justify-center bg-black/95 backdrop-blur-xl p-4 animate-in fade-in duration-300">
+      <form onSubmit={handleSubmit} className="bg-zinc-900 light:bg-white border border-zinc-800 light:border-zinc-200 w-full max-w-md rounded-[40px] overflow-hidden shadow-2xl">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 flex justify-between items-center bg-black/20 light:bg-zinc-50">
+          <div className="flex items-center gap-3 text-start">
+            <div className="p-2 bg-red-600 rounded-xl"><KeyRound size={20} className="text-white" /></div>
+            <div>
+              <h4 className="text-xl font-black uppercase tracking-tighter light:text-zinc-900">{lang === 'ar' ? 'رمز الدخول PIN' : 'Sign-in PIN'}</h4>
+              <p className="text-[10px] text-zinc-500 font-black uppercase tracking-widest">{name}</p>
+            </div>
+          </div>
+          <button type="button" onClick={onCancel} className="p-3 hover:bg-zinc-800 light:hover:bg-zinc-100 rounded-full transition-colors text-zinc-500"><X size={24} /></button>
+        </div>
+
+        <div className="p-8 space-y-4 text-start">
+          <p className="text-xs text-zinc-500">{lang === 'ar' ? 'من 4 إلى 8 أرقام. يتم حفظ الرمز مشفراً على هذا الجهاز فقط.' : '4 to 8 digits. Only a hash of the PIN is kept, on this device.'}</p>
+          <input
+            type="password"
+            inputMode="numeric"
+            autoFocus
+            value={pin}
+            onChange={(e) => setPin(digitsOnly(e.target.value))}
+            placeholder={lang === 'ar' ? 'الرمز الجديد' : 'New PIN'}
+            className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-red-500 font-bold tracking-[0.5em] light:text-zinc-900"
+          />
+          <input
+            type="password"
+            inputMode="numeric"
+            value={confirmation}
+            onChange={(e) => setConfirmation(digitsOnly(e.target.value))}
+            placeholder={lang === 'ar' ? 'تأكيد الرمز' : 'Confirm PIN'}
+            className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-red-500 font-bold tracking-[0.5em] light:text-zinc-900"
+          />
+          {confirmation.length > 0 && mismatch && (
+            <p className="text-[10px] font-black uppercase text-orange-500">{lang === 'ar' ? 'الرمزان غير متطابقين' : 'PINs do not match'}</p>
+          )}
+          {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+        </div>
+
+        <div className="p-8 pt-0 flex gap-4">
+          {hasPin && (
+            <button type="button" disabled={isBusy} onClick={() => save(true)} className="flex-1 py-4 bg-zinc-800 light:bg-zinc-200 text-red-500 font-black uppercase text-xs rounded-2xl disabled:opacity-40">
+              {lang === 'ar' ? 'إزالة الرمز' : 'Remove PIN'}
+            </button>
+          )}
+          <button type="submit" disabled={!canSubmit} className="flex-1 py-4 bg-red-600 hover:bg-red-700 disabled:opacity-40 disabled:cursor-not-allowed text-white font-black uppercase text-xs rounded-2xl shadow-xl">
+            {lang === 'ar' ? 'حفظ' : 'Save PIN'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SetPinModal;
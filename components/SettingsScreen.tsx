@@ -1,6 +1,6 @@
 
-import React, { useRef } from 'react';
-import { AppData, LogEntry } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AppData, LogEntry, ArchivedPeriod, EtaIssuer } from '../types';
 import { 
   Download, 
   Upload, 
@@ -10,9 +10,37 @@ import {
   Clock, 
   ChevronRight, 
   ShieldAlert,
-  Coins
+  Coins,
+  History,
+  Trash2,
+  Lock,
+  Package,
+  Archive,
+  ListChecks,
+  Stethoscope,
+  KeyRound,
+  Percent,
+  Plus,
+  FileCheck
 } from 'lucide-react';
 import { storageService } from '../services/storage';
+import { createEmptyLedger } from '../services/migrations';
+import { backupStorage, SnapshotInfo, DEFAULT_AUTO_BACKUP_INTERVAL_MINUTES, DEFAULT_AUTO_BACKUP_RETENTION } from '../services/backupStorage';
+import { BackupDecryptionError } from '../services/backupCrypto';
+import { backupBundle, isBundleFile } from '../services/backupBundle';
+import { archiveService, planPeriodClose, ARCHIVABLE_COLLECTIONS } from '../services/archive';
+import { MergeResult } from '../services/merge';
+import { findDiscrepancies, AggregateDiscrepancy } from '../services/events';
+import { CommandDispatcher } from '../services/commands';
+import { scanIntegrity, IntegrityIssue, REPAIR_LABELS } from '../services/integrity';
+import { money } from '../services/money';
+import { SYSTEM_ADMIN } from '../services/permissions';
+import { isSignInEnabled, autoLockMinutes } from '../services/staffAuth';
+import { overrideDiscountPercent } from '../services/overrides';
+import { isTaxEnabled, EXEMPT_TAX_ID, EXEMPT_LABEL } from '../services/tax';
+import ImportPreviewModal from './ImportPreviewModal';
+import PassphraseModal from './PassphraseModal';
+import SetPinModal from './SetPinModal';
 import { translations, Language } from '../translations';
 
 interface SettingsScreenProps {
@@ -20,55 +48,207 @@ interface SettingsScreenProps {
   updateData: (newData: Partial<AppData>) => void;
   setData: (data: AppData) => void;
   addLog: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  dispatch: CommandDispatcher;
   lang: Language;
 }
 
-const SettingsScreen: React.FC<SettingsScreenProps> = ({ data, updateData, setData, addLog, lang }) => {
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ data, updateData, setData, addLog, dispatch, lang }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const t = translations[lang];
+  const [pendingImport, setPendingImport] = useState<{ data: AppData; fileName: string; images?: Map<string, Blob> } | null>(null);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{ mode: 'export' } | { mode: 'import'; file: File } | null>(null);
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const [showAdminPin, setShowAdminPin] = useState(false);
+  const [newTaxRate, setNewTaxRate] = useState({ name: '', rate: 14 });
+  const [issuerForm, setIssuerForm] = useState<EtaIssuer>(() => data.etaIssuer || {
+    registrationNumber: '', name: '', activityCode: '', branchId: '0', governate: '', regionCity: '', street: '', buildingNumber: ''
+  });
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [periods, setPeriods] = useState<ArchivedPeriod[]>([]);
+  const [closeDate, setCloseDate] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1).toLocaleDateString('en-CA');
+  });
+  const [discrepancies, setDiscrepancies] = useState<AggregateDiscrepancy[] | null>(null);
+  const [integrityIssues, setIntegrityIssues] = useState<IntegrityIssue[] | null>(null);
+  const snapshotsSupported = backupStorage.isSupported();
 
-  const handleExport = () => {
-    const timestamp = storageService.exportData(data);
+  const refreshSnapshots = () => {
+    if (!snapshotsSupported) return;
+    backupStorage.listSnapshots().then(setSnapshots).catch(err => console.error("Failed to list snapshots", err));
+  };
+
+  useEffect(refreshSnapshots, []);
+
+  const refreshPeriods = () => {
+    archiveService.listPeriods().then(setPeriods).catch(err => console.error("Failed to list archived periods", err));
+  };
+
+  useEffect(refreshPeriods, []);
+
+  const closePlan = useMemo(() => {
+    try {
+      return { plan: planPeriodClose(data, new Date(`${closeDate}T00:00:00`).getTime()), error: null };
+    } catch (err: any) {
+      return { plan: null, error: err.message as string };
+    }
+  }, [data, closeDate]);
+
+  // Shown when another tab's changes were loaded after a preview was built from this tab's copy.
+  const staleMessage = lang === 'ar' ? 'تم تحديث البيانات من نافذة أخرى. راجع المعاينة وحاول مرة أخرى.' : 'The ledger was updated from another tab. Review the preview and try again.';
+
+  const handleClosePeriod = async () => {
+    const { plan } = closePlan;
+    const base = data;
+    if (!plan) return;
+    if (!confirm(lang === 'ar' ? `سيتم نقل السجلات قبل ${closeDate} إلى الأرشيف. متابعة؟` : `Records dated before ${closeDate} will be moved to the archive. Continue?`)) return;
+    try {
+      if (!storageService.isCurrent(base)) throw new Error(staleMessage);
+      await archiveService.savePeriod(plan);
+      setData(plan.data);
+      storageService.saveData(plan.data, base);
+      refreshPeriods();
+    } catch (err: any) {
+      alert(`${lang === 'ar' ? 'فشل إغلاق الفترة' : 'Period close failed'}:\n${err.message}`);
+    }
+  };
+
+  const handleRecompute = () => {
+    const count = (discrepancies || []).length;
+    if (!confirm(lang === 'ar' ? `سيتم تصحيح ${count} قيمة من سجل الأحداث. متابعة؟` : `${count} stored values will be reconciled with the history. Continue?`)) return;
+    try {
+      const updated = dispatch({ type: 'RECOMPUTE_AGGREGATES' });
+      setDiscrepancies(findDiscrepancies(updated));
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleRepair = (issues: IntegrityIssue[]) => {
+    const repairable = issues.filter(i => i.repair);
+    if (repairable.length === 0) return;
+    if (!confirm(lang === 'ar' ? `سيتم تطبيق ${repairable.length} إصلاح وتسجيله. متابعة؟` : `${repairable.length} repairs will be applied and logged. Continue?`)) return;
+    try {
+      const updated = dispatch({ type: 'REPAIR_INTEGRITY', issueIds: repairable.map(i => i.id) });
+      setIntegrityIssues(scanIntegrity(updated));
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const handleSnapshotNow = async () => {
+    try {
+      const snapshot = await backupStorage.writeSnapshot(data);
+      await backupStorage.pruneSnapshots(data.autoBackupRetention ?? DEFAULT_AUTO_BACKUP_RETENTION);
+      addLog({ action: 'SNAPSHOT_CREATED', category: 'system', details: `Saved local snapshot ${snapshot.name}` });
+      refreshSnapshots();
+    } catch (err: any) {
+      alert(`${lang === 'ar' ? 'فشل حفظ النسخة' : 'Snapshot failed'}:\n${err.message}`);
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshot: SnapshotInfo) => {
+    try {
+      const restored = await backupStorage.readSnapshot(snapshot.name);
+      setPendingImport({ data: restored, fileName: snapshot.name });
+    } catch (err: any) {
+      alert(`${lang === 'ar' ? 'فشل استرجاع النسخة' : 'Snapshot restore failed'}:\n${err.message}`);
+    }
+  };
+
+  const handleDeleteSnapshot = async (snapshot: SnapshotInfo) => {
+    if (!confirm(lang === 'ar' ? 'حذف هذه النسخة؟' : 'Delete this snapshot?')) return;
+    await backupStorage.deleteSnapshot(snapshot.name);
+    refreshSnapshots();
+  };
+
+  const handleExport = async (passphrase?: string) => {
+    const timestamp = await storageService.exportData(data, passphrase);
     updateData({ lastBackupTimestamp: timestamp });
-    addLog({ action: 'BACKUP_EXPORTED', category: 'system', details: 'Exported system ledger' });
+    addLog({ action: 'BACKUP_EXPORTED', category: 'system', details: passphrase ? 'Exported encrypted system ledger' : 'Exported system ledger' });
+    setPassphrasePrompt(null);
   };
 
-  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const imported = await storageService.importData(file);
-      if (imported && confirm(lang === 'ar' ? 'هذا سيؤدي لمسح البيانات الحالية واستبدالها. هل أنت متأكد؟' : 'This will overwrite current data. Proceed?')) {
-        setData(imported);
-        storageService.saveData(imported);
-        addLog({ action: 'SYSTEM_RESTORED', category: 'system', details: 'Imported data from file' });
+  const handleExportBundle = async () => {
+    try {
+      const result = await backupBundle.exportBundle(data);
+      updateData({ lastBackupTimestamp: result.timestamp });
+      addLog({ action: 'BACKUP_EXPORTED', category: 'system', details: `Exported full bundle with ${result.imageCount} images` });
+      if (result.missingImages.length > 0) {
+        alert(lang === 'ar'
+          ? `تم التصدير، لكن ${result.missingImages.length} صورة غير موجودة على هذا الجهاز.`
+          : `Bundle exported, but ${result.missingImages.length} product images were not found on this device.`);
+      }
+    } catch (err: any) {
+      alert(`${lang === 'ar' ? 'فشل التصدير' : 'Export failed'}:\n${err.message}`);
+    }
+  };
+
+  const readBackup = async (file: File, passphrase?: string) => {
+    try {
+      if (isBundleFile(file)) {
+        const bundle = await backupBundle.importBundle(file, passphrase);
+        setPassphrasePrompt(null);
+        setPendingImport({ data: bundle.data, fileName: file.name, images: bundle.images });
+        return;
+      }
+      const imported = await storageService.importData(file, passphrase);
+      setPassphrasePrompt(null);
+      setPendingImport({ data: imported, fileName: file.name });
+    } catch (err: any) {
+      if (err instanceof BackupDecryptionError && err.reason === 'passphrase_required') {
+        setPassphraseError(null);
+        setPassphrasePrompt({ mode: 'import', file });
+      } else if (err instanceof BackupDecryptionError && err.reason === 'wrong_passphrase') {
+        setPassphraseError(lang === 'ar' ? 'كلمة المرور غير صحيحة. حاول مرة أخرى.' : 'Wrong passphrase. Please try again.');
+      } else {
+        setPassphrasePrompt(null);
+        const corrupted = err instanceof BackupDecryptionError && lang === 'ar' ? 'الملف تالف ولا يمكن فك تشفيره.' : err.message;
+        alert(`${lang === 'ar' ? 'فشل استيراد النسخة الاحتياطية' : 'Backup import failed'}:\n${corrupted}`);
       }
     }
   };
 
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    readBackup(file);
+  };
+
+  const withRestoredImages = async (ledger: AppData): Promise<AppData> => {
+    if (!pendingImport?.images || pendingImport.images.size === 0) return ledger;
+    try {
+      return await backupBundle.restoreImages(ledger, pendingImport.images);
+    } catch (err: any) {
+      alert(`${lang === 'ar' ? 'تعذر استرجاع الصور' : 'Could not restore product images'}:\n${err.message}`);
+      return ledger;
+    }
+  };
+
+  const confirmReplace = async () => {
+    if (!pendingImport) return;
+    const base = data;
+    const imported = await withRestoredImages(pendingImport.data);
+    if (!storageService.isCurrent(base)) return alert(staleMessage);
+    setData(imported);
+    storageService.saveData(imported, base);
+    addLog({ action: 'SYSTEM_RESTORED', category: 'system', details: `Imported data from ${pendingImport.fileName}` });
+    setPendingImport(null);
+  };
+
+  const confirmMerge = async (result: MergeResult) => {
+    const base = data;
+    const merged = await withRestoredImages(result.data);
+    if (!storageService.isCurrent(base)) return alert(staleMessage);
+    setData(merged);
+    storageService.saveData(merged, base);
+    setPendingImport(null);
+  };
+
   const handleReset = () => {
     if (confirm(lang === 'ar' ? 'خطر: سيتم مسح كافة البيانات نهائياً!' : 'DANGER: All data will be wiped permanently!')) {
-      // Fix: Added missing properties (employees, attendance, salaryTransactions, categories, stockLogs) to reset logic
-      const resetData: AppData = { 
-        products: [], 
-        sales: [], 
-        expenses: [], 
-        returns: [], 
-        drafts: [],
-        partners: [], 
-        wholesaleTransactions: [], 
-        drivers: [], 
-        customers: [], 
-        employees: [],
-        attendance: [],
-        salaryTransactions: [],
-        categories: [],
-        stockLogs: [],
-        shifts: [],
-        logs: [], 
-        initialCash: 0, 
-        draftExpiryMinutes: 120, 
-        currency: 'EGP'
-      };
+      const resetData = createEmptyLedger();
       setData(resetData);
       storageService.saveData(resetData);
     }
@@ -114,12 +294,222 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ data, updateData, setDa
              <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600">{t.opening_cash}</label>
              <div className="relative">
                 <span className={`absolute ${lang === 'ar' ? 'right-6' : 'left-6'} top-1/2 -translate-y-1/2 text-zinc-600 font-black`}>{data.currency}</span>
-                <input type="number" value={data.initialCash} onChange={(e) => updateData({ initialCash: parseFloat(e.target.value) || 0 })} className={`w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-5 px-6 ${lang === 'ar' ? 'pr-16' : 'pl-16'} focus:outline-none focus:border-red-500 text-3xl font-black text-red-500`} />
+                <input type="number" value={data.initialCash} onChange={(e) => updateData({ initialCash: money.round(parseFloat(e.target.value) || 0, data.currency) })} className={`w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-5 px-6 ${lang === 'ar' ? 'pr-16' : 'pl-16'} focus:outline-none focus:border-red-500 text-3xl font-black text-red-500`} />
              </div>
           </div>
         </div>
       </section>
 
+      <section className="bg-zinc-950 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[40px] overflow-hidden">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 bg-black/20 light:bg-zinc-50 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-red-600 rounded-xl"><KeyRound size={20} className="text-white" /></div>
+            <h4 className="text-xl font-bold light:text-zinc-900">{lang === 'ar' ? 'تسجيل دخول الموظفين' : 'Staff Sign-in'}</h4>
+          </div>
+          <span className={`text-[10px] font-black uppercase ${isSignInEnabled(data) ? 'text-green-500' : 'text-zinc-500'}`}>
+            {isSignInEnabled(data) ? (lang === 'ar' ? 'مفعل' : 'On') : (lang === 'ar' ? 'متوقف' : 'Off')}
+          </span>
+        </div>
+        <div className="p-8 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <p className="text-xs text-zinc-500">
+              {lang === 'ar'
+                ? 'عند تعيين رمز PIN للمدير تظهر شاشة القفل، ويسجل كل موظف دخوله برمزه الخاص من شاشة الموظفين.'
+                : 'Setting an administrator PIN turns on the lock screen. Staff then sign in with the PIN set for them under HR.'}
+            </p>
+            <button onClick={() => setShowAdminPin(true)} className="px-5 py-3 bg-red-600 hover:bg-red-700 text-white text-[10px] font-black uppercase tracking-widest rounded-xl">
+              {data.adminPin ? (lang === 'ar' ? 'تغيير رمز المدير' : 'Change administrator PIN') : (lang === 'ar' ? 'تعيين رمز المدير' : 'Set administrator PIN')}
+            </button>
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600">{lang === 'ar' ? 'القفل التلقائي بعد عدم النشاط' : 'Auto-lock after inactivity'}</label>
+            <select
+              value={autoLockMinutes(data)}
+              disabled={!isSignInEnabled(data)}
+              onChange={(e) => updateData({ autoLockMinutes: parseInt(e.target.value) })}
+              className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-red-500 font-bold light:text-zinc-900 disabled:opacity-40"
+            >
+              <option value={0}>{lang === 'ar' ? 'متوقف' : 'Never'}</option>
+              {[1, 2, 5, 10, 15, 30].map(minutes => (
+                <option key={minutes} value={minutes}>{lang === 'ar' ? `${minutes} دقيقة` : `${minutes} minute${minutes > 1 ? 's' : ''}`}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600">{lang === 'ar' ? 'خصم يحتاج موافقة المدير فوق (%)' : 'Discounts above this need a manager (%)'}</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={overrideDiscountPercent(data)}
+              disabled={!isSignInEnabled(data)}
+              onChange={(e) => updateData({ overrideDiscountPercent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+              className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-red-500 font-bold light:text-zinc-900 disabled:opacity-40"
+            />
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-zinc-950 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[40px] overflow-hidden">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 bg-black/20 light:bg-zinc-50 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-red-600 rounded-xl"><Percent size={20} className="text-white" /></div>
+            <h4 className="text-xl font-bold light:text-zinc-900">{lang === 'ar' ? 'الضرائب' : 'Tax'}</h4>
+          </div>
+          <span className={`text-[10px] font-black uppercase ${isTaxEnabled(data) ? 'text-green-500' : 'text-zinc-500'}`}>
+            {isTaxEnabled(data) ? (lang === 'ar' ? 'مفعل' : 'On') : (lang === 'ar' ? 'متوقف' : 'Off')}
+          </span>
+        </div>
+        <div className="p-8 grid grid-cols-1 md:grid-cols-2 gap-8">
+          <div className="space-y-4">
+            <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600">{lang === 'ar' ? 'نسب الضريبة' : 'Tax rates'}</label>
+            {(data.taxRates || []).map(rate => (
+              <div key={rate.id} className="flex items-center justify-between p-4 bg-zinc-900/40 light:bg-zinc-50 rounded-2xl border border-zinc-800 light:border-zinc-200">
+                <span className="text-sm font-bold light:text-zinc-900">{rate.name} <span className="text-red-500">{rate.rate}%</span></span>
+                <button onClick={() => updateData({ taxRates: (data.taxRates || []).filter(r => r.id !== rate.id), defaultTaxRateId: data.defaultTaxRateId === rate.id ? undefined : data.defaultTaxRateId })} className="text-zinc-600 hover:text-red-500 transition-colors"><Trash2 size={16} /></button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newTaxRate.name}
+                onChange={(e) => setNewTaxRate({ ...newTaxRate, name: e.target.value })}
+                placeholder={lang === 'ar' ? 'الاسم (مثال: قيمة مضافة)' : 'Name (e.g. VAT)'}
+                className="flex-1 bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl py-3 px-4 focus:outline-none focus:border-red-500 text-sm font-bold light:text-zinc-900"
+              />
+              <input
+                type="number"
+                min={0}
+                value={newTaxRate.rate}
+                onChange={(e) => setNewTaxRate({ ...newTaxRate, rate: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-20 bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl py-3 px-4 focus:outline-none focus:border-red-500 text-sm font-black text-red-500"
+              />
+              <button
+                disabled={!newTaxRate.name.trim()}
+                onClick={() => {
+                  const rate = { id: crypto.randomUUID(), name: newTaxRate.name.trim(), rate: newTaxRate.rate };
+                  updateData({ taxRates: [...(data.taxRates || []), rate], defaultTaxRateId: data.defaultTaxRateId || rate.id });
+                  setNewTaxRate({ name: '', rate: 14 });
+                }}
+                className="px-4 bg-red-600 hover:bg-red-700 disabled:opacity-40 text-white rounded-xl"
+              >
+                <Plus size={16} />
+              </button>
+            </div>
+            <p className="text-xs text-zinc-500">
+              {lang === 'ar'
+                ? 'تُحسب الضريبة على الفواتير الجديدة فقط؛ الفواتير السابقة تحتفظ بضريبتها.'
+                : 'Rates apply to new invoices only; issued invoices keep the tax they were sold with.'}
+            </p>
+          </div>
+          <div className="space-y-4">
+            <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600">{lang === 'ar' ? 'الأسعار' : 'Shelf prices'}</label>
+            <div className="grid grid-cols-2 gap-2">
+              {[false, true].map(inclusive => (
+                <button
+                  key={String(inclusive)}
+                  disabled={!isTaxEnabled(data)}
+                  onClick={() => updateData({ pricesIncludeTax: inclusive })}
+                  className={`px-4 py-3 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-40 ${!!data.pricesIncludeTax === inclusive ? 'bg-red-600 border-red-500 text-white' : 'bg-zinc-900 light:bg-zinc-100 border-zinc-800 light:border-zinc-200 text-zinc-500'}`}
+                >
+                  {inclusive ? (lang === 'ar' ? 'شاملة الضريبة' : 'Include tax') : (lang === 'ar' ? 'غير شاملة الضريبة' : 'Exclude tax')}
+                </button>
+              ))}
+            </div>
+            <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600 block pt-2">{lang === 'ar' ? 'النسبة الافتراضية' : 'Default rate'}</label>
+            <select
+              value={data.defaultTaxRateId || EXEMPT_TAX_ID}
+              disabled={!isTaxEnabled(data)}
+              onChange={(e) => updateData({ defaultTaxRateId: e.target.value })}
+              className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-3 px-4 focus:outline-none focus:border-red-500 font-bold text-sm light:text-zinc-900 disabled:opacity-40"
+            >
+              <option value={EXEMPT_TAX_ID}>{EXEMPT_LABEL[lang]}</option>
+              {(data.taxRates || []).map(r => <option key={r.id} value={r.id}>{r.name} ({r.rate}%)</option>)}
+            </select>
+            {isTaxEnabled(data) && data.categories.length > 0 && (
+              <div className="space-y-2 pt-2">
+                <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600 block">{lang === 'ar' ? 'حسب التصنيف' : 'By category'}</label>
+                {data.categories.map(category => (
+                  <div key={category} className="flex items-center justify-between gap-3">
+                    <span className="text-xs font-bold text-zinc-400 truncate">{category}</span>
+                    <select
+                      value={data.categoryTaxRates?.[category] || ''}
+                      onChange={(e) => {
+                        const { [category]: _, ...rest } = data.categoryTaxRates || {};
+                        updateData({ categoryTaxRates: e.target.value ? { ...rest, [category]: e.target.value } : rest });
+                      }}
+                      className="w-44 bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl py-2 px-3 focus:outline-none focus:border-red-500 text-xs font-bold light:text-zinc-900"
+                    >
+                      <option value="">{lang === 'ar' ? 'الافتراضي' : 'Default'}</option>
+                      <option value={EXEMPT_TAX_ID}>{EXEMPT_LABEL[lang]}</option>
+                      {(data.taxRates || []).map(r => <option key={r.id} value={r.id}>{r.name} ({r.rate}%)</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-zinc-950 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[40px] overflow-hidden">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 bg-black/20 light:bg-zinc-50 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-red-600 rounded-xl"><FileCheck size={20} className="text-white" /></div>
+            <h4 className="text-xl font-bold light:text-zinc-900">{lang === 'ar' ? 'الفاتورة الإلكترونية' : 'E-Invoicing'}</h4>
+          </div>
+          <span className={`text-[10px] font-black uppercase ${data.etaIssuer ? 'text-green-500' : 'text-zinc-500'}`}>
+            {data.etaIssuer ? (lang === 'ar' ? 'مسجل' : 'Registered') : (lang === 'ar' ? 'غير مسجل' : 'Not registered')}
+          </span>
+        </div>
+        <div className="p-8 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {([
+              ['registrationNumber', lang === 'ar' ? 'رقم التسجيل الضريبي' : 'Tax registration number'],
+              ['name', lang === 'ar' ? 'الاسم المسجل' : 'Registered name'],
+              ['activityCode', lang === 'ar' ? 'كود النشاط' : 'Activity code'],
+              ['branchId', lang === 'ar' ? 'كود الفرع' : 'Branch code'],
+              ['deviceSerialNumber', lang === 'ar' ? 'الرقم التسلسلي لنقطة البيع' : 'POS serial number'],
+              ['governate', lang === 'ar' ? 'المحافظة' : 'Governorate'],
+              ['regionCity', lang === 'ar' ? 'المدينة' : 'City'],
+              ['street', lang === 'ar' ? 'الشارع' : 'Street'],
+              ['buildingNumber', lang === 'ar' ? 'رقم المبنى' : 'Building number']
+            ] as [keyof EtaIssuer, string][]).map(([field, label]) => (
+              <div key={field} className="space-y-2">
+                <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600">{label}</label>
+                <input
+                  type="text"
+                  value={issuerForm[field] || ''}
+                  onChange={(e) => setIssuerForm({ ...issuerForm, [field]: e.target.value })}
+                  className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl py-3 px-4 focus:outline-none focus:border-red-500 text-sm font-bold light:text-zinc-900"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-zinc-500">
+              {lang === 'ar'
+                ? 'تُصدر الفواتير الإلكترونية بالجنيه المصري فقط، وتحتاج كل سلعة إلى كود صنف من مصلحة الضرائب.'
+                : 'E-invoices are issued in EGP only, and every product needs a tax authority item code.'}
+            </p>
+            <div className="flex gap-2 shrink-0">
+              {data.etaIssuer && (
+                <button onClick={() => updateData({ etaIssuer: undefined })} className="px-6 py-3 bg-zinc-900 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 text-zinc-500 rounded-xl text-[10px] font-black uppercase tracking-widest">
+                  {lang === 'ar' ? 'إلغاء التسجيل' : 'Clear'}
+                </button>
+              )}
+              <button
+                disabled={!issuerForm.registrationNumber.trim() || !issuerForm.name.trim() || !issuerForm.activityCode.trim() || !issuerForm.branchId.trim()}
+                onClick={() => updateData({ etaIssuer: { ...issuerForm, deviceSerialNumber: issuerForm.deviceSerialNumber?.trim() || undefined } })}
+                className="px-6 py-3 bg-red-600 hover:bg-red-700 disabled:opacity-40 text-white rounded-xl text-[10px] font-black uppercase tracking-widest"
+              >
+                {lang === 'ar' ? 'حفظ' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </section>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
         <section className="bg-zinc-950 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[40px] overflow-hidden">
           <div className="p-8 border-b border-zinc-800 light:border-zinc-200 bg-black/20 light:bg-zinc-50 flex justify-between items-center">
@@ -127,15 +517,29 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ data, updateData, setDa
             <span className="text-[10px] font-black uppercase text-zinc-500 light:text-zinc-400">{t.last_backup}: {data.lastBackupTimestamp ? new Date(data.lastBackupTimestamp).toLocaleDateString(lang === 'ar' ? 'ar-EG' : 'en-US') : '---'}</span>
           </div>
           <div className="p-8 space-y-4">
-            <button onClick={handleExport} className="w-full flex items-center justify-between p-6 bg-zinc-900/40 light:bg-zinc-50 hover:bg-red-600 rounded-3xl transition-all group border border-zinc-800 light:border-zinc-200">
+            <button onClick={() => handleExport()} className="w-full flex items-center justify-between p-6 bg-zinc-900/40 light:bg-zinc-50 hover:bg-red-600 rounded-3xl transition-all group border border-zinc-800 light:border-zinc-200">
               <div className="flex items-center gap-4">
                 <Download className="text-red-500 group-hover:text-white" />
                 <span className="font-bold light:text-zinc-900 group-hover:text-white">{t.generate_backup}</span>
               </div>
               <ChevronRight className="text-zinc-600 group-hover:text-white" />
             </button>
+            <button onClick={() => { setPassphraseError(null); setPassphrasePrompt({ mode: 'export' }); }} className="w-full flex items-center justify-between p-6 bg-zinc-900/40 light:bg-zinc-50 hover:bg-blue-600 rounded-3xl transition-all group border border-zinc-800 light:border-zinc-200">
+              <div className="flex items-center gap-4">
+                <Lock className="text-blue-500 group-hover:text-white" />
+                <span className="font-bold light:text-zinc-900 group-hover:text-white">{lang === 'ar' ? 'نسخة احتياطية مشفرة' : 'Encrypted Backup'}</span>
+              </div>
+              <ChevronRight className="text-zinc-600 group-hover:text-white" />
+            </button>
+            <button onClick={handleExportBundle} className="w-full flex items-center justify-between p-6 bg-zinc-900/40 light:bg-zinc-50 hover:bg-red-600 rounded-3xl transition-all group border border-zinc-800 light:border-zinc-200">
+              <div className="flex items-center gap-4">
+                <Package className="text-red-500 group-hover:text-white" />
+                <span className="font-bold light:text-zinc-900 group-hover:text-white">{lang === 'ar' ? 'نسخة كاملة مع الصور' : 'Full Bundle with Images'}</span>
+              </div>
+              <ChevronRight className="text-zinc-600 group-hover:text-white" />
+            </button>
             <div className="relative">
-              <input type="file" ref={fileInputRef} className="hidden" accept=".json" onChange={handleImport} />
+              <input type="file" ref={fileInputRef} className="hidden" accept=".json,.zip" onChange={handleImport} />
               <button onClick={() => fileInputRef.current?.click()} className="w-full flex items-center justify-between p-6 bg-zinc-900/40 light:bg-zinc-50 hover:bg-zinc-800 light:hover:bg-zinc-100 rounded-3xl transition-all group border border-zinc-800 light:border-zinc-200">
                 <div className="flex items-center gap-4">
                   <Upload className="text-blue-500" />
@@ -154,6 +558,283 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ data, updateData, setDa
             <button onClick={handleReset} className="w-full py-6 bg-red-600/10 border border-red-600/50 text-red-600 hover:bg-red-600 hover:text-white font-black rounded-3xl transition-all">{lang === 'ar' ? 'تأكيد الحذف النهائي' : 'Confirm Wipe'}</button>
         </section>
       </div>
+
+      <section className="bg-zinc-950 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[40px] overflow-hidden">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 bg-black/20 light:bg-zinc-50 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-600 rounded-xl"><History size={20} className="text-white" /></div>
+            <h4 className="text-xl font-bold light:text-zinc-900">{lang === 'ar' ? 'النسخ التلقائية على الجهاز' : 'Automatic Local Snapshots'}</h4>
+          </div>
+          {snapshotsSupported && (
+            <button onClick={handleSnapshotNow} className="px-5 py-3 bg-blue-600 hover:bg-blue-700 text-white text-[10px] font-black uppercase tracking-widest rounded-xl">
+              {lang === 'ar' ? 'نسخة الآن' : 'Snapshot Now'}
+            </button>
+          )}
+        </div>
+        {!snapshotsSupported ? (
+          <p className="p-8 text-xs text-zinc-500">{lang === 'ar' ? 'هذا المتصفح لا يدعم التخزين المحلي للملفات.' : 'This browser does not support the private file system.'}</p>
+        ) : (
+          <div className="p-8 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600">{lang === 'ar' ? 'كل' : 'Every'}</label>
+                <select
+                  value={data.autoBackupIntervalMinutes ?? DEFAULT_AUTO_BACKUP_INTERVAL_MINUTES}
+                  onChange={(e) => updateData({ autoBackupIntervalMinutes: parseInt(e.target.value) })}
+                  className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-blue-500 font-bold light:text-zinc-900"
+                >
+                  <option value={0}>{lang === 'ar' ? 'متوقف' : 'Off'}</option>
+                  <option value={15}>{lang === 'ar' ? '15 دقيقة' : '15 minutes'}</option>
+                  <option value={30}>{lang === 'ar' ? '30 دقيقة' : '30 minutes'}</option>
+                  <option value={60}>{lang === 'ar' ? 'ساعة' : '1 hour'}</option>
+                  <option value={240}>{lang === 'ar' ? '4 ساعات' : '4 hours'}</option>
+                  <option value={1440}>{lang === 'ar' ? 'يوم' : '1 day'}</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600">{lang === 'ar' ? 'عدد النسخ المحفوظة' : 'Snapshots to keep'}</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={data.autoBackupRetention ?? DEFAULT_AUTO_BACKUP_RETENTION}
+                  onChange={(e) => updateData({ autoBackupRetention: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-blue-500 font-bold light:text-zinc-900"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {snapshots.length === 0 && (
+                <p className="text-xs text-zinc-500 text-center py-6">{lang === 'ar' ? 'لا توجد نسخ بعد' : 'No snapshots yet'}</p>
+              )}
+              {snapshots.map(snapshot => (
+                <div key={snapshot.name} className="flex items-center justify-between p-4 bg-zinc-900/40 light:bg-zinc-50 border border-zinc-800 light:border-zinc-200 rounded-2xl">
+                  <div className="flex items-center gap-3">
+                    <Clock size={16} className="text-zinc-500" />
+                    <div>
+                      <p className="text-sm font-bold light:text-zinc-900">{new Date(snapshot.timestamp).toLocaleString(lang === 'ar' ? 'ar-EG' : 'en-US')}</p>
+                      <p className="text-[10px] text-zinc-500 font-mono">{(snapshot.size / 1024).toFixed(1)} KB</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => handleRestoreSnapshot(snapshot)} className="px-4 py-2 bg-blue-600/10 border border-blue-600/30 text-blue-500 hover:bg-blue-600 hover:text-white text-[10px] font-black uppercase rounded-xl transition-all">
+                      {lang === 'ar' ? 'استرجاع' : 'Restore'}
+                    </button>
+                    <button onClick={() => handleDeleteSnapshot(snapshot)} className="p-2 text-zinc-500 hover:text-red-500 transition-colors"><Trash2 size={16} /></button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section className="bg-zinc-950 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[40px] overflow-hidden">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 bg-black/20 light:bg-zinc-50 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-orange-600 rounded-xl"><Archive size={20} className="text-white" /></div>
+            <h4 className="text-xl font-bold light:text-zinc-900">{lang === 'ar' ? 'إغلاق الفترات والأرشيف' : 'Period Close & Archive'}</h4>
+          </div>
+          {periods.length > 0 && (
+            <button onClick={() => archiveService.exportArchive()} className="px-5 py-3 bg-zinc-900 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 text-zinc-400 hover:text-white light:hover:text-zinc-900 text-[10px] font-black uppercase tracking-widest rounded-xl">
+              {lang === 'ar' ? 'تنزيل الأرشيف' : 'Download Archive'}
+            </button>
+          )}
+        </div>
+        <div className="p-8 space-y-6">
+          <div className="flex flex-col md:flex-row gap-4 md:items-end">
+            <div className="space-y-2 flex-1">
+              <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 light:text-zinc-600">{lang === 'ar' ? 'أرشفة السجلات قبل' : 'Archive records before'}</label>
+              <input
+                type="date"
+                value={closeDate}
+                onChange={(e) => setCloseDate(e.target.value)}
+                className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl py-4 px-6 focus:outline-none focus:border-orange-500 font-bold light:text-zinc-900"
+              />
+            </div>
+            <button
+              onClick={handleClosePeriod}
+              disabled={!closePlan.plan}
+              className="px-8 py-4 bg-orange-600 hover:bg-orange-700 disabled:opacity-40 disabled:cursor-not-allowed text-white font-black uppercase text-xs rounded-2xl"
+            >
+              {lang === 'ar' ? 'إغلاق الفترة' : 'Close Period'}
+            </button>
+          </div>
+
+          {closePlan.plan ? (
+            <div className="flex flex-wrap gap-2">
+              {ARCHIVABLE_COLLECTIONS.filter(name => closePlan.plan!.records[name].length > 0).map(name => (
+                <span key={name} className="px-3 py-1.5 rounded-lg bg-orange-600/10 border border-orange-600/30 text-orange-400 text-[10px] font-black uppercase">
+                  {name}: {closePlan.plan!.records[name].length}
+                </span>
+              ))}
+              <span className="px-3 py-1.5 rounded-lg bg-zinc-900 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 text-zinc-400 text-[10px] font-black uppercase">
+                {lang === 'ar' ? 'رصيد مرحل' : 'Carried forward'}: {data.currency} {closePlan.plan.period.cashCarriedForward.toLocaleString()}
+              </span>
+            </div>
+          ) : (
+            <p className="text-xs text-zinc-500">{closePlan.error}</p>
+          )}
+
+          {periods.length > 0 && (
+            <div className="space-y-2">
+              {periods.map(period => (
+                <div key={period.id} className="flex items-center justify-between p-4 bg-zinc-900/40 light:bg-zinc-50 border border-zinc-800 light:border-zinc-200 rounded-2xl text-xs">
+                  <span className="font-bold light:text-zinc-900">{lang === 'ar' ? 'قبل' : 'Before'} {new Date(period.cutoff).toLocaleDateString(lang === 'ar' ? 'ar-EG' : 'en-US')}</span>
+                  <span className="text-zinc-500 font-mono">{Object.values(period.counts).reduce<number>((acc, n) => acc + Number(n), 0)} {lang === 'ar' ? 'سجل' : 'records'}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </section>
+
+      <section className="bg-zinc-950 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[40px] overflow-hidden">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 bg-black/20 light:bg-zinc-50 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-600 rounded-xl"><ListChecks size={20} className="text-white" /></div>
+            <div>
+              <h4 className="text-xl font-bold light:text-zinc-900">{lang === 'ar' ? 'إعادة الحساب من السجل' : 'Recompute from History'}</h4>
+              <p className="text-[10px] text-zinc-500 font-mono">{(data.events || []).length} {lang === 'ar' ? 'حدث' : 'events'}</p>
+            </div>
+          </div>
+          <button onClick={() => setDiscrepancies(findDiscrepancies(data))} className="px-5 py-3 bg-zinc-900 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 text-zinc-400 hover:text-white light:hover:text-zinc-900 text-[10px] font-black uppercase tracking-widest rounded-xl">
+            {lang === 'ar' ? 'فحص' : 'Check'}
+          </button>
+        </div>
+        <div className="p-8 space-y-4">
+          <p className="text-xs text-zinc-500">
+            {lang === 'ar'
+              ? 'يعيد بناء أرصدة المخزون وإجماليات العملاء من سجل الأحداث ويقارنها بالقيم المحفوظة.'
+              : 'Rebuilds stock levels and customer totals from the event log and compares them with the stored values.'}
+          </p>
+          {discrepancies && discrepancies.length === 0 && (
+            <p className="text-xs font-black uppercase text-green-500">{lang === 'ar' ? 'كل القيم مطابقة للسجل' : 'All stored values match the history'}</p>
+          )}
+          {discrepancies && discrepancies.length > 0 && (
+            <>
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {discrepancies.map(d => (
+                  <div key={`${d.id}-${d.field}`} className="flex items-center justify-between p-4 bg-zinc-900/40 light:bg-zinc-50 border border-zinc-800 light:border-zinc-200 rounded-2xl text-xs">
+                    <span className="font-bold light:text-zinc-900">{d.name} <span className="text-zinc-500 font-mono">({d.field})</span></span>
+                    <span className="font-mono">
+                      <span className="text-red-500">{d.stored.toLocaleString()}</span>
+                      <span className="text-zinc-500"> → </span>
+                      {d.replayed === undefined
+                        ? <span className="text-zinc-500">{lang === 'ar' ? 'لا يوجد سجل' : 'no history'}</span>
+                        : <span className="text-green-500">{d.replayed.toLocaleString()}</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={handleRecompute}
+                className="px-8 py-4 bg-blue-600 hover:bg-blue-700 text-white font-black uppercase text-xs rounded-2xl"
+              >
+                {lang === 'ar' ? 'تصحيح القيم' : 'Fix Stored Values'}
+              </button>
+            </>
+          )}
+        </div>
+      </section>
+
+      <section className="bg-zinc-950 light:bg-white border border-zinc-800 light:border-zinc-200 rounded-[40px] overflow-hidden">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 bg-black/20 light:bg-zinc-50 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-amber-600 rounded-xl"><Stethoscope size={20} className="text-white" /></div>
+            <div>
+              <h4 className="text-xl font-bold light:text-zinc-900">{lang === 'ar' ? 'فحص سلامة البيانات' : 'Integrity Check'}</h4>
+              {integrityIssues && (
+                <p className="text-[10px] text-zinc-500 font-mono">
+                  {integrityIssues.filter(i => i.severity === 'error').length} {lang === 'ar' ? 'أخطاء' : 'errors'} · {integrityIssues.filter(i => i.severity === 'warning').length} {lang === 'ar' ? 'تحذيرات' : 'warnings'}
+                </p>
+              )}
+            </div>
+          </div>
+          <button onClick={() => setIntegrityIssues(scanIntegrity(data))} className="px-5 py-3 bg-zinc-900 light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 text-zinc-400 hover:text-white light:hover:text-zinc-900 text-[10px] font-black uppercase tracking-widest rounded-xl">
+            {lang === 'ar' ? 'فحص' : 'Scan'}
+          </button>
+        </div>
+        <div className="p-8 space-y-4">
+          <p className="text-xs text-zinc-500">
+            {lang === 'ar'
+              ? 'يفحص الروابط بين السجلات (العملاء، الفواتير، المرتجعات، الشركاء) وقواعد المخزون والورديات. كل إصلاح يُسجل في سجل النظام.'
+              : 'Checks the links between records (customers, invoices, returns, partners) and the stock and shift rules. Every repair is written to the system log.'}
+          </p>
+          {integrityIssues && integrityIssues.length === 0 && (
+            <p className="text-xs font-black uppercase text-green-500">{lang === 'ar' ? 'لا توجد مشاكل' : 'No problems found'}</p>
+          )}
+          {integrityIssues && integrityIssues.length > 0 && (
+            <>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {integrityIssues.map(issue => (
+                  <div key={issue.id} className="flex items-center justify-between gap-4 p-4 bg-zinc-900/40 light:bg-zinc-50 border border-zinc-800 light:border-zinc-200 rounded-2xl text-xs">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase ${issue.severity === 'error' ? 'bg-red-500/10 text-red-500' : 'bg-amber-500/10 text-amber-500'}`}>
+                        {issue.severity === 'error' ? (lang === 'ar' ? 'خطأ' : 'Error') : (lang === 'ar' ? 'تحذير' : 'Warning')}
+                      </span>
+                      <span className="text-zinc-500 font-mono">{issue.collection}</span>
+                      <span className="font-bold light:text-zinc-900 truncate">{issue.message}</span>
+                    </div>
+                    {issue.repair && (
+                      <button
+                        onClick={() => handleRepair([issue])}
+                        className="shrink-0 px-3 py-2 bg-zinc-800 light:bg-zinc-200 hover:bg-amber-600 hover:text-white text-zinc-300 light:text-zinc-700 text-[10px] font-black uppercase rounded-xl"
+                      >
+                        {REPAIR_LABELS[issue.repair][lang]}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {integrityIssues.some(i => i.repair) && (
+                <button
+                  onClick={() => handleRepair(integrityIssues)}
+                  className="px-8 py-4 bg-amber-600 hover:bg-amber-700 text-white font-black uppercase text-xs rounded-2xl"
+                >
+                  {lang === 'ar' ? 'إصلاح الكل' : 'Repair All'}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </section>
+
+      {showAdminPin && (
+        <SetPinModal
+          name={lang === 'ar' ? 'المدير العام' : SYSTEM_ADMIN.name}
+          hasPin={!!data.adminPin}
+          lang={lang}
+          onCancel={() => setShowAdminPin(false)}
+          onSave={(pin) => {
+            dispatch({ type: 'SET_PIN', operatorId: SYSTEM_ADMIN.id, pin });
+            setShowAdminPin(false);
+          }}
+        />
+      )}
+
+      {passphrasePrompt && (
+        <PassphraseModal
+          mode={passphrasePrompt.mode}
+          fileName={passphrasePrompt.mode === 'import' ? passphrasePrompt.file.name : undefined}
+          error={passphraseError}
+          lang={lang}
+          onCancel={() => setPassphrasePrompt(null)}
+          onSubmit={(passphrase) => passphrasePrompt.mode === 'import' ? readBackup(passphrasePrompt.file, passphrase) : handleExport(passphrase)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportPreviewModal
+          current={data}
+          incoming={pendingImport.data}
+          fileName={pendingImport.fileName}
+          lang={lang}
+          onCancel={() => setPendingImport(null)}
+          onReplace={confirmReplace}
+          onMerge={confirmMerge}
+        />
+      )}
     </div>
   );
 };
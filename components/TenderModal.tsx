@@ -0,0 +1,133 @@
+
+import React, { useMemo, useState } from 'react';
+import { X, Wallet, Plus, Trash2 } from 'lucide-react';
+import { PaymentMethod, SalePayment } from '../types';
+import { Language } from '../translations';
+import { money } from '../services/money';
+import { PAYMENT_METHODS, PAYMENT_LABELS, settleTender, Tender } from '../services/payments';
+
+interface TenderModalProps {
+  total: number;
+  currency: string;
+  lang: Language;
+  creditAvailable?: number; // What the linked customer may still leave owing on account
+  onCancel: () => void;
+  onConfirm: (payments: SalePayment[]) => void;
+}
+
+const TenderModal: React.FC<TenderModalProps> = ({ total, currency, lang, creditAvailable = 0, onCancel, onConfirm }) => {
+  const [payments, setPayments] = useState<SalePayment[]>([{ method: 'cash', amount: total }]);
+
+  // What the current entries settle, or why they cannot
+  const preview = useMemo((): { tender?: Tender; error?: string } => {
+    try {
+      return { tender: settleTender(total, payments, currency) };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }, [payments, total, currency]);
+
+  const remaining = preview.tender ? Math.max(0, money.subtract(total, preview.tender.paid, currency)) : total;
+  const canConfirm = !!preview.tender && remaining <= creditAvailable;
+
+  const update = (index: number, patch: Partial<SalePayment>) =>
+    setPayments(prev => prev.map((p, i) => i === index ? { ...p, ...patch } : p));
+
+  // A new line starts with whatever is still owed
+  const addMethod = (method: PaymentMethod) => setPayments(prev => [...prev, { method, amount: remaining }]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canConfirm) onConfirm(payments);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center bg-black/95 backdrop-blur-xl p-4 animate-in fade-in duration-300">
+      <form onSubmit={handleSubmit} className="bg-zinc-900 light:bg-white border border-zinc-800 light:border-zinc-200 w-full max-w-lg rounded-[40px] overflow-hidden shadow-2xl">
+        <div className="p-8 border-b border-zinc-800 light:border-zinc-200 flex justify-between items-center bg-black/20 light:bg-zinc-50">
+          <div className="flex items-center gap-3 text-start">
+            <div className="p-2 bg-red-600 rounded-xl"><Wallet size={20} className="text-white" /></div>
+            <div>
+              <h4 className="text-xl font-black uppercase tracking-tighter light:text-zinc-900">{lang === 'ar' ? 'الدفع' : 'Tender'}</h4>
+              <p className="text-[10px] text-zinc-500 font-black uppercase tracking-widest">{currency} {total.toLocaleString()}</p>
+            </div>
+          </div>
+          <button type="button" onClick={onCancel} className="p-3 hover:bg-zinc-800 light:hover:bg-zinc-100 rounded-full transition-colors text-zinc-500"><X size={24} /></button>
+        </div>
+
+        <div className="p-8 space-y-4 text-start">
+          {payments.map((payment, index) => (
+            <div key={index} className="p-4 bg-black/40 light:bg-zinc-50 border border-zinc-800 light:border-zinc-200 rounded-2xl space-y-3">
+              <div className="flex items-center gap-3">
+                <select
+                  value={payment.method}
+                  onChange={(e) => update(index, { method: e.target.value as PaymentMethod })}
+                  className="flex-1 bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl py-3 px-4 focus:outline-none focus:border-red-500 font-bold text-sm light:text-zinc-900"
+                >
+                  {PAYMENT_METHODS.map(m => <option key={m} value={m}>{PAYMENT_LABELS[m][lang]}</option>)}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  value={payment.amount}
+                  autoFocus={index === payments.length - 1}
+                  onChange={(e) => update(index, { amount: parseFloat(e.target.value) || 0 })}
+                  className="w-36 bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl py-3 px-4 focus:outline-none focus:border-red-500 font-black text-red-500"
+                />
+                {payments.length > 1 && (
+                  <button type="button" onClick={() => setPayments(prev => prev.filter((_, i) => i !== index))} className="text-zinc-600 hover:text-red-500 transition-colors"><Trash2 size={16} /></button>
+                )}
+              </div>
+              {payment.method !== 'cash' && (
+                <input
+                  type="text"
+                  value={payment.reference || ''}
+                  onChange={(e) => update(index, { reference: e.target.value })}
+                  placeholder={lang === 'ar' ? 'رقم العملية / الإيصال (اختياري)' : 'Transaction / slip number (optional)'}
+                  className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-xl py-2 px-4 focus:outline-none focus:border-red-500 text-xs font-mono light:text-zinc-900"
+                />
+              )}
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-2">
+            {PAYMENT_METHODS.map(m => (
+              <button key={m} type="button" onClick={() => addMethod(m)} className="flex items-center gap-1 px-3 py-2 rounded-xl bg-zinc-800 light:bg-zinc-200 hover:bg-zinc-700 light:hover:bg-zinc-300 text-zinc-300 light:text-zinc-700 text-[10px] font-black uppercase tracking-widest transition-all">
+                <Plus size={12} /> {PAYMENT_LABELS[m][lang]}
+              </button>
+            ))}
+          </div>
+
+          <div className="pt-4 border-t border-zinc-800 light:border-zinc-200 space-y-2">
+            <div className="flex justify-between text-xs font-black uppercase tracking-widest text-zinc-500">
+              <span>{remaining > 0 && remaining <= creditAvailable ? (lang === 'ar' ? 'على الحساب' : 'On account') : (lang === 'ar' ? 'المتبقي' : 'Remaining')}</span>
+              <span className={remaining > 0 ? 'text-orange-500' : ''}>{currency} {remaining.toLocaleString()}</span>
+            </div>
+            {creditAvailable > 0 && (
+              <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-zinc-600">
+                <span>{lang === 'ar' ? 'الائتمان المتاح' : 'Credit available'}</span>
+                <span>{currency} {creditAvailable.toLocaleString()}</span>
+              </div>
+            )}
+            <div className="flex justify-between items-end">
+              <span className="text-xs font-black uppercase tracking-widest text-zinc-400">{lang === 'ar' ? 'الباقي للعميل' : 'Change'}</span>
+              <span className="text-3xl font-black text-green-500">{currency} {(preview.tender?.change || 0).toLocaleString()}</span>
+            </div>
+          </div>
+          {preview.error && <p className="text-xs font-bold text-red-500">{preview.error}</p>}
+        </div>
+
+        <div className="p-8 pt-0 flex gap-4">
+          <button type="button" onClick={onCancel} className="flex-1 py-4 bg-zinc-800 light:bg-zinc-200 text-zinc-300 light:text-zinc-700 font-black uppercase text-xs rounded-2xl">
+            {lang === 'ar' ? 'إلغاء' : 'Cancel'}
+          </button>
+          <button type="submit" disabled={!canConfirm} className="flex-1 py-4 bg-red-600 hover:bg-red-700 disabled:opacity-40 disabled:cursor-not-allowed text-white font-black uppercase text-xs rounded-2xl shadow-xl">
+            {lang === 'ar' ? 'تأكيد الدفع' : 'Confirm Payment'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default TenderModal;
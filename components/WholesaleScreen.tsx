@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { AppData, WholesalePartner, WholesaleTransaction, LogEntry, Product, WholesalePayment } from '../types';
+import { AppData, WholesalePartner, WholesaleTransaction, Product } from '../types';
 import { translations, Language } from '../translations';
 import { 
   Users, 
@@ -20,17 +20,20 @@ import {
   Coins,
   CheckCircle2,
   Clock,
-  PieChart
+  PieChart,
+  FileCheck
 } from 'lucide-react';
+import { CommandDispatcher } from '../services/commands';
+import { money } from '../services/money';
+import { EDOCUMENT_STATUS_LABELS } from '../services/eInvoice';
 
 interface WholesaleScreenProps {
   data: AppData;
-  updateData: (newData: Partial<AppData>) => void;
-  addLog: (log: Omit<LogEntry, 'id' | 'timestamp'>) => void;
+  dispatch: CommandDispatcher;
   lang: Language;
 }
 
-const WholesaleScreen: React.FC<WholesaleScreenProps> = ({ data, updateData, addLog, lang }) => {
+const WholesaleScreen: React.FC<WholesaleScreenProps> = ({ data, dispatch, lang }) => {
   const [partnerFilter, setPartnerFilter] = useState<'all' | 'buyer' | 'supplier'>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [showPartnerModal, setShowPartnerModal] = useState(false);
@@ -42,7 +45,8 @@ const WholesaleScreen: React.FC<WholesaleScreenProps> = ({ data, updateData, add
   const [partnerForm, setPartnerForm] = useState<Omit<WholesalePartner, 'id' | 'createdAt'>>({
     name: '',
     contact: '',
-    type: 'buyer'
+    type: 'buyer',
+    taxRegistrationNumber: ''
   });
 
   const [transItems, setTransItems] = useState<{ productId: string; quantity: number; unitPrice: number }[]>([]);
@@ -52,8 +56,8 @@ const WholesaleScreen: React.FC<WholesaleScreenProps> = ({ data, updateData, add
   const [stockError, setStockError] = useState<string | null>(null);
 
   const currentTotal = useMemo(() => {
-    return transItems.reduce((acc, i) => acc + (i.unitPrice * i.quantity), 0);
-  }, [transItems]);
+    return money.sum(transItems.map(i => money.multiply(i.unitPrice, i.quantity, data.currency)), data.currency);
+  }, [transItems, data.currency]);
 
   useEffect(() => {
     setPaidAmount(currentTotal);
@@ -70,36 +74,35 @@ const WholesaleScreen: React.FC<WholesaleScreenProps> = ({ data, updateData, add
   const partnerAggregates = useMemo(() => {
     if (!selectedPartner) return null;
     const transactions = (data.wholesaleTransactions || []).filter(t => t.partnerId === selectedPartner.id);
-    const totalTransactions = transactions.reduce((acc, t) => acc + t.total, 0);
-    const totalPaid = transactions.reduce((acc, t) => acc + t.paidAmount, 0);
-    const totalDue = totalTransactions - totalPaid;
+    const totalTransactions = money.sum(transactions.map(t => t.total), data.currency);
+    const totalPaid = money.sum(transactions.map(t => t.paidAmount), data.currency);
+    const totalDue = money.subtract(totalTransactions, totalPaid, data.currency);
     return { totalTransactions, totalPaid, totalDue, count: transactions.length };
-  }, [selectedPartner, data.wholesaleTransactions]);
+  }, [selectedPartner, data.wholesaleTransactions, data.currency]);
 
   const savePartner = () => {
     if (!partnerForm.name) return;
     const newPartner: WholesalePartner = {
       ...partnerForm,
+      taxRegistrationNumber: partnerForm.type === 'buyer' && partnerForm.taxRegistrationNumber?.trim() || undefined,
       id: crypto.randomUUID(),
       createdAt: Date.now()
     };
-    updateData({ partners: [...(data.partners || []), newPartner] });
-    addLog({
-      action: 'PARTNER_CREATED',
-      category: 'wholesale',
-      details: `Registered wholesale ${partnerForm.type}: ${partnerForm.name}`
-    });
+    dispatch({ type: 'SAVE_PARTNER', partner: newPartner });
     setShowPartnerModal(false);
-    setPartnerForm({ name: '', contact: '', type: 'buyer' });
+    setPartnerForm({ name: '', contact: '', type: 'buyer', taxRegistrationNumber: '' });
   };
 
   const deletePartner = (id: string) => {
     if (confirm(t.delete_confirm)) {
-      updateData({
-        partners: (data.partners || []).filter(p => p.id !== id),
-        wholesaleTransactions: (data.wholesaleTransactions || []).filter(t => t.partnerId !== id)
-      });
-      addLog({ action: 'PARTNER_DELETED', category: 'wholesale', details: `Removed partner ${id}` });
+      try {
+        dispatch({ type: 'DELETE_PARTNER', partnerId: id });
+      } catch (err: any) {
+        setStockError(err.message);
+        setTimeout(() => setStockError(null), 3000);
+        return;
+      }
+      setSelectedPartner(null);
     }
   };
 
@@ -126,30 +129,16 @@ const WholesaleScreen: React.FC<WholesaleScreenProps> = ({ data, updateData, add
         quantity: i.quantity,
         unitPrice: i.unitPrice
       })),
-      payments: paidAmount > 0 ? [{ amount: paidAmount, timestamp: Date.now(), remainingAfter: total - paidAmount }] : []
+      payments: paidAmount > 0 ? [{ amount: paidAmount, timestamp: Date.now(), remainingAfter: money.subtract(total, paidAmount, data.currency) }] : []
     };
 
-    const updatedProducts = data.products.map(p => {
-      const item = transItems.find(i => i.productId === p.id);
-      if (item) {
-        return { 
-          ...p, 
-          stock: transType === 'purchase' ? p.stock + item.quantity : p.stock - item.quantity,
-        };
-      }
-      return p;
-    });
-
-    updateData({
-      wholesaleTransactions: [...(data.wholesaleTransactions || []), newTrans],
-      products: updatedProducts
-    });
-
-    addLog({
-      action: transType === 'sale' ? 'WHOLESALE_SALE' : 'WHOLESALE_PURCHASE',
-      category: 'wholesale',
-      details: `${transType === 'sale' ? 'Sold to' : 'Purchased from'} ${selectedPartner.name}: Total ${data.currency} ${total.toLocaleString()}, Paid: ${paidAmount.toLocaleString()}`
-    });
+    try {
+      dispatch({ type: 'WHOLESALE_TRANSACTION', transaction: newTrans });
+    } catch (err: any) {
+      setStockError(err.message);
+      setTimeout(() => setStockError(null), 3000);
+      return;
+    }
 
     setShowTransactionModal(false);
     setTransItems([]);
@@ -159,34 +148,27 @@ const WholesaleScreen: React.FC<WholesaleScreenProps> = ({ data, updateData, add
   const handleDebtPayment = () => {
     if (!showPaymentModal || paymentAmount <= 0) return;
     
-    const updatedTransactions = data.wholesaleTransactions.map(t => {
-      if (t.id === showPaymentModal.id) {
-        const newPaidAmount = t.paidAmount + paymentAmount;
-        const newPaymentRecord: WholesalePayment = {
-          amount: paymentAmount,
-          timestamp: Date.now(),
-          remainingAfter: t.total - newPaidAmount
-        };
-        return { 
-          ...t, 
-          paidAmount: newPaidAmount,
-          payments: [...(t.payments || []), newPaymentRecord]
-        };
-      }
-      return t;
-    });
-
-    updateData({ wholesaleTransactions: updatedTransactions });
-    addLog({
-      action: 'DEBT_PAYMENT',
-      category: 'cash',
-      details: `Received/Paid ${data.currency} ${paymentAmount} for wholesale trans ${showPaymentModal.id.split('-')[0]}`
-    });
+    try {
+      dispatch({ type: 'WHOLESALE_PAYMENT', transactionId: showPaymentModal.id, amount: paymentAmount });
+    } catch (err: any) {
+      setStockError(err.message);
+      setTimeout(() => setStockError(null), 3000);
+      return;
+    }
 
     setShowPaymentModal(null);
     setPaymentAmount(0);
   };
 
+  const queueEInvoice = (transactionId: string) => {
+    try {
+      dispatch({ type: 'QUEUE_EDOCUMENT', kind: 'invoice', sourceId: transactionId });
+    } catch (err: any) {
+      setStockError(err.message);
+      setTimeout(() => setStockError(null), 3000);
+    }
+  };
+
   const partnerTransactions = useMemo(() => {
     if (!selectedPartner) return [];
     return (data.wholesaleTransactions || [])
@@ -292,6 +274,9 @@ const WholesaleScreen: React.FC<WholesaleScreenProps> = ({ data, updateData, add
                     </span>
                   </div>
                   <p className="text-xs text-zinc-500 light:text-zinc-400 mt-1">{selectedPartner.contact}</p>
+                  {selectedPartner.taxRegistrationNumber && (
+                    <p className="text-[10px] text-zinc-500 light:text-zinc-400 font-mono mt-1">{lang === 'ar' ? 'رقم التسجيل الضريبي: ' : 'Tax Reg. No: '}{selectedPartner.taxRegistrationNumber}</p>
+                  )}
                 </div>
 
                 <div className="flex gap-3">
@@ -331,6 +316,7 @@ const WholesaleScreen: React.FC<WholesaleScreenProps> = ({ data, updateData, add
                 {partnerTransactions.map(t_item => {
                   const remaining = t_item.total - t_item.paidAmount;
                   const isSettled = remaining <= 0;
+                  const eDocument = data.eDocuments.find(d => d.sourceId === t_item.id && d.status !== 'rejected');
                   return (
                     <div key={t_item.id} className="bg-zinc-900/50 light:bg-white border border-zinc-800 light:border-zinc-200 p-6 rounded-[24px] group light:shadow-sm">
                        <div className="flex justify-between items-start mb-4">
@@ -359,6 +345,13 @@ const WholesaleScreen: React.FC<WholesaleScreenProps> = ({ data, updateData, add
                             {!isSettled && (
                               <button onClick={() => setShowPaymentModal(t_item)} className="p-3 bg-orange-600 text-white rounded-xl hover:bg-orange-700 transition-all shadow-lg" title={t.add_payment}><Coins size={20}/></button>
                             )}
+                            {t_item.type === 'sale' && data.etaIssuer && (eDocument ? (
+                              <span className="text-[10px] font-black text-green-500 bg-green-500/10 px-2 py-0.5 rounded border border-green-500/20 uppercase tracking-widest flex items-center gap-1">
+                                <FileCheck size={10} /> {EDOCUMENT_STATUS_LABELS[eDocument.status][lang]}
+                              </span>
+                            ) : (
+                              <button onClick={() => queueEInvoice(t_item.id)} className="p-3 bg-zinc-800 light:bg-zinc-100 text-zinc-300 light:text-zinc-600 rounded-xl hover:bg-zinc-700 light:hover:bg-zinc-200 transition-all" title={lang === 'ar' ? 'إضافة فاتورة إلكترونية' : 'Queue E-Invoice'}><FileCheck size={20}/></button>
+                            ))}
                           </div>
                        </div>
                        
@@ -449,6 +442,12 @@ const WholesaleScreen: React.FC<WholesaleScreenProps> = ({ data, updateData, add
                 <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 block mb-2">{t.contact_details}</label>
                 <input type="text" className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl px-6 py-4 focus:outline-none focus:border-red-500 text-zinc-100 light:text-zinc-900 font-mono" value={partnerForm.contact} onChange={e => setPartnerForm({...partnerForm, contact: e.target.value})} />
               </div>
+              {partnerForm.type === 'buyer' && (
+                <div>
+                  <label className="text-[10px] font-black uppercase tracking-widest text-zinc-500 block mb-2">{lang === 'ar' ? 'رقم التسجيل الضريبي' : 'Tax Registration Number'}</label>
+                  <input type="text" className="w-full bg-black light:bg-zinc-100 border border-zinc-800 light:border-zinc-200 rounded-2xl px-6 py-4 focus:outline-none focus:border-red-500 text-zinc-100 light:text-zinc-900 font-mono" value={partnerForm.taxRegistrationNumber || ''} onChange={e => setPartnerForm({...partnerForm, taxRegistrationNumber: e.target.value})} />
+                </div>
+              )}
             </div>
             <div className="p-8 bg-black/40 light:bg-zinc-50 border-t border-zinc-800 light:border-zinc-200 flex gap-4">
               <button onClick={() => setShowPartnerModal(false)} className="flex-1 py-4 bg-zinc-800 light:bg-zinc-200 text-zinc-400 light:text-zinc-600 font-black uppercase tracking-widest text-xs rounded-2xl">{t.discard}</button>
@@ -0,0 +1,200 @@
+
+import { AppData, ArchivedPeriod, Sale, SaleReturn, Expense, SalaryTransaction, Attendance, StockLog, LogEntry } from '../types';
+import { createLog, calculateCashBalance } from './operations';
+import { money } from './money';
+
+/**
+ * Period Archive Service
+ * Closing a period moves settled records dated before a cutoff out of the live ledger into a
+ * separate IndexedDB database. Their cash effect is folded into `initialCash`, so the drawer
+ * balance is unchanged; stock and customer totals are stored on their records and need no change.
+ */
+
+const ARCHIVE_DB_NAME = 'twinx_pos_archive';
+const ARCHIVE_DB_VERSION = 1;
+const PERIODS_STORE = 'periods';
+
+export interface ArchivedRecords {
+  sales: Sale[];
+  returns: SaleReturn[];
+  expenses: Expense[];
+  salaryTransactions: SalaryTransaction[];
+  attendance: Attendance[];
+  stockLogs: StockLog[];
+  logs: LogEntry[];
+}
+
+export type ArchivableCollection = keyof ArchivedRecords;
+
+export const ARCHIVABLE_COLLECTIONS: ArchivableCollection[] = ['sales', 'returns', 'expenses', 'salaryTransactions', 'attendance', 'stockLogs', 'logs'];
+
+export interface PeriodClosePlan {
+  data: AppData;
+  period: ArchivedPeriod;
+  records: ArchivedRecords;
+}
+
+let archiveDbPromise: Promise<IDBDatabase> | null = null;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Both helpers work in place and hand back the same list, so its element type is kept.
+const removeIds = <L extends { id: string }[]>(list: L, ids: Set<string>): L => {
+  let kept = 0;
+  list.forEach(record => {
+    if (!ids.has(record.id)) list[kept++] = record;
+  });
+  list.length = kept;
+  return list;
+};
+
+const newestFirst = <L extends { timestamp: number }[]>(list: L): L => list.sort((a, b) => b.timestamp - a.timestamp);
+
+const openArchive = (): Promise<IDBDatabase> => {
+  if (!archiveDbPromise) {
+    archiveDbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(ARCHIVE_DB_NAME, ARCHIVE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of ARCHIVABLE_COLLECTIONS) {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(PERIODS_STORE)) db.createObjectStore(PERIODS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return archiveDbPromise;
+};
+
+// A sale can only leave the live ledger once nothing can still change it. Money collected on it
+// during the open shift still counts toward that shift's close.
+const isSettled = (sale: Sale, openShiftId?: string) =>
+  sale.status !== 'pending' && (sale.remainingAmount || 0) <= 0 &&
+  (!openShiftId || (sale.shiftId !== openShiftId && !(sale.collections || []).some(c => c.shiftId === openShiftId)));
+
+/**
+ * Works out what closing the period before `cutoff` would move, without touching storage.
+ * Sales stay live while unsettled, touched by the open shift, or with a return after the cutoff;
+ * returns move together with their sale.
+ */
+export const planPeriodClose = (currentData: AppData, cutoff: number): PeriodClosePlan => {
+  if (cutoff > Date.now()) throw new Error("The period end cannot be in the future.");
+
+  const openShiftId = currentData.shifts.find(s => s.status === 'open')?.id;
+  const lateReturnSaleIds = new Set(currentData.returns.filter(r => r.timestamp >= cutoff).map(r => r.saleId));
+
+  const archivedSaleIds = new Set(
+    currentData.sales
+      .filter(s => s.timestamp < cutoff && isSettled(s, openShiftId) && !lateReturnSaleIds.has(s.id))
+      .map(s => s.id)
+  );
+  const before = <T extends { timestamp: number }>(records: T[]) => records.filter(r => r.timestamp < cutoff);
+
+  const records: ArchivedRecords = {
+    sales: currentData.sales.filter(s => archivedSaleIds.has(s.id)),
+    returns: currentData.returns.filter(r => archivedSaleIds.has(r.saleId)),
+    expenses: before(currentData.expenses),
+    salaryTransactions: before(currentData.salaryTransactions),
+    attendance: before(currentData.attendance),
+    stockLogs: before(currentData.stockLogs),
+    logs: before(currentData.logs)
+  };
+
+  const total = ARCHIVABLE_COLLECTIONS.reduce((acc, name) => acc + records[name].length, 0);
+  if (total === 0) throw new Error("There are no records to archive before this date.");
+
+  // The drawer balance, restricted to the records being moved.
+  const currency = currentData.currency;
+  const cashCarriedForward = calculateCashBalance({ ...records, wholesaleTransactions: [], initialCash: 0, currency });
+
+  const period: ArchivedPeriod = {
+    id: crypto.randomUUID(),
+    closedAt: Date.now(),
+    cutoff,
+    counts: Object.fromEntries(ARCHIVABLE_COLLECTIONS.map(name => [name, records[name].length])),
+    cashCarriedForward
+  };
+
+  const newData: AppData = JSON.parse(JSON.stringify(currentData));
+  ARCHIVABLE_COLLECTIONS.forEach(name => {
+    removeIds(newData[name], new Set(records[name].map(r => r.id)));
+  });
+  newData.initialCash = money.add(currentData.initialCash, cashCarriedForward, currency);
+  newData.archivedThrough = Math.max(currentData.archivedThrough || 0, cutoff);
+  newData.logs = [
+    createLog('PERIOD_CLOSED', 'system', `Archived ${total} records dated before ${new Date(cutoff).toISOString().split('T')[0]}; carried forward ${cashCarriedForward}`),
+    ...newData.logs
+  ].slice(0, 5000);
+
+  return { data: newData, period, records };
+};
+
+export const archiveService = {
+  /**
+   * Writes a planned period into the archive database. Must complete before the trimmed
+   * ledger is saved; re-running after a failure simply overwrites the same ids.
+   */
+  savePeriod: async (plan: PeriodClosePlan): Promise<void> => {
+    const db = await openArchive();
+    const tx = db.transaction([...ARCHIVABLE_COLLECTIONS, PERIODS_STORE], 'readwrite');
+    ARCHIVABLE_COLLECTIONS.forEach(name => {
+      const store = tx.objectStore(name);
+      (plan.records[name] as { id: string }[]).forEach(record => store.put(record));
+    });
+    tx.objectStore(PERIODS_STORE).put(plan.period);
+    await transactionDone(tx);
+  },
+
+  /**
+   * Lists closed periods, most recent cutoff first.
+   */
+  listPeriods: async (): Promise<ArchivedPeriod[]> => {
+    const db = await openArchive();
+    const periods = await requestResult(db.transaction(PERIODS_STORE, 'readonly').objectStore(PERIODS_STORE).getAll());
+    return (periods as ArchivedPeriod[]).sort((a, b) => b.cutoff - a.cutoff);
+  },
+
+  /**
+   * Loads archived records for the requested collections, newest first.
+   */
+  loadRecords: async <K extends ArchivableCollection>(collections: K[]): Promise<Pick<ArchivedRecords, K>> => {
+    const db = await openArchive();
+    const tx = db.transaction(collections, 'readonly');
+    const load = async <C extends K>(name: C): Promise<ArchivedRecords[C]> => newestFirst(await requestResult(tx.objectStore(name).getAll()));
+    const results = await Promise.all(collections.map(load));
+    const loaded = {} as Pick<ArchivedRecords, K>;
+    collections.forEach((name, i) => {
+      loaded[name] = results[i];
+    });
+    return loaded;
+  },
+
+  /**
+   * Downloads the whole archive, with its period list, as one JSON file.
+   */
+  exportArchive: async (): Promise<void> => {
+    const [periods, records] = await Promise.all([
+      archiveService.listPeriods(),
+      archiveService.loadRecords(ARCHIVABLE_COLLECTIONS)
+    ]);
+    const blob = new Blob([JSON.stringify({ periods, ...records }, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const dateStr = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    link.href = url;
+    link.download = `twinx_archive_${dateStr}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+};
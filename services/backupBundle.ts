@@ -0,0 +1,102 @@
+/**
+ * Full backup bundles: one ZIP archive holding the ledger and every product image it references.
+ * Layout: `manifest.json`, `ledger.json` and `images/<imagePath>` for each image found in OPFS.
+ */
+
+import { AppData } from '../types';
+import { storageService } from './storage';
+import { imageStorage } from './imageStorage';
+import { createZip, readZip, ZipEntry } from './zipArchive';
+
+const BUNDLE_FORMAT = 'twinx-backup-bundle';
+const LEDGER_ENTRY = 'ledger.json';
+const MANIFEST_ENTRY = 'manifest.json';
+const IMAGE_PREFIX = 'images/';
+
+export interface BundleExportResult {
+  timestamp: number;
+  imageCount: number;
+  missingImages: string[];
+}
+
+export interface BundleContents {
+  data: AppData;
+  images: Map<string, Blob>;
+}
+
+export const isBundleFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+
+export const backupBundle = {
+  /**
+   * Downloads a ZIP bundle of the ledger plus its product images.
+   * Images that are referenced but no longer on disk are reported instead of failing the export.
+   */
+  exportBundle: async (data: AppData): Promise<BundleExportResult> => {
+    const timestamp = Date.now();
+    const dataWithTimestamp = { ...data, lastBackupTimestamp: timestamp };
+    storageService.saveData(dataWithTimestamp, data);
+
+    const encoder = new TextEncoder();
+    const paths = Array.from(new Set(data.products.map(p => p.imagePath).filter((p): p is string => !!p)));
+    const imageEntries: ZipEntry[] = [];
+    const missingImages: string[] = [];
+
+    for (const path of paths) {
+      const blob = await imageStorage.getImageBlob(path);
+      if (blob) imageEntries.push({ name: `${IMAGE_PREFIX}${path}`, data: new Uint8Array(await blob.arrayBuffer()) });
+      else missingImages.push(path);
+    }
+
+    const manifest = { format: BUNDLE_FORMAT, version: 1, createdAt: timestamp, schemaVersion: data.schemaVersion, imageCount: imageEntries.length };
+    const archive = createZip([
+      { name: MANIFEST_ENTRY, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+      { name: LEDGER_ENTRY, data: encoder.encode(JSON.stringify(dataWithTimestamp)) },
+      ...imageEntries
+    ]);
+
+    const url = URL.createObjectURL(archive);
+    const link = document.createElement('a');
+    const dateStr = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    link.href = url;
+    link.download = `twinx_bundle_${dateStr}.zip`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    return { timestamp, imageCount: imageEntries.length, missingImages };
+  },
+
+  /**
+   * Reads a bundle without touching local storage. Images are only written by `restoreImages`,
+   * so cancelling the import preview leaves OPFS unchanged.
+   */
+  importBundle: async (file: File, passphrase?: string): Promise<BundleContents> => {
+    const entries = await readZip(await file.arrayBuffer());
+    const ledger = entries.get(LEDGER_ENTRY);
+    if (!ledger) throw new Error(`Corrupted bundle: "${LEDGER_ENTRY}" is missing from the archive.`);
+
+    const data = await storageService.parseBackup(new TextDecoder().decode(ledger), passphrase);
+    const images = new Map<string, Blob>();
+    entries.forEach((content, name) => {
+      if (name.startsWith(IMAGE_PREFIX)) images.set(name.slice(IMAGE_PREFIX.length), new Blob([content as BlobPart]));
+    });
+    return { data, images };
+  },
+
+  /**
+   * Saves bundled images into OPFS under fresh names and points products at them.
+   * Products whose image is not in the bundle keep their current path.
+   */
+  restoreImages: async (data: AppData, images: Map<string, Blob>): Promise<AppData> => {
+    const renamed = new Map<string, string>();
+    for (const [path, blob] of images) {
+      if (!data.products.some(p => p.imagePath === path)) continue;
+      renamed.set(path, await imageStorage.saveImage(new File([blob], path)));
+    }
+    if (renamed.size === 0) return data;
+    return {
+      ...data,
+      products: data.products.map(p => p.imagePath && renamed.has(p.imagePath) ? { ...p, imagePath: renamed.get(p.imagePath) } : p)
+    };
+  }
+};
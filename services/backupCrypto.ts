@@ -0,0 +1,116 @@
+/**
+ * Backup Encryption Service
+ * Wraps a backup in a passphrase-protected envelope using WebCrypto (PBKDF2-SHA256 + AES-GCM).
+ * The envelope stores a key check value so a wrong passphrase can be told apart from a damaged file.
+ */
+
+const ENVELOPE_FORMAT = 'twinx-encrypted-backup';
+const ENVELOPE_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
+
+export type BackupDecryptionFailure = 'passphrase_required' | 'wrong_passphrase' | 'corrupted';
+
+export class BackupDecryptionError extends Error {
+  constructor(public readonly reason: BackupDecryptionFailure, message: string) {
+    super(message);
+    this.name = 'BackupDecryptionError';
+  }
+}
+
+interface EncryptedEnvelope {
+  format: typeof ENVELOPE_FORMAT;
+  version: number;
+  iterations: number;
+  salt: string;
+  iv: string;
+  check: string;
+  ciphertext: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// 512 derived bits: the first half is the AES key, the second half is stored as the key check value.
+const deriveKeyMaterial = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, baseKey, 512));
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return { key, check: toBase64(bits.slice(32)) };
+};
+
+/**
+ * Returns true when the parsed backup is an encrypted envelope rather than a plain ledger.
+ */
+export const isEncryptedBackup = (parsed: unknown): boolean =>
+  !!parsed && typeof parsed === 'object' && (parsed as Record<string, unknown>).format === ENVELOPE_FORMAT;
+
+/**
+ * Encrypts a serialized ledger and returns the envelope as a JSON string.
+ */
+export const encryptBackup = async (plaintext: string, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const { key, check } = await deriveKeyMaterial(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+  const envelope: EncryptedEnvelope = {
+    format: ENVELOPE_FORMAT,
+    version: ENVELOPE_VERSION,
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    check,
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+  return JSON.stringify(envelope);
+};
+
+/**
+ * Decrypts an envelope produced by `encryptBackup` back to the serialized ledger.
+ * Throws BackupDecryptionError with the reason: no passphrase, wrong passphrase, or a damaged file.
+ */
+export const decryptBackup = async (envelope: unknown, passphrase?: string): Promise<string> => {
+  if (!passphrase) {
+    throw new BackupDecryptionError('passphrase_required', 'This backup is encrypted. Enter its passphrase to continue.');
+  }
+
+  const env = envelope as Partial<EncryptedEnvelope>;
+  const fields = [env.salt, env.iv, env.check, env.ciphertext];
+  if (env.version !== ENVELOPE_VERSION || typeof env.iterations !== 'number' || fields.some(f => typeof f !== 'string')) {
+    throw new BackupDecryptionError('corrupted', 'Corrupted backup: the encryption header is incomplete or from an unknown version.');
+  }
+
+  let salt: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array;
+  try {
+    salt = fromBase64(env.salt!);
+    iv = fromBase64(env.iv!);
+    ciphertext = fromBase64(env.ciphertext!);
+  } catch {
+    throw new BackupDecryptionError('corrupted', 'Corrupted backup: the encrypted payload is not readable.');
+  }
+
+  const { key, check } = await deriveKeyMaterial(passphrase, salt, env.iterations);
+  if (check !== env.check) {
+    throw new BackupDecryptionError('wrong_passphrase', 'Wrong passphrase for this backup.');
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext);
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new BackupDecryptionError('corrupted', 'Corrupted backup: the passphrase is correct but the encrypted data was damaged.');
+  }
+};
@@ -0,0 +1,118 @@
+/**
+ * Service to keep rolling ledger snapshots in the Origin Private File System (OPFS).
+ * Snapshots survive a cleared IndexedDB and can be restored from Settings.
+ */
+
+import { AppData } from '../types';
+import { storageService } from './storage';
+
+const SNAPSHOT_DIR = 'ledger_snapshots';
+const SNAPSHOT_PREFIX = 'twinx_snapshot_';
+
+export const DEFAULT_AUTO_BACKUP_INTERVAL_MINUTES = 60;
+export const DEFAULT_AUTO_BACKUP_RETENTION = 24;
+
+export interface SnapshotInfo {
+  name: string;
+  timestamp: number;
+  size: number;
+}
+
+async function getDirectory() {
+  const root = await navigator.storage.getDirectory();
+  return await root.getDirectoryHandle(SNAPSHOT_DIR, { create: true });
+}
+
+// OPFS directories are async-iterable; the DOM lib this project targets does not say so.
+declare global {
+  interface FileSystemDirectoryHandle {
+    values(): AsyncIterableIterator<FileSystemHandle>;
+  }
+}
+
+const timestampOf = (name: string): number => Number(name.slice(SNAPSHOT_PREFIX.length, -'.json'.length));
+
+export const backupStorage = {
+  /**
+   * Whether this browser exposes OPFS at all.
+   */
+  isSupported: (): boolean => typeof navigator !== 'undefined' && !!navigator.storage?.getDirectory,
+
+  /**
+   * Writes the ledger as a new snapshot file and returns its entry.
+   */
+  writeSnapshot: async (data: AppData): Promise<SnapshotInfo> => {
+    const dir = await getDirectory();
+    const timestamp = Date.now();
+    const name = `${SNAPSHOT_PREFIX}${timestamp}.json`;
+    const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+
+    const fileHandle = await dir.getFileHandle(name, { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(blob);
+    await writable.close();
+
+    return { name, timestamp, size: blob.size };
+  },
+
+  /**
+   * Lists stored snapshots, newest first.
+   */
+  listSnapshots: async (): Promise<SnapshotInfo[]> => {
+    const dir = await getDirectory();
+    const snapshots: SnapshotInfo[] = [];
+    for await (const handle of dir.values()) {
+      if (handle.kind !== 'file' || !handle.name.startsWith(SNAPSHOT_PREFIX)) continue;
+      const file = await (handle as FileSystemFileHandle).getFile();
+      snapshots.push({ name: handle.name, timestamp: timestampOf(handle.name), size: file.size });
+    }
+    return snapshots.sort((a, b) => b.timestamp - a.timestamp);
+  },
+
+  /**
+   * Reads a snapshot and upgrades it to the current schema, exactly like a manual import.
+   */
+  readSnapshot: async (name: string): Promise<AppData> => {
+    const dir = await getDirectory();
+    const fileHandle = await dir.getFileHandle(name);
+    return storageService.importData(await fileHandle.getFile());
+  },
+
+  /**
+   * Deletes a snapshot file.
+   */
+  deleteSnapshot: async (name: string): Promise<void> => {
+    try {
+      const dir = await getDirectory();
+      await dir.removeEntry(name);
+    } catch (e) {
+      console.warn(`Could not delete snapshot: ${name}`, e);
+    }
+  },
+
+  /**
+   * Removes the oldest snapshots so that at most `retention` remain.
+   */
+  pruneSnapshots: async (retention: number): Promise<void> => {
+    const snapshots = await backupStorage.listSnapshots();
+    for (const snapshot of snapshots.slice(Math.max(1, retention))) {
+      await backupStorage.deleteSnapshot(snapshot.name);
+    }
+  },
+
+  /**
+   * Takes a snapshot if the newest one is older than the configured interval, then prunes.
+   * Returns the new snapshot, or null when none was due or snapshots are disabled.
+   */
+  runScheduledSnapshot: async (data: AppData): Promise<SnapshotInfo | null> => {
+    const intervalMinutes = data.autoBackupIntervalMinutes ?? DEFAULT_AUTO_BACKUP_INTERVAL_MINUTES;
+    if (intervalMinutes <= 0) return null;
+
+    const [latest] = await backupStorage.listSnapshots();
+    if (latest && Date.now() - latest.timestamp < intervalMinutes * 60 * 1000) return null;
+
+    const snapshot = await backupStorage.writeSnapshot(data);
+    await backupStorage.pruneSnapshots(data.autoBackupRetention ?? DEFAULT_AUTO_BACKUP_RETENTION);
+    return snapshot;
+  }
+};
@@ -0,0 +1,94 @@
+
+import { CartItem, SaleChannel } from '../types';
+
+/**
+ * POS Cart Sessions
+ * The open baskets on the sales screen, one per tab, each with its own customer lookup,
+ * discount, delivery and channel settings. They are terminal state rather than ledger
+ * records, so they live in sessionStorage: each browser tab keeps its own baskets through a
+ * reload, and two tabs never overwrite each other's.
+ */
+
+export interface CartSession {
+  id: string;
+  createdAt: number;
+  cart: CartItem[];
+  posMode: 'retail' | 'wholesale';
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  isDelivery: boolean;
+  deliveryFee: number;
+  selectedDriverId: string;
+  saleChannel: SaleChannel;
+  customerDetails: { name: string; phone: string; address: string };
+  isCustomerLocked: boolean;
+  wholesaleType: 'sale' | 'purchase';
+  paidAmount: number;
+  traderDetails: { name: string; contact: string };
+  isTraderLocked: boolean;
+  lookupSearch: string;
+  activeDraftId: string | null; // Draft the cart was resumed from
+  reserveOnPark: boolean;
+}
+
+interface StoredSessions {
+  sessions: CartSession[];
+  activeId: string;
+}
+
+const CART_SESSIONS_KEY = 'twinx_cart_sessions';
+
+export const MAX_CART_SESSIONS = 8;
+
+export const cartSessions = {
+  create: (): CartSession => ({
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    cart: [],
+    posMode: 'retail',
+    discountType: 'percentage',
+    discountValue: 0,
+    isDelivery: false,
+    deliveryFee: 0,
+    selectedDriverId: '',
+    saleChannel: 'store',
+    customerDetails: { name: '', phone: '', address: '' },
+    isCustomerLocked: false,
+    wholesaleType: 'sale',
+    paidAmount: 0,
+    traderDetails: { name: '', contact: '' },
+    isTraderLocked: false,
+    lookupSearch: '',
+    activeDraftId: null,
+    reserveOnPark: false
+  }),
+
+  /**
+   * Restores the saved tabs. Anything unreadable starts over with a single empty cart, and
+   * sessions saved by an older version pick up defaults for fields they lack. Carts an older
+   * version kept in localStorage are taken over by the first browser tab to load.
+   */
+  load: (): StoredSessions => {
+    try {
+      let raw = sessionStorage.getItem(CART_SESSIONS_KEY);
+      if (raw === null) {
+        raw = localStorage.getItem(CART_SESSIONS_KEY);
+        localStorage.removeItem(CART_SESSIONS_KEY);
+      }
+      const stored = JSON.parse(raw || 'null');
+      if (stored && Array.isArray(stored.sessions) && stored.sessions.length > 0) {
+        const sessions: CartSession[] = stored.sessions.map((s: Partial<CartSession>) => ({ ...cartSessions.create(), ...s }));
+        const activeId = sessions.some(s => s.id === stored.activeId) ? stored.activeId : sessions[0].id;
+        return { sessions, activeId };
+      }
+    } catch (err) {
+      console.warn('Discarding unreadable cart sessions', err);
+    }
+    const first = cartSessions.create();
+    return { sessions: [first], activeId: first.id };
+  },
+
+  save: (sessions: CartSession[], activeId: string) => {
+    sessionStorage.setItem(CART_SESSIONS_KEY, JSON.stringify({ sessions, activeId }));
+  }
+};
@@ -0,0 +1,173 @@
+
+import { AppData, DraftInvoice, EDocumentKind, LedgerEvent, OverrideApproval, PinCredential, Sale, SalePayment, SaleReturn, WholesaleTransaction, WholesalePartner, Expense, Product, Customer, Employee, SalaryTransaction } from '../types';
+import { TwinXOps } from './operations';
+import { appendEvent, eventFromCommand } from './events';
+import { Operator, SYSTEM_ADMIN } from './permissions';
+import { authorizeWithOverride, recordOverride } from './overrides';
+
+/**
+ * Ledger Commands
+ * Every business action a screen can take, as a typed message. Screens dispatch commands;
+ * `executeCommand` hands each one to the matching TwinXOps transformer, so validation,
+ * logging and stock/cash effects live in one place, then appends the matching history event.
+ * Commands run as the signed-in operator, whose id is stamped on what they create.
+ */
+
+export type LedgerCommand =
+  | { type: 'OPEN_SHIFT'; startCash: number }
+  | { type: 'CLOSE_SHIFT'; endCash: number; notes?: string }
+  | { type: 'RETAIL_SALE'; sale: Partial<Sale>; newCustomer?: Customer; draftId?: string; override?: OverrideApproval }
+  | { type: 'SAVE_DRAFT'; draft: DraftInvoice }
+  | { type: 'DELETE_DRAFT'; draftId: string }
+  | { type: 'UPDATE_DELIVERY_STATUS'; saleId: string; status: 'delivered' | 'cancelled' | 'pending'; override?: OverrideApproval }
+  | { type: 'EDIT_SALE'; sale: Sale }
+  | { type: 'DELETE_SALE'; saleId: string; override?: OverrideApproval }
+  | { type: 'PROCESS_RETURN'; returnRecord: SaleReturn }
+  | { type: 'WHOLESALE_TRANSACTION'; transaction: WholesaleTransaction; newPartner?: WholesalePartner; override?: OverrideApproval }
+  | { type: 'WHOLESALE_PAYMENT'; transactionId: string; amount: number }
+  | { type: 'WHOLESALE_RETURN'; returnRecord: SaleReturn }
+  | { type: 'SAVE_PARTNER'; partner: WholesalePartner }
+  | { type: 'DELETE_PARTNER'; partnerId: string }
+  | { type: 'SAVE_EXPENSE'; expense: Expense }
+  | { type: 'DELETE_EXPENSE'; expenseId: string }
+  | { type: 'SAVE_PRODUCT'; product: Product }
+  | { type: 'DELETE_PRODUCT'; productId: string }
+  | { type: 'ADJUST_STOCK'; productId: string; newQuantity: number; reason: string }
+  | { type: 'ADD_CATEGORY'; name: string }
+  | { type: 'DELETE_CATEGORY'; name: string }
+  | { type: 'SAVE_CUSTOMER'; customer: Customer }
+  | { type: 'DELETE_CUSTOMER'; customerId: string }
+  | { type: 'SET_CREDIT_LIMIT'; customerId: string; creditLimit: number }
+  | { type: 'COLLECT_PAYMENT'; customerId: string; payment: SalePayment; saleId?: string } // Oldest invoices first unless saleId is given
+  | { type: 'ADD_EMPLOYEE'; employee: Employee }
+  | { type: 'DELETE_EMPLOYEE'; employeeId: string }
+  | { type: 'SET_PIN'; operatorId: string; pin: PinCredential | null } // Employee id, or SYSTEM_ADMIN
+  | { type: 'RECORD_ATTENDANCE'; employeeId: string; action: 'check_in' | 'check_out' | 'break_start' | 'break_end' }
+  | { type: 'SALARY_TRANSACTION'; transaction: SalaryTransaction }
+  | { type: 'QUEUE_EDOCUMENT'; kind: EDocumentKind; sourceId: string }
+  | { type: 'SIGN_EDOCUMENT'; documentId: string; document: Record<string, any>; signedBy: string }
+  | { type: 'SET_EDOCUMENT_STATUS'; documentId: string; status: 'submitted' | 'rejected'; submissionId?: string; reason?: string }
+  | { type: 'DISCARD_EDOCUMENT'; documentId: string }
+  | { type: 'RECOMPUTE_AGGREGATES' }
+  | { type: 'REPAIR_INTEGRITY'; issueIds: string[] };
+
+export type CommandType = LedgerCommand['type'];
+
+export type CommandDispatcher = (command: LedgerCommand) => AppData;
+
+const applyCommand = (data: AppData, command: LedgerCommand, history: LedgerEvent[], actor: Operator): AppData => {
+  switch (command.type) {
+    case 'OPEN_SHIFT':
+      return TwinXOps.openShift(data, command.startCash, actor.name, actor.id);
+    case 'CLOSE_SHIFT':
+      return TwinXOps.closeShift(data, command.endCash, command.notes, actor.id);
+    case 'RETAIL_SALE': {
+      const withCustomer = command.newCustomer ? TwinXOps.saveCustomer(data, command.newCustomer) : data;
+      return TwinXOps.processRetailSale(withCustomer, command.sale, command.draftId);
+    }
+    case 'SAVE_DRAFT':
+      return TwinXOps.saveDraft(data, command.draft);
+    case 'DELETE_DRAFT':
+      return TwinXOps.deleteDraft(data, command.draftId);
+    case 'UPDATE_DELIVERY_STATUS':
+      return TwinXOps.updateDeliveryStatus(data, command.saleId, command.status);
+    case 'EDIT_SALE':
+      return TwinXOps.editSale(data, command.sale);
+    case 'DELETE_SALE':
+      return TwinXOps.deleteSale(data, command.saleId);
+    case 'PROCESS_RETURN':
+      return TwinXOps.processReturn(data, command.returnRecord);
+    case 'WHOLESALE_TRANSACTION': {
+      const withPartner = command.newPartner ? TwinXOps.savePartner(data, command.newPartner) : data;
+      return TwinXOps.processWholesaleTransaction(withPartner, command.transaction);
+    }
+    case 'WHOLESALE_PAYMENT':
+      return TwinXOps.recordWholesalePayment(data, command.transactionId, command.amount);
+    case 'WHOLESALE_RETURN':
+      return TwinXOps.processWholesaleReturn(data, command.returnRecord);
+    case 'SAVE_PARTNER':
+      return TwinXOps.savePartner(data, command.partner);
+    case 'DELETE_PARTNER':
+      return TwinXOps.deletePartner(data, command.partnerId);
+    case 'SAVE_EXPENSE':
+      return TwinXOps.saveExpense(data, command.expense);
+    case 'DELETE_EXPENSE':
+      return TwinXOps.deleteExpense(data, command.expenseId);
+    case 'SAVE_PRODUCT':
+      return TwinXOps.saveProduct(data, command.product, actor.id);
+    case 'DELETE_PRODUCT':
+      return TwinXOps.deleteProduct(data, command.productId);
+    case 'ADJUST_STOCK':
+      return TwinXOps.adjustStock(data, command.productId, command.newQuantity, command.reason, actor.id);
+    case 'ADD_CATEGORY':
+      return TwinXOps.addCategory(data, command.name);
+    case 'DELETE_CATEGORY':
+      return TwinXOps.deleteCategory(data, command.name);
+    case 'SAVE_CUSTOMER':
+      return TwinXOps.saveCustomer(data, command.customer);
+    case 'DELETE_CUSTOMER':
+      return TwinXOps.deleteCustomer(data, command.customerId);
+    case 'SET_CREDIT_LIMIT':
+      return TwinXOps.setCreditLimit(data, command.customerId, command.creditLimit);
+    case 'COLLECT_PAYMENT':
+      return TwinXOps.collectCustomerPayment(data, command.customerId, command.payment, command.saleId, actor.id);
+    case 'ADD_EMPLOYEE':
+      return TwinXOps.addEmployee(data, command.employee);
+    case 'DELETE_EMPLOYEE':
+      return TwinXOps.deleteEmployee(data, command.employeeId);
+    case 'SET_PIN':
+      return command.operatorId === SYSTEM_ADMIN.id
+        ? TwinXOps.setAdminPin(data, command.pin)
+        : TwinXOps.setEmployeePin(data, command.operatorId, command.pin);
+    case 'RECORD_ATTENDANCE':
+      return TwinXOps.recordAttendanceAction(data, command.employeeId, command.action);
+    case 'SALARY_TRANSACTION':
+      return TwinXOps.processSalaryTransaction(data, command.transaction);
+    case 'QUEUE_EDOCUMENT':
+      return TwinXOps.queueEDocument(data, command.kind, command.sourceId);
+    case 'SIGN_EDOCUMENT':
+      return TwinXOps.recordEDocumentSignature(data, command.documentId, command.document, command.signedBy);
+    case 'SET_EDOCUMENT_STATUS':
+      return TwinXOps.setEDocumentStatus(data, command.documentId, command.status, { submissionId: command.submissionId, reason: command.reason });
+    case 'DISCARD_EDOCUMENT':
+      return TwinXOps.discardEDocument(data, command.documentId);
+    case 'RECOMPUTE_AGGREGATES':
+      return TwinXOps.recomputeAggregates(data, history);
+    case 'REPAIR_INTEGRITY':
+      return TwinXOps.repairIntegrity(data, command.issueIds, actor.id);
+    default: {
+      const unknown: never = command;
+      throw new Error(`Unknown command: ${(unknown as LedgerCommand).type}`);
+    }
+  }
+};
+
+/**
+ * Puts the operator's id on every log entry that `after` has and `before` did not, and on new
+ * sales. A sale brought back by an undo keeps the cashier who rang it up.
+ */
+export const stampActor = (before: Pick<AppData, 'logs' | 'sales'>, after: AppData, actorId: string): AppData => {
+  const knownLogs = new Set(before.logs.map(l => l.id));
+  const knownSales = new Set(before.sales.map(s => s.id));
+  return {
+    ...after,
+    logs: after.logs.map(l => knownLogs.has(l.id) ? l : { ...l, actorId }),
+    sales: after.sales.map(s => knownSales.has(s.id) || s.employeeId ? s : { ...s, employeeId: actorId })
+  };
+};
+
+/**
+ * Applies a command to the ledger and returns the new ledger. Throws (without changing anything)
+ * when the command is rejected, so callers can surface `err.message` as they do today. Commands
+ * the operator lacks the permission for are refused with a PermissionDeniedError, and restricted
+ * ones without a manager's approval with an OverrideRequiredError.
+ */
+export const executeCommand = (data: AppData, command: LedgerCommand, operator: Operator = SYSTEM_ADMIN): AppData => {
+  const approval = authorizeWithOverride(data, command, operator);
+  // The transformers deep-copy their input; the ever-growing history is left out of that copy.
+  const { events, ...rest } = data;
+  const applied = applyCommand({ ...rest, events: [] }, command, events, operator);
+  const stamped = stampActor(rest, applied, operator.id);
+  const updated: AppData = { ...rest, ...(approval ? recordOverride(rest, stamped, command, approval, operator) : stamped), events };
+  return appendEvent(updated, eventFromCommand(command, data, updated));
+};
@@ -0,0 +1,131 @@
+
+import { describe, it, expect } from 'vitest';
+import { AppData, EmployeePermissions, SalePayment } from '../types';
+import { executeCommand } from './commands';
+import { calculateCashBalance } from './operations';
+import { operatorFor, requiredPermissions } from './permissions';
+import { shiftPaymentTotals } from './payments';
+import { planPeriodClose } from './archive';
+import { availableCredit, customerBalance, customerStatement, retailReceivables } from './credit';
+import { makeLedger, makeCustomer, makeEmployee, cartLine, latestSale, PRODUCT_ID, CUSTOMER_ID, EMPLOYEE_ID } from './operations.fixtures';
+
+const creditLedger = (creditLimit = 100, permissions: Partial<EmployeePermissions> = {}): AppData => makeLedger({
+  customers: [makeCustomer({ creditLimit })],
+  employees: [makeEmployee({ permissions: { ...makeEmployee().permissions, ...permissions } })]
+});
+
+// Sells `quantity` colas at 10 on the customer's account, paying `paid` in cash
+const sellOnAccount = (data: AppData, quantity: number, paid: number) =>
+  executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [cartLine(data, PRODUCT_ID, quantity)], customerId: CUSTOMER_ID, payments: [{ method: 'cash', amount: paid }] } });
+
+const collect = (data: AppData, payment: SalePayment, saleId?: string) =>
+  executeCommand(data, { type: 'COLLECT_PAYMENT', customerId: CUSTOMER_ID, payment, saleId });
+
+const customerOf = (data: AppData) => data.customers.find(c => c.id === CUSTOMER_ID)!;
+
+describe('on-account sales', () => {
+  it('leaves bills unpaid only on the account of a customer with credit to spare', () => {
+    const data = sellOnAccount(creditLedger(), 5, 10);
+    expect(customerBalance(data, CUSTOMER_ID)).toBe(40);
+    expect(availableCredit(data, customerOf(data))).toBe(60);
+
+    expect(() => sellOnAccount(data, 8, 10)).toThrow(/60\.00 of credit left; 70\.00 is unpaid/);
+    expect(() => sellOnAccount(makeLedger(), 3, 0)).toThrow(/credit left/);
+    expect(() => executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [cartLine(data, PRODUCT_ID, 1)], paidAmount: 5 } })).toThrow(/customer's account/);
+    expect(customerBalance(sellOnAccount(data, 7, 10), CUSTOMER_ID)).toBe(100);
+  });
+
+  it('lets only staff trusted with money change credit limits, never the profile form', () => {
+    const data = creditLedger();
+    const cashier = operatorFor(data, EMPLOYEE_ID)!;
+    expect(requiredPermissions({ type: 'SET_CREDIT_LIMIT', customerId: CUSTOMER_ID, creditLimit: 500 })).toEqual(['canApplyDiscount']);
+    expect(() => executeCommand(data, { type: 'SET_CREDIT_LIMIT', customerId: CUSTOMER_ID, creditLimit: 500 }, cashier)).toThrow(/apply discounts/i);
+    const reporter = creditLedger(100, { canViewReports: true });
+    expect(() => executeCommand(reporter, { type: 'SET_CREDIT_LIMIT', customerId: CUSTOMER_ID, creditLimit: 500 }, operatorFor(reporter, EMPLOYEE_ID)!)).toThrow(/apply discounts/i);
+    expect(customerOf(executeCommand(data, { type: 'SAVE_CUSTOMER', customer: { ...customerOf(data), name: 'Mona A.', creditLimit: 500 } }, cashier)).creditLimit).toBe(100);
+
+    const closed = executeCommand(data, { type: 'SET_CREDIT_LIMIT', customerId: CUSTOMER_ID, creditLimit: 0 });
+    expect(customerOf(closed).creditLimit).toBeUndefined();
+  });
+});
+
+describe('collecting payments', () => {
+  it('pays off the oldest invoices first and counts toward the open shift', () => {
+    let data = sellOnAccount(creditLedger(), 3, 10);
+    data = sellOnAccount(data, 4, 0);
+    const [newer, older] = data.sales;
+    const drawer = calculateCashBalance(data);
+
+    data = collect(data, { method: 'cash', amount: 35 });
+    expect(data.sales.find(s => s.id === older.id)).toMatchObject({ paidAmount: 30, remainingAmount: 0 });
+    expect(data.sales.find(s => s.id === newer.id)).toMatchObject({ paidAmount: 15, remainingAmount: 25 });
+    expect(data.sales.find(s => s.id === newer.id)!.collections).toEqual([expect.objectContaining({ method: 'cash', amount: 15, remainingAfter: 25 })]);
+    expect(calculateCashBalance(data)).toBe(drawer + 35);
+    expect(shiftPaymentTotals(data, data.shifts[0].id).cash).toBe(45);
+
+    data = collect(data, { method: 'card', amount: 5, reference: ' 8812 ' }, newer.id);
+    expect(customerBalance(data, CUSTOMER_ID)).toBe(20);
+    expect(calculateCashBalance(data)).toBe(drawer + 35);
+  });
+
+  it('refuses more than is owed and payments outside a shift', () => {
+    const data = sellOnAccount(creditLedger(), 3, 10);
+    expect(() => collect(data, { method: 'cash', amount: 21 })).toThrow(/outstanding balance of 20\.00/);
+    expect(() => collect(data, { method: 'cash', amount: 0 })).toThrow(/greater than zero/);
+    const closed = executeCommand(data, { type: 'CLOSE_SHIFT', endCash: 0 });
+    expect(() => collect(closed, { method: 'cash', amount: 5 })).toThrow(/SHIFT_CLOSED/);
+  });
+
+  it('clears debt with a return before handing back cash', () => {
+    const data = sellOnAccount(creditLedger(), 3, 10);
+    const drawer = calculateCashBalance(data);
+    const returned = executeCommand(data, {
+      type: 'PROCESS_RETURN',
+      returnRecord: { id: 'ret-1', saleId: latestSale(data).id, timestamp: Date.now(), items: [{ productId: PRODUCT_ID, quantity: 3, refundAmount: 0 }], totalRefund: 0 }
+    });
+    expect(returned.returns[0]).toMatchObject({ totalRefund: 30, appliedToBalance: 20 });
+    expect(customerBalance(returned, CUSTOMER_ID)).toBe(0);
+    expect(calculateCashBalance(returned)).toBe(drawer - 10);
+  });
+
+  it('keeps a sale paid off in the open shift live when the period closes', () => {
+    let data = executeCommand(sellOnAccount(creditLedger(), 3, 10), { type: 'CLOSE_SHIFT', endCash: 510 });
+    data = executeCommand(data, { type: 'OPEN_SHIFT', startCash: 510 });
+    data = collect(data, { method: 'cash', amount: 20 });
+    const backdate = <T extends { timestamp: number }>(records: T[]) => records.map(r => ({ ...r, timestamp: 1000 }));
+    data = { ...data, sales: backdate(data.sales), logs: backdate(data.logs) };
+
+    const plan = planPeriodClose(data, 2000);
+    expect(plan.records.sales).toHaveLength(0);
+    expect(shiftPaymentTotals(plan.data, plan.data.shifts.find(s => s.status === 'open')!.id).cash).toBe(20);
+  });
+});
+
+describe('customerStatement', () => {
+  it('runs the balance from the opening amount to what is owed now', () => {
+    let data = sellOnAccount(creditLedger(), 3, 10);
+    data = { ...data, sales: data.sales.map(s => ({ ...s, timestamp: 1000 })) };
+    data = sellOnAccount(data, 2, 0);
+    data = collect(data, { method: 'vodafone_cash', amount: 25 });
+
+    const full = customerStatement(data, CUSTOMER_ID);
+    expect(full.entries.map(e => [e.kind, e.debit, e.credit, e.balance])).toEqual([
+      ['invoice', 30, 0, 30],
+      ['payment', 0, 10, 20],
+      ['invoice', 20, 0, 40],
+      ['collection', 0, 20, 20],
+      ['collection', 0, 5, 15]
+    ]);
+    expect(full.closing).toBe(customerBalance(data, CUSTOMER_ID));
+
+    const recent = customerStatement(data, CUSTOMER_ID, 2000);
+    expect(recent.opening).toBe(20);
+    expect(recent.entries).toHaveLength(3);
+    expect(recent.closing).toBe(15);
+  });
+
+  it('lists receivables by customer, largest first', () => {
+    const data = sellOnAccount(creditLedger(), 3, 10);
+    expect(retailReceivables(data)).toEqual([expect.objectContaining({ customerId: CUSTOMER_ID, name: 'Mona', balance: 20, invoiceCount: 1, creditLimit: 100 })]);
+  });
+});
@@ -0,0 +1,139 @@
+
+import { AppData, Customer, PaymentMethod, Sale } from '../types';
+import { money } from './money';
+import { paymentsOf } from './payments';
+
+/**
+ * Customer Credit
+ * A known customer may be given a credit limit and then buy on account: whatever a bill leaves
+ * unpaid is owed on the invoice, and a new bill may not take what they owe past the limit.
+ * What a customer owes is the unpaid part of their invoices that were not cancelled. Money
+ * collected later is recorded on the invoices it pays, oldest first, and a return on an invoice
+ * that is still owed clears the debt before any cash is handed back.
+ */
+
+export const isOwing = (sale: Pick<Sale, 'status' | 'remainingAmount'>): boolean =>
+  sale.status !== 'cancelled' && (sale.remainingAmount || 0) > 0;
+
+// Sales are kept newest first; this gives them oldest first, ties in the order they were made.
+const chronological = (sales: Sale[]): Sale[] => [...sales].reverse().sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * Invoices a payment can be collected on, oldest first. A pending delivery's bill is owed but
+ * is settled through the driver, not at the counter.
+ */
+export const collectableInvoices = (data: Pick<AppData, 'sales'>, customerId: string): Sale[] =>
+  chronological(data.sales.filter(s => s.customerId === customerId && isOwing(s) && (s.status === 'completed' || s.status === 'delivered')));
+
+export const customerBalance = (data: Pick<AppData, 'sales' | 'currency'>, customerId: string): number =>
+  money.sum(data.sales.filter(s => s.customerId === customerId && isOwing(s)).map(s => s.remainingAmount), data.currency);
+
+/**
+ * How much more the customer may leave owing. Customers without a limit get no credit.
+ */
+export const availableCredit = (data: Pick<AppData, 'sales' | 'currency'>, customer: Pick<Customer, 'id' | 'creditLimit'>): number =>
+  Math.max(0, money.subtract(customer.creditLimit || 0, customerBalance(data, customer.id), data.currency));
+
+export interface Receivable {
+  customerId?: string; // Missing for invoices left unpaid without a customer
+  name: string;
+  phone?: string;
+  balance: number;
+  invoiceCount: number;
+  oldestTimestamp: number;
+  creditLimit?: number;
+}
+
+/**
+ * What is owed on retail invoices, customer by customer, largest balance first.
+ */
+export const retailReceivables = (data: Pick<AppData, 'sales' | 'customers' | 'currency'>): Receivable[] => {
+  const byCustomer = new Map<string, Receivable>();
+  data.sales.filter(isOwing).forEach(sale => {
+    const customer = data.customers.find(c => c.id === sale.customerId);
+    const key = customer?.id || '';
+    const current = byCustomer.get(key) || {
+      customerId: customer?.id,
+      name: customer?.name || sale.deliveryDetails?.customerName || '',
+      phone: customer?.phone,
+      balance: 0,
+      invoiceCount: 0,
+      oldestTimestamp: sale.timestamp,
+      creditLimit: customer?.creditLimit
+    };
+    byCustomer.set(key, {
+      ...current,
+      balance: money.add(current.balance, sale.remainingAmount, data.currency),
+      invoiceCount: current.invoiceCount + 1,
+      oldestTimestamp: Math.min(current.oldestTimestamp, sale.timestamp)
+    });
+  });
+  return [...byCustomer.values()].sort((a, b) => b.balance - a.balance);
+};
+
+/**
+ * Splits a payment over invoices, paying each off in turn.
+ */
+export const allocateCollection = (invoices: Pick<Sale, 'id' | 'remainingAmount'>[], amount: number, currency?: string): { saleId: string; amount: number }[] => {
+  const parts: { saleId: string; amount: number }[] = [];
+  let left = money.round(amount, currency);
+  for (const invoice of invoices) {
+    if (left <= 0) break;
+    const part = Math.min(left, invoice.remainingAmount);
+    if (part <= 0) continue;
+    parts.push({ saleId: invoice.id, amount: part });
+    left = money.subtract(left, part, currency);
+  }
+  return parts;
+};
+
+export interface StatementEntry {
+  timestamp: number;
+  kind: 'invoice' | 'payment' | 'collection' | 'return';
+  saleId: string;
+  method?: PaymentMethod;
+  reference?: string;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance after this entry
+}
+
+export interface CustomerStatement {
+  from: number;
+  opening: number; // Owed before `from`
+  entries: StatementEntry[];
+  closing: number;
+}
+
+/**
+ * The customer's account from `from` onwards: each invoice charged, what was paid at the till
+ * and collected since, and returns credited against the debt. Cancelled invoices are left out,
+ * so the closing balance is what the customer owes now.
+ */
+export const customerStatement = (data: Pick<AppData, 'sales' | 'returns' | 'currency'>, customerId: string, from = 0): CustomerStatement => {
+  const currency = data.currency;
+  const sales = chronological(data.sales.filter(s => s.customerId === customerId && s.status !== 'cancelled'));
+  const saleIds = new Set(sales.map(s => s.id));
+
+  const movements: Omit<StatementEntry, 'balance'>[] = [];
+  sales.forEach(sale => {
+    movements.push({ timestamp: sale.timestamp, kind: 'invoice', saleId: sale.id, debit: sale.total, credit: 0 });
+    paymentsOf(sale).forEach(p => movements.push({ timestamp: sale.timestamp, kind: 'payment', saleId: sale.id, method: p.method, reference: p.reference, debit: 0, credit: p.amount }));
+    (sale.collections || []).forEach(c => movements.push({ timestamp: c.timestamp, kind: 'collection', saleId: sale.id, method: c.method, reference: c.reference, debit: 0, credit: c.amount }));
+  });
+  data.returns
+    .filter(r => saleIds.has(r.saleId) && (r.appliedToBalance || 0) > 0)
+    .forEach(r => movements.push({ timestamp: r.timestamp, kind: 'return', saleId: r.saleId, debit: 0, credit: r.appliedToBalance! }));
+  // At the same moment a charge comes before what settles it
+  const rank = { invoice: 0, payment: 1, collection: 2, return: 2 };
+  movements.sort((a, b) => a.timestamp - b.timestamp || rank[a.kind] - rank[b.kind]);
+
+  const net = (list: Omit<StatementEntry, 'balance'>[]) => money.sum(list.map(m => money.subtract(m.debit, m.credit, currency)), currency);
+  const opening = net(movements.filter(m => m.timestamp < from));
+  let balance = opening;
+  const entries = movements.filter(m => m.timestamp >= from).map(m => {
+    balance = money.add(balance, money.subtract(m.debit, m.credit, currency), currency);
+    return { ...m, balance };
+  });
+  return { from, opening, entries, closing: balance };
+};
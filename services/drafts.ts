@@ -0,0 +1,48 @@
+
+import { AppData, DraftInvoice } from '../types';
+
+/**
+ * Parked Invoices
+ * A draft is a cart put aside at the till so the cashier can serve someone else and resume it
+ * later. Drafts expire after `draftExpiryMinutes`; a draft that reserves stock holds its items
+ * back from every other sale until it is resumed into a sale, deleted or expires.
+ */
+
+type DraftLedger = Pick<AppData, 'drafts' | 'draftExpiryMinutes'>;
+
+const DEFAULT_EXPIRY_MINUTES = 120;
+
+/**
+ * When the draft lapses. Drafts parked before expiry was stored fall back to the current setting.
+ */
+export const draftExpiresAt = (draft: DraftInvoice, data: DraftLedger): number =>
+  draft.expiresAt ?? draft.timestamp + (data.draftExpiryMinutes || DEFAULT_EXPIRY_MINUTES) * 60 * 1000;
+
+export const isDraftActive = (draft: DraftInvoice, data: DraftLedger, now = Date.now()): boolean =>
+  now < draftExpiresAt(draft, data);
+
+export const activeDrafts = (data: DraftLedger, now = Date.now()): DraftInvoice[] =>
+  data.drafts.filter(d => isDraftActive(d, data, now));
+
+/**
+ * Quantity of each product held by live reserving drafts, optionally leaving one draft out
+ * (the one being resumed or re-parked, whose own hold must not count against it).
+ */
+export const reservedStock = (data: DraftLedger, excludeDraftId?: string, now = Date.now()): Record<string, number> => {
+  const reserved: Record<string, number> = {};
+  activeDrafts(data, now)
+    .filter(d => d.reserveStock && d.id !== excludeDraftId)
+    .forEach(d => d.items.forEach(item => {
+      reserved[item.id] = (reserved[item.id] || 0) + item.quantity;
+    }));
+  return reserved;
+};
+
+/**
+ * Stock a sale can still take: what is on the shelf less what other drafts have reserved.
+ */
+export const availableStock = (data: DraftLedger & Pick<AppData, 'products'>, productId: string, excludeDraftId?: string, now = Date.now()): number => {
+  const product = data.products.find(p => p.id === productId);
+  if (!product) return 0;
+  return Math.max(0, product.stock - (reservedStock(data, excludeDraftId, now)[productId] || 0));
+};
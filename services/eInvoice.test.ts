@@ -0,0 +1,146 @@
+
+import { describe, it, expect } from 'vitest';
+import { AppData, WholesaleTransaction } from '../types';
+import { executeCommand } from './commands';
+import { DocumentSigner, STAND_IN_SIGNER, signEDocument, serializeEtaDocument } from './eInvoice';
+import { makeLedger, makeProduct, makePartner, cartLine, latestSale, PRODUCT_ID, SECOND_PRODUCT_ID, BUYER_ID, SUPPLIER_ID } from './operations.fixtures';
+
+const ISSUER = {
+  registrationNumber: '100200300',
+  name: 'TwinX Market',
+  activityCode: '4711',
+  branchId: '0',
+  governate: 'Cairo',
+  regionCity: 'Nasr City',
+  street: 'Abbas El Akkad',
+  buildingNumber: '12'
+};
+
+const TOKEN_SIGNER: DocumentSigner = { name: 'Token', sign: async serialized => `signed:${serialized.length}` };
+
+const registeredLedger = (overrides: Partial<AppData> = {}): AppData => makeLedger({
+  taxRates: [{ id: 'vat', name: 'VAT', rate: 14 }],
+  defaultTaxRateId: 'vat',
+  etaIssuer: ISSUER,
+  products: [
+    makeProduct({ itemCode: 'EG-100200300-1' }),
+    makeProduct({ id: SECOND_PRODUCT_ID, name: 'Chips', category: 'Snacks', price: 7.5, costPrice: 4.25, stock: 30, itemCode: '6221234567890' })
+  ],
+  partners: [makePartner({ taxRegistrationNumber: '555666777' }), makePartner({ id: SUPPLIER_ID, name: 'Nile Foods', type: 'supplier' })],
+  ...overrides
+});
+
+const sell = (data: AppData, quantity = 3) =>
+  executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [cartLine(data, PRODUCT_ID, quantity)] } });
+
+const wholesaleSale = (type: 'sale' | 'purchase' = 'sale'): WholesaleTransaction => ({
+  id: crypto.randomUUID(),
+  partnerId: type === 'sale' ? BUYER_ID : SUPPLIER_ID,
+  type,
+  items: [{ productId: PRODUCT_ID, name: 'Cola', quantity: 10, unitPrice: 11.4 }],
+  total: 114,
+  paidAmount: 114,
+  timestamp: Date.now()
+});
+
+const sign = async (data: AppData, signer: DocumentSigner = TOKEN_SIGNER) => {
+  const doc = data.eDocuments[0];
+  return executeCommand(data, { type: 'SIGN_EDOCUMENT', documentId: doc.id, document: await signEDocument(data, doc, signer), signedBy: signer.name });
+};
+
+describe('serializeEtaDocument', () => {
+  it('capitalises names, quotes values and repeats array names', () => {
+    expect(serializeEtaDocument({ a: 'x', list: [{ n: 1 }, { n: 2 }], nested: { ok: true } }))
+      .toBe('"A""x""LIST""LIST""N""1""LIST""N""2""NESTED""OK""true"');
+  });
+});
+
+describe('e-document queue', () => {
+  it('builds an e-receipt from what the sale charged', () => {
+    let data = sell(registeredLedger());
+    data = executeCommand(data, { type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId: latestSale(data).id });
+    const { document, status } = data.eDocuments[0];
+    expect(status).toBe('pending');
+    expect(document.seller).toMatchObject({ rin: '100200300', activityCode: '4711' });
+    expect(document.itemData[0]).toMatchObject({ itemType: 'EGS', itemCode: 'EG-100200300-1', quantity: 3, netSale: 30, total: 34.2 });
+    expect(document).toMatchObject({ netAmount: 30, taxTotals: [{ taxType: 'T1', amount: 4.2 }], totalAmount: 34.2, paymentMethod: 'C' });
+  });
+
+  it('issues wholesale sales as e-invoices with the tax inside the agreed price', () => {
+    const data = executeCommand(registeredLedger(), { type: 'WHOLESALE_TRANSACTION', transaction: wholesaleSale() });
+    const queued = executeCommand(data, { type: 'QUEUE_EDOCUMENT', kind: 'invoice', sourceId: data.wholesaleTransactions[0].id });
+    const { document } = queued.eDocuments[0];
+    expect(document.receiver).toMatchObject({ type: 'B', id: '555666777' });
+    expect(document.invoiceLines[0].taxableItems).toEqual([{ taxType: 'T1', amount: 14, subType: 'V009', rate: 14 }]);
+    expect(document).toMatchObject({ netAmount: 100, totalAmount: 114 });
+  });
+
+  it('refuses documents the portal could not accept', () => {
+    const sold = sell(registeredLedger());
+    const saleId = latestSale(sold).id;
+    expect(() => executeCommand({ ...sold, etaIssuer: undefined }, { type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId: saleId })).toThrow(/tax registration details/);
+    expect(() => executeCommand({ ...sold, products: sold.products.map(p => ({ ...p, itemCode: undefined })) }, { type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId: saleId })).toThrow(/no tax authority item code/);
+
+    const purchase = executeCommand(registeredLedger(), { type: 'WHOLESALE_TRANSACTION', transaction: wholesaleSale('purchase') });
+    expect(() => executeCommand(purchase, { type: 'QUEUE_EDOCUMENT', kind: 'invoice', sourceId: purchase.wholesaleTransactions[0].id })).toThrow(/Only wholesale sales/);
+
+    const unregistered = executeCommand(registeredLedger({ partners: [makePartner()] }), { type: 'WHOLESALE_TRANSACTION', transaction: wholesaleSale() });
+    expect(() => executeCommand(unregistered, { type: 'QUEUE_EDOCUMENT', kind: 'invoice', sourceId: unregistered.wholesaleTransactions[0].id })).toThrow(/no tax registration number/);
+  });
+
+  it('queues an invoice again only after the portal rejected it', async () => {
+    let data = sell(registeredLedger());
+    const sourceId = latestSale(data).id;
+    data = executeCommand(data, { type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId });
+    expect(() => executeCommand(data, { type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId })).toThrow(/already in the e-invoice queue/);
+
+    data = await sign(data);
+    const documentId = data.eDocuments[0].id;
+    expect(() => executeCommand(data, { type: 'SET_EDOCUMENT_STATUS', documentId, status: 'rejected' })).toThrow(/needs the reason/);
+    data = executeCommand(data, { type: 'SET_EDOCUMENT_STATUS', documentId, status: 'rejected', reason: 'Invalid item code' });
+    data = executeCommand(data, { type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId });
+    expect(data.eDocuments.map(d => d.status)).toEqual(['pending', 'rejected']);
+  });
+
+  it('discards a pending document so the invoice can be rebuilt', async () => {
+    let data = sell(registeredLedger());
+    const sourceId = latestSale(data).id;
+    data = executeCommand(data, { type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId });
+    data = executeCommand(data, { type: 'DISCARD_EDOCUMENT', documentId: data.eDocuments[0].id });
+    expect(data.eDocuments).toHaveLength(0);
+    expect(data.logs[0].action).toBe('EDOCUMENT_DISCARDED');
+
+    data = executeCommand(data, { type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId });
+    data = await sign(data);
+    expect(() => executeCommand(data, { type: 'DISCARD_EDOCUMENT', documentId: data.eDocuments[0].id })).toThrow(/waiting to be signed/);
+  });
+});
+
+describe('signing', () => {
+  it('chains each receipt to the one signed before it', async () => {
+    let data = sell(sell(registeredLedger()), 1);
+    data = executeCommand(data, { type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId: data.sales[1].id });
+    data = await sign(data);
+    data = executeCommand(data, { type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId: data.sales[0].id });
+    data = await sign(data);
+
+    const [second, first] = data.eDocuments;
+    expect(first.document.header.uuid).toMatch(/^[0-9a-f]{64}$/);
+    expect(second.document.header.previousUUID).toBe(first.document.header.uuid);
+    expect(second.document.signatures).toEqual([{ signatureType: 'I', value: expect.stringMatching(/^signed:/) }]);
+    expect(second).toMatchObject({ status: 'signed', signedBy: 'Token' });
+  });
+
+  it('never marks stand-in signatures as submitted', async () => {
+    let data = executeCommand(registeredLedger(), { type: 'WHOLESALE_TRANSACTION', transaction: wholesaleSale() });
+    data = executeCommand(data, { type: 'QUEUE_EDOCUMENT', kind: 'invoice', sourceId: data.wholesaleTransactions[0].id });
+    const documentId = data.eDocuments[0].id;
+    expect(() => executeCommand(data, { type: 'SET_EDOCUMENT_STATUS', documentId, status: 'submitted' })).toThrow(/Only signed/);
+
+    const standIn = await sign(data, STAND_IN_SIGNER);
+    expect(() => executeCommand(standIn, { type: 'SET_EDOCUMENT_STATUS', documentId, status: 'submitted' })).toThrow(/stand-in/);
+
+    const submitted = executeCommand(await sign(data), { type: 'SET_EDOCUMENT_STATUS', documentId, status: 'submitted', submissionId: 'ETA-UUID-1' });
+    expect(submitted.eDocuments[0]).toMatchObject({ status: 'submitted', submissionId: 'ETA-UUID-1' });
+  });
+});
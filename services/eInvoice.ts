@@ -0,0 +1,307 @@
+
+import { AppData, EDocument, EtaIssuer, PaymentMethod, Product, Sale, TaxLine, WholesaleTransaction } from '../types';
+import { money } from './money';
+import { paymentsOf } from './payments';
+import { EXEMPT_TAX_ID, isTaxEnabled, taxLineOf, taxRateFor } from './tax';
+
+/**
+ * Egyptian Tax Authority e-documents
+ * Wholesale sales are issued as e-invoices (ETA invoice schema 1.0) and retail sales as
+ * e-receipts (e-receipt schema 1.2). Documents are built offline from what the ledger recorded,
+ * queued, signed on this device, then submitted through the portal by the accountant, who
+ * records the outcome against each document.
+ *
+ * Signing goes through a replaceable hook. Until a real signer (a USB token behind a local
+ * signing service) is plugged in, a stand-in signs with a plain digest so the whole flow can
+ * be exercised; the portal would refuse those signatures, so they are never marked submitted.
+ */
+
+export const EDOCUMENT_STATUS_LABELS: Record<EDocument['status'], { en: string; ar: string }> = {
+  pending: { en: 'Pending', ar: 'قيد الانتظار' },
+  signed: { en: 'Signed', ar: 'موقّع' },
+  submitted: { en: 'Submitted', ar: 'تم الإرسال' },
+  rejected: { en: 'Rejected', ar: 'مرفوض' }
+};
+
+const ETA_CURRENCY = 'EGP';
+const VAT_TAX_TYPE = 'T1';
+const GENERAL_SUBTYPE = 'V009'; // General item sales
+const EXEMPT_SUBTYPE = 'V003'; // Exempted goods or services
+
+const PAYMENT_CODES: Record<PaymentMethod, string> = { cash: 'C', card: 'V', vodafone_cash: 'O', instapay: 'O' };
+
+// ETA timestamps are UTC without milliseconds
+const etaDateTime = (timestamp: number) => new Date(timestamp).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+export const internalIdOf = (recordId: string) => recordId.split('-')[0];
+
+/**
+ * The serialized form the tax authority signs and hashes: every property name in capitals and
+ * quoted, followed by its value, with each array element prefixed by the array's name.
+ */
+export const serializeEtaDocument = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(String(value ?? ''));
+  return Object.entries(value as Record<string, unknown>).map(([key, field]) => {
+    const name = JSON.stringify(key.toUpperCase());
+    return Array.isArray(field)
+      ? name + field.map(element => name + serializeEtaDocument(element)).join('')
+      : name + serializeEtaDocument(field);
+  }).join('');
+};
+
+const requireIssuer = (data: Pick<AppData, 'etaIssuer' | 'currency' | 'taxRates'>): EtaIssuer => {
+  const issuer = data.etaIssuer;
+  if (!issuer?.registrationNumber || !issuer.name || !issuer.activityCode) {
+    throw new Error("Fill in the tax registration details in Settings before issuing e-documents.");
+  }
+  if ((data.currency || ETA_CURRENCY) !== ETA_CURRENCY) throw new Error("E-documents can only be issued from a ledger kept in EGP.");
+  if (!isTaxEnabled(data)) throw new Error("Set up tax rates in Settings before issuing e-documents.");
+  return issuer;
+};
+
+const branchAddressOf = (issuer: EtaIssuer) => ({
+  country: 'EG',
+  governate: issuer.governate,
+  regionCity: issuer.regionCity,
+  street: issuer.street,
+  buildingNumber: issuer.buildingNumber
+});
+
+interface EtaLine {
+  productId: string;
+  description: string;
+  itemCode: string;
+  quantity: number;
+  unitPrice: number; // As sold, with the tax inside when `inclusive`
+  taxLine: TaxLine; // After every discount
+  inclusive: boolean;
+}
+
+const itemCodeOf = (product: Pick<Product, 'name' | 'itemCode'> | undefined, name: string): string => {
+  if (!product?.itemCode) throw new Error(`${product?.name || name} has no tax authority item code.`);
+  return product.itemCode;
+};
+
+/**
+ * Amounts of one line the way the portal expects them: before tax, with the discount as the gap
+ * between the line's list value and what it sold for.
+ */
+const lineAmountsOf = (line: EtaLine) => {
+  const { rate, taxable, tax } = line.taxLine;
+  const unitValue = line.inclusive ? money.multiply(line.unitPrice, 100 / (100 + rate), ETA_CURRENCY) : line.unitPrice;
+  const salesTotal = money.multiply(unitValue, line.quantity, ETA_CURRENCY);
+  return {
+    ...line,
+    itemType: line.itemCode.startsWith('EG-') ? 'EGS' : 'GS1',
+    unitValue,
+    salesTotal,
+    discount: Math.max(0, money.subtract(salesTotal, taxable, ETA_CURRENCY)),
+    netTotal: taxable,
+    total: money.add(taxable, tax, ETA_CURRENCY),
+    taxableItems: [{ taxType: VAT_TAX_TYPE, amount: tax, subType: line.taxLine.rateId === EXEMPT_TAX_ID ? EXEMPT_SUBTYPE : GENERAL_SUBTYPE, rate }]
+  };
+};
+
+const totalsOf = (lines: ReturnType<typeof lineAmountsOf>[]) => {
+  const sum = (pick: (line: ReturnType<typeof lineAmountsOf>) => number) => money.sum(lines.map(pick), ETA_CURRENCY);
+  const netAmount = sum(l => l.netTotal);
+  const taxTotal = sum(l => l.taxableItems[0].amount);
+  return { salesTotal: sum(l => l.salesTotal), discount: sum(l => l.discount), netAmount, taxTotal, total: money.add(netAmount, taxTotal, ETA_CURRENCY) };
+};
+
+/**
+ * An e-receipt for a retail sale, as it was sold. Receipts are chained and identified by a hash
+ * worked out when they are signed, so `uuid` and `previousUUID` start out empty.
+ */
+export const buildSaleReceipt = (data: AppData, sale: Sale): Record<string, any> => {
+  const issuer = requireIssuer(data);
+  if (sale.status === 'cancelled') throw new Error("A cancelled order cannot be issued as an e-receipt.");
+  if (!sale.taxLines) throw new Error(`Invoice ${internalIdOf(sale.id)} was made before tax rates were set up.`);
+
+  const lines = sale.items.filter(item => item.quantity > 0 && item.taxLine).map(item => lineAmountsOf({
+    productId: item.id,
+    description: item.name,
+    itemCode: itemCodeOf(data.products.find(p => p.id === item.id) || item, item.name),
+    quantity: item.quantity,
+    unitPrice: item.price,
+    taxLine: item.taxLine!,
+    inclusive: !!sale.pricesIncludeTax
+  }));
+  const totals = totalsOf(lines);
+  const customer = data.customers.find(c => c.id === sale.customerId);
+  const fees = sale.deliveryFee || 0;
+  const mainPayment = [...paymentsOf(sale)].sort((a, b) => b.amount - a.amount)[0];
+
+  return {
+    header: {
+      dateTimeIssued: etaDateTime(sale.timestamp),
+      receiptNumber: internalIdOf(sale.id),
+      uuid: '',
+      previousUUID: '',
+      referenceOldUUID: '',
+      currency: ETA_CURRENCY,
+      exchangeRate: 0,
+      sOrderNameCode: '',
+      orderdeliveryMode: sale.isDelivery ? 'FC' : '',
+      grossWeight: 0,
+      netWeight: 0
+    },
+    documentType: { receiptType: 'S', typeVersion: '1.2' },
+    seller: {
+      rin: issuer.registrationNumber,
+      companyTradeName: issuer.name,
+      branchCode: issuer.branchId,
+      branchAddress: branchAddressOf(issuer),
+      deviceSerialNumber: issuer.deviceSerialNumber || '',
+      activityCode: issuer.activityCode
+    },
+    buyer: {
+      type: 'P',
+      id: '',
+      name: customer?.name || sale.deliveryDetails?.customerName || '',
+      mobileNumber: customer?.phone || sale.deliveryDetails?.customerPhone || '',
+      paymentNumber: ''
+    },
+    itemData: lines.map(line => ({
+      internalCode: line.productId,
+      description: line.description,
+      itemType: line.itemType,
+      itemCode: line.itemCode,
+      unitType: 'EA',
+      quantity: line.quantity,
+      unitPrice: line.unitValue,
+      netSale: line.netTotal,
+      totalSale: line.salesTotal,
+      total: line.total,
+      commercialDiscountData: line.discount > 0 ? [{ amount: line.discount, description: 'Discount' }] : [],
+      taxableItems: line.taxableItems
+    })),
+    totalSales: totals.salesTotal,
+    totalCommercialDiscount: totals.discount,
+    netAmount: totals.netAmount,
+    feesAmount: fees,
+    totalAmount: money.add(totals.total, fees, ETA_CURRENCY),
+    taxTotals: [{ taxType: VAT_TAX_TYPE, amount: totals.taxTotal }],
+    paymentMethod: mainPayment ? PAYMENT_CODES[mainPayment.method] : 'C',
+    adjustment: 0
+  };
+};
+
+/**
+ * An e-invoice for a wholesale sale. Wholesale prices are agreed as a final figure, so each
+ * line's tax is taken as contained in its price and the invoice total matches what the buyer owes.
+ */
+export const buildWholesaleInvoice = (data: AppData, trans: WholesaleTransaction): Record<string, any> => {
+  const issuer = requireIssuer(data);
+  if (trans.type !== 'sale') throw new Error("Only wholesale sales are issued as e-invoices; purchases are invoiced by the supplier.");
+  const partner = data.partners.find(p => p.id === trans.partnerId);
+  if (!partner?.taxRegistrationNumber) throw new Error(`${partner?.name || 'The buyer'} has no tax registration number.`);
+
+  const lines = trans.items.filter(item => item.quantity > 0).map(item => {
+    const product = data.products.find(p => p.id === item.productId);
+    const net = money.multiply(item.unitPrice, item.quantity, ETA_CURRENCY);
+    return lineAmountsOf({
+      productId: item.productId,
+      description: item.name,
+      itemCode: itemCodeOf(product, item.name),
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      taxLine: taxLineOf(taxRateFor(data, product || { category: '' }), net, true, ETA_CURRENCY),
+      inclusive: true
+    });
+  });
+  const totals = totalsOf(lines);
+
+  return {
+    issuer: { type: 'B', id: issuer.registrationNumber, name: issuer.name, address: { branchID: issuer.branchId, ...branchAddressOf(issuer) } },
+    receiver: { type: 'B', id: partner.taxRegistrationNumber, name: partner.name, address: { country: 'EG', governate: '', regionCity: '', street: '', buildingNumber: '' } },
+    documentType: 'I',
+    documentTypeVersion: '1.0',
+    dateTimeIssued: etaDateTime(trans.timestamp),
+    taxpayerActivityCode: issuer.activityCode,
+    internalID: internalIdOf(trans.id),
+    invoiceLines: lines.map(line => ({
+      description: line.description,
+      itemType: line.itemType,
+      itemCode: line.itemCode,
+      unitType: 'EA',
+      quantity: line.quantity,
+      internalCode: line.productId,
+      salesTotal: line.salesTotal,
+      total: line.total,
+      valueDifference: 0,
+      totalTaxableFees: 0,
+      netTotal: line.netTotal,
+      itemsDiscount: 0,
+      unitValue: { currencySold: ETA_CURRENCY, amountEGP: line.unitValue },
+      discount: { rate: 0, amount: line.discount },
+      taxableItems: line.taxableItems
+    })),
+    totalDiscountAmount: totals.discount,
+    totalSalesAmount: totals.salesTotal,
+    netAmount: totals.netAmount,
+    taxTotals: [{ taxType: VAT_TAX_TYPE, amount: totals.taxTotal }],
+    totalAmount: totals.total,
+    extraDiscountAmount: 0,
+    totalItemsDiscountAmount: 0
+  };
+};
+
+// --- SIGNING ---
+
+export interface DocumentSigner {
+  name: string;
+  // Signs the serialized document and returns the signature, base64 encoded
+  sign: (serialized: string) => Promise<string>;
+}
+
+const sha256 = async (text: string): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export const STAND_IN_SIGNER: DocumentSigner = {
+  name: 'Stand-in signer',
+  sign: async (serialized) => btoa(String.fromCharCode(...await sha256(serialized)))
+};
+
+let activeSigner: DocumentSigner = STAND_IN_SIGNER;
+
+export const documentSigner = (): DocumentSigner => activeSigner;
+
+/**
+ * Plugs in the signer documents are signed with from now on, e.g. one that forwards to the
+ * token's local signing service.
+ */
+export const setDocumentSigner = (signer: DocumentSigner): void => {
+  activeSigner = signer;
+};
+
+export const isStandInSigned = (doc: Pick<EDocument, 'signedBy'>): boolean => doc.signedBy === STAND_IN_SIGNER.name;
+
+/**
+ * The document of `doc` ready to be recorded as signed. A receipt is first chained to the
+ * latest receipt signed before it and given its hash as its uuid.
+ */
+export const signEDocument = async (data: Pick<AppData, 'eDocuments'>, doc: EDocument, signer: DocumentSigner = activeSigner): Promise<Record<string, any>> => {
+  if (doc.status !== 'pending') throw new Error("Only pending documents can be signed.");
+  const { signatures, ...unsigned } = doc.document;
+  if (doc.kind === 'receipt') {
+    const previous = data.eDocuments
+      .filter(d => d.kind === 'receipt' && d.id !== doc.id && d.signedAt && d.status !== 'rejected')
+      .sort((a, b) => b.signedAt! - a.signedAt!)[0];
+    const chained = { ...unsigned, header: { ...unsigned.header, uuid: '', previousUUID: previous?.document.header.uuid || '' } };
+    chained.header.uuid = toHex(await sha256(serializeEtaDocument(chained)));
+    return { ...chained, signatures: [{ signatureType: 'I', value: await signer.sign(serializeEtaDocument(chained)) }] };
+  }
+  return { ...unsigned, signatures: [{ signatureType: 'I', value: await signer.sign(serializeEtaDocument(unsigned)) }] };
+};
+
+/**
+ * The body the portal takes for a batch upload: invoices and receipts go to separate endpoints.
+ */
+export const submissionPayload = (records: EDocument[]): { documents?: Record<string, any>[]; receipts?: Record<string, any>[] } => {
+  const invoices = records.filter(d => d.kind === 'invoice').map(d => d.document);
+  const receipts = records.filter(d => d.kind === 'receipt').map(d => d.document);
+  return { ...(invoices.length ? { documents: invoices } : {}), ...(receipts.length ? { receipts } : {}) };
+};
@@ -0,0 +1,31 @@
+
+import { describe, it, expect } from 'vitest';
+import { AppData } from '../types';
+import { executeCommand } from './commands';
+import { createBaseline, findDiscrepancies } from './events';
+import { makeLedger, cartLine, latestSale, productStock, PRODUCT_ID, CUSTOMER_ID } from './operations.fixtures';
+
+const withBaseline = (data: AppData): AppData => ({ ...data, events: [createBaseline(data)] });
+
+describe('event log', () => {
+  it('agrees with the ledger after a sale is deleted', () => {
+    let data = withBaseline(makeLedger());
+    data = executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [cartLine(data, PRODUCT_ID, 3)], customerId: CUSTOMER_ID } });
+    data = executeCommand(data, { type: 'DELETE_SALE', saleId: latestSale(data).id });
+    expect(data.sales).toHaveLength(0);
+    expect(productStock(data)).toBe(50);
+    expect(data.customers[0]).toMatchObject({ totalPurchases: 0, invoiceCount: 0, totalPoints: 0 });
+    expect(findDiscrepancies(data)).toEqual([]);
+  });
+
+  it('reports aggregates changed outside the ledger operations and recomputes them', () => {
+    let data = withBaseline(makeLedger());
+    data = executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [cartLine(data, PRODUCT_ID, 3)], customerId: CUSTOMER_ID } });
+    const drifted: AppData = { ...data, products: data.products.map(p => p.id === PRODUCT_ID ? { ...p, stock: 50 } : p) };
+    expect(findDiscrepancies(drifted)).toEqual([expect.objectContaining({ id: PRODUCT_ID, field: 'stock', stored: 50, replayed: 47 })]);
+
+    const recomputed = executeCommand(drifted, { type: 'RECOMPUTE_AGGREGATES' });
+    expect(productStock(recomputed)).toBe(47);
+    expect(findDiscrepancies(recomputed)).toEqual([]);
+  });
+});
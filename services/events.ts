@@ -0,0 +1,248 @@
+
+import { AppData, AggregateSnapshot, CustomerTotals, LedgerEvent, Sale, SaleReturn, Customer } from '../types';
+import { LedgerCommand } from './commands';
+import { money } from './money';
+
+/**
+ * Ledger Event Log
+ * Every command appends one event describing its effect on the derived aggregates
+ * (`Product.stock` and the customer totals). Effects are worked out from the records the
+ * command touched, not from how the aggregates happened to change, so replaying the log gives
+ * an independent value to check the stored aggregates against.
+ *
+ * A BASELINE event starts the history of a ledger that existed before the log did, and is
+ * written again after a merge, since the merged ledgers share no common history.
+ */
+
+export interface ReplayedAggregates {
+  stock: Record<string, number>;
+  customers: Record<string, CustomerTotals>;
+}
+
+export interface AggregateDiscrepancy {
+  kind: 'product' | 'customer';
+  id: string;
+  name: string;
+  field: 'stock' | keyof CustomerTotals;
+  stored: number;
+  replayed?: number; // Missing when the record has no history at all
+}
+
+const totalsOf = (customer: CustomerTotals): CustomerTotals => ({
+  totalPurchases: customer.totalPurchases || 0,
+  invoiceCount: customer.invoiceCount || 0,
+  totalPoints: customer.totalPoints || 0
+});
+
+const addTo = (target: AggregateSnapshot, source: AggregateSnapshot, sign = 1): AggregateSnapshot => {
+  Object.entries(source.stock || {}).forEach(([id, qty]) => {
+    target.stock = target.stock || {};
+    target.stock[id] = (target.stock[id] || 0) + qty * sign;
+  });
+  Object.entries(source.customers || {}).forEach(([id, totals]) => {
+    target.customers = target.customers || {};
+    const current = target.customers[id] || { totalPurchases: 0, invoiceCount: 0, totalPoints: 0 };
+    target.customers[id] = {
+      totalPurchases: current.totalPurchases + totals.totalPurchases * sign,
+      invoiceCount: current.invoiceCount + totals.invoiceCount * sign,
+      totalPoints: current.totalPoints + totals.totalPoints * sign
+    };
+  });
+  return target;
+};
+
+const isActive = (sale: Sale) => sale.status !== 'cancelled';
+
+/**
+ * What a sale currently contributes: goods out of stock and, for a known customer, its product
+ * value, one invoice and its points, each net of the returns already processed against it.
+ */
+const saleContribution = (sale: Sale, returns: SaleReturn[], currency?: string): AggregateSnapshot => {
+  const contribution: AggregateSnapshot = {};
+  sale.items.forEach(item => {
+    addTo(contribution, { stock: { [item.id]: -(item.quantity - (item.returnedQuantity || 0)) } });
+  });
+  if (sale.customerId) {
+    const saleReturns = returns.filter(r => r.saleId === sale.id);
+    addTo(contribution, {
+      customers: {
+        [sale.customerId]: {
+          totalPurchases: money.subtract(money.subtract(sale.total, sale.deliveryFee || 0, currency), money.sum(saleReturns.map(r => r.totalRefund), currency), currency),
+          invoiceCount: 1,
+          totalPoints: (sale.pointsEarned || 0) - saleReturns.reduce((acc, r) => acc + Math.floor(r.totalRefund), 0)
+        }
+      }
+    });
+  }
+  return contribution;
+};
+
+export const snapshotAggregates = (data: AppData): AggregateSnapshot => ({
+  stock: Object.fromEntries(data.products.map(p => [p.id, p.stock])),
+  customers: Object.fromEntries(data.customers.map(c => [c.id, totalsOf(c)]))
+});
+
+export const createEvent = (data: AppData, type: string, details: Partial<Omit<LedgerEvent, 'id' | 'sequence' | 'timestamp' | 'type'>> = {}): LedgerEvent => ({
+  id: crypto.randomUUID(),
+  sequence: ((data.events || [])[0]?.sequence || 0) + 1,
+  timestamp: Date.now(),
+  type,
+  ...details
+});
+
+export const appendEvent = (data: AppData, event: LedgerEvent): AppData => ({
+  ...data,
+  events: [event, ...(data.events || [])]
+});
+
+/**
+ * Starts a fresh history from the ledger's current aggregates.
+ */
+export const createBaseline = (data: AppData): LedgerEvent => createEvent(data, 'BASELINE', { set: snapshotAggregates(data) });
+
+/**
+ * Describes the effect of a command that has just turned `before` into `after`.
+ */
+export const eventFromCommand = (command: LedgerCommand, before: AppData, after: AppData): LedgerEvent => {
+  const event = (details: Partial<LedgerEvent> = {}) => createEvent(before, command.type, details);
+  const previousSale = (id: string) => before.sales.find(s => s.id === id);
+
+  switch (command.type) {
+    case 'RETAIL_SALE': {
+      const sale = after.sales[0];
+      const newCustomer: Customer | undefined = command.newCustomer;
+      return event({
+        refId: sale.id,
+        set: newCustomer ? { customers: { [newCustomer.id]: totalsOf(newCustomer) } } : undefined,
+        add: saleContribution(sale, [], before.currency)
+      });
+    }
+    case 'UPDATE_DELIVERY_STATUS': {
+      const sale = previousSale(command.saleId);
+      if (!sale || (sale.status === 'cancelled') === (command.status === 'cancelled')) return event({ refId: command.saleId });
+      return event({ refId: sale.id, add: addTo({}, saleContribution(sale, before.returns, before.currency), command.status === 'cancelled' ? -1 : 1) });
+    }
+    case 'EDIT_SALE': {
+      const sale = previousSale(command.sale.id);
+      const add: AggregateSnapshot = {};
+      if (sale && isActive(sale)) addTo(add, saleContribution(sale, before.returns, before.currency), -1);
+      if (isActive(command.sale)) addTo(add, saleContribution(command.sale, before.returns, before.currency));
+      return event({ refId: command.sale.id, add });
+    }
+    case 'DELETE_SALE': {
+      const sale = previousSale(command.saleId);
+      return event({ refId: command.saleId, add: sale && isActive(sale) ? addTo({}, saleContribution(sale, before.returns, before.currency), -1) : undefined });
+    }
+    case 'PROCESS_RETURN': {
+      const ret = after.returns[0];
+      const customerId = previousSale(ret.saleId)?.customerId;
+      const add: AggregateSnapshot = {};
+      ret.items.forEach(item => addTo(add, { stock: { [item.productId]: item.quantity } }));
+      if (customerId) {
+        addTo(add, { customers: { [customerId]: { totalPurchases: -ret.totalRefund, invoiceCount: 0, totalPoints: -Math.floor(ret.totalRefund) } } });
+      }
+      return event({ refId: ret.id, add });
+    }
+    case 'WHOLESALE_TRANSACTION': {
+      const sign = command.transaction.type === 'purchase' ? 1 : -1;
+      const add: AggregateSnapshot = {};
+      command.transaction.items.forEach(item => addTo(add, { stock: { [item.productId]: item.quantity * sign } }));
+      return event({ refId: command.transaction.id, add });
+    }
+    case 'WHOLESALE_RETURN': {
+      const trans = before.wholesaleTransactions.find(t => t.id === command.returnRecord.saleId);
+      const sign = trans?.type === 'sale' ? 1 : -1;
+      const add: AggregateSnapshot = {};
+      command.returnRecord.items.forEach(item => addTo(add, { stock: { [item.productId]: item.quantity * sign } }));
+      return event({ refId: command.returnRecord.id, add });
+    }
+    case 'SAVE_PRODUCT': {
+      // Re-saving a product with its stock untouched is not a count, so it must not adopt the stored value.
+      const existing = before.products.find(p => p.id === command.product.id);
+      if (existing && existing.stock === command.product.stock) return event({ refId: command.product.id });
+      return event({ refId: command.product.id, set: { stock: { [command.product.id]: command.product.stock } } });
+    }
+    case 'ADJUST_STOCK':
+      return event({ refId: command.productId, set: { stock: { [command.productId]: command.newQuantity } } });
+    case 'DELETE_PRODUCT':
+      return event({ refId: command.productId, removed: [command.productId] });
+    case 'SAVE_CUSTOMER':
+      return before.customers.some(c => c.id === command.customer.id)
+        ? event({ refId: command.customer.id })
+        : event({ refId: command.customer.id, set: { customers: { [command.customer.id]: totalsOf(command.customer) } } });
+    case 'DELETE_CUSTOMER':
+      return event({ refId: command.customerId, removed: [command.customerId] });
+    case 'RECOMPUTE_AGGREGATES':
+      return event({ set: snapshotAggregates(after) });
+    case 'REPAIR_INTEGRITY': {
+      // Repairs are corrections, not business events: the repaired values become the history's.
+      const previous = snapshotAggregates(before);
+      const current = snapshotAggregates(after);
+      const stock = Object.fromEntries(Object.entries(current.stock!).filter(([id, qty]) => previous.stock![id] !== qty));
+      const customers = Object.fromEntries(Object.entries(current.customers!).filter(([id, totals]) => JSON.stringify(previous.customers![id]) !== JSON.stringify(totals)));
+      return event({ set: { stock, customers } });
+    }
+    default:
+      return event();
+  }
+};
+
+/**
+ * Rebuilds stock and customer totals from the event log alone. Undone events are skipped;
+ * undo is strictly last-in, first-out, so nothing replayed ever depended on them.
+ */
+export const replayEvents = (events: LedgerEvent[]): ReplayedAggregates => {
+  const ordered = [...events].sort((a, b) => a.sequence - b.sequence);
+  const undone = new Set<string>();
+  ordered.forEach(e => {
+    if (e.type === 'OPERATION_UNDONE' && e.refId) undone.add(e.refId);
+    if (e.type === 'OPERATION_REDONE' && e.refId) undone.delete(e.refId);
+  });
+
+  let state: AggregateSnapshot = {};
+  for (const e of ordered) {
+    if (undone.has(e.id)) continue;
+    if (e.type === 'BASELINE') {
+      state = addTo({}, e.set || {});
+      continue;
+    }
+    (e.removed || []).forEach(id => {
+      if (state.stock) delete state.stock[id];
+      if (state.customers) delete state.customers[id];
+    });
+    Object.entries(e.set?.stock || {}).forEach(([id, qty]) => {
+      state.stock = state.stock || {};
+      state.stock[id] = qty;
+    });
+    Object.entries(e.set?.customers || {}).forEach(([id, totals]) => {
+      state.customers = state.customers || {};
+      state.customers[id] = { ...totals };
+    });
+    if (e.add) addTo(state, e.add);
+  }
+  return { stock: state.stock || {}, customers: state.customers || {} };
+};
+
+/**
+ * Compares stored aggregates with the replayed history. Records the history has never seen are
+ * reported without a replayed value.
+ */
+export const findDiscrepancies = (data: AppData, events: LedgerEvent[] = data.events || []): AggregateDiscrepancy[] => {
+  const replayed = replayEvents(events);
+  const tolerance = money.tolerance(data.currency);
+  const differs = (stored: number, value?: number) => value === undefined || Math.abs(stored - value) > tolerance;
+  const discrepancies: AggregateDiscrepancy[] = [];
+
+  data.products.forEach(p => {
+    const value = replayed.stock[p.id];
+    if (differs(p.stock, value)) discrepancies.push({ kind: 'product', id: p.id, name: p.name, field: 'stock', stored: p.stock, replayed: value });
+  });
+  data.customers.forEach(c => {
+    const totals = replayed.customers[c.id];
+    (['totalPurchases', 'invoiceCount', 'totalPoints'] as const).forEach(field => {
+      const value = totals?.[field];
+      if (differs(c[field] || 0, value)) discrepancies.push({ kind: 'customer', id: c.id, name: c.name, field, stored: c[field] || 0, replayed: value });
+    });
+  });
+  return discrepancies;
+};
@@ -0,0 +1,28 @@
+
+import { describe, it, expect } from 'vitest';
+import { AppData } from '../types';
+import { executeCommand } from './commands';
+import { scanIntegrity } from './integrity';
+import { makeLedger, cartLine, PRODUCT_ID } from './operations.fixtures';
+
+describe('scanIntegrity', () => {
+  it('offers to close all but the latest of several open shifts', () => {
+    const ledger = makeLedger();
+    const earlier = { ...ledger.shifts[0], id: 'shift-early', startTime: ledger.shifts[0].startTime - 60000 };
+    const data: AppData = { ...ledger, shifts: [...ledger.shifts, earlier] };
+
+    const issue = scanIntegrity(data).find(i => i.code === 'multiple_open_shifts');
+    expect(issue).toMatchObject({ repair: 'close_extra_shifts' });
+
+    const repaired = executeCommand(data, { type: 'REPAIR_INTEGRITY', issueIds: [issue!.id] });
+    expect(repaired.shifts.filter(s => s.status === 'open').map(s => s.id)).toEqual([ledger.shifts[0].id]);
+    expect(scanIntegrity(repaired).some(i => i.code === 'multiple_open_shifts')).toBe(false);
+  });
+
+  it('checks payments to the precision of the ledger currency', () => {
+    let data = executeCommand(makeLedger({ currency: 'KWD' }), { type: 'RETAIL_SALE', sale: { items: [cartLine(makeLedger(), PRODUCT_ID, 1)] } });
+    expect(scanIntegrity(data).some(i => i.code === 'sale_payments_mismatch')).toBe(false);
+    data = { ...data, sales: data.sales.map(s => ({ ...s, payments: s.payments!.map(p => ({ ...p, amount: p.amount - 0.003 })) })) };
+    expect(scanIntegrity(data).some(i => i.code === 'sale_payments_mismatch')).toBe(true);
+  });
+});
@@ -0,0 +1,155 @@
+
+import { AppData } from '../types';
+import { validateLedger, IssueSeverity } from './validation';
+import { money } from './money';
+
+/**
+ * Ledger Integrity Scan
+ * Checks the invariants and cross references a working ledger should satisfy, on top of the
+ * structural checks in validation.ts. Issues that have a safe, well-defined fix name a repair;
+ * repairs are applied by `TwinXOps.repairIntegrity`, which logs each one.
+ */
+
+export type RepairKind =
+  | 'clamp_stock'
+  | 'clamp_customer_totals'
+  | 'unlink_customer'
+  | 'unlink_driver'
+  | 'unlink_draft_customer'
+  | 'remove_orphan_return'
+  | 'restore_partner'
+  | 'sync_returned_quantity'
+  | 'close_extra_shifts'
+  | 'add_category';
+
+export interface IntegrityIssue {
+  id: string; // Stable across scans: `${code}:${recordId}`
+  code: string;
+  severity: IssueSeverity;
+  collection: keyof AppData;
+  recordId?: string;
+  message: string;
+  repair?: RepairKind;
+}
+
+export const REPAIR_LABELS: Record<RepairKind, { en: string; ar: string }> = {
+  clamp_stock: { en: 'Count stock as zero', ar: 'ضبط المخزون على صفر' },
+  clamp_customer_totals: { en: 'Reset negative totals to zero', ar: 'تصفير الإجماليات السالبة' },
+  unlink_customer: { en: 'Mark as walk-in sale', ar: 'تحويل لعميل نقدي' },
+  unlink_driver: { en: 'Remove driver from order', ar: 'إزالة المندوب من الطلب' },
+  unlink_draft_customer: { en: 'Remove customer from draft', ar: 'إزالة العميل من المسودة' },
+  remove_orphan_return: { en: 'Delete return (cash balance rises by its refund)', ar: 'حذف المرتجع (يزيد رصيد النقدية بقيمته)' },
+  restore_partner: { en: 'Recreate partner record', ar: 'إعادة إنشاء الشريك' },
+  sync_returned_quantity: { en: 'Recount returned quantities from returns', ar: 'إعادة حساب الكميات المرتجعة' },
+  close_extra_shifts: { en: 'Close all but the latest shift', ar: 'إغلاق الورديات عدا الأحدث' },
+  add_category: { en: 'Add missing category', ar: 'إضافة التصنيف' }
+};
+
+/**
+ * Scans the whole ledger. Structural errors are returned on their own, since the invariant
+ * checks below assume every record has the shape its type promises.
+ */
+export const scanIntegrity = (data: AppData): IntegrityIssue[] => {
+  const structural = validateLedger(data).filter(i => i.severity === 'error');
+  if (structural.length > 0) {
+    return structural.map((i, index) => ({ id: `structure:${i.recordId || index}:${index}`, code: 'structure', ...i }));
+  }
+
+  const issues: IntegrityIssue[] = [];
+  const push = (code: string, severity: IssueSeverity, collection: keyof AppData, message: string, recordId?: string, repair?: RepairKind) => {
+    issues.push({ id: `${code}:${recordId || collection}`, code, severity, collection, recordId, message, repair });
+  };
+
+  const tolerance = money.tolerance(data.currency);
+  const ids = (records: { id: string }[]) => new Set(records.map(r => r.id));
+  const productIds = ids(data.products);
+  const customerIds = ids(data.customers);
+  const saleIds = ids(data.sales);
+  const wholesaleIds = ids(data.wholesaleTransactions);
+  const partnerIds = ids(data.partners);
+  const shiftIds = ids(data.shifts);
+  const staffIds = new Set([...ids(data.employees), ...ids(data.drivers)]);
+  const categories = new Set(data.categories);
+
+  // Products
+  data.products.forEach(p => {
+    if (p.stock < 0) push('negative_stock', 'error', 'products', `${p.name} has negative stock (${p.stock}).`, p.id, 'clamp_stock');
+    if (!categories.has(p.category)) push('unknown_category', 'warning', 'products', `${p.name} uses category "${p.category}", which is not in the category list.`, p.id, 'add_category');
+  });
+
+  // Customers
+  data.customers.forEach(c => {
+    if (c.totalPurchases < 0 || c.invoiceCount < 0 || (c.totalPoints || 0) < 0) {
+      push('negative_customer_totals', 'error', 'customers', `${c.name} has negative purchase totals or points.`, c.id, 'clamp_customer_totals');
+    }
+  });
+
+  // Sales
+  const returnedBySale = new Map<string, Map<string, number>>();
+  data.returns.forEach(r => {
+    const perItem = returnedBySale.get(r.saleId) || new Map<string, number>();
+    r.items.forEach(i => perItem.set(i.productId, (perItem.get(i.productId) || 0) + i.quantity));
+    returnedBySale.set(r.saleId, perItem);
+  });
+
+  data.sales.forEach(sale => {
+    const ref = `INV #${sale.id.split('-')[0]}`;
+    if (sale.customerId && !customerIds.has(sale.customerId)) push('sale_missing_customer', 'warning', 'sales', `${ref} points at a deleted customer.`, sale.id, 'unlink_customer');
+    if (sale.driverId && !staffIds.has(sale.driverId)) push('sale_missing_driver', 'warning', 'sales', `${ref} is assigned to a deleted driver.`, sale.id, 'unlink_driver');
+    if (sale.shiftId && !shiftIds.has(sale.shiftId)) push('sale_missing_shift', 'warning', 'sales', `${ref} belongs to a shift that no longer exists.`, sale.id);
+    if (sale.paidAmount > sale.total + tolerance) push('sale_overpaid', 'error', 'sales', `${ref} records more paid (${sale.paidAmount}) than its total (${sale.total}).`, sale.id);
+    if (sale.payments && Math.abs(money.sum([...sale.payments, ...(sale.collections || [])].map(p => p.amount), data.currency) - sale.paidAmount) > tolerance) {
+      push('sale_payments_mismatch', 'error', 'sales', `${ref} payments do not add up to the amount paid (${sale.paidAmount}).`, sale.id);
+    }
+
+    const returned = returnedBySale.get(sale.id) || new Map<string, number>();
+    const mismatch = sale.items.some(item => (item.returnedQuantity || 0) !== (returned.get(item.id) || 0));
+    const overReturned = sale.items.some(item => (returned.get(item.id) || 0) > item.quantity);
+    if (overReturned) push('sale_over_returned', 'error', 'sales', `${ref} has more items returned than were sold.`, sale.id);
+    else if (mismatch) push('returned_quantity_mismatch', 'error', 'sales', `${ref} returned quantities do not match its return records.`, sale.id, 'sync_returned_quantity');
+    sale.items.forEach(item => {
+      if (!productIds.has(item.id)) push('sale_missing_product', 'warning', 'sales', `${ref} sold "${item.name}", which is no longer in inventory.`, `${sale.id}/${item.id}`);
+    });
+  });
+
+  // Drafts
+  data.drafts.forEach(draft => {
+    if (draft.customerId && !customerIds.has(draft.customerId)) push('draft_missing_customer', 'warning', 'drafts', `A parked invoice points at a deleted customer.`, draft.id, 'unlink_draft_customer');
+  });
+
+  // Returns
+  data.returns.forEach(ret => {
+    if (!saleIds.has(ret.saleId) && !wholesaleIds.has(ret.saleId)) {
+      push('orphan_return', 'warning', 'returns', `Return for ${ret.totalRefund} refers to invoice ${ret.saleId.split('-')[0]}, which was deleted.`, ret.id, 'remove_orphan_return');
+    }
+  });
+
+  // Wholesale
+  data.wholesaleTransactions.forEach(trans => {
+    const ref = `Wholesale #${trans.id.split('-')[0]}`;
+    if (!partnerIds.has(trans.partnerId)) push('wholesale_missing_partner', 'error', 'wholesaleTransactions', `${ref} belongs to a deleted partner.`, trans.id, 'restore_partner');
+    if (trans.paidAmount > trans.total + tolerance) push('wholesale_overpaid', 'error', 'wholesaleTransactions', `${ref} records more paid (${trans.paidAmount}) than its total (${trans.total}).`, trans.id);
+  });
+
+  // Transactions the history recorded that are no longer in the ledger (e.g. removed with their partner).
+  const undone = new Set((data.events || []).filter(e => e.type === 'OPERATION_UNDONE').map(e => e.refId));
+  (data.events || []).forEach(e => {
+    if (e.type === 'WHOLESALE_TRANSACTION' && e.refId && !undone.has(e.id) && !wholesaleIds.has(e.refId)) {
+      push('wholesale_missing', 'warning', 'wholesaleTransactions', `Wholesale #${e.refId.split('-')[0]} from ${new Date(e.timestamp).toLocaleDateString('en-CA')} is in the history but missing from the ledger.`, e.refId);
+    }
+  });
+
+  // Staff references
+  data.attendance.forEach(a => {
+    if (!staffIds.has(a.employeeId)) push('attendance_missing_employee', 'warning', 'attendance', `Attendance on ${a.date} belongs to a deleted employee.`, a.id);
+  });
+  data.salaryTransactions.forEach(tx => {
+    if (!staffIds.has(tx.employeeId)) push('salary_missing_employee', 'warning', 'salaryTransactions', `A ${tx.type} payment of ${tx.amount} belongs to a deleted employee.`, tx.id);
+  });
+
+  // Shifts
+  const openShifts = data.shifts.filter(s => s.status === 'open');
+  if (openShifts.length > 1) push('multiple_open_shifts', 'error', 'shifts', `${openShifts.length} shifts are open at the same time.`, undefined, 'close_extra_shifts');
+
+  return issues;
+};
@@ -0,0 +1,130 @@
+
+import { AppData, LogEntry, Role } from '../types';
+import { CommandType, LedgerCommand } from './commands';
+import { createLog } from './operations';
+import { appendEvent, createEvent } from './events';
+
+/**
+ * Operation Journal
+ * Keeps the ledger before and after each of the last few undoable commands so they can be
+ * undone and redone in order. Because TwinXOps never mutate their input, the entries are
+ * plain references to earlier ledgers rather than copies.
+ *
+ * Undo is strictly last-in, first-out: a command that cannot be undone, or any change made
+ * outside the command path (settings, imports, another tab), clears the journal, so the
+ * ledger being restored over is always the one the entry produced.
+ */
+
+export interface JournalEntry {
+  id: string;
+  eventId: string; // History event the command appended
+  command: LedgerCommand;
+  summary: string;
+  timestamp: number;
+  before: AppData;
+  after: AppData;
+}
+
+interface UndoableCommand {
+  category: LogEntry['category'];
+  en: string;
+  ar: string;
+}
+
+const JOURNAL_LIMIT = 20;
+
+export const UNDO_ROLES: Role[] = ['admin', 'manager'];
+
+export const UNDOABLE_COMMANDS: Partial<Record<CommandType, UndoableCommand>> = {
+  RETAIL_SALE: { category: 'sale', en: 'Retail sale', ar: 'بيع تجزئة' },
+  WHOLESALE_TRANSACTION: { category: 'wholesale', en: 'Wholesale transaction', ar: 'عملية جملة' },
+  PROCESS_RETURN: { category: 'return', en: 'Return', ar: 'مرتجع' },
+  WHOLESALE_RETURN: { category: 'return', en: 'Wholesale return', ar: 'مرتجع جملة' },
+  ADJUST_STOCK: { category: 'inventory', en: 'Stock adjustment', ar: 'تسوية مخزون' },
+  SAVE_EXPENSE: { category: 'expense', en: 'Expense', ar: 'مصروف' },
+  DELETE_EXPENSE: { category: 'expense', en: 'Expense deletion', ar: 'حذف مصروف' },
+  SALARY_TRANSACTION: { category: 'hr', en: 'Payroll payment', ar: 'صرف راتب' }
+};
+
+// Everything an undoable command can change. Logs are kept so the audit trail only grows.
+const RESTORED_KEYS = [
+  'products', 'sales', 'returns', 'drafts', 'expenses', 'customers', 'partners', 'wholesaleTransactions', 'salaryTransactions', 'stockLogs'
+] as const satisfies readonly (keyof AppData)[];
+
+let undoStack: JournalEntry[] = [];
+let redoStack: JournalEntry[] = [];
+
+const setKey = <K extends keyof AppData>(data: AppData, key: K, value: AppData[K]) => {
+  data[key] = value;
+};
+
+// The history keeps the undone event and records the undo, so replay knows to skip it.
+const restore = (current: AppData, source: AppData, entry: JournalEntry, log: LogEntry, eventType: string): AppData => {
+  const restored: AppData = { ...current, logs: [log, ...current.logs].slice(0, 5000) };
+  RESTORED_KEYS.forEach(key => setKey(restored, key, source[key]));
+  return appendEvent(restored, createEvent(current, eventType, { refId: entry.eventId }));
+};
+
+export const journal = {
+  /**
+   * Records a command that has just been applied. Commands that cannot be undone clear the
+   * journal, since undoing anything older would silently revert them too.
+   */
+  record: (command: LedgerCommand, before: AppData, after: AppData) => {
+    redoStack = [];
+    if (!UNDOABLE_COMMANDS[command.type]) {
+      undoStack = [];
+      return;
+    }
+    undoStack = [...undoStack, {
+      id: crypto.randomUUID(),
+      eventId: after.events[0]?.id,
+      command,
+      summary: after.logs[0]?.details || command.type,
+      timestamp: Date.now(),
+      before,
+      after
+    }].slice(-JOURNAL_LIMIT);
+  },
+
+  clear: () => {
+    undoStack = [];
+    redoStack = [];
+  },
+
+  peekUndo: (): JournalEntry | undefined => undoStack[undoStack.length - 1],
+
+  peekRedo: (): JournalEntry | undefined => redoStack[redoStack.length - 1],
+
+  canUndo: (role: Role) => UNDO_ROLES.includes(role),
+
+  label: (entry: JournalEntry, lang: 'ar' | 'en') => UNDOABLE_COMMANDS[entry.command.type]?.[lang] || entry.command.type,
+
+  /**
+   * Reverts the most recent journaled command and logs who did it.
+   */
+  undo: (current: AppData, role: Role): AppData => {
+    if (!UNDO_ROLES.includes(role)) throw new Error("Your role is not allowed to undo operations.");
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) throw new Error("There is nothing to undo.");
+
+    undoStack = undoStack.slice(0, -1);
+    redoStack = [...redoStack, entry];
+    const { category, en } = UNDOABLE_COMMANDS[entry.command.type]!;
+    return restore(current, entry.before, entry, createLog('OPERATION_UNDONE', category, `${role} undid ${en}: ${entry.summary}`), 'OPERATION_UNDONE');
+  },
+
+  /**
+   * Re-applies the most recently undone command.
+   */
+  redo: (current: AppData, role: Role): AppData => {
+    if (!UNDO_ROLES.includes(role)) throw new Error("Your role is not allowed to redo operations.");
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) throw new Error("There is nothing to redo.");
+
+    redoStack = redoStack.slice(0, -1);
+    undoStack = [...undoStack, entry];
+    const { category, en } = UNDOABLE_COMMANDS[entry.command.type]!;
+    return restore(current, entry.after, entry, createLog('OPERATION_REDONE', category, `${role} redid ${en}: ${entry.summary}`), 'OPERATION_REDONE');
+  }
+};
@@ -0,0 +1,236 @@
+
+import { AppData, Sale, SaleReturn, WholesaleTransaction, StockLog, Product, Customer } from '../types';
+import { createLog } from './operations';
+import { createBaseline } from './events';
+import { COLLECTION_NAMES, CollectionName } from './validation';
+
+/**
+ * Ledger Merge Service
+ * Unions two ledgers record-by-record (by id) instead of replacing one with the other.
+ * Stock and customer aggregates are not copied from the backup: the movements that are new to
+ * this device (sales, returns, wholesale, stock adjustments) are re-applied on top of local values.
+ */
+
+export type MergeStrategy = 'keep_current' | 'prefer_incoming';
+
+export interface MergeConflict {
+  collection: CollectionName;
+  id: string;
+  resolution: 'kept_current' | 'took_incoming';
+}
+
+export interface MergeResult {
+  data: AppData;
+  added: Record<CollectionName, number>;
+  conflicts: MergeConflict[];
+  summary: string;
+}
+
+// Fields derived from movements; differences in them are recomputed, not treated as conflicts.
+const DERIVED_FIELDS: Partial<Record<CollectionName, string[]>> = {
+  products: ['stock'],
+  customers: ['totalPurchases', 'invoiceCount', 'totalPoints', 'lastOrderTimestamp', 'lastVisit', 'channelsUsed'],
+};
+
+const NEWEST_FIRST: CollectionName[] = ['sales', 'returns', 'drafts', 'logs', 'stockLogs', 'wholesaleTransactions', 'eDocuments'];
+const OLDEST_FIRST: CollectionName[] = ['expenses', 'attendance', 'salaryTransactions'];
+
+// Key-order independent serialization so the same record saved on two machines compares equal.
+const canonical = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${canonical(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sameRecord = (a: any, b: any, ignored: string[] = []): boolean => {
+  const strip = (record: any) => {
+    const copy = { ...record };
+    ignored.forEach(field => delete copy[field]);
+    return copy;
+  };
+  return canonical(strip(a)) === canonical(strip(b));
+};
+
+// --- MOVEMENT EFFECTS ---
+// Net change a single record applies to product stock and customer aggregates.
+
+interface CustomerEffect { purchases: number; invoices: number; points: number; lastOrder?: number }
+
+const addTo = (map: Map<string, number>, key: string, delta: number) => {
+  map.set(key, (map.get(key) || 0) + delta);
+};
+
+const saleStockEffect = (sale: Sale, sign: number, stock: Map<string, number>) => {
+  sale.items.forEach(item => {
+    // A cancellation restocks everything that was not already restocked through a return.
+    const kept = sale.status === 'cancelled' ? (item.returnedQuantity || 0) : item.quantity;
+    addTo(stock, item.id, -kept * sign);
+  });
+};
+
+const returnStockEffect = (ret: SaleReturn, wholesale: Map<string, WholesaleTransaction>, sign: number, stock: Map<string, number>) => {
+  const wholesaleOrigin = wholesale.get(ret.saleId);
+  const direction = wholesaleOrigin && wholesaleOrigin.type === 'purchase' ? -1 : 1;
+  ret.items.forEach(item => addTo(stock, item.productId, item.quantity * direction * sign));
+};
+
+const wholesaleStockEffect = (trans: WholesaleTransaction, sign: number, stock: Map<string, number>) => {
+  trans.items.forEach(item => addTo(stock, item.productId, (trans.type === 'purchase' ? item.quantity : -item.quantity) * sign));
+};
+
+const stockLogEffect = (log: StockLog, sign: number, stock: Map<string, number>) => {
+  addTo(stock, log.productId, (log.newStock - log.oldStock) * sign);
+};
+
+const addCustomerEffect = (effects: Map<string, CustomerEffect>, customerId: string, delta: CustomerEffect) => {
+  const existing = effects.get(customerId) || { purchases: 0, invoices: 0, points: 0 };
+  effects.set(customerId, {
+    purchases: existing.purchases + delta.purchases,
+    invoices: existing.invoices + delta.invoices,
+    points: existing.points + delta.points,
+    lastOrder: Math.max(existing.lastOrder || 0, delta.lastOrder || 0) || undefined
+  });
+};
+
+const saleCustomerEffect = (sale: Sale, sign: number, effects: Map<string, CustomerEffect>) => {
+  if (!sale.customerId || sale.status === 'cancelled') return;
+  addCustomerEffect(effects, sale.customerId, {
+    purchases: (sale.total - (sale.deliveryFee || 0)) * sign,
+    invoices: sign,
+    points: (sale.pointsEarned || 0) * sign,
+    lastOrder: sign > 0 ? sale.timestamp : undefined
+  });
+};
+
+const returnCustomerEffect = (ret: SaleReturn, sales: Map<string, Sale>, sign: number, effects: Map<string, CustomerEffect>) => {
+  const sale = sales.get(ret.saleId);
+  if (!sale?.customerId) return;
+  addCustomerEffect(effects, sale.customerId, {
+    purchases: -ret.totalRefund * sign,
+    invoices: 0,
+    points: -Math.floor(ret.totalRefund) * sign
+  });
+};
+
+const timestampOf = (record: object): number => 'timestamp' in record ? Number(record.timestamp) : 0;
+
+type CollectionRecord<K extends CollectionName> = AppData[K][number];
+
+const mergeCollection = <K extends CollectionName>(
+  name: K,
+  currentRecords: AppData[K],
+  incomingRecords: AppData[K],
+  strategy: MergeStrategy,
+  conflicts: MergeConflict[]
+): { merged: AppData[K]; replaced: Map<string, { before: CollectionRecord<K>; after: CollectionRecord<K> }>; added: CollectionRecord<K>[] } => {
+  const current: CollectionRecord<K>[] = currentRecords;
+  const incoming: CollectionRecord<K>[] = incomingRecords;
+  const incomingById = new Map(incoming.map(r => [r.id, r]));
+  const currentIds = new Set(current.map(r => r.id));
+  const replaced = new Map<string, { before: CollectionRecord<K>; after: CollectionRecord<K> }>();
+
+  const merged = current.map(record => {
+    const other = incomingById.get(record.id);
+    if (!other || sameRecord(record, other, DERIVED_FIELDS[name])) return record;
+    const takeIncoming = strategy === 'prefer_incoming';
+    conflicts.push({ collection: name, id: record.id, resolution: takeIncoming ? 'took_incoming' : 'kept_current' });
+    if (takeIncoming) replaced.set(record.id, { before: record, after: other });
+    return takeIncoming ? other : record;
+  });
+  const added = incoming.filter(r => !currentIds.has(r.id));
+
+  const all = [...merged, ...added];
+  if (NEWEST_FIRST.includes(name)) all.sort((a, b) => timestampOf(b) - timestampOf(a));
+  if (OLDEST_FIRST.includes(name)) all.sort((a, b) => timestampOf(a) - timestampOf(b));
+  // Every record came from one of the two lists, so the result is a list of the same kind
+  return { merged: all as AppData[K], replaced, added };
+};
+
+/**
+ * Merges `incoming` into `current`. Records only in the backup are added, records only on this
+ * device are kept, and records edited on both sides are resolved with `strategy` and reported.
+ * The returned ledger carries a SYSTEM_MERGED log entry summarizing the merge.
+ */
+export const mergeLedgers = (current: AppData, incoming: AppData, strategy: MergeStrategy, sourceName: string): MergeResult => {
+  const data: AppData = JSON.parse(JSON.stringify(current));
+  const conflicts: MergeConflict[] = [];
+  const added = {} as Record<CollectionName, number>;
+  const results = {} as Record<CollectionName, ReturnType<typeof mergeCollection>>;
+
+  const mergeInto = <K extends CollectionName>(name: K) => {
+    const result = mergeCollection(name, current[name] || [], incoming[name] || [], strategy, conflicts);
+    results[name] = result;
+    added[name] = result.added.length;
+    data[name] = result.merged;
+  };
+  COLLECTION_NAMES.forEach(mergeInto);
+
+  // Re-apply movements that are new (or were replaced) on top of local stock and customer totals.
+  const salesById = new Map(data.sales.map(s => [s.id, s]));
+  const wholesaleById = new Map(data.wholesaleTransactions.map(t => [t.id, t]));
+  const stockDelta = new Map<string, number>();
+  const customerDelta = new Map<string, CustomerEffect>();
+
+  const applyMovements = <T>(name: CollectionName, apply: (record: T, sign: number) => void) => {
+    const { added: newRecords, replaced } = results[name] as unknown as { added: T[]; replaced: Map<string, { before: T; after: T }> };
+    newRecords.forEach(record => apply(record, 1));
+    replaced.forEach(({ before, after }) => {
+      apply(before, -1);
+      apply(after, 1);
+    });
+  };
+
+  applyMovements<Sale>('sales', (sale, sign) => {
+    saleStockEffect(sale, sign, stockDelta);
+    saleCustomerEffect(sale, sign, customerDelta);
+  });
+  applyMovements<SaleReturn>('returns', (ret, sign) => {
+    returnStockEffect(ret, wholesaleById, sign, stockDelta);
+    returnCustomerEffect(ret, salesById, sign, customerDelta);
+  });
+  applyMovements<WholesaleTransaction>('wholesaleTransactions', (trans, sign) => wholesaleStockEffect(trans, sign, stockDelta));
+  applyMovements<StockLog>('stockLogs', (log, sign) => stockLogEffect(log, sign, stockDelta));
+
+  // Products and customers that only exist in the backup already include its movements.
+  const localProducts = new Map(current.products.map(p => [p.id, p]));
+  data.products = data.products.map((p): Product => {
+    const local = localProducts.get(p.id);
+    if (!local) return p;
+    return { ...p, stock: local.stock + (stockDelta.get(p.id) || 0) };
+  });
+
+  const localCustomers = new Map(current.customers.map(c => [c.id, c]));
+  const incomingCustomers = new Map(incoming.customers.map(c => [c.id, c]));
+  data.customers = data.customers.map((c): Customer => {
+    const local = localCustomers.get(c.id);
+    if (!local) return c;
+    const delta = customerDelta.get(c.id);
+    const remote = incomingCustomers.get(c.id);
+    return {
+      ...c,
+      totalPurchases: Math.max(0, local.totalPurchases + (delta?.purchases || 0)),
+      invoiceCount: Math.max(0, local.invoiceCount + (delta?.invoices || 0)),
+      totalPoints: Math.max(0, (local.totalPoints || 0) + (delta?.points || 0)),
+      lastOrderTimestamp: Math.max(local.lastOrderTimestamp || 0, delta?.lastOrder || 0) || undefined,
+      lastVisit: Math.max(local.lastVisit || 0, remote?.lastVisit || 0) || undefined,
+      channelsUsed: Array.from(new Set([...(local.channelsUsed || []), ...(remote?.channelsUsed || [])]))
+    };
+  });
+
+  data.categories = Array.from(new Set([...current.categories, ...incoming.categories]));
+
+  const addedParts = COLLECTION_NAMES.filter(name => added[name] > 0 && name !== 'logs').map(name => `+${added[name]} ${name}`);
+  const summary = [
+    `Merged ${sourceName}`,
+    addedParts.length ? addedParts.join(', ') : 'no new records',
+    conflicts.length ? `${conflicts.length} conflicts (${strategy === 'prefer_incoming' ? 'took backup version' : 'kept local version'})` : 'no conflicts'
+  ].join('; ');
+
+  data.logs = [createLog('SYSTEM_MERGED', 'system', summary), ...data.logs].slice(0, 5000);
+  // The two histories cannot be interleaved, so the merged aggregates start a new one.
+  data.events = [createBaseline(data), ...(data.events || [])];
+
+  return { data, added, conflicts, summary };
+};
@@ -0,0 +1,208 @@
+
+import { AppData, EmployeePermissions } from '../types';
+import { createBaseline } from './events';
+import { money } from './money';
+
+/**
+ * Ledger Schema Migrations
+ * Upgrades any older ledger (stored or imported) one version at a time.
+ * Each step receives the output of the previous one and bumps `schemaVersion`.
+ */
+
+export class LedgerMigrationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Ledger could not be upgraded:\n- ${errors.join('\n- ')}`);
+    this.name = 'LedgerMigrationError';
+  }
+}
+
+interface LedgerMigration {
+  version: number;
+  description: string;
+  validate?: (ledger: Record<string, any>) => string[];
+  migrate: (ledger: Record<string, any>) => Record<string, any>;
+}
+
+const COLLECTION_FIELDS: (keyof AppData)[] = [
+  'products', 'sales', 'expenses', 'returns', 'drafts', 'logs', 'partners', 'wholesaleTransactions',
+  'drivers', 'customers', 'employees', 'attendance', 'salaryTransactions', 'categories', 'stockLogs', 'shifts'
+];
+
+const DEFAULT_PERMISSIONS: EmployeePermissions = {
+  canDeleteInvoice: false,
+  canApplyDiscount: false,
+  canViewReports: false,
+  canManageStaff: false,
+  canEditInventory: false,
+  canSubmitEInvoices: false
+};
+
+const MIGRATIONS: LedgerMigration[] = [
+  {
+    version: 1,
+    description: 'Fill collections and settings introduced after the first release',
+    validate: (ledger) => {
+      const errors: string[] = [];
+      if (ledger.products === undefined) errors.push('Missing required collection "products".');
+      if (ledger.sales === undefined) errors.push('Missing required collection "sales".');
+      COLLECTION_FIELDS.forEach(field => {
+        if (ledger[field] !== undefined && !Array.isArray(ledger[field])) {
+          errors.push(`Field "${field}" must be a list.`);
+        }
+      });
+      return errors;
+    },
+    migrate: (ledger) => {
+      const upgraded = { ...ledger };
+      COLLECTION_FIELDS.forEach(field => {
+        upgraded[field] = upgraded[field] || [];
+      });
+      upgraded.initialCash = Number(upgraded.initialCash) || 0;
+      upgraded.draftExpiryMinutes = upgraded.draftExpiryMinutes || 120;
+      upgraded.currency = upgraded.currency || 'EGP';
+      return upgraded;
+    }
+  },
+  {
+    version: 2,
+    description: 'Default loyalty fields on customers and permissions on staff',
+    migrate: (ledger) => ({
+      ...ledger,
+      customers: ledger.customers.map((c: any) => ({
+        ...c,
+        totalPurchases: c.totalPurchases || 0,
+        invoiceCount: c.invoiceCount || 0,
+        totalPoints: c.totalPoints || 0,
+        channelsUsed: c.channelsUsed || []
+      })),
+      employees: ledger.employees.map((e: any) => ({
+        ...e,
+        isActive: e.isActive ?? true,
+        permissions: { ...DEFAULT_PERMISSIONS, ...(e.permissions || {}) }
+      }))
+    })
+  },
+  {
+    version: 3,
+    description: 'Start the event log from the current stock and customer totals',
+    validate: (ledger) => ledger.events !== undefined && !Array.isArray(ledger.events) ? ['Field "events" must be a list.'] : [],
+    migrate: (ledger) => ({
+      ...ledger,
+      events: ledger.events?.length ? ledger.events : [createBaseline({ ...ledger, events: [] } as AppData)]
+    })
+  },
+  {
+    version: 4,
+    description: 'Round every stored amount to the precision of the ledger currency',
+    migrate: (ledger) => {
+      const round = (amount: unknown) => typeof amount === 'number' ? money.round(amount, ledger.currency) : amount;
+      const roundFields = (record: any, fields: string[]) => {
+        const rounded = { ...record };
+        fields.forEach(field => {
+          if (rounded[field] !== undefined) rounded[field] = round(rounded[field]);
+        });
+        return rounded;
+      };
+      const PRICE_FIELDS = ['price', 'costPrice'];
+      return {
+        ...ledger,
+        initialCash: round(ledger.initialCash),
+        products: ledger.products.map((p: any) => roundFields(p, PRICE_FIELDS)),
+        sales: ledger.sales.map((s: any) => ({
+          ...roundFields(s, ['subtotal', 'totalDiscount', 'total', 'paidAmount', 'remainingAmount', 'totalCost', 'totalProfit', 'deliveryFee']),
+          items: (s.items || []).map((i: any) => roundFields(i, PRICE_FIELDS))
+        })),
+        drafts: ledger.drafts.map((d: any) => ({ ...d, items: (d.items || []).map((i: any) => roundFields(i, PRICE_FIELDS)) })),
+        returns: ledger.returns.map((r: any) => ({
+          ...roundFields(r, ['totalRefund']),
+          items: (r.items || []).map((i: any) => roundFields(i, ['refundAmount']))
+        })),
+        expenses: ledger.expenses.map((e: any) => roundFields(e, ['amount'])),
+        salaryTransactions: ledger.salaryTransactions.map((t: any) => roundFields(t, ['amount'])),
+        customers: ledger.customers.map((c: any) => roundFields(c, ['totalPurchases'])),
+        employees: ledger.employees.map((e: any) => roundFields(e, ['baseSalary'])),
+        shifts: ledger.shifts.map((s: any) => roundFields(s, ['startCash', 'endCash', 'expectedCash'])),
+        wholesaleTransactions: ledger.wholesaleTransactions.map((t: any) => ({
+          ...roundFields(t, ['total', 'paidAmount']),
+          items: (t.items || []).map((i: any) => roundFields(i, ['unitPrice'])),
+          ...(t.payments ? { payments: t.payments.map((p: any) => roundFields(p, ['amount', 'remainingAfter'])) } : {})
+        }))
+      };
+    }
+  },
+  {
+    version: 5,
+    description: 'Start an empty tax authority e-invoice queue',
+    validate: (ledger) => ledger.eDocuments !== undefined && !Array.isArray(ledger.eDocuments) ? ['Field "eDocuments" must be a list.'] : [],
+    migrate: (ledger) => ({ ...ledger, eDocuments: ledger.eDocuments || [] })
+  },
+  {
+    version: 6,
+    description: 'Add the e-invoicing permission to staff, off until granted',
+    migrate: (ledger) => ({
+      ...ledger,
+      employees: ledger.employees.map((e: any) => ({ ...e, permissions: { ...DEFAULT_PERMISSIONS, ...(e.permissions || {}) } }))
+    })
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const createEmptyLedger = (): AppData => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  products: [],
+  sales: [],
+  expenses: [],
+  returns: [],
+  drafts: [],
+  logs: [],
+  partners: [],
+  wholesaleTransactions: [],
+  drivers: [],
+  customers: [],
+  employees: [],
+  attendance: [],
+  salaryTransactions: [],
+  categories: [],
+  stockLogs: [],
+  shifts: [],
+  events: [],
+  eDocuments: [],
+  initialCash: 0,
+  draftExpiryMinutes: 120,
+  currency: 'EGP'
+});
+
+/**
+ * Upgrades a raw ledger object to the current schema.
+ * Ledgers without a `schemaVersion` are treated as version 0.
+ * Throws LedgerMigrationError listing every problem found instead of returning partial data.
+ */
+export const migrateLedger = (raw: unknown): AppData => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new LedgerMigrationError(['The file does not contain a TwinX ledger object.']);
+  }
+
+  let ledger: Record<string, any> = { ...raw };
+  const fromVersion = ledger.schemaVersion ?? 0;
+
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 0) {
+    throw new LedgerMigrationError([`Unknown schema version "${fromVersion}".`]);
+  }
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new LedgerMigrationError([
+      `This ledger uses schema v${fromVersion}, but this version of TwinX only understands up to v${CURRENT_SCHEMA_VERSION}. Please update the app.`
+    ]);
+  }
+
+  for (const step of MIGRATIONS) {
+    if (step.version <= fromVersion) continue;
+    const errors = step.validate ? step.validate(ledger) : [];
+    if (errors.length > 0) {
+      throw new LedgerMigrationError(errors.map(e => `Schema v${step.version}: ${e}`));
+    }
+    ledger = { ...step.migrate(ledger), schemaVersion: step.version };
+  }
+
+  return ledger as AppData;
+};
@@ -0,0 +1,110 @@
+
+/**
+ * Money Arithmetic
+ * Amounts are stored as plain numbers in the ledger's currency, but every financial computation
+ * goes through here: values are converted to integer minor units (piasters, fils), combined
+ * exactly, and converted back already rounded to the currency's precision. Stored amounts
+ * therefore never carry float drift such as 33.333333 or 0.30000000000000004.
+ *
+ * Rounding is half away from zero, applied once per computed value.
+ */
+
+export const DEFAULT_CURRENCY = 'EGP';
+
+// Minor units per currency; anything not listed uses two decimals.
+export const CURRENCY_DECIMALS: Record<string, number> = {
+  EGP: 2,
+  SAR: 2,
+  AED: 2,
+  USD: 2,
+  EUR: 2,
+  KWD: 3,
+  BHD: 3,
+  OMR: 3,
+  JOD: 3
+};
+
+const decimalsOf = (currency?: string) => CURRENCY_DECIMALS[currency || DEFAULT_CURRENCY] ?? 2;
+
+// Moves the decimal point through the number's decimal text, so 1.005 shifts to exactly 100.5.
+const shift = (value: number, places: number): number => {
+  const [mantissa, exponent = '0'] = String(value).split('e');
+  return Number(`${mantissa}e${Number(exponent) + places}`);
+};
+
+const roundHalfAway = (value: number) => Math.sign(value) * Math.round(Math.abs(value));
+
+const toMinor = (amount: number, currency?: string): number => roundHalfAway(shift(amount || 0, decimalsOf(currency))) || 0;
+
+const fromMinor = (minor: number, currency?: string): number => shift(minor, -decimalsOf(currency)) || 0;
+
+export const money = {
+  decimals: decimalsOf,
+
+  toMinor,
+
+  fromMinor,
+
+  /**
+   * Rounds an amount to the currency's precision.
+   */
+  round: (amount: number, currency?: string): number => fromMinor(toMinor(amount, currency), currency),
+
+  add: (a: number, b: number, currency?: string): number => fromMinor(toMinor(a, currency) + toMinor(b, currency), currency),
+
+  subtract: (a: number, b: number, currency?: string): number => fromMinor(toMinor(a, currency) - toMinor(b, currency), currency),
+
+  sum: (amounts: number[], currency?: string): number => fromMinor(amounts.reduce((acc, a) => acc + toMinor(a, currency), 0), currency),
+
+  /**
+   * Multiplies an amount by a quantity (or any factor), rounding the product once.
+   */
+  multiply: (amount: number, factor: number, currency?: string): number =>
+    fromMinor(roundHalfAway(toMinor(amount, currency) * factor), currency),
+
+  /**
+   * `amount * part / whole`, computed on exact integers and rounded once.
+   */
+  share: (amount: number, part: number, whole: number, currency?: string): number => {
+    const wholeMinor = BigInt(toMinor(whole, currency));
+    if (wholeMinor === 0n) return 0;
+    // Products of minor units can pass 2^53, so the division happens on BigInts.
+    const numerator = BigInt(toMinor(amount, currency)) * BigInt(toMinor(part, currency)) * 2n;
+    const denominator = wholeMinor * 2n;
+    const negative = (numerator < 0n) !== (denominator < 0n);
+    const absN = numerator < 0n ? -numerator : numerator;
+    const absD = denominator < 0n ? -denominator : denominator;
+    const quotient = (absN + absD / 2n) / absD; // Half away from zero
+    return fromMinor(Number(negative ? -quotient : quotient), currency);
+  },
+
+  /**
+   * Splits an amount across weights so the parts add up to exactly the amount. Leftover minor
+   * units go to the largest remainders first.
+   */
+  allocate: (amount: number, weights: number[], currency?: string): number[] => {
+    const totalMinor = toMinor(amount, currency);
+    const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+    if (totalWeight === 0) return weights.map((_, i) => (i === 0 ? fromMinor(totalMinor, currency) : 0));
+
+    const exact = weights.map(w => (totalMinor * w) / totalWeight);
+    const parts = exact.map(Math.trunc);
+    let leftover = totalMinor - parts.reduce((acc, p) => acc + p, 0);
+    const order = exact.map((e, i) => ({ i, rest: Math.abs(e - parts[i]) })).sort((a, b) => b.rest - a.rest);
+    for (let k = 0; leftover !== 0 && k < order.length; k++) {
+      parts[order[k].i] += Math.sign(leftover);
+      leftover -= Math.sign(leftover);
+    }
+    return parts.map(p => fromMinor(p, currency));
+  },
+
+  /**
+   * Half a minor unit: the largest difference that still rounds to the same stored amount.
+   */
+  tolerance: (currency?: string): number => fromMinor(1, currency) / 2,
+
+  /**
+   * Fixed-precision text for logs and receipts, e.g. "12.50" or "3.125".
+   */
+  format: (amount: number, currency?: string): string => money.round(amount, currency).toFixed(decimalsOf(currency))
+};
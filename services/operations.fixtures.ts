@@ -0,0 +1,89 @@
+
+import { AppData, Customer, Employee, Product, Sale, WholesalePartner } from '../types';
+import { createEmptyLedger } from './migrations';
+import { TwinXOps } from './operations';
+
+/**
+ * Test Ledgers
+ * Small, fully valid ledgers for the TwinXOps tests. Ids are fixed so assertions can refer
+ * to records directly.
+ */
+
+export const PRODUCT_ID = 'prod-1';
+export const SECOND_PRODUCT_ID = 'prod-2';
+export const CUSTOMER_ID = 'cust-1';
+export const EMPLOYEE_ID = 'emp-1';
+export const BUYER_ID = 'buyer-1';
+export const SUPPLIER_ID = 'supplier-1';
+
+export const makeProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: PRODUCT_ID,
+  name: 'Cola',
+  category: 'Drinks',
+  price: 10,
+  costPrice: 6,
+  stock: 50,
+  minStock: 5,
+  ...overrides
+});
+
+export const makeCustomer = (overrides: Partial<Customer> = {}): Customer => ({
+  id: CUSTOMER_ID,
+  name: 'Mona',
+  phone: '01000000000',
+  totalPurchases: 0,
+  invoiceCount: 0,
+  totalPoints: 0,
+  channelsUsed: [],
+  ...overrides
+});
+
+export const makeEmployee = (overrides: Partial<Employee> = {}): Employee => ({
+  id: EMPLOYEE_ID,
+  name: 'Karim',
+  phone: '01100000000',
+  role: 'cashier',
+  baseSalary: 5000,
+  joinDate: '2024-01-01',
+  isActive: true,
+  permissions: { canDeleteInvoice: false, canApplyDiscount: false, canViewReports: false, canManageStaff: false, canEditInventory: false, canSubmitEInvoices: false },
+  ...overrides
+});
+
+export const makePartner = (overrides: Partial<WholesalePartner> = {}): WholesalePartner => ({
+  id: BUYER_ID,
+  name: 'Delta Market',
+  contact: '0220000000',
+  type: 'buyer',
+  createdAt: 0,
+  ...overrides
+});
+
+/**
+ * A ledger with two products, a customer, an employee, one buyer and one supplier, and an open shift.
+ */
+export const makeLedger = (overrides: Partial<AppData> = {}): AppData => {
+  const ledger: AppData = {
+    ...createEmptyLedger(),
+    initialCash: 1000,
+    categories: ['Drinks', 'Snacks'],
+    products: [makeProduct(), makeProduct({ id: SECOND_PRODUCT_ID, name: 'Chips', category: 'Snacks', price: 7.5, costPrice: 4.25, stock: 30 })],
+    customers: [makeCustomer()],
+    employees: [makeEmployee()],
+    partners: [makePartner(), makePartner({ id: SUPPLIER_ID, name: 'Nile Foods', type: 'supplier' })],
+    ...overrides
+  };
+  return TwinXOps.openShift(ledger, 500, 'Karim');
+};
+
+/**
+ * Cart line for a product currently in the ledger.
+ */
+export const cartLine = (data: AppData, productId: string, quantity: number) => ({
+  ...data.products.find(p => p.id === productId)!,
+  quantity
+});
+
+export const productStock = (data: AppData, productId = PRODUCT_ID) => data.products.find(p => p.id === productId)!.stock;
+
+export const latestSale = (data: AppData): Sale => data.sales[0];
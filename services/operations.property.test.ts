@@ -0,0 +1,158 @@
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { AppData } from '../types';
+import { TwinXOps, calculateCashBalance, lineTotalOf } from './operations';
+import { money } from './money';
+import { makeLedger, cartLine, PRODUCT_ID, SECOND_PRODUCT_ID, CUSTOMER_ID } from './operations.fixtures';
+
+/**
+ * Property tests: random sequences of discounted sales, returns, cancellations and restorations
+ * must never create or lose stock, cash or customer value. Steps the ledger rejects are skipped,
+ * exactly as the screens leave the ledger untouched when an operation throws.
+ */
+
+type Step =
+  | { kind: 'sell'; productIndex: number; quantity: number; lineDiscount: number; discountPercent: number; withCustomer: boolean; isDelivery: boolean }
+  | { kind: 'return'; saleIndex: number; quantity: number }
+  | { kind: 'cancel'; saleIndex: number }
+  | { kind: 'restore'; saleIndex: number; status: 'pending' | 'delivered' }
+  | { kind: 'deliver'; saleIndex: number };
+
+const PRODUCTS = [PRODUCT_ID, SECOND_PRODUCT_ID];
+
+const stepArb: fc.Arbitrary<Step> = fc.oneof(
+  fc.record({
+    kind: fc.constant('sell' as const),
+    productIndex: fc.integer({ min: 0, max: 1 }),
+    quantity: fc.integer({ min: 1, max: 6 }),
+    lineDiscount: fc.integer({ min: 0, max: 30 }),
+    discountPercent: fc.integer({ min: 0, max: 40 }),
+    withCustomer: fc.boolean(),
+    isDelivery: fc.boolean()
+  }),
+  fc.record({ kind: fc.constant('return' as const), saleIndex: fc.nat(), quantity: fc.integer({ min: 1, max: 3 }) }),
+  fc.record({ kind: fc.constant('cancel' as const), saleIndex: fc.nat() }),
+  fc.record({ kind: fc.constant('restore' as const), saleIndex: fc.nat(), status: fc.constantFrom('pending' as const, 'delivered' as const) }),
+  fc.record({ kind: fc.constant('deliver' as const), saleIndex: fc.nat() })
+);
+
+const pick = <T>(list: T[], index: number): T | undefined => (list.length ? list[index % list.length] : undefined);
+
+const apply = (data: AppData, step: Step): AppData => {
+  try {
+    switch (step.kind) {
+      case 'sell': {
+        const line = { ...cartLine(data, PRODUCTS[step.productIndex], step.quantity), discount: step.lineDiscount, discountType: 'percentage' as const };
+        const subtotal = lineTotalOf(line, data.currency);
+        return TwinXOps.processRetailSale(data, {
+          items: [line],
+          totalDiscount: money.multiply(subtotal, step.discountPercent / 100, data.currency),
+          customerId: step.withCustomer ? CUSTOMER_ID : undefined,
+          isDelivery: step.isDelivery
+        });
+      }
+      case 'return': {
+        const sale = pick(data.sales, step.saleIndex);
+        if (!sale || sale.status === 'pending') return data;
+        return TwinXOps.processReturn(data, {
+          id: crypto.randomUUID(),
+          saleId: sale.id,
+          timestamp: Date.now(),
+          items: [{ productId: sale.items[0].id, quantity: step.quantity, refundAmount: 0 }],
+          totalRefund: 0
+        });
+      }
+      case 'cancel': {
+        const sale = pick(data.sales, step.saleIndex);
+        return sale ? TwinXOps.updateDeliveryStatus(data, sale.id, 'cancelled') : data;
+      }
+      case 'restore': {
+        const sale = pick(data.sales, step.saleIndex);
+        return sale && sale.status === 'cancelled' ? TwinXOps.updateDeliveryStatus(data, sale.id, step.status) : data;
+      }
+      case 'deliver': {
+        const sale = pick(data.sales, step.saleIndex);
+        return sale && sale.status === 'pending' ? TwinXOps.updateDeliveryStatus(data, sale.id, 'delivered') : data;
+      }
+    }
+  } catch {
+    return data;
+  }
+};
+
+const isActive = (status?: string) => status !== 'cancelled';
+const isRealized = (status?: string) => status === 'completed' || status === 'delivered';
+
+const refundsFor = (data: AppData, saleId: string) => money.sum(data.returns.filter(r => r.saleId === saleId).map(r => r.totalRefund), data.currency);
+
+const netRevenue = (data: AppData, saleId: string) => {
+  const sale = data.sales.find(s => s.id === saleId)!;
+  return money.subtract(sale.subtotal, sale.totalDiscount, data.currency);
+};
+
+const checkInvariants = (initial: AppData, data: AppData) => {
+  // Stock: whatever left the shelf is on an active invoice and has not come back.
+  PRODUCTS.forEach(productId => {
+    const sold = data.sales
+      .filter(s => isActive(s.status))
+      .reduce((acc, s) => acc + s.items.filter(i => i.id === productId).reduce((q, i) => q + i.quantity - (i.returnedQuantity || 0), 0), 0);
+    const start = initial.products.find(p => p.id === productId)!.stock;
+    expect(data.products.find(p => p.id === productId)!.stock).toBe(start - sold);
+  });
+
+  // Cash: the drawer holds what realized sales took in, less what they paid back.
+  const expectedCash = money.sum([
+    initial.initialCash,
+    ...data.sales.filter(s => isRealized(s.status)).map(s => money.subtract(s.paidAmount, refundsFor(data, s.id), data.currency))
+  ], data.currency);
+  expect(calculateCashBalance(data)).toBe(expectedCash);
+
+  // Refunds never exceed what the goods sold for, and a full return refunds all of it.
+  data.sales.forEach(sale => {
+    const refunded = refundsFor(data, sale.id);
+    expect(refunded).toBeLessThanOrEqual(netRevenue(data, sale.id));
+    if (sale.items.every(i => (i.returnedQuantity || 0) === i.quantity)) expect(refunded).toBe(netRevenue(data, sale.id));
+  });
+
+  // Customer: lifetime value is the active invoices net of their refunds.
+  const customerSales = data.sales.filter(s => s.customerId === CUSTOMER_ID && isActive(s.status));
+  const customer = data.customers.find(c => c.id === CUSTOMER_ID)!;
+  expect(customer.invoiceCount).toBe(customerSales.length);
+  expect(customer.totalPurchases).toBe(money.sum(customerSales.map(s => money.subtract(netRevenue(data, s.id), refundsFor(data, s.id), data.currency)), data.currency));
+};
+
+describe('conservation across sale, return, cancel and restore', () => {
+  it('never creates or loses stock, cash or customer value', () => {
+    fc.assert(
+      fc.property(fc.array(stepArb, { minLength: 1, maxLength: 25 }), steps => {
+        const initial = makeLedger();
+        let data = initial;
+        for (const step of steps) {
+          data = apply(data, step);
+          checkInvariants(initial, data);
+        }
+      }),
+      { numRuns: 300 }
+    );
+  });
+
+  it('returns the drawer and shelves to where they started once everything is undone', () => {
+    fc.assert(
+      fc.property(fc.array(stepArb, { minLength: 1, maxLength: 15 }), steps => {
+        const initial = makeLedger();
+        let data = steps.reduce(apply, initial);
+        // Close out by cancelling every order still active.
+        data.sales.forEach(sale => {
+          const current = data.sales.find(s => s.id === sale.id)!;
+          if (current.status === 'cancelled') return;
+          data = TwinXOps.updateDeliveryStatus(data, current.id, 'cancelled');
+        });
+        PRODUCTS.forEach(id => expect(data.products.find(p => p.id === id)!.stock).toBe(initial.products.find(p => p.id === id)!.stock));
+        expect(calculateCashBalance(data)).toBe(initial.initialCash);
+        expect(data.customers[0]).toMatchObject({ totalPurchases: 0, invoiceCount: 0, totalPoints: 0 });
+      }),
+      { numRuns: 300 }
+    );
+  });
+});
@@ -0,0 +1,402 @@
+
+import { describe, it, expect } from 'vitest';
+import { AppData, DraftInvoice, SaleReturn, WholesaleTransaction } from '../types';
+import { TwinXOps, calculateCashBalance, calculateRefund, lineDiscountOf, lineTotalOf } from './operations';
+import { money } from './money';
+import {
+  makeLedger, makeCustomer, cartLine, productStock, latestSale,
+  PRODUCT_ID, SECOND_PRODUCT_ID, CUSTOMER_ID, EMPLOYEE_ID, BUYER_ID, SUPPLIER_ID
+} from './operations.fixtures';
+import { activeDrafts, reservedStock } from './drafts';
+
+const sell = (data: AppData, quantity = 3, extra: Record<string, unknown> = {}) =>
+  TwinXOps.processRetailSale(data, { items: [cartLine(data, PRODUCT_ID, quantity)], ...extra });
+
+const creditLedger = () => makeLedger({ customers: [makeCustomer({ creditLimit: 100 })] });
+
+const returnOf = (saleId: string, quantity: number, productId = PRODUCT_ID): SaleReturn => ({
+  id: crypto.randomUUID(),
+  saleId,
+  timestamp: Date.now(),
+  items: [{ productId, quantity, refundAmount: 0 }],
+  totalRefund: 0
+});
+
+const wholesale = (type: 'sale' | 'purchase', quantity: number, paidAmount: number): WholesaleTransaction => ({
+  id: crypto.randomUUID(),
+  partnerId: type === 'sale' ? BUYER_ID : SUPPLIER_ID,
+  type,
+  items: [{ productId: PRODUCT_ID, name: 'Cola', quantity, unitPrice: 8 }],
+  total: quantity * 8,
+  paidAmount,
+  timestamp: Date.now()
+});
+
+const draftOf = (data: AppData, quantity: number, extra: Partial<DraftInvoice> = {}): DraftInvoice => ({
+  id: crypto.randomUUID(),
+  timestamp: Date.now(),
+  items: [cartLine(data, PRODUCT_ID, quantity)],
+  subtotal: 0,
+  totalDiscount: 0,
+  total: 0,
+  saleChannel: 'store',
+  ...extra
+});
+
+describe('shifts', () => {
+  it('opens one shift at a time', () => {
+    const data = makeLedger();
+    expect(data.shifts.filter(s => s.status === 'open')).toHaveLength(1);
+    expect(() => TwinXOps.openShift(data, 100, 'Karim')).toThrow(/already open/);
+  });
+
+  it('closes the open shift with the counted cash', () => {
+    const closed = TwinXOps.closeShift(makeLedger(), 1234.5, 'ok');
+    expect(closed.shifts[0]).toMatchObject({ status: 'closed', endCash: 1234.5, notes: 'ok' });
+    expect(() => TwinXOps.closeShift(closed, 0)).toThrow(/No active shift/);
+  });
+});
+
+describe('processRetailSale', () => {
+  it('refuses to sell without an open shift', () => {
+    const closed = TwinXOps.closeShift(makeLedger(), 0);
+    expect(() => sell(closed)).toThrow(/SHIFT_CLOSED/);
+  });
+
+  it('deducts stock and records totals, cost and profit', () => {
+    const data = sell(makeLedger(), 3, { totalDiscount: 5 });
+    const sale = latestSale(data);
+    expect(productStock(data)).toBe(47);
+    expect(sale).toMatchObject({ subtotal: 30, totalDiscount: 5, total: 25, paidAmount: 25, remainingAmount: 0, totalCost: 18, totalProfit: 7, status: 'completed' });
+    expect(sale.shiftId).toBe(data.shifts[0].id);
+    expect(data.logs[0].action).toBe('SALE_COMPLETED');
+  });
+
+  it('rejects a sale larger than the stock on hand', () => {
+    expect(() => sell(makeLedger(), 51)).toThrow(/Insufficient stock/);
+  });
+
+  it('leaves its input untouched', () => {
+    const data = makeLedger();
+    const snapshot = JSON.stringify(data);
+    sell(data);
+    expect(JSON.stringify(data)).toBe(snapshot);
+  });
+
+  it('adds product value but not the delivery fee to customer totals', () => {
+    const data = sell(makeLedger(), 2, { customerId: CUSTOMER_ID, isDelivery: true, deliveryFee: 15 });
+    const sale = latestSale(data);
+    expect(sale.total).toBe(35);
+    expect(sale.status).toBe('pending');
+    expect(data.customers[0]).toMatchObject({ totalPurchases: 20, invoiceCount: 1, totalPoints: 20 });
+  });
+
+  it('keeps amounts exact to the currency precision', () => {
+    const data = TwinXOps.processRetailSale(makeLedger(), { items: [cartLine(makeLedger(), SECOND_PRODUCT_ID, 3)], totalDiscount: 0.1 });
+    expect(latestSale(data).total).toBe(22.4);
+    expect(latestSale(data).totalCost).toBe(12.75);
+  });
+
+  it('takes line discounts off the subtotal and the profit', () => {
+    const data = makeLedger();
+    const items = [
+      { ...cartLine(data, PRODUCT_ID, 4), discount: 25, discountType: 'percentage' as const },
+      { ...cartLine(data, SECOND_PRODUCT_ID, 2), discount: 3, discountType: 'fixed' as const }
+    ];
+    const sale = latestSale(TwinXOps.processRetailSale(data, { items, totalDiscount: 2 }));
+    expect(sale).toMatchObject({ subtotal: 42, total: 40, totalCost: 32.5, totalProfit: 7.5 });
+    expect(lineDiscountOf(sale.items[0], data.currency)).toBe(10);
+    expect(lineTotalOf(sale.items[1], data.currency)).toBe(12);
+  });
+
+  it('caps a line discount at the line value and rejects invalid ones', () => {
+    const data = makeLedger();
+    expect(lineTotalOf({ ...cartLine(data, PRODUCT_ID, 1), discount: 50, discountType: 'fixed' })).toBe(0);
+    expect(() => TwinXOps.processRetailSale(data, { items: [{ ...cartLine(data, PRODUCT_ID, 1), discount: -1 }] })).toThrow(/Invalid discount/);
+    expect(() => TwinXOps.processRetailSale(data, { items: [{ ...cartLine(data, PRODUCT_ID, 1), discount: 120, discountType: 'percentage' }] })).toThrow(/Invalid discount/);
+  });
+
+  it('records a partial payment as the remaining amount', () => {
+    const sale = latestSale(sell(creditLedger(), 3, { paidAmount: 12.5, customerId: CUSTOMER_ID }));
+    expect(sale.remainingAmount).toBe(17.5);
+  });
+});
+
+describe('split tender', () => {
+  it('gives change out of the cash and charges cards exactly', () => {
+    const sale = latestSale(sell(makeLedger(), 3, { payments: [{ method: 'card', amount: 20, reference: ' 4471 ' }, { method: 'cash', amount: 50 }] }));
+    expect(sale.payments).toEqual([{ method: 'cash', amount: 10, tendered: 50 }, { method: 'card', amount: 20, reference: '4471' }]);
+    expect(sale.paidAmount).toBe(30);
+    expect(sale.remainingAmount).toBe(0);
+    expect(() => sell(makeLedger(), 3, { payments: [{ method: 'instapay', amount: 31 }] })).toThrow(/cannot be more than the bill/);
+  });
+
+  it('only puts the cash part into the drawer and totals each method on shift close', () => {
+    const data = sell(makeLedger(), 3, { payments: [{ method: 'vodafone_cash', amount: 18 }, { method: 'cash', amount: 12 }] });
+    expect(calculateCashBalance(data)).toBe(1012);
+    const closed = TwinXOps.closeShift(data, 1012);
+    expect(closed.shifts[0].paymentTotals).toEqual({ cash: 12, card: 0, vodafone_cash: 18, instapay: 0 });
+  });
+});
+
+describe('drafts', () => {
+  it('parks a cart with its totals and expiry without touching stock', () => {
+    const data = makeLedger();
+    const draft = draftOf(data, 4, { totalDiscount: 5, isDelivery: true, deliveryFee: 15 });
+    const parked = TwinXOps.saveDraft(data, draft);
+    expect(parked.drafts[0]).toMatchObject({ id: draft.id, subtotal: 40, total: 50, expiresAt: draft.timestamp + 120 * 60 * 1000 });
+    expect(productStock(parked)).toBe(50);
+    expect(parked.logs[0].action).toBe('DRAFT_PARKED');
+  });
+
+  it('re-parks a resumed draft in place and deletes drafts', () => {
+    const data = makeLedger();
+    const draft = draftOf(data, 2);
+    const updated = TwinXOps.saveDraft(TwinXOps.saveDraft(data, draft), { ...draft, items: [cartLine(data, PRODUCT_ID, 3)] });
+    expect(updated.drafts).toHaveLength(1);
+    expect(updated.drafts[0].subtotal).toBe(30);
+    expect(TwinXOps.deleteDraft(updated, draft.id).drafts).toHaveLength(0);
+    expect(() => TwinXOps.deleteDraft(data, 'missing')).toThrow(/not found/);
+    expect(() => TwinXOps.saveDraft(data, { ...draft, items: [] })).toThrow(/empty cart/);
+  });
+
+  it('holds reserved stock back from other sales until the draft is resumed', () => {
+    const data = makeLedger();
+    const draft = draftOf(data, 45, { reserveStock: true });
+    const parked = TwinXOps.saveDraft(data, draft);
+    expect(reservedStock(parked)).toEqual({ [PRODUCT_ID]: 45 });
+
+    expect(() => sell(parked, 6)).toThrow(/Available: 5/);
+    expect(() => TwinXOps.processWholesaleTransaction(parked, wholesale('sale', 6, 0))).toThrow(/Insufficient stock/);
+    expect(() => TwinXOps.saveDraft(parked, draftOf(parked, 6, { reserveStock: true }))).toThrow(/reserve/);
+
+    const resumed = TwinXOps.processRetailSale(parked, { items: [cartLine(parked, PRODUCT_ID, 45)] }, draft.id);
+    expect(productStock(resumed)).toBe(5);
+    expect(resumed.drafts).toHaveLength(0);
+  });
+
+  it('releases the reservation once the draft expires', () => {
+    const data = makeLedger();
+    const parked = TwinXOps.saveDraft(data, draftOf(data, 45, { reserveStock: true, timestamp: Date.now() - 121 * 60 * 1000 }));
+    expect(activeDrafts(parked)).toHaveLength(0);
+    expect(productStock(sell(parked, 50))).toBe(0);
+  });
+});
+
+describe('updateDeliveryStatus', () => {
+  const pendingDelivery = () => sell(makeLedger(), 4, { customerId: CUSTOMER_ID, isDelivery: true, deliveryFee: 10 });
+
+  it('restocks and reverses customer totals when cancelled', () => {
+    const data = pendingDelivery();
+    const cancelled = TwinXOps.updateDeliveryStatus(data, latestSale(data).id, 'cancelled');
+    expect(productStock(cancelled)).toBe(50);
+    expect(cancelled.customers[0]).toMatchObject({ totalPurchases: 0, invoiceCount: 0, totalPoints: 0 });
+    expect(latestSale(cancelled).status).toBe('cancelled');
+  });
+
+  it('takes stock again when a cancelled order is restored', () => {
+    const data = pendingDelivery();
+    const id = latestSale(data).id;
+    const restored = TwinXOps.updateDeliveryStatus(TwinXOps.updateDeliveryStatus(data, id, 'cancelled'), id, 'pending');
+    expect(productStock(restored)).toBe(46);
+    expect(restored.customers[0]).toMatchObject({ totalPurchases: 40, invoiceCount: 1 });
+  });
+
+  it('refuses to restore an order whose stock has since been sold', () => {
+    const data = pendingDelivery();
+    const id = latestSale(data).id;
+    const cancelled = TwinXOps.updateDeliveryStatus(data, id, 'cancelled');
+    const soldOut = sell(cancelled, 50);
+    expect(() => TwinXOps.updateDeliveryStatus(soldOut, id, 'pending')).toThrow(/out of stock/);
+  });
+
+  it('counts a delivered order towards the drawer', () => {
+    const data = pendingDelivery();
+    expect(calculateCashBalance(data)).toBe(1000);
+    const delivered = TwinXOps.updateDeliveryStatus(data, latestSale(data).id, 'delivered');
+    expect(calculateCashBalance(delivered)).toBe(1050);
+  });
+
+  it('returns the same ledger when the status does not change', () => {
+    const data = pendingDelivery();
+    expect(TwinXOps.updateDeliveryStatus(data, latestSale(data).id, 'pending')).toBe(data);
+  });
+});
+
+describe('editSale', () => {
+  it('changes delivery details only', () => {
+    const data = sell(makeLedger(), 4, { isDelivery: true, deliveryDetails: { customerName: 'Mona', customerPhone: '010', deliveryAddress: 'Old St' } });
+    const sale = latestSale(data);
+    const edited = TwinXOps.editSale(data, { ...sale, deliveryDetails: { ...sale.deliveryDetails!, deliveryAddress: 'New St' }, driverId: EMPLOYEE_ID });
+    expect(latestSale(edited)).toMatchObject({ driverId: EMPLOYEE_ID, total: sale.total, deliveryDetails: { deliveryAddress: 'New St' } });
+    expect(() => TwinXOps.editSale(data, { ...sale, total: 1 })).toThrow(/total changed/);
+  });
+
+  it('refuses a copy taken before the sale was cancelled', () => {
+    const data = sell(makeLedger(), 4, { isDelivery: true });
+    const stale = latestSale(data);
+    const cancelled = TwinXOps.updateDeliveryStatus(data, stale.id, 'cancelled');
+    expect(() => TwinXOps.editSale(cancelled, stale)).toThrow(/status changed/);
+  });
+});
+
+describe('processReturn', () => {
+  it('refunds net of the invoice discount and restocks', () => {
+    const data = sell(makeLedger(), 4, { totalDiscount: 8, customerId: CUSTOMER_ID });
+    const returned = TwinXOps.processReturn(data, returnOf(latestSale(data).id, 1));
+    expect(returned.returns[0].totalRefund).toBe(8);
+    expect(productStock(returned)).toBe(47);
+    expect(latestSale(returned).items[0].returnedQuantity).toBe(1);
+    expect(returned.customers[0].totalPurchases).toBe(24);
+  });
+
+  it('refunds exactly the net revenue across several partial returns', () => {
+    let data = sell(makeLedger(), 3, { totalDiscount: 10 });
+    const id = latestSale(data).id;
+    for (let i = 0; i < 3; i++) data = TwinXOps.processReturn(data, returnOf(id, 1));
+    const refunds = data.returns.map(r => r.totalRefund);
+    expect(refunds.reduce((a, b) => a + b, 0)).toBe(20);
+    expect(refunds.every(r => Number.isInteger(r * 100))).toBe(true);
+  });
+
+  it('matches the refund preview', () => {
+    const data = sell(makeLedger(), 3, { totalDiscount: 10 });
+    const sale = latestSale(data);
+    const returned = TwinXOps.processReturn(data, returnOf(sale.id, 2));
+    expect(returned.returns[0].totalRefund).toBe(calculateRefund(sale, [{ productId: PRODUCT_ID, quantity: 2 }], data.currency));
+  });
+
+  it('refunds line-discounted goods at their discounted value', () => {
+    const data = makeLedger();
+    const items = [
+      { ...cartLine(data, PRODUCT_ID, 3), discount: 1, discountType: 'fixed' as const },
+      cartLine(data, SECOND_PRODUCT_ID, 2)
+    ];
+    let returned = TwinXOps.processRetailSale(data, { items, totalDiscount: 4 });
+    const id = latestSale(returned).id;
+    returned = TwinXOps.processReturn(returned, returnOf(id, 3));
+    returned = TwinXOps.processReturn(returned, returnOf(id, 1, SECOND_PRODUCT_ID));
+    returned = TwinXOps.processReturn(returned, returnOf(id, 1, SECOND_PRODUCT_ID));
+    // Subtotal 29 + 15 = 44, less 4 invoice discount: the cola line is 29/44 of the 40 net.
+    expect(returned.returns[2].totalRefund).toBe(26.36);
+    expect(money.sum(returned.returns.map(r => r.totalRefund))).toBe(40);
+  });
+
+  it('refuses to return more than was sold', () => {
+    const data = sell(makeLedger(), 2);
+    expect(() => TwinXOps.processReturn(data, returnOf(latestSale(data).id, 3))).toThrow(/Only 2 remaining/);
+  });
+
+  it('refuses returns on cancelled orders and unknown invoices', () => {
+    const data = sell(makeLedger(), 2);
+    const cancelled = TwinXOps.updateDeliveryStatus(data, latestSale(data).id, 'cancelled');
+    expect(() => TwinXOps.processReturn(cancelled, returnOf(latestSale(data).id, 1))).toThrow(/cancelled/);
+    expect(() => TwinXOps.processReturn(data, returnOf('missing', 1))).toThrow(/not found/);
+  });
+
+  it('reduces the amount still owed on a partly paid invoice', () => {
+    const data = sell(creditLedger(), 3, { paidAmount: 10, customerId: CUSTOMER_ID });
+    const returned = TwinXOps.processReturn(data, returnOf(latestSale(data).id, 1));
+    expect(latestSale(returned).remainingAmount).toBe(10);
+    expect(returned.returns[0]).toMatchObject({ totalRefund: 10, appliedToBalance: 10 });
+    expect(calculateCashBalance(returned)).toBe(calculateCashBalance(data));
+  });
+});
+
+describe('wholesale', () => {
+  it('moves stock in for purchases and out for sales', () => {
+    const bought = TwinXOps.processWholesaleTransaction(makeLedger(), wholesale('purchase', 20, 160));
+    expect(productStock(bought)).toBe(70);
+    const sold = TwinXOps.processWholesaleTransaction(bought, wholesale('sale', 30, 100));
+    expect(productStock(sold)).toBe(40);
+  });
+
+  it('rejects overselling, unknown partners and invalid payments', () => {
+    expect(() => TwinXOps.processWholesaleTransaction(makeLedger(), wholesale('sale', 60, 0))).toThrow(/Insufficient stock/);
+    expect(() => TwinXOps.processWholesaleTransaction(makeLedger(), { ...wholesale('sale', 1, 0), partnerId: 'nobody' })).toThrow(/partner not found/);
+    expect(() => TwinXOps.processWholesaleTransaction(makeLedger(), wholesale('sale', 1, 9))).toThrow(/Paid amount/);
+  });
+
+  it('records debt payments up to the outstanding balance', () => {
+    const data = TwinXOps.processWholesaleTransaction(makeLedger(), wholesale('sale', 10, 30));
+    const id = data.wholesaleTransactions[0].id;
+    const paid = TwinXOps.recordWholesalePayment(data, id, 20);
+    expect(paid.wholesaleTransactions[0].paidAmount).toBe(50);
+    expect(paid.wholesaleTransactions[0].payments?.at(-1)?.remainingAfter).toBe(30);
+    expect(() => TwinXOps.recordWholesalePayment(paid, id, 31)).toThrow(/exceeds/);
+    expect(() => TwinXOps.recordWholesalePayment(paid, id, 0)).toThrow(/greater than zero/);
+  });
+
+  it('returns wholesale goods in the right direction', () => {
+    const sold = TwinXOps.processWholesaleTransaction(makeLedger(), wholesale('sale', 10, 80));
+    const back = TwinXOps.processWholesaleReturn(sold, { ...returnOf(sold.wholesaleTransactions[0].id, 4), items: [{ productId: PRODUCT_ID, quantity: 4, refundAmount: 32 }] });
+    expect(productStock(back)).toBe(44);
+    expect(back.returns[0].totalRefund).toBe(32);
+
+    const bought = TwinXOps.processWholesaleTransaction(makeLedger(), wholesale('purchase', 10, 80));
+    const sentBack = TwinXOps.processWholesaleReturn(bought, returnOf(bought.wholesaleTransactions[0].id, 4));
+    expect(productStock(sentBack)).toBe(56);
+    expect(() => TwinXOps.processWholesaleReturn(sentBack, returnOf(bought.wholesaleTransactions[0].id, 7))).toThrow(/Only 6 remaining/);
+  });
+
+  it('will not delete a partner with transactions', () => {
+    const data = TwinXOps.processWholesaleTransaction(makeLedger(), wholesale('sale', 1, 8));
+    expect(() => TwinXOps.deletePartner(data, BUYER_ID)).toThrow(/cannot be deleted/);
+    expect(TwinXOps.deletePartner(data, SUPPLIER_ID).partners.map(p => p.id)).toEqual([BUYER_ID]);
+  });
+});
+
+describe('attendance', () => {
+  it('follows check in, break, check out', () => {
+    let data = TwinXOps.recordAttendanceAction(makeLedger(), EMPLOYEE_ID, 'check_in');
+    expect(data.attendance[0].status).toBe('present');
+    data = TwinXOps.recordAttendanceAction(data, EMPLOYEE_ID, 'break_start');
+    expect(data.attendance[0].status).toBe('on_break');
+    data = TwinXOps.recordAttendanceAction(data, EMPLOYEE_ID, 'break_end');
+    expect(data.attendance[0].breaks[0].end).toBeDefined();
+    data = TwinXOps.recordAttendanceAction(data, EMPLOYEE_ID, 'check_out');
+    expect(data.attendance[0].status).toBe('completed');
+  });
+
+  it('rejects actions out of order', () => {
+    const data = makeLedger();
+    expect(() => TwinXOps.recordAttendanceAction(data, EMPLOYEE_ID, 'check_out')).toThrow(/No active session/);
+    expect(() => TwinXOps.recordAttendanceAction(data, EMPLOYEE_ID, 'break_end')).toThrow(/Not on break/);
+    const checkedIn = TwinXOps.recordAttendanceAction(data, EMPLOYEE_ID, 'check_in');
+    expect(() => TwinXOps.recordAttendanceAction(checkedIn, EMPLOYEE_ID, 'check_in')).toThrow(/Already checked in/);
+  });
+});
+
+describe('payroll', () => {
+  it('pays known employees out of the drawer', () => {
+    const paid = TwinXOps.processSalaryTransaction(makeLedger(), { id: 's1', employeeId: EMPLOYEE_ID, amount: 250.255, type: 'advance', timestamp: 0 });
+    expect(paid.salaryTransactions[0].amount).toBe(250.26);
+    expect(calculateCashBalance(paid)).toBe(749.74);
+    expect(() => TwinXOps.processSalaryTransaction(makeLedger(), { id: 's2', employeeId: 'ghost', amount: 1, type: 'bonus', timestamp: 0 })).toThrow(/Employee not found/);
+  });
+});
+
+describe('adjustStock', () => {
+  it('logs the count and books shrinkage at cost', () => {
+    const data = TwinXOps.adjustStock(makeLedger(), PRODUCT_ID, 45, 'Damaged', EMPLOYEE_ID);
+    expect(productStock(data)).toBe(45);
+    expect(data.stockLogs[0]).toMatchObject({ oldStock: 50, newStock: 45, reason: 'Damaged', employeeId: EMPLOYEE_ID });
+    expect(data.expenses[0].amount).toBe(30);
+  });
+
+  it('books no expense when stock goes up', () => {
+    const data = TwinXOps.adjustStock(makeLedger(), PRODUCT_ID, 60, 'Recount', EMPLOYEE_ID);
+    expect(data.expenses).toHaveLength(0);
+    expect(() => TwinXOps.adjustStock(data, 'missing', 1, 'x', EMPLOYEE_ID)).toThrow(/missing/);
+  });
+});
+
+describe('expenses', () => {
+  it('saves valid expenses and deletes them', () => {
+    const saved = TwinXOps.saveExpense(makeLedger(), { id: 'e1', description: 'Rent', amount: 300, timestamp: 0 });
+    expect(calculateCashBalance(saved)).toBe(700);
+    expect(TwinXOps.deleteExpense(saved, 'e1').expenses).toHaveLength(0);
+    expect(() => TwinXOps.saveExpense(saved, { id: 'e2', description: ' ', amount: 5, timestamp: 0 })).toThrow();
+    expect(() => TwinXOps.saveExpense(saved, { id: 'e3', description: 'Bad', amount: -5, timestamp: 0 })).toThrow();
+  });
+});
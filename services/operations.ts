@@ -1,5 +1,13 @@
 
-import { AppData, Sale, WholesaleTransaction, SaleReturn, Expense, LogEntry, Product, Customer, Employee, Attendance, SalaryTransaction, StockLog, Shift } from '../types';
+import { AppData, CartItem, DraftInvoice, Sale, SalePayment, WholesaleTransaction, WholesalePartner, WholesalePayment, SaleReturn, Expense, LogEntry, Product, Customer, Employee, Attendance, SalaryTransaction, StockLog, Shift, CustomerTotals, LedgerEvent, PinCredential, EDocument, EDocumentKind } from '../types';
+import { findDiscrepancies } from './events';
+import { scanIntegrity, REPAIR_LABELS } from './integrity';
+import { money } from './money';
+import { reservedStock, draftExpiresAt } from './drafts';
+import { PAYMENT_METHODS, settleTender, cashPaidOf, shiftPaymentTotals } from './payments';
+import { TaxQuote, isTaxEnabled, taxRateFor, taxLineOf, groupTaxLines, returnedTaxLines } from './tax';
+import { buildSaleReceipt, buildWholesaleInvoice, internalIdOf, isStandInSigned } from './eInvoice';
+import { availableCredit, collectableInvoices, allocateCollection, customerBalance } from './credit';
 
 /**
  * TwinX Operations Service
@@ -7,7 +15,7 @@ import { AppData, Sale, WholesaleTransaction, SaleReturn, Expense, LogEntry, Pro
  * This service is the single source of truth for state mutations.
  */
 
-const createLog = (action: string, category: LogEntry['category'], details: string): LogEntry => ({
+export const createLog = (action: string, category: LogEntry['category'], details: string): LogEntry => ({
   id: crypto.randomUUID(),
   timestamp: Date.now(),
   action,
@@ -17,10 +25,150 @@ const createLog = (action: string, category: LogEntry['category'], details: stri
 
 const getTodayString = () => new Date().toISOString().split('T')[0];
 
+type PricedLine = Pick<CartItem, 'price' | 'quantity' | 'discount' | 'discountType'>;
+
+/**
+ * A line's own discount: a percentage of the line, or a fixed amount off the whole line,
+ * never more than the line is worth.
+ */
+export const lineDiscountOf = (item: PricedLine, currency?: string): number => {
+  const gross = money.multiply(item.price, item.quantity, currency);
+  if (!item.discount || item.discount <= 0) return 0;
+  const off = item.discountType === 'fixed'
+    ? money.round(item.discount, currency)
+    : money.multiply(gross, Math.min(item.discount, 100) / 100, currency);
+  return Math.min(gross, off);
+};
+
+/**
+ * What a line sells for after its own discount, before the invoice discount.
+ */
+export const lineTotalOf = (item: PricedLine, currency?: string): number =>
+  money.subtract(money.multiply(item.price, item.quantity, currency), lineDiscountOf(item, currency), currency);
+
+// Value of `quantity` units taken from a line, each carrying an even share of the line discount.
+const lineShareOf = (item: PricedLine, quantity: number, currency?: string): number =>
+  item.quantity > 0 ? money.share(lineTotalOf(item, currency), quantity, item.quantity, currency) : 0;
+
+const linesTotalOf = (items: PricedLine[], currency?: string) =>
+  money.sum(items.map(i => lineTotalOf(i, currency)), currency);
+
+/**
+ * Tax on a cart once tax rates are set up, line by line, with the invoice discount spread over
+ * the lines by value first. Products are taxed at their current ledger settings.
+ */
+export const quoteSaleTax = (data: AppData, items: CartItem[], invoiceDiscount: number): TaxQuote | undefined => {
+  if (!isTaxEnabled(data)) return undefined;
+  const currency = data.currency;
+  const inclusive = !!data.pricesIncludeTax;
+  const productRevenue = money.subtract(linesTotalOf(items, currency), invoiceDiscount, currency);
+  const nets = money.allocate(productRevenue, items.map(i => lineTotalOf(i, currency)), currency);
+  const taxed = items.map((item, i) => {
+    const product = data.products.find(p => p.id === item.id) || item;
+    return { ...item, taxLine: taxLineOf(taxRateFor(data, product), nets[i], inclusive, currency) };
+  });
+  const taxLines = groupTaxLines(taxed.map(i => i.taxLine), currency);
+  const taxTotal = money.sum(taxLines.map(l => l.tax), currency);
+  return { items: taxed, taxLines, taxTotal, addedTax: inclusive ? 0 : taxTotal, inclusive };
+};
+
+/**
+ * Cash in the drawer: opening cash, plus the cash part of retail sales that are completed or
+ * delivered (a pending delivery's money is still with the driver; card and wallet payments go
+ * to the bank), plus wholesale money received, minus
+ * refunds, expenses, payroll and wholesale payments made. Payments collected on account count
+ * with the sale they paid, and a refund that only cleared debt never left the drawer.
+ *
+ * A retail refund only leaves the drawer while its sale's money is in it: cancelling a sale
+ * gives back whatever had not been refunded yet, so its earlier refunds no longer count.
+ */
+export const calculateCashBalance = (data: Pick<AppData, 'initialCash' | 'sales' | 'returns' | 'expenses' | 'salaryTransactions' | 'wholesaleTransactions' | 'currency'>): number => {
+  const currency = data.currency;
+  const realized = data.sales.filter(sale => sale.status === 'completed' || sale.status === 'delivered');
+  const realizedIds = new Set(realized.map(sale => sale.id));
+  const unrealizedIds = new Set(data.sales.filter(sale => !realizedIds.has(sale.id)).map(sale => sale.id));
+  const realizedRetailSales = realized.map(sale => cashPaidOf(sale, currency));
+  const wholesaleReceived = (data.wholesaleTransactions || []).filter(t => t.type === 'sale').map(t => t.paidAmount);
+  const wholesalePaidOut = (data.wholesaleTransactions || []).filter(t => t.type === 'purchase').map(t => -t.paidAmount);
+
+  return money.sum([
+    data.initialCash,
+    ...realizedRetailSales,
+    ...wholesaleReceived,
+    ...wholesalePaidOut,
+    ...(data.returns || []).filter(ret => !unrealizedIds.has(ret.saleId)).map(ret => -money.subtract(ret.totalRefund, ret.appliedToBalance || 0, currency)),
+    ...data.expenses.map(exp => -exp.amount),
+    ...(data.salaryTransactions || []).map(sal => -sal.amount)
+  ], currency);
+};
+
+/**
+ * What a sale currently adds to its customer's totals: its product value and points, net of the
+ * returns already processed against it.
+ */
+const customerContribution = (data: AppData, sale: Sale) => {
+  const refunds = data.returns.filter(r => r.saleId === sale.id).map(r => r.totalRefund);
+  return {
+    value: money.subtract(money.subtract(sale.total, sale.deliveryFee || 0, data.currency), money.sum(refunds, data.currency), data.currency),
+    points: (sale.pointsEarned || 0) - refunds.reduce((acc, r) => acc + Math.floor(r), 0)
+  };
+};
+
+/**
+ * Puts back what an active sale still takes: its goods on the shelves and its value, invoice and
+ * points off its customer's totals. Mutates `data`.
+ */
+const reverseSaleEffects = (data: AppData, sale: Sale) => {
+  sale.items.forEach(item => {
+    const product = data.products.find(p => p.id === item.id);
+    const quantityToRestore = item.quantity - (item.returnedQuantity || 0);
+    if (product && quantityToRestore > 0) product.stock += quantityToRestore;
+  });
+
+  const cIndex = sale.customerId ? data.customers.findIndex(c => c.id === sale.customerId) : -1;
+  if (cIndex >= 0) {
+    const c = data.customers[cIndex];
+    const { value, points } = customerContribution(data, sale);
+    data.customers[cIndex] = {
+      ...c,
+      totalPurchases: Math.max(0, money.subtract(c.totalPurchases, value, data.currency)),
+      invoiceCount: Math.max(0, c.invoiceCount - 1),
+      totalPoints: Math.max(0, (c.totalPoints || 0) - points)
+    };
+  }
+};
+
+// Delivery details are all an edit may touch; money, stock and status change through their own commands.
+const EDITABLE_SALE_FIELDS: (keyof Sale)[] = ['deliveryDetails', 'driverId'];
+
+/**
+ * Refund owed for returning `items` from a retail sale, net of line and invoice discounts. Both
+ * discounts are spread over everything returned so far rather than per return, so a full
+ * return always refunds exactly the net product revenue, however many returns it took.
+ * Tax charged on top of the prices is refunded with the goods it was charged on.
+ */
+export const calculateRefund = (sale: Sale, items: { productId: string; quantity: number }[], currency?: string): number => {
+  const goods = goodsRefundOf(sale, items, currency);
+  if (!sale.taxLines || sale.pricesIncludeTax) return goods;
+  return money.sum([goods, ...returnedTaxLines(sale, items, currency).map(l => l.tax)], currency);
+};
+
+const goodsRefundOf = (sale: Sale, items: { productId: string; quantity: number }[], currency?: string): number => {
+  const net = money.subtract(sale.subtotal, sale.totalDiscount, currency);
+  const returnedValue = (extra: (item: CartItem) => number) =>
+    money.sum(sale.items.map(i => lineShareOf(i, (i.returnedQuantity || 0) + extra(i), currency)), currency);
+  const requested = (item: CartItem) => items.filter(r => r.productId === item.id).reduce((acc, r) => acc + r.quantity, 0);
+  const returnedBefore = returnedValue(() => 0);
+  const returnedAfter = returnedValue(requested);
+  const returnedNow = money.subtract(returnedAfter, returnedBefore, currency);
+  if (sale.subtotal <= 0) return returnedNow;
+  return money.subtract(money.share(net, returnedAfter, sale.subtotal, currency), money.share(net, returnedBefore, sale.subtotal, currency), currency);
+};
+
 export const TwinXOps = {
   
   // --- SHIFT MANAGEMENT ---
-  openShift: (currentData: AppData, startCash: number, openerName: string): AppData => {
+  openShift: (currentData: AppData, startCash: number, openerName: string, openerId?: string): AppData => {
     const newData: AppData = JSON.parse(JSON.stringify(currentData));
     const activeShift = newData.shifts.find(s => s.status === 'open');
     if (activeShift) throw new Error("A shift is already open. Please close it first.");
@@ -28,8 +176,9 @@ export const TwinXOps = {
     const newShift: Shift = {
       id: crypto.randomUUID(),
       openedBy: openerName,
+      openedById: openerId,
       startTime: Date.now(),
-      startCash,
+      startCash: money.round(startCash, newData.currency),
       status: 'open'
     };
     newData.shifts.push(newShift);
@@ -37,7 +186,7 @@ export const TwinXOps = {
     return newData;
   },
 
-  closeShift: (currentData: AppData, endCash: number, notes?: string): AppData => {
+  closeShift: (currentData: AppData, endCash: number, notes?: string, closerId?: string): AppData => {
     const newData: AppData = JSON.parse(JSON.stringify(currentData));
     const shiftIndex = newData.shifts.findIndex(s => s.status === 'open');
     if (shiftIndex === -1) throw new Error("No active shift to close.");
@@ -47,9 +196,11 @@ export const TwinXOps = {
     newData.shifts[shiftIndex] = {
       ...shift,
       endTime: Date.now(),
-      endCash,
+      endCash: money.round(endCash, newData.currency),
       status: 'closed',
-      notes
+      notes,
+      closedById: closerId,
+      paymentTotals: shiftPaymentTotals(newData, shift.id)
     };
     newData.logs = [createLog('SHIFT_CLOSE', 'system', `Shift closed. Counted: ${endCash}`), ...newData.logs];
     return newData;
@@ -58,52 +209,81 @@ export const TwinXOps = {
   /**
    * Processes a retail sale atomically.
    * FIX: Customer Total Purchases now EXCLUDES delivery fee.
+   * A sale resumed from a draft names it: the draft's own reservation is available to the sale,
+   * and the draft is removed once the sale goes through.
+   * The bill is settled from `payments` when given (change comes out of the cash), otherwise
+   * `paidAmount` is taken as cash, defaulting to the full total.
+   * Once tax rates exist each line carries its tax; exclusive tax is added to the total, and
+   * tax is never profit.
+   * A bill may only be left partly unpaid on the account of a customer with enough credit.
    */
-  processRetailSale: (currentData: AppData, saleData: Partial<Sale>): AppData => {
+  processRetailSale: (currentData: AppData, saleData: Partial<Sale>, draftId?: string): AppData => {
     const newData: AppData = JSON.parse(JSON.stringify(currentData));
     
     // CRITICAL: Enforce Active Shift
     const activeShift = newData.shifts.find(s => s.status === 'open');
     if (!activeShift) throw new Error("SHIFT_CLOSED: You must open a shift before selling.");
 
+    const currency = newData.currency;
     const items = saleData.items || [];
-    const subtotal = items.reduce((acc, i) => acc + (i.price * i.quantity), 0);
-    const discount = saleData.totalDiscount || 0;
-    const deliveryIncome = saleData.deliveryFee || 0;
+    for (const item of items) {
+      if ((item.discount || 0) < 0 || (item.discountType !== 'fixed' && (item.discount || 0) > 100)) {
+        throw new Error(`Invalid discount on ${item.name}.`);
+      }
+    }
+    const subtotal = linesTotalOf(items, currency); // After line discounts
+    const discount = money.round(saleData.totalDiscount || 0, currency);
+    const deliveryIncome = money.round(saleData.deliveryFee || 0, currency);
 
-    // 1. Validate and Deduct Stock
+    // 1. Validate and Deduct Stock (other drafts' reservations are not for sale)
+    const reserved = reservedStock(newData, draftId);
     let totalCost = 0;
     for (const item of items) {
       const pIndex = newData.products.findIndex(prod => prod.id === item.id);
       if (pIndex === -1) throw new Error(`Product missing from ledger: ${item.name}`);
       const p = newData.products[pIndex];
+      const available = Math.max(0, p.stock - (reserved[p.id] || 0));
       
-      if (p.stock < item.quantity) {
-        throw new Error(`Insufficient stock for ${item.name}. Available: ${p.stock}`);
+      if (available < item.quantity) {
+        throw new Error(`Insufficient stock for ${item.name}. Available: ${available}`);
       }
       
-      totalCost += (p.costPrice * item.quantity);
+      totalCost = money.add(totalCost, money.multiply(p.costPrice, item.quantity, currency), currency);
       newData.products[pIndex].stock -= item.quantity;
     }
 
     // Financials
-    const productRevenue = subtotal - discount; // Net revenue from goods only
-    const total = productRevenue + deliveryIncome; // Total Invoice Value
-    const paid = saleData.paidAmount ?? total;
-    const remaining = Math.max(0, total - paid);
-    const totalProfit = (productRevenue - totalCost) + deliveryIncome;
+    const productRevenue = money.subtract(subtotal, discount, currency); // Net revenue from goods only
+    const tax = quoteSaleTax(newData, items, discount);
+    const goodsTotal = money.add(productRevenue, tax?.addedTax || 0, currency); // What the customer pays for the goods
+    const total = money.add(goodsTotal, deliveryIncome, currency); // Total Invoice Value
+    const tender = settleTender(total, saleData.payments || [{ method: 'cash', amount: saleData.paidAmount ?? total }], currency);
+    const paid = tender.paid;
+    const remaining = Math.max(0, money.subtract(total, paid, currency));
+    if (remaining > 0) {
+      const customer = newData.customers.find(c => c.id === saleData.customerId);
+      if (!customer) throw new Error("An unpaid balance can only be put on a customer's account.");
+      const available = availableCredit(newData, customer);
+      if (remaining > available) {
+        throw new Error(`${customer.name} has ${money.format(available, currency)} of credit left; ${money.format(remaining, currency)} is unpaid.`);
+      }
+    }
+    const revenueNetOfTax = money.subtract(productRevenue, tax?.inclusive ? tax.taxTotal : 0, currency);
+    const totalProfit = money.add(money.subtract(revenueNetOfTax, totalCost, currency), deliveryIncome, currency);
     
     const pointsEarned = Math.max(0, Math.floor(productRevenue));
 
     const finalSale: Sale = {
       id: saleData.id || crypto.randomUUID(),
       timestamp: saleData.timestamp || Date.now(),
-      items: items.map(i => ({ ...i, returnedQuantity: 0 })),
+      items: (tax?.items || items).map(i => ({ ...i, returnedQuantity: 0 })),
       subtotal,
       totalDiscount: discount,
       total,
       paidAmount: paid,
       remainingAmount: remaining,
+      payments: tender.payments,
+      ...(tax ? { taxTotal: tax.taxTotal, taxLines: tax.taxLines, pricesIncludeTax: tax.inclusive } : {}),
       saleChannel: saleData.saleChannel || 'store',
       customerId: saleData.customerId,
       isDelivery: saleData.isDelivery,
@@ -124,7 +304,7 @@ export const TwinXOps = {
         const c = newData.customers[cIndex];
         newData.customers[cIndex] = {
           ...c,
-          totalPurchases: c.totalPurchases + productRevenue, // Only add product value, not delivery
+          totalPurchases: money.add(c.totalPurchases, goodsTotal, currency), // Only add product value, not delivery
           invoiceCount: c.invoiceCount + 1,
           totalPoints: (c.totalPoints || 0) + pointsEarned,
           lastOrderTimestamp: finalSale.timestamp,
@@ -135,6 +315,7 @@ export const TwinXOps = {
 
     // 3. Commit
     newData.sales = [finalSale, ...newData.sales];
+    if (draftId) newData.drafts = newData.drafts.filter(d => d.id !== draftId);
     newData.logs = [
       createLog('SALE_COMPLETED', 'sale', `INV #${finalSale.id.split('-')[0]} for ${total}`),
       ...newData.logs
@@ -158,34 +339,9 @@ export const TwinXOps = {
 
     // REVERSAL LOGIC: Transitioning TO Cancelled
     if (status === 'cancelled' && oldStatus !== 'cancelled') {
-      // 1. Restock items
-      originalSale.items.forEach(item => {
-        const pIndex = newData.products.findIndex(p => p.id === item.id);
-        if (pIndex >= 0) {
-          const quantityToRestore = item.quantity - (item.returnedQuantity || 0);
-          if (quantityToRestore > 0) {
-             newData.products[pIndex].stock += quantityToRestore;
-          }
-        }
-      });
+      // 1-2. Restock items and reverse financials from the customer profile
+      reverseSaleEffects(newData, originalSale);
 
-      // 2. Reverse Financials from Customer Profile (FIXED)
-      if (originalSale.customerId) {
-        const cIndex = newData.customers.findIndex(c => c.id === originalSale.customerId);
-        if (cIndex >= 0) {
-          const c = newData.customers[cIndex];
-          // Determine what was added to customer stats (Total - Delivery)
-          const valueAddedToStats = originalSale.total - (originalSale.deliveryFee || 0);
-          
-          newData.customers[cIndex] = {
-            ...c,
-            totalPurchases: Math.max(0, c.totalPurchases - valueAddedToStats),
-            invoiceCount: Math.max(0, c.invoiceCount - 1),
-            totalPoints: Math.max(0, (c.totalPoints || 0) - (originalSale.pointsEarned || 0))
-          };
-        }
-      }
-      
       // 3. Mark as Cancelled
       newData.sales[saleIndex].status = 'cancelled';
       
@@ -209,13 +365,13 @@ export const TwinXOps = {
         const cIndex = newData.customers.findIndex(c => c.id === originalSale.customerId);
         if (cIndex >= 0) {
           const c = newData.customers[cIndex];
-          const valueToRestore = originalSale.total - (originalSale.deliveryFee || 0);
+          const { value, points } = customerContribution(newData, originalSale);
 
           newData.customers[cIndex] = {
             ...c,
-            totalPurchases: c.totalPurchases + valueToRestore,
+            totalPurchases: money.add(c.totalPurchases, value, newData.currency),
             invoiceCount: c.invoiceCount + 1,
-            totalPoints: (c.totalPoints || 0) + (originalSale.pointsEarned || 0)
+            totalPoints: (c.totalPoints || 0) + points
           };
         }
       }
@@ -245,11 +401,9 @@ export const TwinXOps = {
     const originalSale = newData.sales[saleIndex];
     if (originalSale.status === 'cancelled') throw new Error("Cannot process return for a cancelled order.");
 
-    const discountRatio = originalSale.subtotal > 0 
-      ? (originalSale.subtotal - originalSale.totalDiscount) / originalSale.subtotal 
-      : 1;
-    
-    let totalCalculatedRefund = 0;
+    const currency = newData.currency;
+    const totalCalculatedRefund = calculateRefund(originalSale, returnRecord.items, currency);
+    const taxLines = returnedTaxLines(originalSale, returnRecord.items, currency); // Before the returned quantities move on
     
     for (const returnItem of returnRecord.items) {
       const itemIndex = originalSale.items.findIndex(i => i.id === returnItem.productId);
@@ -265,9 +419,6 @@ export const TwinXOps = {
       // Update Sale Item
       originalSale.items[itemIndex].returnedQuantity = currentReturned + returnItem.quantity;
       
-      // Calculate Refund
-      totalCalculatedRefund += (item.price * returnItem.quantity) * discountRatio;
-      
       // Return to Stock
       const pIndex = newData.products.findIndex(p => p.id === returnItem.productId);
       if (pIndex >= 0) {
@@ -275,8 +426,9 @@ export const TwinXOps = {
       }
     }
 
-    // Financial Adjustments
-    originalSale.remainingAmount = Math.max(0, originalSale.remainingAmount - totalCalculatedRefund);
+    // Financial Adjustments: the refund clears what is still owed first, the rest is paid out
+    const appliedToBalance = Math.min(originalSale.remainingAmount, totalCalculatedRefund);
+    originalSale.remainingAmount = money.subtract(originalSale.remainingAmount, appliedToBalance, currency);
 
     // FIX: Loyalty Reversal & Customer Stats Adjustment
     if (originalSale.customerId) {
@@ -285,31 +437,58 @@ export const TwinXOps = {
         const c = newData.customers[cIndex];
         newData.customers[cIndex] = {
            ...c,
-           totalPurchases: Math.max(0, c.totalPurchases - totalCalculatedRefund), // Deduct refund from history
+           totalPurchases: Math.max(0, money.subtract(c.totalPurchases, totalCalculatedRefund, currency)), // Deduct refund from history
            totalPoints: Math.max(0, (c.totalPoints || 0) - Math.floor(totalCalculatedRefund))
         };
       }
     }
 
-    newData.returns = [{ ...returnRecord, totalRefund: totalCalculatedRefund }, ...newData.returns];
+    // Per-item refunds follow each line's share of the goods returned and add up to the total exactly.
+    const itemRefunds = money.allocate(
+      totalCalculatedRefund,
+      returnRecord.items.map(r => lineShareOf(originalSale.items.find(i => i.id === r.productId)!, r.quantity, currency)),
+      currency
+    );
+    const items = returnRecord.items.map((r, i) => ({ ...r, refundAmount: itemRefunds[i] }));
+
+    newData.returns = [{
+      ...returnRecord,
+      items,
+      totalRefund: totalCalculatedRefund,
+      ...(taxLines.length > 0 ? { taxLines } : {}),
+      ...(appliedToBalance > 0 ? { appliedToBalance } : {})
+    }, ...newData.returns];
     newData.logs = [
-      createLog('RETURN_PROCESSED', 'return', `Refund of ${totalCalculatedRefund.toFixed(2)} for INV #${originalSale.id.split('-')[0]}`),
+      createLog('RETURN_PROCESSED', 'return', `Refund of ${money.format(totalCalculatedRefund, currency)} for INV #${originalSale.id.split('-')[0]}`),
       ...newData.logs
     ].slice(0, 5000);
 
     return newData;
   },
 
-  processWholesaleTransaction: (currentData: AppData, transaction: WholesaleTransaction): AppData => {
+  processWholesaleTransaction: (currentData: AppData, incoming: WholesaleTransaction): AppData => {
     const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const currency = newData.currency;
+    const transaction: WholesaleTransaction = {
+      ...incoming,
+      items: incoming.items.map(i => ({ ...i, unitPrice: money.round(i.unitPrice, currency) })),
+      total: money.sum(incoming.items.map(i => money.multiply(i.unitPrice, i.quantity, currency)), currency),
+      paidAmount: money.round(incoming.paidAmount, currency)
+    };
     const isPurchase = transaction.type === 'purchase';
+    const reserved = reservedStock(newData);
+    const partner = newData.partners.find(p => p.id === transaction.partnerId);
+    if (!partner) throw new Error("Wholesale partner not found.");
+    if (transaction.paidAmount < 0 || transaction.paidAmount > transaction.total) {
+      throw new Error("Paid amount must be between zero and the transaction total.");
+    }
     
     for (const item of transaction.items) {
       const pIndex = newData.products.findIndex(prod => prod.id === item.productId);
       if (pIndex === -1) throw new Error(`Product missing: ${item.name}`);
       const p = newData.products[pIndex];
       
-      if (!isPurchase && p.stock < item.quantity) {
+      if (!isPurchase && p.stock - (reserved[p.id] || 0) < item.quantity) {
         throw new Error(`Insufficient stock: ${item.name}`);
       }
       
@@ -318,7 +497,11 @@ export const TwinXOps = {
 
     newData.wholesaleTransactions = [transaction, ...newData.wholesaleTransactions];
     newData.logs = [
-      createLog(isPurchase ? 'WHOLESALE_PURCHASE' : 'WHOLESALE_SALE', 'wholesale', `Bulk ${transaction.type} finalized.`),
+      createLog(
+        isPurchase ? 'WHOLESALE_PURCHASE' : 'WHOLESALE_SALE',
+        'wholesale',
+        `${isPurchase ? 'Purchased from' : 'Sold to'} ${partner.name}: Total ${transaction.total}, Paid: ${transaction.paidAmount}`
+      ),
       ...newData.logs
     ].slice(0, 5000);
 
@@ -376,7 +559,7 @@ export const TwinXOps = {
     const employee = newData.employees.find(e => e.id === transaction.employeeId);
     if (!employee) throw new Error("Employee not found.");
 
-    newData.salaryTransactions = [...(newData.salaryTransactions || []), transaction];
+    newData.salaryTransactions = [...(newData.salaryTransactions || []), { ...transaction, amount: money.round(transaction.amount, newData.currency) }];
     
     newData.logs = [
       createLog('PAYROLL', 'hr', `Paid ${transaction.type} to ${employee.name}`),
@@ -417,7 +600,7 @@ export const TwinXOps = {
       newData.expenses.push({ 
         id: crypto.randomUUID(), 
         description: `Shrinkage: ${product.name} (${reason})`, 
-        amount: diff * product.costPrice, 
+        amount: money.multiply(product.costPrice, diff, newData.currency), 
         timestamp: Date.now() 
       });
     }
@@ -428,6 +611,584 @@ export const TwinXOps = {
       ...newData.logs
     ].slice(0, 5000);
     
+    return newData;
+  },
+
+  // --- WHOLESALE PARTNERS ---
+  savePartner: (currentData: AppData, partner: WholesalePartner): AppData => {
+    if (!partner.name.trim()) throw new Error("Partner name is required.");
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const index = newData.partners.findIndex(p => p.id === partner.id);
+    if (index >= 0) newData.partners[index] = partner;
+    else newData.partners.push(partner);
+
+    newData.logs = [
+      createLog(index >= 0 ? 'PARTNER_UPDATED' : 'PARTNER_CREATED', 'wholesale', `${index >= 0 ? 'Updated' : 'Registered'} wholesale ${partner.type}: ${partner.name}`),
+      ...newData.logs
+    ].slice(0, 5000);
+    return newData;
+  },
+
+  /**
+   * Removes a partner together with its transaction history.
+   */
+  deletePartner: (currentData: AppData, partnerId: string): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const partner = newData.partners.find(p => p.id === partnerId);
+    if (!partner) throw new Error("Wholesale partner not found.");
+
+    // Their transactions carry stock and cash history, so a partner with any cannot be removed.
+    if (newData.wholesaleTransactions.some(t => t.partnerId === partnerId)) {
+      throw new Error("This partner has wholesale transactions and cannot be deleted.");
+    }
+
+    newData.partners = newData.partners.filter(p => p.id !== partnerId);
+    newData.logs = [createLog('PARTNER_DELETED', 'wholesale', `Removed partner ${partner.name}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  /**
+   * Records a debt payment (received from a buyer or paid to a supplier) against a wholesale transaction.
+   */
+  recordWholesalePayment: (currentData: AppData, transactionId: string, amount: number): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const trans = newData.wholesaleTransactions.find(t => t.id === transactionId);
+    if (!trans) throw new Error("Wholesale transaction not found.");
+    const currency = newData.currency;
+    amount = money.round(amount, currency);
+    if (amount <= 0) throw new Error("Payment amount must be greater than zero.");
+
+    const outstanding = money.subtract(trans.total, trans.paidAmount, currency);
+    if (amount > outstanding) throw new Error(`Payment exceeds the outstanding balance of ${money.format(outstanding, currency)}.`);
+
+    const payment: WholesalePayment = { amount, timestamp: Date.now(), remainingAfter: money.subtract(outstanding, amount, currency) };
+    trans.paidAmount = money.add(trans.paidAmount, amount, currency);
+    trans.payments = [...(trans.payments || []), payment];
+
+    newData.logs = [
+      createLog('DEBT_PAYMENT', 'cash', `${trans.type === 'sale' ? 'Received' : 'Paid'} ${amount} for wholesale trans ${transactionId.split('-')[0]}`),
+      ...newData.logs
+    ].slice(0, 5000);
+    return newData;
+  },
+
+  /**
+   * Returns goods from a wholesale transaction. Sales come back into stock, purchases go back to the supplier.
+   */
+  processWholesaleReturn: (currentData: AppData, returnRecord: SaleReturn): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const trans = newData.wholesaleTransactions.find(t => t.id === returnRecord.saleId);
+    if (!trans) throw new Error("Original wholesale transaction not found.");
+    const isOutward = trans.type === 'sale';
+
+    for (const returnItem of returnRecord.items) {
+      const item = trans.items.find(i => i.productId === returnItem.productId);
+      if (!item) throw new Error(`Product ${returnItem.productId} not found in transaction.`);
+
+      const alreadyReturned = newData.returns
+        .filter(r => r.saleId === trans.id)
+        .reduce((acc, r) => acc + r.items.filter(i => i.productId === returnItem.productId).reduce((q, i) => q + i.quantity, 0), 0);
+      if (alreadyReturned + returnItem.quantity > item.quantity) {
+        throw new Error(`Cannot return ${returnItem.quantity}. Only ${item.quantity - alreadyReturned} remaining.`);
+      }
+
+      const pIndex = newData.products.findIndex(p => p.id === returnItem.productId);
+      if (pIndex >= 0) {
+        if (!isOutward && newData.products[pIndex].stock < returnItem.quantity) {
+          throw new Error(`Insufficient stock to return ${item.name} to the supplier.`);
+        }
+        newData.products[pIndex].stock += isOutward ? returnItem.quantity : -returnItem.quantity;
+      }
+    }
+
+    const partner = newData.partners.find(p => p.id === trans.partnerId);
+    const finalReturn: SaleReturn = {
+      ...returnRecord,
+      items: returnRecord.items.map(i => ({ ...i, refundAmount: money.round(i.refundAmount, newData.currency) })),
+      totalRefund: money.sum(returnRecord.items.map(i => i.refundAmount), newData.currency),
+      customerName: returnRecord.customerName || partner?.name
+    };
+
+    newData.returns = [finalReturn, ...newData.returns];
+    newData.logs = [
+      createLog('WHOLESALE_RETURN', 'wholesale', `Processed wholesale return for ${finalReturn.customerName}`),
+      ...newData.logs
+    ].slice(0, 5000);
+    return newData;
+  },
+
+  // --- DRAFTS ---
+  /**
+   * Parks a cart as a draft, or re-parks a resumed one under the same id. A reserving draft can
+   * only hold stock that is not already held by another draft, and its expiry is fixed when it
+   * is parked.
+   */
+  saveDraft: (currentData: AppData, draft: DraftInvoice): AppData => {
+    if (draft.items.length === 0) throw new Error("Cannot park an empty cart.");
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const currency = newData.currency;
+
+    if (draft.reserveStock) {
+      const reserved = reservedStock(newData, draft.id);
+      for (const item of draft.items) {
+        const p = newData.products.find(prod => prod.id === item.id);
+        if (!p) throw new Error(`Product missing from ledger: ${item.name}`);
+        const available = Math.max(0, p.stock - (reserved[p.id] || 0));
+        if (available < item.quantity) throw new Error(`Insufficient stock to reserve ${item.name}. Available: ${available}`);
+      }
+    }
+
+    const subtotal = linesTotalOf(draft.items, currency);
+    const totalDiscount = money.round(draft.totalDiscount, currency);
+    const deliveryFee = money.round(draft.deliveryFee || 0, currency);
+    const parked: DraftInvoice = {
+      ...draft,
+      subtotal,
+      totalDiscount,
+      deliveryFee,
+      total: money.add(money.subtract(subtotal, totalDiscount, currency), deliveryFee, currency)
+    };
+    parked.expiresAt = draftExpiresAt({ ...parked, expiresAt: undefined }, newData);
+
+    const exists = newData.drafts.some(d => d.id === draft.id);
+    newData.drafts = [parked, ...newData.drafts.filter(d => d.id !== draft.id)];
+    newData.logs = [
+      createLog(exists ? 'DRAFT_UPDATED' : 'DRAFT_PARKED', 'sale', `Draft #${draft.id.split('-')[0]} for ${parked.total}${draft.reserveStock ? ' (stock reserved)' : ''}`),
+      ...newData.logs
+    ].slice(0, 5000);
+    return newData;
+  },
+
+  deleteDraft: (currentData: AppData, draftId: string): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const draft = newData.drafts.find(d => d.id === draftId);
+    if (!draft) throw new Error("Draft not found.");
+    newData.drafts = newData.drafts.filter(d => d.id !== draftId);
+    newData.logs = [createLog('DRAFT_DELETED', 'sale', `Deleted draft #${draftId.split('-')[0]}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  // --- EXPENSES ---
+  saveExpense: (currentData: AppData, expense: Expense): AppData => {
+    if (!expense.description.trim() || expense.amount <= 0) throw new Error("Expense needs a description and a positive amount.");
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    newData.expenses = [...newData.expenses, { ...expense, amount: money.round(expense.amount, newData.currency) }];
+    newData.logs = [createLog('EXPENSE_LOGGED', 'expense', `Recorded ${expense.amount}: ${expense.description}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  deleteExpense: (currentData: AppData, expenseId: string): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const expense = newData.expenses.find(e => e.id === expenseId);
+    if (!expense) throw new Error("Expense not found.");
+    newData.expenses = newData.expenses.filter(e => e.id !== expenseId);
+    newData.logs = [createLog('EXPENSE_DELETED', 'expense', `Deleted ${expense.amount}: ${expense.description}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  // --- CATALOG ---
+  /**
+   * Adds or updates a product. A changed stock level on an existing product goes through
+   * adjustStock so it leaves a stock log (and a shrinkage expense when it drops).
+   */
+  saveProduct: (currentData: AppData, product: Product, employeeId: string): AppData => {
+    if (!product.name.trim()) throw new Error("Product name is required.");
+    if (product.price < 0 || product.costPrice < 0) throw new Error("Prices cannot be negative.");
+
+    const existing = currentData.products.find(p => p.id === product.id);
+    let newData: AppData = JSON.parse(JSON.stringify(currentData));
+
+    if (existing && existing.stock !== product.stock) {
+      newData = TwinXOps.adjustStock(newData, product.id, product.stock, 'Product edit', employeeId);
+    }
+
+    const index = newData.products.findIndex(p => p.id === product.id);
+    if (index >= 0) newData.products[index] = product;
+    else newData.products.push(product);
+
+    newData.logs = [
+      createLog(existing ? 'PRODUCT_UPDATED' : 'PRODUCT_ADDED', 'inventory', `${existing ? 'Updated' : 'Added'} ${product.name}.`),
+      ...newData.logs
+    ].slice(0, 5000);
+    return newData;
+  },
+
+  deleteProduct: (currentData: AppData, productId: string): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const product = newData.products.find(p => p.id === productId);
+    if (!product) throw new Error("Product missing from ledger");
+    newData.products = newData.products.filter(p => p.id !== productId);
+    newData.logs = [createLog('PRODUCT_DELETED', 'inventory', `Deleted ${product.name}.`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  // --- CUSTOMERS ---
+  /**
+   * Adds or updates a profile. The credit limit is kept as it was; only setCreditLimit changes it.
+   */
+  saveCustomer: (currentData: AppData, customer: Customer): AppData => {
+    if (!customer.name.trim() || !customer.phone.trim()) throw new Error("Customer name and phone are required.");
+    if (currentData.customers.some(c => c.phone === customer.phone && c.id !== customer.id)) {
+      throw new Error(`A customer with phone ${customer.phone} already exists.`);
+    }
+
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const index = newData.customers.findIndex(c => c.id === customer.id);
+    const { creditLimit: _, ...profile } = customer;
+    const creditLimit = index >= 0 ? newData.customers[index].creditLimit : undefined;
+    const saved: Customer = creditLimit !== undefined ? { ...profile, creditLimit } : profile;
+    if (index >= 0) newData.customers[index] = saved;
+    else newData.customers.push(saved);
+
+    newData.logs = [
+      index >= 0
+        ? createLog('CUSTOMER_UPDATED', 'system', `Updated profile: ${customer.name}`)
+        : createLog('CUSTOMER_ADDED', 'system', `Registered customer: ${customer.name} (${customer.phone})`),
+      ...newData.logs
+    ].slice(0, 5000);
+    return newData;
+  },
+
+  deleteCustomer: (currentData: AppData, customerId: string): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const customer = newData.customers.find(c => c.id === customerId);
+    if (!customer) throw new Error("Customer not found.");
+    const balance = customerBalance(newData, customerId);
+    if (balance > 0) throw new Error(`${customer.name} still owes ${money.format(balance, newData.currency)}.`);
+    newData.customers = newData.customers.filter(c => c.id !== customerId);
+    newData.logs = [createLog('CUSTOMER_REMOVED', 'system', `Deleted profile ${customer.name}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  /**
+   * Sets how much a customer may leave owing; zero closes the account to new credit. Lowering
+   * the limit below what is already owed only stops further credit.
+   */
+  setCreditLimit: (currentData: AppData, customerId: string, creditLimit: number): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const customer = newData.customers.find(c => c.id === customerId);
+    if (!customer) throw new Error("Customer not found.");
+    if (!Number.isFinite(creditLimit) || creditLimit < 0) throw new Error("Credit limit cannot be negative.");
+
+    const limit = money.round(creditLimit, newData.currency);
+    if (limit > 0) customer.creditLimit = limit;
+    else delete customer.creditLimit;
+    newData.logs = [
+      createLog('CREDIT_LIMIT_SET', 'cash', `Credit limit for ${customer.name} set to ${money.format(limit, newData.currency)}`),
+      ...newData.logs
+    ].slice(0, 5000);
+    return newData;
+  },
+
+  /**
+   * Records money a customer pays on account. It goes on `saleId` when given, otherwise it pays
+   * off their invoices oldest first, and is taken in the open shift. Only what is owed on
+   * completed and delivered invoices can be collected.
+   */
+  collectCustomerPayment: (currentData: AppData, customerId: string, payment: SalePayment, saleId?: string, employeeId?: string): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const activeShift = newData.shifts.find(s => s.status === 'open');
+    if (!activeShift) throw new Error("SHIFT_CLOSED: You must open a shift before collecting payments.");
+    const customer = newData.customers.find(c => c.id === customerId);
+    if (!customer) throw new Error("Customer not found.");
+
+    const currency = newData.currency;
+    if (!PAYMENT_METHODS.includes(payment.method)) throw new Error(`Unknown payment method: ${payment.method}.`);
+    const amount = money.round(payment.amount, currency);
+    if (!(amount > 0)) throw new Error("Payment amount must be greater than zero.");
+    const reference = payment.reference?.trim();
+    const entry: SalePayment = { method: payment.method, amount, ...(reference ? { reference } : {}) };
+
+    const invoices = collectableInvoices(newData, customerId).filter(s => !saleId || s.id === saleId);
+    if (saleId && invoices.length === 0) throw new Error("That invoice has nothing left to collect.");
+    const outstanding = money.sum(invoices.map(s => s.remainingAmount), currency);
+    if (entry.amount > outstanding) throw new Error(`Payment exceeds the outstanding balance of ${money.format(outstanding, currency)}.`);
+
+    const timestamp = Date.now();
+    allocateCollection(invoices, entry.amount, currency).forEach(part => {
+      const sale = newData.sales.find(s => s.id === part.saleId)!;
+      sale.paidAmount = money.add(sale.paidAmount, part.amount, currency);
+      sale.remainingAmount = money.subtract(sale.remainingAmount, part.amount, currency);
+      sale.collections = [...(sale.collections || []), {
+        ...entry,
+        amount: part.amount,
+        timestamp,
+        remainingAfter: sale.remainingAmount,
+        shiftId: activeShift.id,
+        ...(employeeId ? { employeeId } : {})
+      }];
+    });
+
+    newData.logs = [
+      createLog('PAYMENT_COLLECTED', 'cash', `Collected ${money.format(entry.amount, currency)} from ${customer.name}`),
+      ...newData.logs
+    ].slice(0, 5000);
+    return newData;
+  },
+
+  // --- STAFF ---
+  deleteEmployee: (currentData: AppData, employeeId: string): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const employee = newData.employees.find(e => e.id === employeeId);
+    if (!employee) throw new Error("Employee not found.");
+    newData.employees = newData.employees.filter(e => e.id !== employeeId);
+    newData.logs = [createLog('STAFF_REMOVED', 'hr', `Removed ${employee.role}: ${employee.name}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  /**
+   * Sets or clears an employee's lock screen PIN. Staff PINs only make sense once the
+   * administrator has one, since that is what switches the lock screen on.
+   */
+  setEmployeePin: (currentData: AppData, employeeId: string, pin: PinCredential | null): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const employee = newData.employees.find(e => e.id === employeeId);
+    if (!employee) throw new Error("Employee not found.");
+    if (pin && !newData.adminPin) throw new Error("Set the administrator PIN in Settings before giving staff a PIN.");
+    if (pin) employee.pin = pin;
+    else delete employee.pin;
+    newData.logs = [createLog(pin ? 'PIN_SET' : 'PIN_CLEARED', 'hr', `${pin ? 'Sign-in PIN set' : 'Sign-in PIN removed'} for ${employee.name}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  /**
+   * Sets or clears the administrator PIN. Clearing it switches the lock screen off, so it is
+   * refused while any employee still signs in with a PIN.
+   */
+  setAdminPin: (currentData: AppData, pin: PinCredential | null): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    if (!pin && newData.employees.some(e => e.pin)) throw new Error("Remove staff PINs before removing the administrator PIN.");
+    if (pin) newData.adminPin = pin;
+    else delete newData.adminPin;
+    newData.logs = [createLog(pin ? 'ADMIN_PIN_SET' : 'ADMIN_PIN_CLEARED', 'system', pin ? 'Administrator PIN set; staff sign-in is on' : 'Administrator PIN removed; staff sign-in is off'), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  // --- INVOICE ADMIN ---
+  /**
+   * Edits an invoice's delivery details. Anything else differing from the stored record, such as
+   * a stale copy from before a cancellation or collection, rejects the edit.
+   */
+  editSale: (currentData: AppData, sale: Sale): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const index = newData.sales.findIndex(s => s.id === sale.id);
+    if (index === -1) throw new Error("Sale record not found.");
+    const current = newData.sales[index];
+    const fields = new Set([...Object.keys(current), ...Object.keys(sale)] as (keyof Sale)[]);
+    const locked = [...fields].filter(f => !EDITABLE_SALE_FIELDS.includes(f) && JSON.stringify(current[f]) !== JSON.stringify(sale[f]));
+    if (locked.length > 0) throw new Error(`Only delivery details can be edited on an invoice; ${locked.join(', ')} changed.`);
+    current.deliveryDetails = sale.deliveryDetails;
+    current.driverId = sale.driverId;
+    newData.logs = [createLog('SALE_EDITED', 'sale', `Edited invoice ${sale.id.split('-')[0]}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  /**
+   * Deletes an invoice record. An active sale's goods go back on the shelves and its customer's
+   * totals drop, as they would on cancellation, so no aggregate is left counting a missing sale.
+   */
+  deleteSale: (currentData: AppData, saleId: string): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const sale = newData.sales.find(s => s.id === saleId);
+    if (!sale) throw new Error("Sale record not found.");
+    if (sale.status !== 'cancelled') reverseSaleEffects(newData, sale);
+    newData.sales = newData.sales.filter(s => s.id !== saleId);
+    newData.logs = [createLog('SALE_DELETED', 'sale', `Deleted invoice ${saleId.split('-')[0]}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  // --- E-INVOICING ---
+  /**
+   * Builds the e-receipt of a retail sale, or the e-invoice of a wholesale sale, and queues it
+   * for signing. A record gets one live document; another is only built once the portal has
+   * rejected the previous one or the pending one was discarded.
+   */
+  queueEDocument: (currentData: AppData, kind: EDocumentKind, sourceId: string): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const existing = newData.eDocuments.find(d => d.sourceId === sourceId && d.status !== 'rejected');
+    if (existing) throw new Error(`Invoice ${internalIdOf(sourceId)} is already in the e-invoice queue.`);
+
+    let document: Record<string, any>;
+    if (kind === 'receipt') {
+      const sale = newData.sales.find(s => s.id === sourceId);
+      if (!sale) throw new Error("Sale record not found.");
+      document = buildSaleReceipt(newData, sale);
+    } else {
+      const trans = newData.wholesaleTransactions.find(t => t.id === sourceId);
+      if (!trans) throw new Error("Wholesale transaction not found.");
+      document = buildWholesaleInvoice(newData, trans);
+    }
+
+    const record: EDocument = { id: crypto.randomUUID(), kind, sourceId, internalId: internalIdOf(sourceId), timestamp: Date.now(), status: 'pending', document };
+    newData.eDocuments = [record, ...newData.eDocuments];
+    newData.logs = [createLog('EDOCUMENT_QUEUED', kind === 'receipt' ? 'sale' : 'wholesale', `Queued e-${kind} for invoice ${record.internalId}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  /**
+   * Stores the signed form of a pending document, as produced by `signEDocument`.
+   */
+  recordEDocumentSignature: (currentData: AppData, documentId: string, document: Record<string, any>, signedBy: string): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const record = newData.eDocuments.find(d => d.id === documentId);
+    if (!record) throw new Error("E-document not found.");
+    if (record.status !== 'pending') throw new Error("Only pending documents can be signed.");
+    if (!Array.isArray(document.signatures) || document.signatures.length === 0) throw new Error("The document carries no signature.");
+    Object.assign(record, { document, status: 'signed', signedBy, signedAt: Date.now() });
+    newData.logs = [createLog('EDOCUMENT_SIGNED', 'system', `Signed e-${record.kind} ${record.internalId} with ${signedBy}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  /**
+   * Drops a document that is still waiting to be signed, such as a receipt built before the sale
+   * was returned or an item code was corrected. Queueing the invoice again rebuilds it from the
+   * records as they are now. Signed documents stay, since later receipts chain to them.
+   */
+  discardEDocument: (currentData: AppData, documentId: string): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const record = newData.eDocuments.find(d => d.id === documentId);
+    if (!record) throw new Error("E-document not found.");
+    if (record.status !== 'pending') throw new Error("Only documents waiting to be signed can be discarded.");
+    newData.eDocuments = newData.eDocuments.filter(d => d.id !== documentId);
+    newData.logs = [createLog('EDOCUMENT_DISCARDED', 'system', `Discarded pending e-${record.kind} ${record.internalId}`), ...newData.logs].slice(0, 5000);
+    return newData;
+  },
+
+  /**
+   * Records what the portal made of a signed document. A rejection needs the portal's reason and
+   * frees the invoice to be queued again.
+   */
+  setEDocumentStatus: (currentData: AppData, documentId: string, status: 'submitted' | 'rejected', details: { submissionId?: string; reason?: string } = {}): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const record = newData.eDocuments.find(d => d.id === documentId);
+    if (!record) throw new Error("E-document not found.");
+    if (status === 'submitted') {
+      if (record.status !== 'signed') throw new Error("Only signed documents can be marked as submitted.");
+      if (isStandInSigned(record)) throw new Error("Documents signed by the stand-in signer cannot be submitted.");
+      record.status = 'submitted';
+      record.submittedAt = Date.now();
+      const submissionId = details.submissionId?.trim();
+      if (submissionId) record.submissionId = submissionId;
+    } else {
+      if (record.status === 'pending' || record.status === 'rejected') throw new Error("Only signed or submitted documents can be rejected.");
+      const reason = details.reason?.trim();
+      if (!reason) throw new Error("A rejection needs the reason the portal gave.");
+      record.status = 'rejected';
+      record.rejectionReason = reason;
+    }
+    newData.logs = [
+      status === 'submitted'
+        ? createLog('EDOCUMENT_SUBMITTED', 'system', `E-${record.kind} ${record.internalId} submitted to the tax authority`)
+        : createLog('EDOCUMENT_REJECTED', 'system', `E-${record.kind} ${record.internalId} rejected: ${record.rejectionReason}`),
+      ...newData.logs
+    ].slice(0, 5000);
+    return newData;
+  },
+
+  // --- HISTORY ---
+  /**
+   * Replaces stored stock and customer totals with the values replayed from the event log.
+   * Records the log has never seen keep their stored values, which the resulting event adopts.
+   */
+  recomputeAggregates: (currentData: AppData, events: LedgerEvent[]): AppData => {
+    const newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const discrepancies = findDiscrepancies(currentData, events).filter(d => d.replayed !== undefined);
+    if (discrepancies.length === 0) return currentData;
+
+    discrepancies.forEach(d => {
+      if (d.kind === 'product') {
+        const product = newData.products.find(p => p.id === d.id);
+        if (product) product.stock = d.replayed!;
+      } else {
+        const customer = newData.customers.find(c => c.id === d.id);
+        if (customer) customer[d.field as keyof CustomerTotals] = d.field === 'totalPurchases' ? money.round(d.replayed!, newData.currency) : d.replayed!;
+      }
+    });
+
+    newData.logs = [
+      createLog('AGGREGATES_RECOMPUTED', 'system', `Corrected ${discrepancies.length} values from history: ${discrepancies.map(d => `${d.name} ${d.field} ${d.stored} -> ${d.replayed}`).join(', ')}`),
+      ...newData.logs
+    ].slice(0, 5000);
+    return newData;
+  },
+
+  // --- INTEGRITY ---
+  /**
+   * Applies the guided repairs for the given integrity issues. The ledger is scanned again first,
+   * so an issue that has since been fixed, or has no repair, is skipped. Each repair is logged.
+   */
+  repairIntegrity: (currentData: AppData, issueIds: string[], employeeId: string): AppData => {
+    const requested = new Set(issueIds);
+    const issues = scanIntegrity(currentData).filter(i => i.repair && requested.has(i.id));
+    if (issues.length === 0) throw new Error("None of the selected issues can be repaired any more.");
+
+    let newData: AppData = JSON.parse(JSON.stringify(currentData));
+    const repairLogs: LogEntry[] = [];
+
+    issues.forEach(issue => {
+      const id = issue.recordId;
+      switch (issue.repair) {
+        case 'clamp_stock':
+          newData = TwinXOps.adjustStock(newData, id!, 0, 'Integrity repair: negative stock', employeeId);
+          break;
+        case 'clamp_customer_totals': {
+          const customer = newData.customers.find(c => c.id === id)!;
+          customer.totalPurchases = Math.max(0, customer.totalPurchases);
+          customer.invoiceCount = Math.max(0, customer.invoiceCount);
+          customer.totalPoints = Math.max(0, customer.totalPoints || 0);
+          break;
+        }
+        case 'unlink_customer':
+          delete newData.sales.find(s => s.id === id)!.customerId;
+          break;
+        case 'unlink_driver':
+          delete newData.sales.find(s => s.id === id)!.driverId;
+          break;
+        case 'unlink_draft_customer':
+          delete newData.drafts.find(d => d.id === id)!.customerId;
+          break;
+        case 'remove_orphan_return':
+          newData.returns = newData.returns.filter(r => r.id !== id);
+          break;
+        case 'restore_partner': {
+          const trans = newData.wholesaleTransactions.find(t => t.id === id)!;
+          if (!newData.partners.some(p => p.id === trans.partnerId)) {
+            newData.partners.push({
+              id: trans.partnerId,
+              name: `Recovered partner ${trans.partnerId.split('-')[0]}`,
+              contact: '',
+              type: trans.type === 'purchase' ? 'supplier' : 'buyer',
+              createdAt: trans.timestamp
+            });
+          }
+          break;
+        }
+        case 'sync_returned_quantity': {
+          const sale = newData.sales.find(s => s.id === id)!;
+          const returned = new Map<string, number>();
+          newData.returns.filter(r => r.saleId === sale.id).forEach(r => r.items.forEach(i => returned.set(i.productId, (returned.get(i.productId) || 0) + i.quantity)));
+          sale.items.forEach(item => { item.returnedQuantity = returned.get(item.id) || 0; });
+          break;
+        }
+        case 'close_extra_shifts': {
+          const open = newData.shifts.filter(s => s.status === 'open').sort((a, b) => b.startTime - a.startTime);
+          open.slice(1).forEach(s => {
+            s.status = 'closed';
+            s.endTime = Date.now();
+            s.notes = [s.notes, 'Closed by integrity repair'].filter(Boolean).join(' - ');
+          });
+          break;
+        }
+        case 'add_category': {
+          const product = newData.products.find(p => p.id === id)!;
+          if (!newData.categories.includes(product.category)) newData.categories.push(product.category);
+          break;
+        }
+      }
+      repairLogs.unshift(createLog('INTEGRITY_REPAIRED', 'system', `${REPAIR_LABELS[issue.repair!].en}: ${issue.message} (by ${employeeId})`));
+    });
+
+    newData.logs = [...repairLogs, ...newData.logs].slice(0, 5000);
     return newData;
   }
 };
@@ -0,0 +1,83 @@
+
+import { describe, it, expect } from 'vitest';
+import { AppData, OverrideApproval } from '../types';
+import { executeCommand } from './commands';
+import { SYSTEM_ADMIN, operatorFor } from './permissions';
+import { hashPin } from './staffAuth';
+import { OverrideRequiredError, restrictionFor } from './overrides';
+import { makeLedger, makeEmployee, cartLine, PRODUCT_ID, EMPLOYEE_ID } from './operations.fixtures';
+
+const MANAGER_ID = 'emp-2';
+
+const securedLedger = async (): Promise<AppData> => {
+  const pin = await hashPin('1234');
+  const data = makeLedger({
+    employees: [
+      makeEmployee({ pin }),
+      makeEmployee({ id: MANAGER_ID, name: 'Salma', role: 'manager', pin, permissions: { canDeleteInvoice: true, canApplyDiscount: true, canViewReports: true, canManageStaff: false, canEditInventory: false, canSubmitEInvoices: false } })
+    ]
+  });
+  const sold = executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [cartLine(data, PRODUCT_ID, 2)] } });
+  return { ...sold, adminPin: pin };
+};
+
+const approval = (overrides: Partial<OverrideApproval> = {}): OverrideApproval => ({
+  action: 'delete_invoice',
+  approverId: MANAGER_ID,
+  approverName: 'Salma',
+  reason: 'Duplicate ring-up',
+  timestamp: 0,
+  ...overrides
+});
+
+describe('manager overrides', () => {
+  it('asks for nothing while staff sign-in is off', () => {
+    const data = makeLedger();
+    expect(restrictionFor(data, { type: 'DELETE_SALE', saleId: 'x' }, SYSTEM_ADMIN)).toBeUndefined();
+  });
+
+  it('refuses an invoice deletion without an approval, even for the administrator', async () => {
+    const data = await securedLedger();
+    const saleId = data.sales[0].id;
+    expect(() => executeCommand(data, { type: 'DELETE_SALE', saleId })).toThrow(OverrideRequiredError);
+  });
+
+  it('keeps the approver and reason in the audit log and on cancelled deliveries', async () => {
+    const data = await securedLedger();
+    const cashier = operatorFor(data, EMPLOYEE_ID)!;
+    const saleId = data.sales[0].id;
+
+    const deleted = executeCommand(data, { type: 'DELETE_SALE', saleId, override: approval() }, cashier);
+    expect(deleted.sales.some(s => s.id === saleId)).toBe(false);
+    const log = deleted.logs.find(l => l.action === 'OVERRIDE_APPROVED')!;
+    expect(log.actorId).toBe(MANAGER_ID);
+    expect(log.details).toContain('Duplicate ring-up');
+
+    const delivery = executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [cartLine(data, PRODUCT_ID, 1)], isDelivery: true, status: 'pending' } });
+    const orderId = delivery.sales[0].id;
+    expect(() => executeCommand(delivery, { type: 'UPDATE_DELIVERY_STATUS', saleId: orderId, status: 'cancelled' }, cashier)).toThrow(OverrideRequiredError);
+    const cancelled = executeCommand(delivery, { type: 'UPDATE_DELIVERY_STATUS', saleId: orderId, status: 'cancelled', override: approval({ action: 'cancel_delivery', reason: 'Customer unreachable' }) }, cashier);
+    expect(cancelled.sales[0].overrides).toEqual([expect.objectContaining({ approverId: MANAGER_ID, reason: 'Customer unreachable' })]);
+  });
+
+  it('lets only a manager holding the permission approve, and only with a reason', async () => {
+    const data = await securedLedger();
+    const saleId = data.sales[0].id;
+    expect(() => executeCommand(data, { type: 'DELETE_SALE', saleId, override: approval({ approverId: EMPLOYEE_ID, approverName: 'Karim' }) })).toThrow(/cannot approve/);
+    expect(() => executeCommand(data, { type: 'DELETE_SALE', saleId, override: approval({ reason: ' ' }) })).toThrow(/needs a reason/);
+    expect(() => executeCommand(data, { type: 'DELETE_SALE', saleId, override: approval({ action: 'discount' }) })).toThrow(/does not cover/);
+  });
+
+  it('sends discounts above the limit to a manager', async () => {
+    const data = await securedLedger();
+    const manager = operatorFor(data, MANAGER_ID)!;
+    const line = (discount: number) => ({ ...cartLine(data, PRODUCT_ID, 1), discount, discountType: 'percentage' as const });
+
+    expect(restrictionFor(data, { type: 'RETAIL_SALE', sale: { items: [line(10)] } }, manager)).toBeUndefined();
+    expect(restrictionFor(data, { type: 'RETAIL_SALE', sale: { items: [line(10)] } }, operatorFor(data, EMPLOYEE_ID)!)).toEqual({ action: 'discount', permission: 'canApplyDiscount' });
+    expect(() => executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [line(50)] } }, manager)).toThrow(OverrideRequiredError);
+
+    const sold = executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [line(50)] }, override: approval({ action: 'discount', reason: 'Damaged box' }) }, manager);
+    expect(sold.sales[0].overrides?.[0]).toMatchObject({ action: 'discount', approverName: 'Salma' });
+  });
+});
@@ -0,0 +1,154 @@
+
+import { AppData, CartItem, OverrideAction, OverrideApproval, Sale } from '../types';
+import { LedgerCommand } from './commands';
+import { createLog, lineDiscountOf } from './operations';
+import { Operator, Permission, authorize, hasPermission, operatorFor, requiredPermissions } from './permissions';
+import { isSignInEnabled, pinFor, signInOperators } from './staffAuth';
+import { money } from './money';
+
+/**
+ * Manager Overrides
+ * Some actions need a second pair of eyes: deleting an invoice, cancelling a delivery, a
+ * discount above the limit (or any discount by someone not allowed to give one) and a hand-edited
+ * wholesale price. With staff sign-in on, such a command only goes through carrying the approval
+ * of a manager or admin who holds the matching permission; the approval is kept on the affected
+ * record and in the audit log. The approver's PIN is checked by the prompt at the till before
+ * the command is dispatched, since hashing is asynchronous and commands are not.
+ */
+
+export const DEFAULT_OVERRIDE_DISCOUNT_PERCENT = 20;
+
+export interface OverrideRestriction {
+  action: OverrideAction;
+  permission: Permission; // What the approver must hold
+}
+
+export const OVERRIDE_LABELS: Record<OverrideAction, { en: string; ar: string }> = {
+  delete_invoice: { en: 'Delete invoice', ar: 'حذف فاتورة' },
+  cancel_delivery: { en: 'Cancel delivery', ar: 'إلغاء طلب توصيل' },
+  discount: { en: 'Discount', ar: 'خصم' },
+  price_edit: { en: 'Price change', ar: 'تعديل السعر' }
+};
+
+export class OverrideRequiredError extends Error {
+  constructor(public readonly restriction: OverrideRestriction, public readonly commandType: LedgerCommand['type']) {
+    super(`OVERRIDE_REQUIRED: ${OVERRIDE_LABELS[restriction.action].en} needs a manager's approval.`);
+    this.name = 'OverrideRequiredError';
+  }
+}
+
+export const overrideDiscountPercent = (data: Pick<AppData, 'overrideDiscountPercent'>): number =>
+  data.overrideDiscountPercent ?? DEFAULT_OVERRIDE_DISCOUNT_PERCENT;
+
+/**
+ * Share of the bill given away, line and invoice discounts together, as a percentage.
+ */
+export const discountPercent = (sale: Partial<Sale>, currency?: string): number => {
+  const items: CartItem[] = sale.items || [];
+  const gross = money.sum(items.map(i => money.multiply(i.price, i.quantity, currency)), currency);
+  if (gross <= 0) return 0;
+  const discount = money.add(money.sum(items.map(i => lineDiscountOf(i, currency)), currency), sale.totalDiscount || 0, currency);
+  return (discount / gross) * 100;
+};
+
+/**
+ * Managers and admins holding the permission may approve; cashiers never approve, even their own.
+ */
+export const canApprove = (operator: Operator, permission: Permission): boolean =>
+  (operator.role === 'admin' || operator.role === 'manager') && hasPermission(operator, permission);
+
+export const approversFor = (data: Pick<AppData, 'adminPin' | 'employees'>, permission: Permission): Operator[] =>
+  signInOperators(data).filter(o => canApprove(o, permission));
+
+/**
+ * The approval a command needs before it may run, if any. Nothing needs one while sign-in is off.
+ */
+export const restrictionFor = (data: AppData, command: LedgerCommand, operator: Operator): OverrideRestriction | undefined => {
+  if (!isSignInEnabled(data)) return undefined;
+  switch (command.type) {
+    case 'DELETE_SALE':
+      return { action: 'delete_invoice', permission: 'canDeleteInvoice' };
+    case 'UPDATE_DELIVERY_STATUS': {
+      const sale = data.sales.find(s => s.id === command.saleId);
+      return command.status === 'cancelled' && sale?.status !== 'cancelled' ? { action: 'cancel_delivery', permission: 'canDeleteInvoice' } : undefined;
+    }
+    case 'RETAIL_SALE': {
+      const percent = discountPercent(command.sale, data.currency);
+      if (percent <= 0) return undefined;
+      return !hasPermission(operator, 'canApplyDiscount') || percent > overrideDiscountPercent(data)
+        ? { action: 'discount', permission: 'canApplyDiscount' }
+        : undefined;
+    }
+    case 'WHOLESALE_TRANSACTION': {
+      const { type, items } = command.transaction;
+      const edited = items.some(item => {
+        const product = data.products.find(p => p.id === item.productId);
+        return !!product && item.unitPrice !== (type === 'purchase' ? product.costPrice : product.price);
+      });
+      return edited ? { action: 'price_edit', permission: type === 'purchase' ? 'canEditInventory' : 'canApplyDiscount' } : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+const approvalOf = (command: LedgerCommand): OverrideApproval | undefined =>
+  'override' in command ? command.override : undefined;
+
+/**
+ * Permission check for every command. Commands that need an approval must carry a valid one,
+ * and a valid approval stands in for permissions the operator lacks. Returns the approval used.
+ */
+export const authorizeWithOverride = (data: AppData, command: LedgerCommand, operator: Operator): OverrideApproval | undefined => {
+  const restriction = restrictionFor(data, command, operator);
+  const approval = approvalOf(command);
+  if (!approval) {
+    authorize(operator, command);
+    if (restriction) throw new OverrideRequiredError(restriction, command.type);
+    return undefined;
+  }
+
+  if (!restriction || approval.action !== restriction.action) throw new Error("This approval does not cover this action.");
+  if (!approval.reason.trim()) throw new Error("A manager override needs a reason.");
+  const approver = operatorFor(data, approval.approverId);
+  const needed = [restriction.permission, ...requiredPermissions(command)];
+  if (!approver || !pinFor(data, approver.id) || needed.some(p => !canApprove(approver, p))) {
+    throw new Error(`${approval.approverName} cannot approve: ${OVERRIDE_LABELS[restriction.action].en.toLowerCase()}.`);
+  }
+  return approval;
+};
+
+/**
+ * Keeps the approval on the record it covered and logs it under the approver's name, just
+ * below the entries the command itself wrote.
+ */
+export const recordOverride = (before: Pick<AppData, 'sales' | 'logs'>, after: AppData, command: LedgerCommand, approval: OverrideApproval, operator: Operator): AppData => {
+  const knownSales = new Set(before.sales.map(s => s.id));
+  const withApproval = <T extends { overrides?: OverrideApproval[] }>(record: T): T => ({ ...record, overrides: [...(record.overrides || []), approval] });
+
+  let recordId: string | undefined;
+  const sales = after.sales.map(s => {
+    const covered = command.type === 'RETAIL_SALE' ? !knownSales.has(s.id) : command.type === 'UPDATE_DELIVERY_STATUS' && s.id === command.saleId;
+    if (!covered) return s;
+    recordId = s.id;
+    return withApproval(s);
+  });
+  const wholesaleTransactions = command.type === 'WHOLESALE_TRANSACTION'
+    ? after.wholesaleTransactions.map(t => t.id === command.transaction.id ? withApproval(t) : t)
+    : after.wholesaleTransactions;
+  if (command.type === 'WHOLESALE_TRANSACTION') recordId = command.transaction.id;
+  if (command.type === 'DELETE_SALE') recordId = command.saleId;
+
+  const log = {
+    ...createLog('OVERRIDE_APPROVED', 'system', `${approval.approverName} approved ${OVERRIDE_LABELS[approval.action].en.toLowerCase()} on ${recordId?.split('-')[0] || '---'} for ${operator.name}: ${approval.reason}`),
+    actorId: approval.approverId
+  };
+  const knownLogs = new Set(before.logs.map(l => l.id));
+  const written = after.logs.filter(l => !knownLogs.has(l.id));
+  return {
+    ...after,
+    sales,
+    wholesaleTransactions,
+    logs: [...written, log, ...after.logs.slice(written.length)].slice(0, 5000)
+  };
+};
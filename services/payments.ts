@@ -0,0 +1,99 @@
+
+import { AppData, PaymentMethod, Sale, SalePayment } from '../types';
+import { money } from './money';
+
+/**
+ * Tender
+ * A retail bill may be settled across several methods. Cash may be handed over above what is
+ * due and the difference is given back as change; cards and mobile wallets are charged the
+ * exact amount. Only cash goes into the drawer, the rest settles to the bank.
+ */
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'vodafone_cash', 'instapay'];
+
+export const PAYMENT_LABELS: Record<PaymentMethod, { en: string; ar: string }> = {
+  cash: { en: 'Cash', ar: 'نقدي' },
+  card: { en: 'Card', ar: 'بطاقة' },
+  vodafone_cash: { en: 'Vodafone Cash', ar: 'فودافون كاش' },
+  instapay: { en: 'InstaPay', ar: 'إنستاباي' }
+};
+
+export interface Tender {
+  payments: SalePayment[];
+  paid: number;
+  change: number;
+}
+
+/**
+ * Applies what the customer handed over to a bill of `total`. Cash comes back as a single entry
+ * net of change, carrying the amount tendered when change was given.
+ */
+export const settleTender = (total: number, tendered: SalePayment[], currency?: string): Tender => {
+  for (const payment of tendered) {
+    if (!PAYMENT_METHODS.includes(payment.method)) throw new Error(`Unknown payment method: ${payment.method}.`);
+    if (!Number.isFinite(payment.amount) || payment.amount < 0) throw new Error("Payment amounts cannot be negative.");
+  }
+  const entries = tendered
+    .map((p): SalePayment => {
+      const reference = p.reference?.trim();
+      return { method: p.method, amount: money.round(p.amount, currency), ...(reference ? { reference } : {}) };
+    })
+    .filter(p => p.amount > 0);
+
+  const nonCash = entries.filter(p => p.method !== 'cash');
+  const nonCashTotal = money.sum(nonCash.map(p => p.amount), currency);
+  if (nonCashTotal > total) throw new Error("Card and wallet payments cannot be more than the bill.");
+
+  const cashTendered = money.sum(entries.filter(p => p.method === 'cash').map(p => p.amount), currency);
+  const cash = Math.min(cashTendered, money.subtract(total, nonCashTotal, currency));
+  const change = money.subtract(cashTendered, cash, currency);
+  const cashEntry: SalePayment[] = cash > 0 ? [change > 0 ? { method: 'cash', amount: cash, tendered: cashTendered } : { method: 'cash', amount: cash }] : [];
+
+  return { payments: [...cashEntry, ...nonCash], paid: money.add(cash, nonCashTotal, currency), change };
+};
+
+/**
+ * What was collected on account after the sale.
+ */
+export const collectedOf = (sale: Pick<Sale, 'collections'>, currency?: string): number =>
+  money.sum((sale.collections || []).map(c => c.amount), currency);
+
+/**
+ * How a sale was paid at the till. Sales from before split tender were paid in cash.
+ */
+export const paymentsOf = (sale: Pick<Sale, 'payments' | 'paidAmount' | 'collections'>): SalePayment[] => {
+  if (sale.payments) return sale.payments;
+  const paidAtTill = money.subtract(sale.paidAmount || 0, collectedOf(sale));
+  return paidAtTill > 0 ? [{ method: 'cash', amount: paidAtTill }] : [];
+};
+
+export const changeOf = (sale: Pick<Sale, 'payments'>, currency?: string): number =>
+  money.sum((sale.payments || []).map(p => p.tendered ? money.subtract(p.tendered, p.amount, currency) : 0), currency);
+
+// Cash taken for a sale, at the till and collected since
+export const cashPaidOf = (sale: Pick<Sale, 'payments' | 'paidAmount' | 'collections'>, currency?: string): number =>
+  money.sum([...paymentsOf(sale), ...(sale.collections || [])].filter(p => p.method === 'cash').map(p => p.amount), currency);
+
+/**
+ * Money taken by each method over completed and delivered sales; a pending delivery's money is
+ * still with the driver and a cancelled sale took none.
+ */
+export const paymentTotals = (sales: Sale[], currency?: string): Record<PaymentMethod, number> => {
+  const totals = Object.fromEntries(PAYMENT_METHODS.map(m => [m, 0])) as Record<PaymentMethod, number>;
+  sales
+    .filter(sale => sale.status === 'completed' || sale.status === 'delivered')
+    .forEach(sale => paymentsOf(sale).forEach(p => { totals[p.method] = money.add(totals[p.method], p.amount, currency); }));
+  return totals;
+};
+
+/**
+ * Takings of a shift by method: its own sales, plus what was collected on account during it.
+ */
+export const shiftPaymentTotals = (data: Pick<AppData, 'sales' | 'currency'>, shiftId: string): Record<PaymentMethod, number> => {
+  const totals = paymentTotals(data.sales.filter(s => s.shiftId === shiftId), data.currency);
+  data.sales
+    .filter(sale => sale.status === 'completed' || sale.status === 'delivered')
+    .flatMap(sale => (sale.collections || []).filter(c => c.shiftId === shiftId))
+    .forEach(c => { totals[c.method] = money.add(totals[c.method], c.amount, data.currency); });
+  return totals;
+};
@@ -0,0 +1,79 @@
+
+import { describe, it, expect } from 'vitest';
+import { executeCommand, LedgerCommand } from './commands';
+import { SYSTEM_ADMIN, PermissionDeniedError, operatorFor, hasPermission, recordDenial, requiredPermissions } from './permissions';
+import { makeLedger, makeEmployee, cartLine, productStock, latestSale, PRODUCT_ID, EMPLOYEE_ID } from './operations.fixtures';
+
+const cashierLedger = (permissions = {}) =>
+  makeLedger({ employees: [makeEmployee({ permissions: { ...makeEmployee().permissions, ...permissions } })] });
+
+describe('permissions', () => {
+  it('lets administrators do everything', () => {
+    const data = makeLedger();
+    const updated = executeCommand(data, { type: 'DELETE_PRODUCT', productId: PRODUCT_ID }, SYSTEM_ADMIN);
+    expect(updated.products).toHaveLength(1);
+  });
+
+  it('holds employees to their HR permissions', () => {
+    const data = cashierLedger();
+    const cashier = operatorFor(data, EMPLOYEE_ID)!;
+    expect(hasPermission(cashier, 'canEditInventory')).toBe(false);
+    expect(() => executeCommand(data, { type: 'ADJUST_STOCK', productId: PRODUCT_ID, newQuantity: 10, reason: 'Count' }, cashier))
+      .toThrow(PermissionDeniedError);
+
+    const allowed = cashierLedger({ canEditInventory: true });
+    const updated = executeCommand(allowed, { type: 'ADJUST_STOCK', productId: PRODUCT_ID, newQuantity: 10, reason: 'Count' }, operatorFor(allowed, EMPLOYEE_ID)!);
+    expect(productStock(updated)).toBe(10);
+  });
+
+  it('only asks for the discount permission when a sale is discounted', () => {
+    const data = cashierLedger();
+    const cashier = operatorFor(data, EMPLOYEE_ID)!;
+    const line = cartLine(data, PRODUCT_ID, 2);
+    expect(executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [line] } }, cashier).sales).toHaveLength(1);
+    expect(() => executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [line], totalDiscount: 2 } }, cashier)).toThrow(/apply discounts/);
+    expect(() => executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [{ ...line, discount: 10 }] } }, cashier)).toThrow(/apply discounts/);
+  });
+
+  it('keeps tax authority documents to staff allowed to submit e-invoices', () => {
+    const commands: LedgerCommand[] = [
+      { type: 'QUEUE_EDOCUMENT', kind: 'receipt', sourceId: 'sale-1' },
+      { type: 'SIGN_EDOCUMENT', documentId: 'doc-1', document: {}, signedBy: 'Token' },
+      { type: 'SET_EDOCUMENT_STATUS', documentId: 'doc-1', status: 'submitted', submissionId: 'sub-1' },
+      { type: 'DISCARD_EDOCUMENT', documentId: 'doc-1' }
+    ];
+    commands.forEach(command => expect(requiredPermissions(command)).toEqual(['canSubmitEInvoices']));
+
+    const data = cashierLedger({ canViewReports: true });
+    expect(() => executeCommand(data, commands[0], operatorFor(data, EMPLOYEE_ID)!)).toThrow(/submit e-invoices/);
+  });
+
+  it('keeps invoice edits and ledger repairs to staff allowed to change them', () => {
+    const data = cashierLedger();
+    const sold = executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [cartLine(data, PRODUCT_ID, 2)] } });
+    expect(requiredPermissions({ type: 'EDIT_SALE', sale: latestSale(sold) })).toEqual(['canDeleteInvoice']);
+    expect(requiredPermissions({ type: 'RECOMPUTE_AGGREGATES' })).toEqual(['canEditInventory']);
+    expect(requiredPermissions({ type: 'REPAIR_INTEGRITY', issueIds: [] })).toEqual(['canEditInventory']);
+    expect(() => executeCommand(data, { type: 'RECOMPUTE_AGGREGATES' }, operatorFor(data, EMPLOYEE_ID)!)).toThrow(PermissionDeniedError);
+  });
+
+  it('gives inactive or unknown employees no operator', () => {
+    const data = makeLedger({ employees: [makeEmployee({ isActive: false })] });
+    expect(operatorFor(data, EMPLOYEE_ID)).toBeUndefined();
+    expect(operatorFor(data, 'missing')).toBeUndefined();
+  });
+
+  it('records a refusal in the audit log and changes nothing else', () => {
+    const data = cashierLedger();
+    const cashier = operatorFor(data, EMPLOYEE_ID)!;
+    try {
+      executeCommand(data, { type: 'DELETE_SALE', saleId: 'any' }, cashier);
+      throw new Error('expected a refusal');
+    } catch (err) {
+      const logged = recordDenial(data, err as PermissionDeniedError);
+      expect(logged.logs[0]).toMatchObject({ action: 'PERMISSION_DENIED', category: 'system' });
+      expect(logged.logs[0].details).toMatch(/DELETE_SALE/);
+      expect({ ...logged, logs: data.logs }).toEqual(data);
+    }
+  });
+});
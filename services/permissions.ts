@@ -0,0 +1,122 @@
+
+import { AppData, EmployeePermissions, Role } from '../types';
+import { LedgerCommand } from './commands';
+import { createLog } from './operations';
+
+/**
+ * Employee Permissions
+ * Decides what the person at the till may do. Admins may do everything; everyone else is held
+ * to the permissions set on their employee record in HR. Commands are checked on their way
+ * into the ledger, so a screen that forgets to hide a button still cannot slip an action past;
+ * the screens use the same checks to hide or disable what the operator cannot use.
+ */
+
+export type Permission = keyof EmployeePermissions;
+
+export interface Operator {
+  id: string; // Employee id, or SYSTEM_ADMIN for the built-in administrator
+  name: string;
+  role: Role;
+  permissions: EmployeePermissions;
+}
+
+export const SYSTEM_ADMIN: Operator = {
+  id: 'SYSTEM_ADMIN',
+  name: 'Administrator',
+  role: 'admin',
+  permissions: { canDeleteInvoice: true, canApplyDiscount: true, canViewReports: true, canManageStaff: true, canEditInventory: true, canSubmitEInvoices: true }
+};
+
+export const PERMISSION_LABELS: Record<Permission, { en: string; ar: string }> = {
+  canDeleteInvoice: { en: 'Delete invoices', ar: 'حذف الفواتير' },
+  canApplyDiscount: { en: 'Apply discounts', ar: 'تطبيق الخصومات' },
+  canViewReports: { en: 'View reports', ar: 'عرض التقارير' },
+  canManageStaff: { en: 'Manage staff', ar: 'إدارة الموظفين' },
+  canEditInventory: { en: 'Edit inventory', ar: 'تعديل المخزون' },
+  canSubmitEInvoices: { en: 'Submit e-invoices', ar: 'إصدار الفواتير الإلكترونية' }
+};
+
+export class PermissionDeniedError extends Error {
+  constructor(public readonly operator: Operator, public readonly permission: Permission, public readonly commandType: LedgerCommand['type']) {
+    super(`PERMISSION_DENIED: ${operator.name} is not allowed to ${PERMISSION_LABELS[permission].en.toLowerCase()}.`);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * What the screens show next to an action the operator cannot use.
+ */
+export const deniedMessage = (permission: Permission, lang: 'ar' | 'en'): string =>
+  lang === 'ar'
+    ? `لا تملك صلاحية ${PERMISSION_LABELS[permission].ar}`
+    : `You do not have permission to ${PERMISSION_LABELS[permission].en.toLowerCase()}`;
+
+/**
+ * The operator for an employee id. Inactive or unknown employees get no operator at all.
+ */
+export const operatorFor = (data: Pick<AppData, 'employees'>, employeeId: string): Operator | undefined => {
+  if (employeeId === SYSTEM_ADMIN.id) return SYSTEM_ADMIN;
+  const employee = data.employees.find(e => e.id === employeeId && e.isActive);
+  if (!employee) return undefined;
+  return { id: employee.id, name: employee.name, role: employee.role, permissions: employee.permissions };
+};
+
+export const hasPermission = (operator: Operator, permission: Permission): boolean =>
+  operator.role === 'admin' || !!operator.permissions?.[permission];
+
+/**
+ * Permissions a command needs. Most map one to one; a sale only needs the discount permission
+ * when it actually carries a discount. Returns need none, as cashiers take them at the counter.
+ */
+export const requiredPermissions = (command: LedgerCommand): Permission[] => {
+  switch (command.type) {
+    case 'DELETE_SALE':
+    case 'EDIT_SALE':
+      return ['canDeleteInvoice'];
+    case 'SAVE_PRODUCT':
+    case 'DELETE_PRODUCT':
+    case 'ADJUST_STOCK':
+    case 'ADD_CATEGORY':
+    case 'DELETE_CATEGORY':
+    case 'RECOMPUTE_AGGREGATES':
+    case 'REPAIR_INTEGRITY':
+      return ['canEditInventory'];
+    case 'ADD_EMPLOYEE':
+    case 'DELETE_EMPLOYEE':
+    case 'SALARY_TRANSACTION':
+    case 'SET_PIN':
+      return ['canManageStaff'];
+    case 'QUEUE_EDOCUMENT':
+    case 'SIGN_EDOCUMENT':
+    case 'SET_EDOCUMENT_STATUS':
+    case 'DISCARD_EDOCUMENT':
+      return ['canSubmitEInvoices'];
+    case 'SET_CREDIT_LIMIT':
+      return ['canApplyDiscount'];
+    case 'RETAIL_SALE': {
+      const discounted = (command.sale.totalDiscount || 0) > 0 || (command.sale.items || []).some(i => (i.discount || 0) > 0);
+      return discounted ? ['canApplyDiscount'] : [];
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Throws a PermissionDeniedError for the first permission the operator lacks.
+ */
+export const authorize = (operator: Operator, command: LedgerCommand): void => {
+  const missing = requiredPermissions(command).find(p => !hasPermission(operator, p));
+  if (missing) throw new PermissionDeniedError(operator, missing, command.type);
+};
+
+/**
+ * Records a refused action in the audit log. Nothing else in the ledger changes.
+ */
+export const recordDenial = (data: AppData, error: PermissionDeniedError): AppData => ({
+  ...data,
+  logs: [
+    { ...createLog('PERMISSION_DENIED', 'system', `${error.operator.name} (${error.operator.role}) tried ${error.commandType} without "${PERMISSION_LABELS[error.permission].en}"`), actorId: error.operator.id },
+    ...data.logs
+  ].slice(0, 5000)
+});
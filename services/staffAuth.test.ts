@@ -0,0 +1,64 @@
+
+import { describe, it, expect } from 'vitest';
+import { executeCommand } from './commands';
+import { SYSTEM_ADMIN, operatorFor } from './permissions';
+import { hashPin, verifyPin, isSignInEnabled, signInOperators, createPinGuard, MAX_PIN_ATTEMPTS, PIN_LOCKOUT_MS } from './staffAuth';
+import { makeLedger, makeEmployee, cartLine, PRODUCT_ID, EMPLOYEE_ID } from './operations.fixtures';
+
+describe('staff sign-in', () => {
+  it('keeps only a salted hash of the PIN and checks it', async () => {
+    const first = await hashPin('4821');
+    const second = await hashPin('4821');
+    expect(JSON.stringify(first)).not.toContain('4821');
+    expect(first.salt).not.toBe(second.salt);
+    expect(await verifyPin(first, '4821')).toBe(true);
+    expect(await verifyPin(first, '4822')).toBe(false);
+    await expect(hashPin('12a4')).rejects.toThrow(/4 to 8 digits/);
+  });
+
+  it('turns on with the administrator PIN and then offers staff with a PIN', async () => {
+    const data = makeLedger({ employees: [makeEmployee(), makeEmployee({ id: 'emp-2', name: 'Salma' })] });
+    const staffPin = await hashPin('1111');
+    expect(isSignInEnabled(data)).toBe(false);
+    expect(() => executeCommand(data, { type: 'SET_PIN', operatorId: EMPLOYEE_ID, pin: staffPin })).toThrow(/administrator PIN/);
+
+    const secured = executeCommand(data, { type: 'SET_PIN', operatorId: SYSTEM_ADMIN.id, pin: await hashPin('9999') });
+    const withStaff = executeCommand(secured, { type: 'SET_PIN', operatorId: EMPLOYEE_ID, pin: staffPin });
+    expect(isSignInEnabled(withStaff)).toBe(true);
+    expect(signInOperators(withStaff).map(o => o.id)).toEqual([SYSTEM_ADMIN.id, EMPLOYEE_ID]);
+    expect(() => executeCommand(withStaff, { type: 'SET_PIN', operatorId: SYSTEM_ADMIN.id, pin: null })).toThrow(/Remove staff PINs/);
+  });
+
+  it('stamps the signed-in operator on sales, shifts, stock logs and log entries', () => {
+    const data = makeLedger({ employees: [makeEmployee({ permissions: { ...makeEmployee().permissions, canEditInventory: true } })] });
+    const cashier = operatorFor(data, EMPLOYEE_ID)!;
+
+    const sold = executeCommand(data, { type: 'RETAIL_SALE', sale: { items: [cartLine(data, PRODUCT_ID, 1)] } }, cashier);
+    expect(sold.sales[0].employeeId).toBe(EMPLOYEE_ID);
+    expect(sold.logs[0].actorId).toBe(EMPLOYEE_ID);
+    expect(sold.logs.slice(1).every(l => l.actorId === undefined)).toBe(true);
+
+    const counted = executeCommand(sold, { type: 'ADJUST_STOCK', productId: PRODUCT_ID, newQuantity: 40, reason: 'Count' }, cashier);
+    expect(counted.stockLogs[0].employeeId).toBe(EMPLOYEE_ID);
+
+    const closed = executeCommand(counted, { type: 'CLOSE_SHIFT', endCash: 510 }, cashier);
+    const reopened = executeCommand(closed, { type: 'OPEN_SHIFT', startCash: 510 }, cashier);
+    expect(reopened.shifts[0].closedById).toBe(EMPLOYEE_ID);
+    expect(reopened.shifts[1]).toMatchObject({ openedBy: 'Karim', openedById: EMPLOYEE_ID, status: 'open' });
+  });
+
+  it('locks a person out after too many wrong PINs, however often the prompt is reopened', () => {
+    const guard = createPinGuard();
+    const start = 1_000_000;
+    for (let i = 1; i < MAX_PIN_ATTEMPTS; i++) expect(guard.recordFailure(EMPLOYEE_ID, start)).toEqual({ attempts: i, lockedUntil: 0 });
+    expect(guard.lockedUntil(SYSTEM_ADMIN.id, start)).toBe(0);
+
+    expect(guard.recordFailure(EMPLOYEE_ID, start)).toEqual({ attempts: MAX_PIN_ATTEMPTS, lockedUntil: start + PIN_LOCKOUT_MS });
+    expect(guard.lockedUntil(EMPLOYEE_ID, start + 1000)).toBe(start + PIN_LOCKOUT_MS);
+    expect(guard.lockedUntil(EMPLOYEE_ID, start + PIN_LOCKOUT_MS)).toBe(0);
+
+    guard.recordFailure(EMPLOYEE_ID, start + PIN_LOCKOUT_MS);
+    guard.reset(EMPLOYEE_ID);
+    expect(guard.recordFailure(EMPLOYEE_ID, start + PIN_LOCKOUT_MS).attempts).toBe(1);
+  });
+});
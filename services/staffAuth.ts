@@ -0,0 +1,91 @@
+
+import { AppData, PinCredential } from '../types';
+import { Operator, SYSTEM_ADMIN, operatorFor } from './permissions';
+
+/**
+ * Staff Sign-in
+ * Who is at the till is decided by a PIN typed on the lock screen. PINs never leave the device
+ * and are never stored: each is kept as a salted PBKDF2 hash on the employee record, or on the
+ * ledger for the built-in administrator. The lock screen switches on once the administrator has a
+ * PIN; until then the app runs as the administrator, as it always has.
+ */
+
+const PIN_ITERATIONS = 100000;
+const PIN_PATTERN = /^\d{4,8}$/;
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MS = 30 * 1000;
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (value: string): Uint8Array => new Uint8Array((value.match(/../g) || []).map(pair => parseInt(pair, 16)));
+
+const derive = async (pin: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, baseKey, 256);
+  return toHex(new Uint8Array(bits));
+};
+
+export const isValidPin = (pin: string): boolean => PIN_PATTERN.test(pin);
+
+export const hashPin = async (pin: string): Promise<PinCredential> => {
+  if (!isValidPin(pin)) throw new Error("A PIN must be 4 to 8 digits.");
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { salt: toHex(salt), hash: await derive(pin, salt, PIN_ITERATIONS), iterations: PIN_ITERATIONS };
+};
+
+export const verifyPin = async (credential: PinCredential, pin: string): Promise<boolean> => {
+  if (!isValidPin(pin)) return false;
+  const hash = await derive(pin, fromHex(credential.salt), credential.iterations);
+  // Compare every character so a near miss takes as long as a wild guess.
+  let difference = hash.length ^ credential.hash.length;
+  for (let i = 0; i < hash.length; i++) difference |= hash.charCodeAt(i) ^ credential.hash.charCodeAt(i);
+  return difference === 0;
+};
+
+export const isSignInEnabled = (data: Pick<AppData, 'adminPin'>): boolean => !!data.adminPin;
+
+export const pinFor = (data: Pick<AppData, 'adminPin' | 'employees'>, operatorId: string): PinCredential | undefined =>
+  operatorId === SYSTEM_ADMIN.id ? data.adminPin : data.employees.find(e => e.id === operatorId && e.isActive)?.pin;
+
+/**
+ * Everyone the lock screen offers: the administrator, then each active employee with a PIN.
+ */
+export const signInOperators = (data: Pick<AppData, 'adminPin' | 'employees'>): Operator[] => [
+  ...(data.adminPin ? [SYSTEM_ADMIN] : []),
+  ...data.employees.filter(e => e.isActive && e.pin).map(e => operatorFor(data, e.id)!)
+];
+
+export const autoLockMinutes = (data: Pick<AppData, 'autoLockMinutes'>): number =>
+  data.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+
+export interface PinFailure {
+  attempts: number; // This failure's place in the current run, 1 to MAX_PIN_ATTEMPTS
+  lockedUntil: number; // Set once the run reaches MAX_PIN_ATTEMPTS
+}
+
+/**
+ * Counts wrong PINs per person. The lock screen and the override prompt share one guard, so
+ * closing a prompt and opening it again neither resets the count nor lifts a lockout.
+ */
+export const createPinGuard = () => {
+  const failures = new Map<string, { attempts: number; lockedUntil: number }>();
+  return {
+    lockedUntil: (operatorId: string, now = Date.now()): number => {
+      const lockedUntil = failures.get(operatorId)?.lockedUntil || 0;
+      return lockedUntil > now ? lockedUntil : 0;
+    },
+    recordFailure: (operatorId: string, now = Date.now()): PinFailure => {
+      const attempts = (failures.get(operatorId)?.attempts || 0) + 1;
+      const lockedUntil = attempts >= MAX_PIN_ATTEMPTS ? now + PIN_LOCKOUT_MS : 0;
+      failures.set(operatorId, { attempts: lockedUntil ? 0 : attempts, lockedUntil });
+      return { attempts, lockedUntil };
+    },
+    reset: (operatorId: string) => {
+      failures.delete(operatorId);
+    }
+  };
+};
+
+export const pinGuard = createPinGuard();
@@ -1,118 +1,429 @@
 
 import { AppData } from '../types';
+import { createEmptyLedger, migrateLedger } from './migrations';
+import { encryptBackup, decryptBackup, isEncryptedBackup } from './backupCrypto';
 
-const STORAGE_KEY = 'twinx_pos_data';
+/**
+ * Ledger persistence backed by IndexedDB.
+ * Every AppData collection lives in its own object store, so a save only
+ * rewrites the records that changed since the last commit.
+ * Tabs share the database: each commit bumps a revision number, a tab whose revision is
+ * behind cannot write, and other tabs are told to reload after every commit.
+ */
 
-export const storageService = {
-  loadData: (): AppData => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        return {
-          products: parsed.products || [],
-          sales: parsed.sales || [],
-          expenses: parsed.expenses || [],
-          returns: parsed.returns || [],
-          drafts: parsed.drafts || [],
-          logs: parsed.logs || [],
-          partners: parsed.partners || [],
-          wholesaleTransactions: parsed.wholesaleTransactions || [],
-          drivers: parsed.drivers || [],
-          customers: parsed.customers || [],
-          employees: parsed.employees || [],
-          attendance: parsed.attendance || [],
-          salaryTransactions: parsed.salaryTransactions || [],
-          categories: parsed.categories || [],
-          stockLogs: parsed.stockLogs || [],
-          shifts: parsed.shifts || [],
-          initialCash: parsed.initialCash || 0,
-          draftExpiryMinutes: parsed.draftExpiryMinutes || 120,
-          lastBackupTimestamp: parsed.lastBackupTimestamp,
-          currency: parsed.currency || 'EGP'
-        };
-      } catch (e) {
-        console.error("Failed to parse storage data", e);
+const DB_NAME = 'twinx_pos';
+const DB_VERSION = 3;
+const META_STORE = 'meta';
+const LEGACY_STORAGE_KEY = 'twinx_pos_data';
+const REVISION_KEY = 'revision';
+const SYNC_CHANNEL = 'twinx_ledger_sync';
+const SYNC_STORAGE_KEY = 'twinx_ledger_revision';
+const TAB_ID = crypto.randomUUID();
+
+// Tags ledger objects with the load they derive from. Symbols survive spreads but never reach JSON or IndexedDB,
+// so copies made by JSON cloning lose the tag and must be saved together with the ledger they came from.
+const LOAD_GENERATION = Symbol('ledgerLoadGeneration');
+type TaggedLedger = AppData & { [LOAD_GENERATION]?: number };
+
+export type LedgerChangeReason = 'remote' | 'conflict';
+type LedgerListener = (data: AppData, reason: LedgerChangeReason) => void;
+
+export class StaleLedgerError extends Error {
+  constructor() {
+    super("Another tab saved newer data. This tab's change was not written.");
+    this.name = 'StaleLedgerError';
+  }
+}
+
+interface CollectionConfig {
+  indexes: string[];
+  // Field used to restore array order on load. Collections without one keep an explicit id order in META_STORE.
+  orderBy?: { field: string; direction: 'asc' | 'desc' };
+}
+
+const COLLECTIONS = {
+  products: { indexes: ['category', 'barcode'] },
+  sales: { indexes: ['timestamp', 'customerId', 'shiftId', 'status'], orderBy: { field: 'timestamp', direction: 'desc' } },
+  expenses: { indexes: ['timestamp'], orderBy: { field: 'timestamp', direction: 'asc' } },
+  returns: { indexes: ['timestamp', 'saleId'], orderBy: { field: 'timestamp', direction: 'desc' } },
+  drafts: { indexes: ['timestamp', 'customerId'], orderBy: { field: 'timestamp', direction: 'desc' } },
+  logs: { indexes: ['timestamp', 'category'], orderBy: { field: 'timestamp', direction: 'desc' } },
+  partners: { indexes: ['type'], orderBy: { field: 'createdAt', direction: 'asc' } },
+  wholesaleTransactions: { indexes: ['timestamp', 'partnerId'], orderBy: { field: 'timestamp', direction: 'desc' } },
+  drivers: { indexes: [] },
+  customers: { indexes: ['phone'] },
+  employees: { indexes: [] },
+  attendance: { indexes: ['timestamp', 'employeeId', 'date'], orderBy: { field: 'timestamp', direction: 'asc' } },
+  salaryTransactions: { indexes: ['timestamp', 'employeeId'], orderBy: { field: 'timestamp', direction: 'asc' } },
+  stockLogs: { indexes: ['timestamp', 'productId'], orderBy: { field: 'timestamp', direction: 'desc' } },
+  shifts: { indexes: ['startTime', 'status'], orderBy: { field: 'startTime', direction: 'asc' } },
+  events: { indexes: ['timestamp', 'type', 'refId'], orderBy: { field: 'sequence', direction: 'desc' } },
+  eDocuments: { indexes: ['timestamp', 'status', 'sourceId'], orderBy: { field: 'timestamp', direction: 'desc' } },
+} satisfies Partial<Record<keyof AppData, CollectionConfig>>;
+
+type CollectionKey = keyof typeof COLLECTIONS;
+type MetaKey = Exclude<keyof AppData, CollectionKey>;
+type LedgerRecord = { id: string } & Record<string, any>;
+
+const COLLECTION_KEYS = Object.keys(COLLECTIONS) as CollectionKey[];
+const META_KEYS: MetaKey[] = ['schemaVersion', 'categories', 'initialCash', 'draftExpiryMinutes', 'lastBackupTimestamp', 'autoBackupIntervalMinutes', 'autoBackupRetention', 'archivedThrough', 'currency', 'adminPin', 'autoLockMinutes', 'overrideDiscountPercent', 'taxRates', 'defaultTaxRateId', 'categoryTaxRates', 'pricesIncludeTax', 'etaIssuer'];
+const orderKey = (collection: CollectionKey) => `order:${collection}`;
+
+// Serialized copy of what is currently committed, keyed by store name then record id.
+const committed = new Map<string, Map<string, string>>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+let knownRevision = 0;
+let loadGeneration = 0;
+const listeners = new Set<LedgerListener>();
+let channel: BroadcastChannel | null = null;
+let syncStarted = false;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of COLLECTION_KEYS) {
+          if (db.objectStoreNames.contains(name)) continue;
+          const store = db.createObjectStore(name, { keyPath: 'id' });
+          (COLLECTIONS[name] as CollectionConfig).indexes.forEach(field => store.createIndex(field, field));
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Writes only the records whose serialized form differs from the committed copy,
+ * and deletes records that are no longer present. All stores share one transaction.
+ * The transaction aborts with StaleLedgerError if another tab committed since this tab last read.
+ */
+const writeChanges = async (db: IDBDatabase, data: AppData): Promise<void> => {
+  const tx = db.transaction([...COLLECTION_KEYS, META_STORE], 'readwrite');
+  const meta = tx.objectStore(META_STORE);
+  const nextCommitted = new Map<string, Map<string, string>>();
+  const nextMeta = new Map(committed.get(META_STORE) || []);
+  let changed = false;
+  let stale = false;
+
+  // IndexedDB serializes overlapping readwrite transactions across tabs, so this check-then-write is atomic.
+  const revisionRequest = meta.get(REVISION_KEY);
+  revisionRequest.onsuccess = () => {
+    if ((revisionRequest.result || 0) !== knownRevision) {
+      stale = true;
+      tx.abort();
+    }
+  };
+
+  const putMeta = (key: string, value: unknown) => {
+    const serialized = JSON.stringify(value);
+    if (nextMeta.get(key) === serialized) return;
+    changed = true;
+    if (value === undefined) {
+      meta.delete(key);
+      nextMeta.delete(key);
+    } else {
+      meta.put(value, key);
+      nextMeta.set(key, serialized);
+    }
+  };
+
+  for (const name of COLLECTION_KEYS) {
+    const store = tx.objectStore(name);
+    const previous = committed.get(name) || new Map<string, string>();
+    const next = new Map<string, string>();
+    const records = (data[name] || []) as unknown as LedgerRecord[];
+
+    for (const record of records) {
+      const serialized = JSON.stringify(record);
+      next.set(record.id, serialized);
+      if (previous.get(record.id) !== serialized) {
+        store.put(record);
+        changed = true;
       }
     }
-    // Default initial data structure
-    return {
-      products: [],
-      sales: [],
-      expenses: [],
-      returns: [],
-      drafts: [],
-      logs: [],
-      partners: [],
-      wholesaleTransactions: [],
-      drivers: [],
-      customers: [],
-      employees: [],
-      attendance: [],
-      salaryTransactions: [],
-      categories: [],
-      stockLogs: [],
-      shifts: [],
-      initialCash: 0,
-      draftExpiryMinutes: 120,
-      currency: 'EGP'
+    previous.forEach((_, id) => {
+      if (next.has(id)) return;
+      store.delete(id);
+      changed = true;
+    });
+    nextCommitted.set(name, next);
+
+    if (!(COLLECTIONS[name] as CollectionConfig).orderBy) {
+      putMeta(orderKey(name), records.map(r => r.id));
+    }
+  }
+
+  META_KEYS.forEach(key => putMeta(key, data[key]));
+  if (changed) meta.put(knownRevision + 1, REVISION_KEY);
+
+  try {
+    await transactionDone(tx);
+  } catch (e) {
+    if (stale) throw new StaleLedgerError();
+    throw e;
+  }
+  nextCommitted.forEach((records, name) => committed.set(name, records));
+  committed.set(META_STORE, nextMeta);
+  if (changed) {
+    knownRevision += 1;
+    announceCommit();
+  }
+};
+
+// --- CROSS-TAB SYNC ---
+
+const announceCommit = () => {
+  const message = { tabId: TAB_ID, revision: knownRevision };
+  if (channel) {
+    channel.postMessage(message);
+  } else if (typeof BroadcastChannel === 'undefined') {
+    localStorage.setItem(SYNC_STORAGE_KEY, JSON.stringify(message));
+  }
+};
+
+const markGeneration = (data: TaggedLedger, generation = loadGeneration): AppData => {
+  data[LOAD_GENERATION] = generation;
+  return data;
+};
+
+// Ledgers that never came from a load (imports, resets) belong to the current generation.
+const generationOf = (data: TaggedLedger): number => data[LOAD_GENERATION] ?? loadGeneration;
+
+/**
+ * Re-reads the ledger after another tab committed (or after this tab lost a write race)
+ * and hands the fresh copy to subscribers. Saves queued from older copies are then dropped.
+ */
+const refreshFromDisk = async (reason: LedgerChangeReason): Promise<void> => {
+  const db = await openDatabase();
+  const storedRevision = await requestResult(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(REVISION_KEY));
+  if (reason === 'remote' && (storedRevision || 0) === knownRevision) return;
+  const data = await readLedger(db);
+  loadGeneration += 1;
+  listeners.forEach(listener => listener(markGeneration(data), reason));
+};
+
+const reloadLedger = (reason: LedgerChangeReason): Promise<void> => {
+  writeQueue = writeQueue
+    .then(() => refreshFromDisk(reason))
+    .catch(e => console.error("Failed to reload ledger", e));
+  return writeQueue;
+};
+
+const handleRemoteCommit = (message: { tabId?: string } | null) => {
+  if (message && message.tabId !== TAB_ID) reloadLedger('remote');
+};
+
+const startSync = () => {
+  syncStarted = true;
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(SYNC_CHANNEL);
+    channel.onmessage = (event) => handleRemoteCommit(event.data);
+  } else {
+    window.addEventListener('storage', (event) => {
+      if (event.key === SYNC_STORAGE_KEY && event.newValue) handleRemoteCommit(JSON.parse(event.newValue));
+    });
+  }
+};
+
+const sortRecords = (name: CollectionKey, records: LedgerRecord[], idOrder?: string[]): LedgerRecord[] => {
+  const { orderBy } = COLLECTIONS[name] as CollectionConfig;
+  if (orderBy) {
+    const sign = orderBy.direction === 'asc' ? 1 : -1;
+    return [...records].sort((a, b) => sign * ((a[orderBy.field] || 0) - (b[orderBy.field] || 0)));
+  }
+  if (!idOrder) return records;
+  const position = new Map(idOrder.map((id, i) => [id, i]));
+  return [...records].sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+};
+
+/**
+ * One-time move of the old single-blob localStorage ledger into IndexedDB.
+ * The legacy key is only removed once the IndexedDB transaction has committed,
+ * so a failed upgrade leaves the original data untouched.
+ */
+const migrateLegacyStorage = async (db: IDBDatabase): Promise<void> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(saved);
+  } catch {
+    throw new Error("The previous ledger in browser storage is corrupted and could not be read.");
+  }
+  await writeChanges(db, migrateLedger(parsed));
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+/**
+ * Reads every store and upgrades the result to the current schema, persisting the upgrade.
+ * Resets the committed copy and the known revision to what is on disk.
+ */
+const readLedger = async (db: IDBDatabase): Promise<AppData> => {
+  const tx = db.transaction([...COLLECTION_KEYS, META_STORE], 'readonly');
+  const meta = tx.objectStore(META_STORE);
+  const [metaKeys, metaValues, ...collections] = await Promise.all([
+    requestResult(meta.getAllKeys()),
+    requestResult(meta.getAll()),
+    ...COLLECTION_KEYS.map(name => requestResult(tx.objectStore(name).getAll()))
+  ]);
+  const metaEntries = new Map(metaKeys.map((key, i) => [String(key), metaValues[i]]));
+
+  const stored: Record<string, any> = {};
+  COLLECTION_KEYS.forEach((name, i) => {
+    const records = collections[i] as LedgerRecord[];
+    stored[name] = sortRecords(name, records, metaEntries.get(orderKey(name)));
+    committed.set(name, new Map(records.map(r => [r.id, JSON.stringify(r)])));
+  });
+  META_KEYS.forEach(key => {
+    if (metaEntries.has(key)) stored[key] = metaEntries.get(key);
+  });
+  committed.set(META_STORE, new Map([...metaEntries].map(([key, value]) => [key, JSON.stringify(value)])));
+  knownRevision = metaEntries.get(REVISION_KEY) || 0;
+
+  if (metaEntries.size === 0 && collections.every(records => records.length === 0)) {
+    return createEmptyLedger();
+  }
+
+  const data = migrateLedger(stored);
+  if (data.schemaVersion !== stored.schemaVersion) {
+    await writeChanges(db, data);
+  }
+  return data;
+};
+
+export const storageService = {
+  /**
+   * Loads the ledger and upgrades it to the current schema, persisting the result.
+   * Rejects with a LedgerMigrationError when the stored data cannot be upgraded.
+   */
+  loadData: async (): Promise<AppData> => {
+    const db = await openDatabase();
+    await migrateLegacyStorage(db);
+    const data = await readLedger(db);
+    loadGeneration += 1;
+    return markGeneration(data);
+  },
+
+  /**
+   * Calls `listener` with a fresh ledger whenever another tab commits, or when a save from this
+   * tab was rejected because another tab got there first. Returns an unsubscribe function.
+   */
+  subscribe: (listener: LedgerListener): (() => void) => {
+    if (!syncStarted) startSync();
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
     };
   },
 
-  saveData: (data: AppData): void => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  /**
+   * Whether `base` is still the latest load, i.e. no reload has happened since it was read.
+   */
+  isCurrent: (base: AppData): boolean => generationOf(base) === loadGeneration,
+
+  /**
+   * Queues an incremental write of the ledger. Writes are serialized so that
+   * rapid successive updates are committed in order.
+   * `base` is the ledger the change was computed from; pass it whenever `data` is a fresh copy.
+   * Writes derived from a ledger copy older than the last reload are dropped; a write that
+   * loses a race with another tab triggers a reload with reason 'conflict'.
+   */
+  saveData: (data: AppData, base: AppData = data): Promise<void> => {
+    const generation = generationOf(base);
+    // Lets the saved copy serve as the base of the next change.
+    markGeneration(data, generation);
+
+    writeQueue = writeQueue
+      .then(async () => {
+        if (generation !== loadGeneration) {
+          console.warn("Dropped a save based on an outdated copy of the ledger");
+          return;
+        }
+        await writeChanges(await openDatabase(), data);
+      })
+      .catch(e => {
+        if (e instanceof StaleLedgerError) {
+          return refreshFromDisk('conflict').catch(err => console.error("Failed to reload ledger", err));
+        }
+        console.error("Failed to persist ledger", e);
+      });
+    return writeQueue;
   },
 
-  exportData: (data: AppData) => {
+  /**
+   * Downloads the ledger as a JSON backup. With a passphrase the file is an encrypted envelope instead.
+   * Resolves with the backup timestamp.
+   */
+  exportData: async (data: AppData, passphrase?: string): Promise<number> => {
     const backupTime = Date.now();
     const dataWithTimestamp = { ...data, lastBackupTimestamp: backupTime };
-    storageService.saveData(dataWithTimestamp);
+    storageService.saveData(dataWithTimestamp, data);
 
-    const blob = new Blob([JSON.stringify(dataWithTimestamp, null, 2)], { type: 'application/json' });
+    const content = passphrase
+      ? await encryptBackup(JSON.stringify(dataWithTimestamp), passphrase)
+      : JSON.stringify(dataWithTimestamp, null, 2);
+    const blob = new Blob([content], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     
     const dateStr = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
     link.href = url;
-    link.download = `twinx_ledger_${dateStr}.json`;
+    link.download = `twinx_ledger_${dateStr}${passphrase ? '.encrypted' : ''}.json`;
     link.click();
     URL.revokeObjectURL(url);
     
     return backupTime;
   },
 
-  importData: async (file: File): Promise<AppData | null> => {
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const content = e.target?.result as string;
-          const data = JSON.parse(content);
-          
-          if (Array.isArray(data.products) && Array.isArray(data.sales)) {
-            if (!data.logs) data.logs = [];
-            if (!data.partners) data.partners = [];
-            if (!data.wholesaleTransactions) data.wholesaleTransactions = [];
-            if (!data.drivers) data.drivers = [];
-            if (!data.customers) data.customers = [];
-            if (!data.employees) data.employees = [];
-            if (!data.attendance) data.attendance = [];
-            if (!data.salaryTransactions) data.salaryTransactions = [];
-            if (!data.categories) data.categories = [];
-            if (!data.stockLogs) data.stockLogs = [];
-            if (!data.shifts) data.shifts = [];
-            resolve(data);
-          } else {
-            console.error("Invalid ledger format: Missing required fields.");
-            resolve(null);
-          }
-        } catch (err) {
-          console.error("Import error: Corrupted JSON file", err);
-          resolve(null);
-        }
-      };
-      reader.onerror = () => resolve(null);
-      reader.readAsText(file);
-    });
+  /**
+   * Reads a JSON backup (plain or encrypted) and upgrades it to the current schema.
+   * Rejects with a readable error when the file is not JSON or cannot be migrated,
+   * and with BackupDecryptionError when an encrypted file has no or the wrong passphrase.
+   */
+  importData: async (file: File, passphrase?: string): Promise<AppData> => {
+    return storageService.parseBackup(await file.text(), passphrase);
+  },
+
+  /**
+   * Parses backup text already read from a file or archive entry. See `importData`.
+   */
+  parseBackup: async (content: string, passphrase?: string): Promise<AppData> => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error("Corrupted backup: the file is not valid JSON.");
+    }
+    if (isEncryptedBackup(parsed)) {
+      const decrypted = await decryptBackup(parsed, passphrase);
+      try {
+        parsed = JSON.parse(decrypted);
+      } catch {
+        throw new Error("Corrupted backup: the decrypted content is not valid JSON.");
+      }
+    }
+    return migrateLedger(parsed);
   }
 };
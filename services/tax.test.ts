@@ -0,0 +1,109 @@
+
+import { describe, it, expect } from 'vitest';
+import { AppData, SaleReturn } from '../types';
+import { TwinXOps, calculateRefund } from './operations';
+import { EXEMPT_TAX_ID, taxRateFor, vatSummary } from './tax';
+import { makeLedger, makeProduct, cartLine, latestSale, PRODUCT_ID, SECOND_PRODUCT_ID } from './operations.fixtures';
+
+const VAT = { id: 'vat', name: 'VAT', rate: 14 };
+const REDUCED = { id: 'reduced', name: 'Reduced', rate: 5 };
+
+const taxedLedger = (overrides: Partial<AppData> = {}): AppData =>
+  makeLedger({ taxRates: [VAT, REDUCED], defaultTaxRateId: VAT.id, ...overrides });
+
+const sell = (data: AppData, quantity = 3, productId = PRODUCT_ID) =>
+  TwinXOps.processRetailSale(data, { items: [cartLine(data, productId, quantity)] });
+
+const returnOf = (saleId: string, quantity: number): SaleReturn => ({
+  id: crypto.randomUUID(),
+  saleId,
+  timestamp: Date.now(),
+  items: [{ productId: PRODUCT_ID, quantity, refundAmount: 0 }],
+  totalRefund: 0
+});
+
+describe('tax rates', () => {
+  it('takes the product rate, then the category rate, then the default', () => {
+    const data = taxedLedger({ categoryTaxRates: { Snacks: REDUCED.id, Bakery: EXEMPT_TAX_ID } });
+    expect(taxRateFor(data, makeProduct())).toEqual(VAT);
+    expect(taxRateFor(data, makeProduct({ category: 'Snacks' }))).toEqual(REDUCED);
+    expect(taxRateFor(data, makeProduct({ category: 'Snacks', taxRateId: EXEMPT_TAX_ID }))).toBeUndefined();
+    expect(taxRateFor(data, makeProduct({ category: 'Bakery', taxRateId: REDUCED.id }))).toEqual(REDUCED);
+    expect(taxRateFor(data, makeProduct({ category: 'Bakery' }))).toBeUndefined();
+    expect(taxRateFor(data, makeProduct({ taxRateId: 'deleted-rate' }))).toEqual(VAT);
+  });
+});
+
+describe('taxed sales', () => {
+  it('adds exclusive tax on top of the bill and keeps it out of profit', () => {
+    const sale = latestSale(sell(taxedLedger()));
+    expect(sale.total).toBe(34.2);
+    expect(sale.taxTotal).toBe(4.2);
+    expect(sale.totalProfit).toBe(12);
+    expect(sale.items[0].taxLine).toMatchObject({ rateId: VAT.id, taxable: 30, tax: 4.2 });
+  });
+
+  it('finds inclusive tax inside the shelf price', () => {
+    const sale = latestSale(sell(taxedLedger({ pricesIncludeTax: true })));
+    expect(sale.total).toBe(30);
+    expect(sale.taxLines).toEqual([expect.objectContaining({ rateId: VAT.id, taxable: 26.32, tax: 3.68 })]);
+    expect(sale.totalProfit).toBe(8.32);
+  });
+
+  it('taxes each line at its own rate after the invoice discount', () => {
+    const data = taxedLedger({ categoryTaxRates: { Snacks: EXEMPT_TAX_ID } });
+    const sold = TwinXOps.processRetailSale(data, {
+      items: [cartLine(data, PRODUCT_ID, 3), cartLine(data, SECOND_PRODUCT_ID, 4)],
+      totalDiscount: 6
+    });
+    // 30 of cola and 30 of exempt chips share the 6 discount evenly
+    const sale = latestSale(sold);
+    expect(sale.taxLines).toEqual([
+      expect.objectContaining({ rateId: VAT.id, taxable: 27, tax: 3.78 }),
+      expect.objectContaining({ rateId: EXEMPT_TAX_ID, taxable: 27, tax: 0 })
+    ]);
+    expect(sale.total).toBe(57.78);
+  });
+
+  it('leaves sales untaxed while no rates are configured', () => {
+    const sale = latestSale(sell(makeLedger()));
+    expect(sale.total).toBe(30);
+    expect(sale.taxLines).toBeUndefined();
+  });
+});
+
+describe('taxed returns', () => {
+  it('gives back the tax of the returned units with the refund', () => {
+    let data = sell(taxedLedger());
+    const sale = latestSale(data);
+    expect(calculateRefund(sale, [{ productId: PRODUCT_ID, quantity: 1 }], data.currency)).toBe(11.4);
+
+    data = TwinXOps.processReturn(data, returnOf(sale.id, 1));
+    data = TwinXOps.processReturn(data, returnOf(sale.id, 2));
+    expect(data.returns.map(r => r.totalRefund)).toEqual([22.8, 11.4]);
+    expect(data.returns.flatMap(r => r.taxLines || []).reduce((acc, l) => acc + l.tax, 0)).toBeCloseTo(4.2);
+  });
+
+  it('keeps inclusive refunds at the price paid', () => {
+    const data = sell(taxedLedger({ pricesIncludeTax: true }));
+    const returned = TwinXOps.processReturn(data, returnOf(latestSale(data).id, 3));
+    expect(returned.returns[0].totalRefund).toBe(30);
+    expect(returned.returns[0].taxLines).toEqual([expect.objectContaining({ rateId: VAT.id, tax: 3.68 })]);
+  });
+});
+
+describe('vatSummary', () => {
+  it('nets returned tax against output tax and skips cancelled sales', () => {
+    let data = sell(taxedLedger());
+    data = TwinXOps.processReturn(data, returnOf(latestSale(data).id, 1));
+    data = sell(data, 2);
+    data = { ...data, sales: data.sales.map((s, i) => i === 0 ? { ...s, status: 'cancelled' as const } : s) };
+
+    const summary = vatSummary(data, 0, Infinity);
+    expect(summary.outputTax).toBe(4.2);
+    expect(summary.returnedTax).toBe(1.4);
+    expect(summary.netTax).toBe(2.8);
+    expect(summary.net).toEqual([expect.objectContaining({ rateId: VAT.id, taxable: 20, tax: 2.8 })]);
+    expect(vatSummary(data, 0, 1).outputTax).toBe(0);
+  });
+});
@@ -0,0 +1,122 @@
+
+import { AppData, CartItem, Product, Sale, SaleReturn, TaxLine, TaxRate } from '../types';
+import { money } from './money';
+
+/**
+ * Tax
+ * A product is taxed at its own rate, else its category's, else the default rate; any of the
+ * three may say 'exempt'. Tax is worked out per line on what the line sells for after its own
+ * discount and its share of the invoice discount, and is either contained in the shelf price
+ * (inclusive) or added on top of it (exclusive). Delivery fees are not taxed.
+ *
+ * Each sale keeps the tax of its lines, so changing a rate later never alters an issued invoice,
+ * and a return takes back the tax of the units it returns.
+ */
+
+export const EXEMPT_TAX_ID = 'exempt';
+
+export const EXEMPT_LABEL = { en: 'Exempt', ar: 'معفى' };
+
+export const isTaxEnabled = (data: Pick<AppData, 'taxRates'>): boolean => (data.taxRates || []).length > 0;
+
+type TaxSettings = Pick<AppData, 'taxRates' | 'defaultTaxRateId' | 'categoryTaxRates'>;
+
+/**
+ * The rate a product sells at, or undefined when it is exempt. A setting that points at a rate
+ * which no longer exists is skipped.
+ */
+export const taxRateFor = (data: TaxSettings, product: Pick<Product, 'taxRateId' | 'category'>): TaxRate | undefined => {
+  for (const id of [product.taxRateId, data.categoryTaxRates?.[product.category], data.defaultTaxRateId]) {
+    if (id === EXEMPT_TAX_ID) return undefined;
+    const rate = (data.taxRates || []).find(r => r.id === id);
+    if (rate) return rate;
+  }
+  return undefined;
+};
+
+export interface TaxQuote {
+  items: CartItem[]; // The lines, each carrying its taxLine
+  taxLines: TaxLine[];
+  taxTotal: number;
+  addedTax: number; // What exclusive pricing adds on top of the bill; zero when inclusive
+  inclusive: boolean;
+}
+
+/**
+ * Tax on a line selling for `net` after discounts.
+ */
+export const taxLineOf = (rate: TaxRate | undefined, net: number, inclusive: boolean, currency?: string): TaxLine => {
+  const percent = rate?.rate || 0;
+  const tax = inclusive ? money.multiply(net, percent / (100 + percent), currency) : money.multiply(net, percent / 100, currency);
+  return {
+    rateId: rate?.id || EXEMPT_TAX_ID,
+    name: rate?.name || EXEMPT_LABEL.en,
+    rate: percent,
+    taxable: inclusive ? money.subtract(net, tax, currency) : net,
+    tax
+  };
+};
+
+/**
+ * Adds up tax lines rate by rate, in order of first appearance.
+ */
+export const groupTaxLines = (lines: TaxLine[], currency?: string): TaxLine[] => {
+  const grouped = new Map<string, TaxLine>();
+  lines.forEach(line => {
+    const current = grouped.get(line.rateId);
+    grouped.set(line.rateId, current
+      ? { ...current, taxable: money.add(current.taxable, line.taxable, currency), tax: money.add(current.tax, line.tax, currency) }
+      : { ...line });
+  });
+  return [...grouped.values()];
+};
+
+/**
+ * Tax taken back by returning `items` from a sale. Like the refund itself it is worked out on
+ * everything returned so far, so a line returned in full gives back exactly its tax.
+ */
+export const returnedTaxLines = (sale: Sale, items: { productId: string; quantity: number }[], currency?: string): TaxLine[] => {
+  if (!sale.taxLines) return [];
+  const lines = sale.items.filter((item): item is CartItem & { taxLine: TaxLine } => !!item.taxLine && item.quantity > 0).map(item => {
+    const before = item.returnedQuantity || 0;
+    const after = before + items.filter(r => r.productId === item.id).reduce((acc, r) => acc + r.quantity, 0);
+    const shareOf = (amount: number) =>
+      money.subtract(money.share(amount, after, item.quantity, currency), money.share(amount, before, item.quantity, currency), currency);
+    return { ...item.taxLine, taxable: shareOf(item.taxLine.taxable), tax: shareOf(item.taxLine.tax) };
+  });
+  return groupTaxLines(lines, currency).filter(line => line.taxable !== 0 || line.tax !== 0);
+};
+
+// What a sale and a refund come to before tax.
+export const saleNetOfTax = (sale: Pick<Sale, 'total' | 'taxTotal'>, currency?: string): number =>
+  money.subtract(sale.total, sale.taxTotal || 0, currency);
+
+export const refundNetOfTax = (ret: Pick<SaleReturn, 'totalRefund' | 'taxLines'>, currency?: string): number =>
+  money.subtract(ret.totalRefund, money.sum((ret.taxLines || []).map(l => l.tax), currency), currency);
+
+export interface VatSummary {
+  sales: TaxLine[];
+  returns: TaxLine[];
+  net: TaxLine[]; // Sales less returns, rate by rate
+  outputTax: number;
+  returnedTax: number;
+  netTax: number;
+}
+
+/**
+ * Output tax charged on sales made in [from, to) less the tax given back by returns processed
+ * in it. Cancelled sales and their returns are left out, as neither moved any money.
+ */
+export const vatSummary = (data: Pick<AppData, 'sales' | 'returns' | 'currency'>, from: number, to: number): VatSummary => {
+  const currency = data.currency;
+  const within = (timestamp: number) => timestamp >= from && timestamp < to;
+  const cancelled = new Set(data.sales.filter(s => s.status === 'cancelled').map(s => s.id));
+
+  const sales = groupTaxLines(data.sales.filter(s => !cancelled.has(s.id) && within(s.timestamp)).flatMap(s => s.taxLines || []), currency);
+  const returns = groupTaxLines(data.returns.filter(r => !cancelled.has(r.saleId) && within(r.timestamp)).flatMap(r => r.taxLines || []), currency);
+  const net = groupTaxLines([...sales, ...returns.map(l => ({ ...l, taxable: -l.taxable, tax: -l.tax }))], currency);
+
+  const outputTax = money.sum(sales.map(l => l.tax), currency);
+  const returnedTax = money.sum(returns.map(l => l.tax), currency);
+  return { sales, returns, net, outputTax, returnedTax, netTax: money.subtract(outputTax, returnedTax, currency) };
+};
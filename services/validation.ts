@@ -0,0 +1,391 @@
+
+import { AppData } from '../types';
+
+/**
+ * Ledger Validation Service
+ * Structural checks for every AppData entity plus referential integrity between them.
+ * Structural problems are errors (the ledger cannot be trusted); dangling references are
+ * warnings because normal deletes in the app can legitimately leave them behind.
+ */
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  collection: keyof AppData;
+  recordId?: string;
+  message: string;
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+type FieldRule = FieldType | `${FieldType}?` | { oneOf: readonly string[]; optional?: boolean };
+type RecordSchema = Record<string, FieldRule>;
+
+export type CollectionName =
+  | 'products' | 'sales' | 'expenses' | 'returns' | 'drafts' | 'logs' | 'partners' | 'wholesaleTransactions'
+  | 'drivers' | 'customers' | 'employees' | 'attendance' | 'salaryTransactions' | 'stockLogs' | 'shifts'
+  | 'eDocuments';
+
+const SALE_CHANNELS = ['store', 'social_media', 'website'] as const;
+const DISCOUNT_TYPES = ['percentage', 'fixed'] as const;
+
+const PRODUCT_SCHEMA: RecordSchema = {
+  id: 'string',
+  name: 'string',
+  category: 'string',
+  price: 'number',
+  costPrice: 'number',
+  stock: 'number',
+  minStock: 'number',
+  barcode: 'string?',
+  minStockLevel: 'number?',
+  imagePath: 'string?',
+  taxRateId: 'string?',
+  itemCode: 'string?',
+};
+
+const CART_ITEM_SCHEMA: RecordSchema = {
+  id: 'string',
+  name: 'string',
+  price: 'number',
+  quantity: 'number',
+  returnedQuantity: 'number?',
+  discount: 'number?',
+  discountType: { oneOf: DISCOUNT_TYPES, optional: true },
+  taxLine: 'object?',
+};
+
+const EMPLOYEE_SCHEMA: RecordSchema = {
+  id: 'string',
+  name: 'string',
+  phone: 'string',
+  role: { oneOf: ['admin', 'cashier', 'delivery', 'manager'] },
+  baseSalary: 'number',
+  joinDate: 'string',
+  isActive: 'boolean',
+  permissions: 'object',
+  pin: 'object?',
+};
+
+const SCHEMAS: Record<CollectionName, RecordSchema> = {
+  products: PRODUCT_SCHEMA,
+  sales: {
+    id: 'string',
+    timestamp: 'number',
+    items: 'array',
+    subtotal: 'number',
+    totalDiscount: 'number',
+    total: 'number',
+    paidAmount: 'number',
+    remainingAmount: 'number',
+    payments: 'array?',
+    collections: 'array?',
+    taxTotal: 'number?',
+    taxLines: 'array?',
+    pricesIncludeTax: 'boolean?',
+    saleChannel: { oneOf: SALE_CHANNELS },
+    totalCost: 'number',
+    totalProfit: 'number',
+    pointsEarned: 'number',
+    customerId: 'string?',
+    deliveryFee: 'number?',
+    driverId: 'string?',
+    shiftId: 'string?',
+    employeeId: 'string?',
+    overrides: 'array?',
+    status: { oneOf: ['pending', 'delivered', 'cancelled', 'completed'], optional: true },
+    discountType: { oneOf: DISCOUNT_TYPES, optional: true },
+  },
+  expenses: { id: 'string', description: 'string', amount: 'number', timestamp: 'number', employeeId: 'string?' },
+  returns: { id: 'string', saleId: 'string', timestamp: 'number', items: 'array', totalRefund: 'number', taxLines: 'array?', appliedToBalance: 'number?' },
+  drafts: {
+    id: 'string',
+    timestamp: 'number',
+    items: 'array',
+    subtotal: 'number',
+    totalDiscount: 'number',
+    total: 'number',
+    saleChannel: { oneOf: SALE_CHANNELS },
+    customerId: 'string?',
+    discountType: { oneOf: DISCOUNT_TYPES, optional: true },
+    reserveStock: 'boolean?',
+    expiresAt: 'number?',
+  },
+  logs: {
+    id: 'string',
+    timestamp: 'number',
+    action: 'string',
+    details: 'string',
+    category: { oneOf: ['sale', 'inventory', 'expense', 'return', 'system', 'cash', 'wholesale', 'delivery', 'hr'] },
+    actorId: 'string?',
+  },
+  partners: { id: 'string', name: 'string', contact: 'string', type: { oneOf: ['buyer', 'supplier'] }, createdAt: 'number', taxRegistrationNumber: 'string?' },
+  wholesaleTransactions: {
+    id: 'string',
+    partnerId: 'string',
+    type: { oneOf: ['purchase', 'sale'] },
+    items: 'array',
+    total: 'number',
+    paidAmount: 'number',
+    timestamp: 'number',
+    payments: 'array?',
+    overrides: 'array?',
+  },
+  drivers: EMPLOYEE_SCHEMA,
+  customers: {
+    id: 'string',
+    name: 'string',
+    phone: 'string',
+    totalPurchases: 'number',
+    invoiceCount: 'number',
+    channelsUsed: 'array',
+    totalPoints: 'number',
+    creditLimit: 'number?',
+  },
+  employees: EMPLOYEE_SCHEMA,
+  attendance: {
+    id: 'string',
+    employeeId: 'string',
+    date: 'string',
+    timestamp: 'number',
+    breaks: 'array',
+    status: { oneOf: ['present', 'on_break', 'completed', 'late', 'absent'] },
+  },
+  salaryTransactions: {
+    id: 'string',
+    employeeId: 'string',
+    amount: 'number',
+    type: { oneOf: ['salary', 'advance', 'bonus'] },
+    timestamp: 'number',
+  },
+  stockLogs: {
+    id: 'string',
+    productId: 'string',
+    oldStock: 'number',
+    newStock: 'number',
+    reason: 'string',
+    timestamp: 'number',
+    employeeId: 'string',
+  },
+  shifts: {
+    id: 'string',
+    openedBy: 'string',
+    startTime: 'number',
+    startCash: 'number',
+    status: { oneOf: ['open', 'closed'] },
+    endTime: 'number?',
+    endCash: 'number?',
+    openedById: 'string?',
+    closedById: 'string?',
+    paymentTotals: 'object?',
+  },
+  eDocuments: {
+    id: 'string',
+    kind: { oneOf: ['invoice', 'receipt'] },
+    sourceId: 'string',
+    internalId: 'string',
+    timestamp: 'number',
+    status: { oneOf: ['pending', 'signed', 'submitted', 'rejected'] },
+    document: 'object',
+    signedBy: 'string?',
+    signedAt: 'number?',
+    submissionId: 'string?',
+    submittedAt: 'number?',
+    rejectionReason: 'string?',
+  },
+};
+
+export const COLLECTION_NAMES = Object.keys(SCHEMAS) as CollectionName[];
+
+const matchesType = (value: unknown, type: FieldType): boolean => {
+  switch (type) {
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'array': return Array.isArray(value);
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    default: return typeof value === type;
+  }
+};
+
+/**
+ * Checks one record against a schema and returns human readable problems.
+ * Unknown extra fields are allowed so newer optional fields do not fail older validators.
+ */
+const checkRecord = (record: any, schema: RecordSchema): string[] => {
+  if (!matchesType(record, 'object')) return ['Record is not an object.'];
+  const problems: string[] = [];
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = record[field];
+    if (typeof rule === 'object') {
+      if (value === undefined && rule.optional) continue;
+      if (!rule.oneOf.includes(value)) {
+        problems.push(`"${field}" must be one of ${rule.oneOf.join(', ')} (got ${JSON.stringify(value)}).`);
+      }
+      continue;
+    }
+    const optional = rule.endsWith('?');
+    const type = (optional ? rule.slice(0, -1) : rule) as FieldType;
+    if (value === undefined || value === null) {
+      if (!optional) problems.push(`Missing required field "${field}".`);
+      continue;
+    }
+    if (!matchesType(value, type)) {
+      problems.push(`"${field}" must be a ${type} (got ${Array.isArray(value) ? 'array' : typeof value}).`);
+    }
+  }
+  return problems;
+};
+
+/**
+ * Validates every entity in the ledger. Returns an empty list when the ledger is clean.
+ */
+export const validateLedger = (data: AppData): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const push = (severity: IssueSeverity, collection: ValidationIssue['collection'], message: string, recordId?: string) => {
+    issues.push({ severity, collection, recordId, message });
+  };
+
+  // 1. Structure and duplicate ids
+  for (const name of COLLECTION_NAMES) {
+    const records = data[name] as unknown[];
+    if (!Array.isArray(records)) {
+      push('error', name, 'Collection is missing or not a list.');
+      continue;
+    }
+    const seen = new Set<string>();
+    records.forEach((record: any, index) => {
+      const recordId = typeof record?.id === 'string' ? record.id : `#${index}`;
+      checkRecord(record, SCHEMAS[name]).forEach(problem => push('error', name, problem, recordId));
+      if (typeof record?.id === 'string') {
+        if (seen.has(record.id)) push('error', name, 'Duplicate id.', record.id);
+        seen.add(record.id);
+      }
+    });
+  }
+
+  if (!Array.isArray(data.categories) || data.categories.some(c => typeof c !== 'string')) {
+    push('error', 'categories', 'Categories must be a list of names.');
+  }
+  if (!matchesType(data.initialCash, 'number')) push('error', 'initialCash', 'Opening cash must be a number.');
+  if (!matchesType(data.draftExpiryMinutes, 'number')) push('error', 'draftExpiryMinutes', 'Draft expiry must be a number.');
+  if (data.autoLockMinutes !== undefined && !matchesType(data.autoLockMinutes, 'number')) push('error', 'autoLockMinutes', 'Auto-lock delay must be a number.');
+  if (data.overrideDiscountPercent !== undefined && !matchesType(data.overrideDiscountPercent, 'number')) push('error', 'overrideDiscountPercent', 'Override discount limit must be a number.');
+  if (data.adminPin !== undefined && !matchesType(data.adminPin, 'object')) push('error', 'adminPin', 'Administrator PIN must be a stored hash.');
+  if (data.taxRates !== undefined && (!Array.isArray(data.taxRates) || data.taxRates.some(r => checkRecord(r, { id: 'string', name: 'string', rate: 'number' }).length > 0 || r.rate < 0))) {
+    push('error', 'taxRates', 'Tax rates must each have an id, a name and a rate of zero or more.');
+  }
+  if (data.categoryTaxRates !== undefined && !matchesType(data.categoryTaxRates, 'object')) push('error', 'categoryTaxRates', 'Category tax rates must map categories to rates.');
+  if (data.etaIssuer !== undefined && checkRecord(data.etaIssuer, { registrationNumber: 'string', name: 'string', activityCode: 'string', branchId: 'string' }).length > 0) {
+    push('error', 'etaIssuer', 'Tax registration details must have a registration number, name, activity code and branch.');
+  }
+  if (data.pricesIncludeTax !== undefined && !matchesType(data.pricesIncludeTax, 'boolean')) push('error', 'pricesIncludeTax', 'Tax pricing mode must be true or false.');
+
+  // Nested line items
+  (data.sales || []).forEach(sale => {
+    (Array.isArray(sale.items) ? sale.items : []).forEach((item, index) => {
+      checkRecord(item, CART_ITEM_SCHEMA).forEach(problem => push('error', 'sales', `Item ${index + 1}: ${problem}`, sale.id));
+    });
+  });
+  (data.returns || []).forEach(ret => {
+    (Array.isArray(ret.items) ? ret.items : []).forEach((item, index) => {
+      checkRecord(item, { productId: 'string', quantity: 'number', refundAmount: 'number' })
+        .forEach(problem => push('error', 'returns', `Item ${index + 1}: ${problem}`, ret.id));
+    });
+  });
+  (data.wholesaleTransactions || []).forEach(trans => {
+    (Array.isArray(trans.items) ? trans.items : []).forEach((item, index) => {
+      checkRecord(item, { productId: 'string', name: 'string', quantity: 'number', unitPrice: 'number' })
+        .forEach(problem => push('error', 'wholesaleTransactions', `Item ${index + 1}: ${problem}`, trans.id));
+    });
+  });
+
+  // Referential integrity is only meaningful once the structure is sound.
+  if (issues.some(i => i.severity === 'error')) return issues;
+
+  // 2. Cross references
+  const ids = (records: { id: string }[]) => new Set(records.map(r => r.id));
+  const productIds = ids(data.products);
+  const customerIds = ids(data.customers);
+  // Wholesale returns reference the wholesale transaction through `saleId` as well.
+  const saleIds = new Set([...ids(data.sales), ...ids(data.wholesaleTransactions)]);
+  const partnerIds = ids(data.partners);
+  const shiftIds = ids(data.shifts);
+  const staffIds = new Set([...ids(data.employees), ...ids(data.drivers)]);
+
+  data.sales.forEach(sale => {
+    if (sale.customerId && !customerIds.has(sale.customerId)) push('warning', 'sales', `Customer ${sale.customerId} does not exist.`, sale.id);
+    if (sale.driverId && !staffIds.has(sale.driverId)) push('warning', 'sales', `Driver ${sale.driverId} does not exist.`, sale.id);
+    if (sale.shiftId && !shiftIds.has(sale.shiftId)) push('warning', 'sales', `Shift ${sale.shiftId} does not exist.`, sale.id);
+    if (sale.employeeId && sale.employeeId !== 'SYSTEM_ADMIN' && !staffIds.has(sale.employeeId)) push('warning', 'sales', `Cashier ${sale.employeeId} does not exist.`, sale.id);
+    sale.items.forEach(item => {
+      if (!productIds.has(item.id)) push('warning', 'sales', `Product "${item.name}" is no longer in inventory.`, sale.id);
+    });
+  });
+  data.drafts.forEach(draft => {
+    if (draft.customerId && !customerIds.has(draft.customerId)) push('warning', 'drafts', `Customer ${draft.customerId} does not exist.`, draft.id);
+  });
+  data.returns.forEach(ret => {
+    if (!saleIds.has(ret.saleId)) push('warning', 'returns', `Original sale ${ret.saleId} does not exist.`, ret.id);
+  });
+  data.wholesaleTransactions.forEach(trans => {
+    if (!partnerIds.has(trans.partnerId)) push('warning', 'wholesaleTransactions', `Partner ${trans.partnerId} does not exist.`, trans.id);
+    trans.items.forEach(item => {
+      if (!productIds.has(item.productId)) push('warning', 'wholesaleTransactions', `Product "${item.name}" is no longer in inventory.`, trans.id);
+    });
+  });
+  data.attendance.forEach(record => {
+    if (!staffIds.has(record.employeeId)) push('warning', 'attendance', `Employee ${record.employeeId} does not exist.`, record.id);
+  });
+  data.salaryTransactions.forEach(tx => {
+    if (!staffIds.has(tx.employeeId)) push('warning', 'salaryTransactions', `Employee ${tx.employeeId} does not exist.`, tx.id);
+  });
+  data.stockLogs.forEach(log => {
+    if (!productIds.has(log.productId)) push('warning', 'stockLogs', `Product ${log.productId} does not exist.`, log.id);
+  });
+  // Repairable from the integrity scan, so it must not block it
+  if (data.shifts.filter(s => s.status === 'open').length > 1) {
+    push('warning', 'shifts', 'More than one shift is open.');
+  }
+
+  return issues;
+};
+
+export interface CollectionPreview {
+  collection: CollectionName;
+  current: number;
+  incoming: number;
+  added: number;      // ids only in the incoming ledger
+  changed: number;    // same id, different content
+  removed: number;    // ids only in the current ledger (lost on replace)
+}
+
+export interface ImportPreview {
+  collections: CollectionPreview[];
+  issues: ValidationIssue[];
+  canImport: boolean;
+}
+
+/**
+ * Dry run of an import: compares the incoming ledger with the current one without touching either.
+ */
+export const previewImport = (current: AppData, incoming: AppData): ImportPreview => {
+  const collections = COLLECTION_NAMES.map(collection => {
+    const currentRecords = new Map<string, string>(
+      ((current[collection] || []) as { id: string }[]).map(r => [r.id, JSON.stringify(r)])
+    );
+    const incomingRecords = (incoming[collection] || []) as { id: string }[];
+    const incomingIds = new Set<string>();
+    let added = 0;
+    let changed = 0;
+    incomingRecords.forEach(record => {
+      incomingIds.add(record.id);
+      const existing = currentRecords.get(record.id);
+      if (existing === undefined) added++;
+      else if (existing !== JSON.stringify(record)) changed++;
+    });
+    const removed = [...currentRecords.keys()].filter(id => !incomingIds.has(id)).length;
+    return { collection, current: currentRecords.size, incoming: incomingRecords.length, added, changed, removed };
+  });
+
+  const issues = validateLedger(incoming);
+  return { collections, issues, canImport: !issues.some(i => i.severity === 'error') };
+};
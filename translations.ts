@@ -16,6 +16,7 @@ export const translations = {
     delivery: "الدليفري",
     customers: "قاعدة العملاء",
     hr: "الموظفين",
+    einvoices: "الفواتير الإلكترونية",
     net_cash: "السيولة المتوفرة (كاش)",
     local_only: "نظام أوفلاين محلي",
     today_revenue: "مبيعات اليوم",
@@ -155,6 +156,8 @@ export const translations = {
     insufficient_stock: "عفواً، الكمية المطلوبة غير متوفرة في المخزن!",
     theme: "المظهر",
     light_mode: "نهاري",
+    undo: "تراجع",
+    redo: "إعادة",
     dark_mode: "ليلي",
     add_payment: "إضافة دفعة / تحصيل",
     payment_amount: "مبلغ الدفعة",
@@ -225,6 +228,7 @@ export const translations = {
     delivery: "Delivery",
     customers: "Customers",
     hr: "Employees",
+    einvoices: "E-Invoices",
     net_cash: "Available Cash",
     local_only: "Local Offline System",
     today_revenue: "Today's Sales",
@@ -364,6 +368,8 @@ export const translations = {
     insufficient_stock: "Insufficient stock available for this operation!",
     theme: "Theme",
     light_mode: "Light",
+    undo: "Undo",
+    redo: "Redo",
     dark_mode: "Dark",
     add_payment: "Add Payment / Receipt",
     payment_amount: "Payment Amount",
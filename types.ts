@@ -15,6 +15,8 @@ export interface Product {
   expiryDate?: string;     // Pro: Expiry tracking
   brand?: string;          // Pro: Brand filtering
   aisleLocation?: string;  // Pro: Warehouse mapping
+  taxRateId?: string;      // A TaxRate id or 'exempt'; otherwise the category's rate, then the default
+  itemCode?: string;       // EGS or GS1 code registered with the tax authority
 }
 
 export interface CartItem extends Product {
@@ -22,6 +24,22 @@ export interface CartItem extends Product {
   returnedQuantity?: number;
   discount?: number;
   discountType?: 'percentage' | 'fixed';
+  taxLine?: TaxLine; // Tax on the line after all discounts, fixed at the time of sale
+}
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  rate: number; // Percent
+}
+
+// Tax at one rate: `taxable` is the value excluding the tax
+export interface TaxLine {
+  rateId: string; // A TaxRate id, or 'exempt'
+  name: string;
+  rate: number;
+  taxable: number;
+  tax: number;
 }
 
 export interface DeliveryDetails {
@@ -41,6 +59,7 @@ export interface Customer {
   lastOrderTimestamp?: number;
   totalPoints: number; // Loyalty points
   lastVisit?: number;
+  creditLimit?: number; // How much may be left owing on account; none means pay in full
 }
 
 export type Role = 'admin' | 'cashier' | 'delivery' | 'manager';
@@ -51,6 +70,7 @@ export interface EmployeePermissions {
   canViewReports: boolean;
   canManageStaff: boolean;
   canEditInventory: boolean;
+  canSubmitEInvoices: boolean; // Queue, sign and submit tax authority documents
 }
 
 export interface Employee {
@@ -66,6 +86,14 @@ export interface Employee {
   emergencyContact?: string;
   permissions: EmployeePermissions;
   vehicleId?: string; // Only for delivery
+  pin?: PinCredential; // Lock screen sign-in
+}
+
+// A PIN is never stored, only its salted PBKDF2-SHA256 hash (hex encoded)
+export interface PinCredential {
+  salt: string;
+  hash: string;
+  iterations: number;
 }
 
 export type Driver = Employee;
@@ -102,7 +130,9 @@ export interface StockLog {
 
 export interface Shift {
   id: string;
-  openedBy: string;
+  openedBy: string; // Name of the opener, as shown on the dashboard
+  openedById?: string; // Signed-in employee (or SYSTEM_ADMIN) who opened it
+  closedById?: string;
   startTime: number;
   endTime?: number;
   startCash: number;
@@ -110,10 +140,29 @@ export interface Shift {
   expectedCash?: number;
   status: 'open' | 'closed';
   notes?: string;
+  paymentTotals?: Partial<Record<PaymentMethod, number>>; // Takings by method, fixed when the shift closes
 }
 
 export type SaleChannel = 'store' | 'social_media' | 'website';
 
+export type PaymentMethod = 'cash' | 'card' | 'vodafone_cash' | 'instapay';
+
+// One part of how a retail bill was settled
+export interface SalePayment {
+  method: PaymentMethod;
+  amount: number; // Applied to the bill, net of any change
+  reference?: string; // Card slip or wallet transaction number
+  tendered?: number; // Cash handed over, when change was given back
+}
+
+// Money collected against an on-account invoice after the sale
+export interface SaleCollection extends SalePayment {
+  timestamp: number;
+  remainingAfter: number;
+  shiftId?: string;
+  employeeId?: string;
+}
+
 export interface Sale {
   id: string;
   timestamp: number;
@@ -125,6 +174,11 @@ export interface Sale {
   total: number;
   paidAmount: number;
   remainingAmount: number;
+  payments?: SalePayment[]; // Older sales have none and were paid in cash
+  collections?: SaleCollection[]; // Paid later on account; included in paidAmount
+  taxTotal?: number; // Sales made while no tax rates were set carry no tax fields
+  taxLines?: TaxLine[];
+  pricesIncludeTax?: boolean;
   saleChannel: SaleChannel;
   customerId?: string;
   isDelivery?: boolean;
@@ -136,6 +190,19 @@ export interface Sale {
   pointsEarned: number; // Loyalty Pro
   status?: 'pending' | 'delivered' | 'cancelled' | 'completed';
   shiftId?: string; // Link to shift
+  employeeId?: string; // Signed-in cashier who rang it up
+  overrides?: OverrideApproval[]; // Manager approvals given for this invoice
+}
+
+export type OverrideAction = 'delete_invoice' | 'cancel_delivery' | 'discount' | 'price_edit';
+
+// A manager's PIN-confirmed go-ahead for one restricted action
+export interface OverrideApproval {
+  action: OverrideAction;
+  approverId: string; // Employee id, or SYSTEM_ADMIN
+  approverName: string;
+  reason: string;
+  timestamp: number;
 }
 
 export interface DraftInvoice {
@@ -146,10 +213,15 @@ export interface DraftInvoice {
   totalDiscount: number;
   total: number;
   saleChannel: SaleChannel;
+  discountType?: 'percentage' | 'fixed';
+  discountValue?: number;
   customerId?: string;
   isDelivery?: boolean;
-  deliveryDetails?: DeliveryDetails;
+  deliveryDetails?: DeliveryDetails; // Also carries the typed-in details of a customer not yet on file
   deliveryFee?: number;
+  driverId?: string;
+  reserveStock?: boolean; // Holds the items back from other sales until the draft expires
+  expiresAt?: number;
 }
 
 export interface ReturnItem {
@@ -165,6 +237,8 @@ export interface SaleReturn {
   items: ReturnItem[];
   totalRefund: number;
   customerName?: string;
+  taxLines?: TaxLine[]; // Tax reversed by this return, included in totalRefund
+  appliedToBalance?: number; // Part of totalRefund that cleared what was still owed instead of leaving the drawer
 }
 
 export interface Expense {
@@ -181,6 +255,7 @@ export interface LogEntry {
   action: string;
   details: string;
   category: 'sale' | 'inventory' | 'expense' | 'return' | 'system' | 'cash' | 'wholesale' | 'delivery' | 'hr';
+  actorId?: string; // Signed-in employee (or SYSTEM_ADMIN) whose action it records
 }
 
 export interface WholesalePartner {
@@ -189,6 +264,7 @@ export interface WholesalePartner {
   contact: string;
   type: 'buyer' | 'supplier';
   createdAt: number;
+  taxRegistrationNumber?: string; // Needed before a buyer can be issued an e-invoice
 }
 
 export interface WholesalePayment {
@@ -211,9 +287,70 @@ export interface WholesaleTransaction {
   paidAmount: number;
   timestamp: number;
   payments?: WholesalePayment[];
+  overrides?: OverrideApproval[];
+}
+
+// The business as registered with the Egyptian Tax Authority (ETA)
+export interface EtaIssuer {
+  registrationNumber: string; // Tax registration number (RIN)
+  name: string;
+  activityCode: string; // Taxpayer activity code
+  branchId: string; // '0' for the head office
+  governate: string;
+  regionCity: string;
+  street: string;
+  buildingNumber: string;
+  deviceSerialNumber?: string; // POS serial, printed on e-receipts
+}
+
+export type EDocumentKind = 'invoice' | 'receipt';
+
+export type EDocumentStatus = 'pending' | 'signed' | 'submitted' | 'rejected';
+
+// One e-invoice or e-receipt waiting for, or gone through, the tax authority portal
+export interface EDocument {
+  id: string;
+  kind: EDocumentKind; // Invoices for wholesale sales, receipts for retail sales
+  sourceId: string; // The Sale or WholesaleTransaction it was built from
+  internalId: string; // Our invoice number, as shown to the portal
+  timestamp: number; // When it was queued
+  status: EDocumentStatus;
+  document: Record<string, any>; // ETA JSON exactly as it will be submitted
+  signedBy?: string; // Name of the signer used
+  signedAt?: number;
+  submissionId?: string; // UUID the portal gave back
+  submittedAt?: number;
+  rejectionReason?: string;
+}
+
+export interface ArchivedPeriod {
+  id: string;
+  closedAt: number;
+  cutoff: number; // Records dated before this moment were moved to the archive
+  counts: Record<string, number>;
+  cashCarriedForward: number; // Net cash effect of the archived records, folded into initialCash
+}
+
+export type CustomerTotals = Pick<Customer, 'totalPurchases' | 'invoiceCount' | 'totalPoints'>;
+
+export interface AggregateSnapshot {
+  stock?: Record<string, number>; // Keyed by product id
+  customers?: Record<string, CustomerTotals>; // Keyed by customer id
+}
+
+export interface LedgerEvent {
+  id: string;
+  sequence: number; // Strictly increasing; replay order
+  timestamp: number;
+  type: string; // The command type, or BASELINE / OPERATION_UNDONE / OPERATION_REDONE
+  refId?: string; // Record the event is about (sale, product, customer, or the event being undone)
+  removed?: string[]; // Product or customer ids that no longer exist
+  set?: AggregateSnapshot; // Absolute values, e.g. a stock count
+  add?: AggregateSnapshot; // Deltas, e.g. a sale
 }
 
 export interface AppData {
+  schemaVersion?: number;
   products: Product[];
   sales: Sale[];
   expenses: Expense[];
@@ -230,10 +367,23 @@ export interface AppData {
   categories: string[];
   stockLogs: StockLog[];
   shifts: Shift[];
+  events: LedgerEvent[]; // Append-only business history, newest first
+  eDocuments: EDocument[]; // Tax authority e-invoice queue, newest first
   initialCash: number;
   draftExpiryMinutes: number;
   lastBackupTimestamp?: number;
+  autoBackupIntervalMinutes?: number; // 0 disables automatic snapshots
+  autoBackupRetention?: number;
+  archivedThrough?: number; // Cutoff of the most recent closed period
   currency?: string;
+  adminPin?: PinCredential; // Setting it switches on the staff lock screen
+  autoLockMinutes?: number; // 0 disables locking after inactivity
+  overrideDiscountPercent?: number; // Discounts above this share of the bill need a manager
+  taxRates?: TaxRate[]; // Tax is charged once at least one rate exists
+  defaultTaxRateId?: string;
+  categoryTaxRates?: Record<string, string>; // Category name to a TaxRate id or 'exempt'
+  pricesIncludeTax?: boolean; // Shelf prices already contain the tax
+  etaIssuer?: EtaIssuer; // E-documents can be queued once this is filled in
 }
 
-export type ViewType = 'dashboard' | 'sales' | 'inventory' | 'expenses' | 'intelligence' | 'settings' | 'returns' | 'reports' | 'logs' | 'wholesale' | 'delivery' | 'customers' | 'hr';
+export type ViewType = 'dashboard' | 'sales' | 'inventory' | 'expenses' | 'intelligence' | 'settings' | 'returns' | 'reports' | 'logs' | 'wholesale' | 'delivery' | 'customers' | 'hr' | 'einvoices';